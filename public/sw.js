@@ -0,0 +1,150 @@
+/*
+ * Service worker for field collection.
+ * - Uploads the sample outbox (see src/lib/outbox.ts; the database layout and
+ *   upload rules below must match it) when background sync fires.
+ * - Keeps the collect pages and build assets cached so the collection form
+ *   still opens without a connection.
+ */
+
+const DB_NAME = 'spore-outbox';
+const DB_VERSION = 1;
+const STORE = 'samples';
+const LOCK_NAME = 'sample-outbox';
+const SYNC_TAG = 'sample-outbox';
+const OUTBOX_CHANGED = 'outbox-changed';
+const CACHE_NAME = 'spore-pages-v2';
+
+// Pages that record samples into the outbox; no other page is cached, so
+// admin pages are not left on shared field devices
+const COLLECT_PAGES = ['/sample', '/field'];
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Build assets are content-hashed, so cached copies never go stale; collect
+// pages come from the network when possible and from the cache otherwise
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(event.request).then(cached => cached || fetchAndCache(event.request))
+    );
+  } else if (event.request.mode === 'navigate' && COLLECT_PAGES.includes(url.pathname.replace(/\/$/, ''))) {
+    event.respondWith(
+      fetchAndCache(event.request).catch(() => caches.match(event.request).then(cached => cached || Response.error()))
+    );
+  }
+});
+
+async function fetchAndCache(request) {
+  const response = await fetch(request);
+  // A redirect (e.g. to /login when signed out) must not be stored as the page
+  if (response.ok && !response.redirected && response.type === 'basic') {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(flushOutbox());
+  }
+});
+
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function withStore(db, mode, action) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function uploadEntry(db, id) {
+  const entry = await withStore(db, 'readonly', store => store.get(id));
+  if (!entry || entry.status !== 'pending') return true;
+
+  let outcome;
+  let error = null;
+  try {
+    const response = await fetch('/api/samples', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': entry.id },
+      body: JSON.stringify(entry.body)
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (response.ok) {
+      outcome = 'uploaded';
+    } else if (response.status === 400 || response.status === 409) {
+      outcome = 'failed';
+      error = data.error || 'Sample was rejected';
+    } else if (response.status === 401 || response.status === 403) {
+      outcome = 'pending';
+      error = 'Log in again to upload';
+    } else {
+      outcome = 'pending';
+      error = data.error || `Server error (${response.status})`;
+    }
+  } catch {
+    // Still offline: throwing below makes the browser retry the sync later
+    outcome = 'pending';
+    error = 'No connection';
+  }
+
+  if (outcome === 'uploaded') {
+    await withStore(db, 'readwrite', store => store.delete(id));
+  } else {
+    await withStore(db, 'readwrite', store =>
+      store.put({ ...entry, attempts: entry.attempts + 1, status: outcome, lastError: error })
+    );
+  }
+  return outcome !== 'pending';
+}
+
+async function flushOutbox() {
+  const run = async () => {
+    const db = await openOutbox();
+    try {
+      const entries = await withStore(db, 'readonly', store => store.getAll());
+      let retryLater = false;
+      for (const entry of entries.sort((a, b) => a.queuedAt - b.queuedAt)) {
+        if (entry.status !== 'pending') continue;
+        if (!(await uploadEntry(db, entry.id))) retryLater = true;
+      }
+      return retryLater;
+    } finally {
+      db.close();
+    }
+  };
+
+  const retryLater = self.navigator.locks ? await self.navigator.locks.request(LOCK_NAME, run) : await run();
+
+  const clients = await self.clients.matchAll();
+  clients.forEach(client => client.postMessage({ type: OUTBOX_CHANGED }));
+
+  if (retryLater) {
+    throw new Error('Some samples could not be uploaded yet');
+  }
+}
@@ -1,34 +1,59 @@
-#!/usr/bin/env node
+#!/usr/bin/env -S npx tsx
 
 /**
  * Data ingestion script for pathogen monitoring data
- * Usage: node scripts/ingest-data.js --file path/to/data.csv [--dry-run] [--org "Organization Name"]
+ * Usage: npx tsx scripts/ingest-data.ts --file path/to/data.csv [--dry-run] [--org "Organization Name"]
  */
 
-const fs = require('fs');
-const path = require('path');
-const { createClient } = require('@supabase/supabase-js');
-const csv = require('csv-parser');
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { createClient } from '@supabase/supabase-js';
+import { parseCSV } from '../src/lib/csv';
+import { buildSpeciesLookup, resolveSpecies } from '../src/lib/speciesMatching';
+
+interface CSVRow {
+  sample_id: string;
+  start_name: string;
+  start_point: string;
+  end_name: string;
+  end_point: string;
+  species: string;
+  read_count: string;
+  collection_date: string;
+}
+
+interface TransformedSample {
+  sample_id: string;
+  start_name: string;
+  end_name: string;
+  start_latitude: number;
+  start_longitude: number;
+  end_latitude: number;
+  end_longitude: number;
+  collection_date: Date;
+  pathogens: Array<{ species: string; read_count: number }>;
+}
 
 // Parse command line arguments
 const args = process.argv.slice(2);
-const getArg = (flag) => {
+const getArg = (flag: string) => {
   const index = args.indexOf(flag);
   return index > -1 ? args[index + 1] : null;
 };
-const hasFlag = (flag) => args.includes(flag);
+const hasFlag = (flag: string) => args.includes(flag);
 
 const csvFile = getArg('--file');
 const dryRun = hasFlag('--dry-run');
 const orgName = getArg('--org') || 'Default Organization';
 
 if (!csvFile) {
-  console.error('Usage: node scripts/ingest-data.js --file path/to/data.csv [--dry-run] [--org "Organization Name"]');
+  console.error('Usage: npx tsx scripts/ingest-data.ts --file path/to/data.csv [--dry-run] [--org "Organization Name"]');
   process.exit(1);
 }
 
 // Load environment variables
-require('dotenv').config({ path: path.join(__dirname, '../.env.local') });
+dotenv.config({ path: path.join(__dirname, '../.env.local') });
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -41,31 +66,25 @@ if (!supabaseUrl || !supabaseKey) {
 const supabase = createClient(supabaseUrl, supabaseKey);
 
 /**
- * Parse CSV file using proper CSV parser
+ * Parse CSV file with the shared RFC 4180 parser
  */
-function parseCSV(filePath) {
-  return new Promise((resolve, reject) => {
-    const data = [];
-
-    fs.createReadStream(filePath)
-      .pipe(csv())
-      .on('data', (row) => {
-        // Only add row if it has the required fields
-        if (row.sample_id && row.species) {
-          data.push(row);
-        }
-      })
-      .on('end', () => {
-        resolve(data);
-      })
-      .on('error', reject);
+function readCSV(filePath: string): CSVRow[] {
+  const { records, errors } = parseCSV(fs.readFileSync(filePath, 'utf8'));
+
+  errors.forEach(error => {
+    console.warn(`⚠️  Line ${error.line}: ${error.message} - skipped`);
   });
+
+  // Only keep rows that have the required fields
+  return records
+    .map(record => record.values as unknown as CSVRow)
+    .filter(row => row.sample_id && row.species);
 }
 
 /**
  * Parse quoted coordinates like "-31.95086, 115.86223"
  */
-function parseCoordinates(coordString) {
+function parseCoordinates(coordString: string) {
   const cleaned = coordString.replace(/"/g, '');
   const [lat, lng] = cleaned.split(',').map(s => parseFloat(s.trim()));
   return { lat, lng };
@@ -74,15 +93,15 @@ function parseCoordinates(coordString) {
 /**
  * Parse date in DD/MM/YYYY format
  */
-function parseDate(dateString) {
-  const [day, month, year] = dateString.split('/');
+function parseDate(dateString: string) {
+  const [day, month, year] = dateString.split('/').map(Number);
   return new Date(year, month - 1, day);
 }
 
 /**
  * Calculate season from date (Southern Hemisphere)
  */
-function calculateSeason(date) {
+function calculateSeason(date: Date) {
   const month = date.getMonth() + 1; // getMonth() returns 0-11
   if ([12, 1, 2].includes(month)) return 'summer';
   if ([3, 4, 5].includes(month)) return 'autumn';
@@ -93,9 +112,9 @@ function calculateSeason(date) {
 /**
  * Transform CSV data to database format
  */
-function transformData(csvData) {
+function transformData(csvData: CSVRow[]) {
   // Group by sample_id
-  const sampleGroups = {};
+  const sampleGroups: Record<string, TransformedSample> = {};
 
   csvData.forEach(row => {
     const sampleId = row.sample_id;
@@ -133,7 +152,7 @@ function transformData(csvData) {
 async function ingestData() {
   try {
     console.log(`🔍 Reading CSV file: ${csvFile}`);
-    const csvData = await parseCSV(csvFile);
+    const csvData = readCSV(csvFile!);
     console.log(`📊 Found ${csvData.length} rows in CSV`);
 
     console.log(`🔄 Transforming data...`);
@@ -157,8 +176,13 @@ async function ingestData() {
 
     if (speciesError) throw speciesError;
 
-    const speciesMap = new Map();
-    species.forEach(s => speciesMap.set(s.species_name, s.id));
+    const { data: synonyms, error: synonymsError } = await supabase
+      .from('pathogen_species_synonyms')
+      .select('pathogen_species_id, synonym');
+
+    if (synonymsError) throw synonymsError;
+
+    const speciesLookup = buildSpeciesLookup(species, synonyms);
 
     // Insert data
     console.log(`💾 Inserting ${transformedData.length} samples...`);
@@ -190,10 +214,11 @@ async function ingestData() {
 
       // Insert pathogen detections
       const detections = sample.pathogens
-        .filter(p => speciesMap.has(p.species))
+        .map(p => ({ ...p, match: resolveSpecies(p.species, speciesLookup) }))
+        .filter(p => p.match)
         .map(p => ({
           route_id: route.id,
-          pathogen_species_id: speciesMap.get(p.species),
+          pathogen_species_id: p.match!.id,
           read_count: p.read_count
         }));
 
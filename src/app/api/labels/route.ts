@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { loadSampleIdSchemes } from '@/lib/sampleIdAllocator';
+import { MAX_LABELS_PER_BATCH } from '@/lib/sampleLabels';
+import { schemeForDate } from '@/lib/sampleIds';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// GET - The label batches issued so far, newest first
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('label_batches')
+      .select(`
+        id, prefix, label_count, created_at,
+        scheme:sample_id_schemes (season, pattern),
+        creator:users!label_batches_created_by_fkey (email, full_name),
+        sample_labels (sample_id, used_at)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching label batches:', error);
+      return NextResponse.json({ error: 'Failed to fetch label batches' }, { status: 500 });
+    }
+
+    return NextResponse.json({ batches: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Issue a batch of sample IDs for printing, from the given scheme or
+// the one covering today
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { schemeId, count } = await request.json();
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_LABELS_PER_BATCH) {
+      return NextResponse.json(
+        { error: `Count must be a whole number from 1 to ${MAX_LABELS_PER_BATCH}` },
+        { status: 400 }
+      );
+    }
+
+    const schemes = await loadSampleIdSchemes();
+    const scheme = schemeId ? schemes.find(candidate => candidate.id === schemeId) : schemeForDate(schemes);
+
+    if (!scheme) {
+      return NextResponse.json(
+        { error: schemeId ? 'Sample ID scheme not found' : 'No sample ID scheme covers today' },
+        { status: schemeId ? 404 : 409 }
+      );
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('issue_sample_labels', {
+      p_scheme_id: scheme.id,
+      p_count: count,
+      p_issued_by: auth.user.id,
+    });
+
+    if (error) {
+      console.error('Error issuing sample labels:', error);
+      return NextResponse.json({ error: 'Failed to issue sample labels' }, { status: 500 });
+    }
+
+    return NextResponse.json({ batchId: data.batch_id, sampleIds: data.sample_ids }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import bcrypt from 'bcryptjs';
-import { randomBytes } from 'crypto';
+import { clientIp, createSession, setSessionCookie } from '@/lib/sessions';
 
 const supabaseAdmin = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -29,7 +29,7 @@ function checkRateLimit(ip: string): boolean {
 }
 
 export async function POST(request: NextRequest) {
-  const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ?? 'unknown';
+  const ip = clientIp(request) ?? 'unknown';
 
   if (!checkRateLimit(ip)) {
     return NextResponse.json(
@@ -52,7 +52,8 @@ export async function POST(request: NextRequest) {
       .eq('is_active', true)
       .single();
 
-    if (error || !userData) {
+    // Invited users cannot sign in until they have set a password
+    if (error || !userData || !userData.password_hash) {
       return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
     }
 
@@ -61,16 +62,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
     }
 
-    // Generate a secure session token
-    const token = randomBytes(32).toString('hex');
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-
-    // Store session in DB
-    await supabaseAdmin.from('sessions').insert({
-      token,
-      user_id: userData.id,
-      expires_at: expiresAt.toISOString(),
-    });
+    const { token, expiresAt } = await createSession(userData.id, request);
 
     // Update last login
     await supabaseAdmin
@@ -89,13 +81,7 @@ export async function POST(request: NextRequest) {
     const response = NextResponse.json({ user });
 
     // Set HTTP-only cookie
-    response.cookies.set('session', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      expires: expiresAt,
-      path: '/',
-    });
+    setSessionCookie(response, token, expiresAt);
 
     return response;
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { SESSION_COOKIE, clearSessionCookie } from '@/lib/sessions';
 
 const supabaseAdmin = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -7,7 +8,7 @@ const supabaseAdmin = createClient(
 );
 
 export async function POST(request: NextRequest) {
-  const token = request.cookies.get('session')?.value;
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
 
   if (token) {
     // Delete session from DB
@@ -15,13 +16,7 @@ export async function POST(request: NextRequest) {
   }
 
   const response = NextResponse.json({ success: true });
-  response.cookies.set('session', '', {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    expires: new Date(0),
-    path: '/',
-  });
+  clearSessionCookie(response);
 
   return response;
 }
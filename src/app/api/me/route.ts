@@ -1,9 +1,15 @@
 import { NextRequest } from 'next/server';
 import { requireAuth } from '@/lib/apiAuth';
+import { setSessionCookie } from '@/lib/sessions';
 import { NextResponse } from 'next/server';
 
+// GET - The signed-in user, from the session cookie; the client's only source of identity
 export async function GET(request: NextRequest) {
   const result = await requireAuth(request, 'viewer');
   if (result instanceof NextResponse) return result;
-  return NextResponse.json({ user: result.user });
+
+  const response = NextResponse.json({ user: { ...result.user, isActive: true } });
+  // Carry the slid expiry over to the cookie, which every page load fetches this through
+  setSessionCookie(response, result.session.token, result.session.expiresAt);
+  return response;
 }
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import bcrypt from 'bcryptjs';
+import { requireAuth } from '@/lib/apiAuth';
+import { setPassword } from '@/lib/passwordTokens';
+import { validatePassword } from '@/lib/passwords';
+import { revokeUserSessions } from '@/lib/sessions';
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// POST - Change the signed-in user's password
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'viewer');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { currentPassword, newPassword } = await request.json();
+
+    if (!currentPassword) {
+      return NextResponse.json({ error: 'Current password is required' }, { status: 400 });
+    }
+
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .select('password_hash')
+      .eq('id', auth.user.id)
+      .single();
+
+    if (error || !user) {
+      console.error('Error fetching user:', error);
+      return NextResponse.json({ error: 'Failed to fetch user' }, { status: 500 });
+    }
+
+    if (!user.password_hash || !(await bcrypt.compare(currentPassword, user.password_hash))) {
+      return NextResponse.json({ error: 'Current password is incorrect' }, { status: 403 });
+    }
+
+    await setPassword(auth.user.id, newPassword);
+
+    // Other devices signed in with the old password are signed out
+    const revoked = await revokeUserSessions(auth.user.id, auth.session.id);
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
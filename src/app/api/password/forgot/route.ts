@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { clientIp } from '@/lib/sessions';
+import { sendPasswordReset } from '@/lib/passwordTokens';
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Simple in-memory rate limiter: max 5 reset requests per IP per 15 minutes
+const resetRequests = new Map<string, { count: number; resetAt: number }>();
+const MAX_REQUESTS = 5;
+const WINDOW_MS = 15 * 60 * 1000;
+
+function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const record = resetRequests.get(ip);
+
+  if (!record || now > record.resetAt) {
+    resetRequests.set(ip, { count: 1, resetAt: now + WINDOW_MS });
+    return true;
+  }
+
+  if (record.count >= MAX_REQUESTS) return false;
+
+  record.count++;
+  return true;
+}
+
+// Same answer whether or not the address has an account
+const SENT_MESSAGE = 'If that email belongs to an account, a reset link is on its way';
+
+// POST - Email a password reset link
+export async function POST(request: NextRequest) {
+  if (!checkRateLimit(clientIp(request) ?? 'unknown')) {
+    return NextResponse.json(
+      { error: 'Too many reset requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const { email } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .select('id, email, full_name')
+      .eq('email', email.toLowerCase())
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching user:', error);
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+
+    if (user) {
+      try {
+        await sendPasswordReset(user);
+      } catch (sendError) {
+        // Logged only: an error here would reveal that the account exists
+        console.error('Error sending password reset:', sendError);
+      }
+    }
+
+    return NextResponse.json({ message: SENT_MESSAGE });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
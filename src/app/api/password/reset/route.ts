@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { consumePasswordToken, findPasswordToken, setPassword } from '@/lib/passwordTokens';
+import { validatePassword } from '@/lib/passwords';
+import { createSession, revokeUserSessions, setSessionCookie } from '@/lib/sessions';
+
+const INVALID_LINK = 'This link is invalid, has expired or has already been used';
+
+// GET - Check an invitation or reset link before showing the password form
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+
+    if (!token) {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 });
+    }
+
+    const found = await findPasswordToken(token);
+    if (!found) {
+      return NextResponse.json({ error: INVALID_LINK }, { status: 410 });
+    }
+
+    return NextResponse.json({ purpose: found.purpose, email: found.user.email });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Set a password with an invitation or reset link, then sign in
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    if (!token) {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 });
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    // Checked first so a deactivated user's link is refused before it is spent
+    if (!(await findPasswordToken(token))) {
+      return NextResponse.json({ error: INVALID_LINK }, { status: 410 });
+    }
+
+    const consumed = await consumePasswordToken(token);
+    if (!consumed) {
+      return NextResponse.json({ error: INVALID_LINK }, { status: 410 });
+    }
+
+    await setPassword(consumed.userId, password);
+
+    // Whoever knew the old password is signed out
+    await revokeUserSessions(consumed.userId);
+
+    const { token: sessionToken, expiresAt } = await createSession(consumed.userId, request);
+    const response = NextResponse.json({ success: true });
+    setSessionCookie(response, sessionToken, expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { SEVERITY_METRIC_LABELS, SeverityThresholds, validateThresholds } from '@/lib/severity';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+interface PathogenFields extends SeverityThresholds {
+  species_name: string;
+  common_name: string;
+  disease_type: string;
+  ncbi_taxid: number | null;
+}
+
+// Editable species fields from a request body, or why they are invalid
+function parsePathogenFields(body: Record<string, unknown>): { fields: PathogenFields } | { error: string } {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const species_name = text(body.species_name);
+  const common_name = text(body.common_name);
+  const disease_type = text(body.disease_type);
+
+  if (!species_name || !common_name || !disease_type) {
+    return { error: 'Species name, common name and disease type are required' };
+  }
+
+  const { ncbi_taxid } = body;
+  if (ncbi_taxid !== null && ncbi_taxid !== undefined && !(Number.isInteger(ncbi_taxid) && (ncbi_taxid as number) > 0)) {
+    return { error: 'NCBI taxid must be a positive whole number' };
+  }
+
+  if (typeof body.severity_metric !== 'string' || !Object.hasOwn(SEVERITY_METRIC_LABELS, body.severity_metric)) {
+    return { error: 'Invalid severity metric' };
+  }
+
+  const thresholds = {
+    severity_metric: body.severity_metric,
+    medium_threshold: Number(body.medium_threshold),
+    high_threshold: Number(body.high_threshold),
+  } as SeverityThresholds;
+  const thresholdError = validateThresholds(thresholds);
+  if (thresholdError) return { error: thresholdError };
+
+  return {
+    fields: { species_name, common_name, disease_type, ncbi_taxid: (ncbi_taxid as number | undefined) ?? null, ...thresholds },
+  };
+}
+
+// POST - Add a pathogen species
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const parsed = parsePathogenFields(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: pathogen, error } = await supabaseAdmin
+      .from('pathogen_species')
+      .insert(parsed.fields)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A pathogen with this species name or NCBI taxid already exists' }, { status: 409 });
+      }
+      console.error('Error creating pathogen:', error);
+      return NextResponse.json({ error: 'Failed to create pathogen' }, { status: 500 });
+    }
+
+    return NextResponse.json({ pathogen }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Update a pathogen species
+export async function PATCH(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'Pathogen ID is required' }, { status: 400 });
+    }
+
+    const parsed = parsePathogenFields(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: pathogen, error } = await supabaseAdmin
+      .from('pathogen_species')
+      .update(parsed.fields)
+      .eq('id', body.id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A pathogen with this species name or NCBI taxid already exists' }, { status: 409 });
+      }
+      console.error('Error updating pathogen:', error);
+      return NextResponse.json({ error: 'Failed to update pathogen' }, { status: 500 });
+    }
+
+    if (!pathogen) {
+      return NextResponse.json({ error: 'Pathogen not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ pathogen });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a pathogen species that has no detections
+export async function DELETE(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const pathogenId = request.nextUrl.searchParams.get('id');
+
+    if (!pathogenId) {
+      return NextResponse.json({ error: 'Pathogen ID is required' }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('pathogen_species')
+      .delete()
+      .eq('id', pathogenId);
+
+    if (error) {
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'Cannot delete this pathogen because it has associated detection data' }, { status: 409 });
+      }
+      console.error('Error deleting pathogen:', error);
+      return NextResponse.json({ error: 'Failed to delete pathogen' }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: 'Pathogen deleted successfully' });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
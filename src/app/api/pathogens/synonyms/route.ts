@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// GET - List species synonyms
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('pathogen_species_synonyms')
+      .select('id, pathogen_species_id, synonym, created_at')
+      .order('synonym');
+
+    if (error) {
+      console.error('Error fetching synonyms:', error);
+      return NextResponse.json({ error: 'Failed to fetch synonyms' }, { status: 500 });
+    }
+
+    return NextResponse.json({ synonyms: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Add a synonym, e.g. when accepting a suggested match during an upload
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const synonym = typeof body.synonym === 'string' ? body.synonym.replace(/\s+/g, ' ').trim() : '';
+    const { pathogen_species_id } = body;
+
+    if (!synonym || !pathogen_species_id) {
+      return NextResponse.json({ error: 'Species and synonym are required' }, { status: 400 });
+    }
+
+    // A synonym must not shadow another species' canonical name
+    const { data: existingSpecies } = await supabaseAdmin
+      .from('pathogen_species')
+      .select('id')
+      .ilike('species_name', synonym.replace(/[%_\\]/g, '\\$&'))
+      .maybeSingle();
+
+    if (existingSpecies) {
+      return NextResponse.json(
+        { error: `${synonym} is already a pathogen species name` },
+        { status: 409 }
+      );
+    }
+
+    const { data: newSynonym, error } = await supabaseAdmin
+      .from('pathogen_species_synonyms')
+      .insert({ pathogen_species_id, synonym, created_by: auth.user.id })
+      .select('id, pathogen_species_id, synonym, created_at')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `${synonym} is already a synonym` }, { status: 409 });
+      }
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'Pathogen species not found' }, { status: 404 });
+      }
+      console.error('Error creating synonym:', error);
+      return NextResponse.json({ error: 'Failed to create synonym' }, { status: 500 });
+    }
+
+    return NextResponse.json({ synonym: newSynonym }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a synonym
+export async function DELETE(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const synonymId = request.nextUrl.searchParams.get('id');
+
+    if (!synonymId) {
+      return NextResponse.json({ error: 'Synonym ID is required' }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('pathogen_species_synonyms')
+      .delete()
+      .eq('id', synonymId);
+
+    if (error) {
+      console.error('Error deleting synonym:', error);
+      return NextResponse.json({ error: 'Failed to delete synonym' }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: 'Synonym deleted successfully' });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
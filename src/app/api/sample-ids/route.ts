@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { checkSampleId, loadSampleIdSchemes } from '@/lib/sampleIdAllocator';
+import { MAX_RESERVATIONS, schemeForDate } from '@/lib/sampleIds';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// GET - With ?sampleId=, whether that ID can be recorded.
+// Without, the ID schemes, the current season's scheme and the caller's unused reservations.
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const sampleId = request.nextUrl.searchParams.get('sampleId')?.trim();
+
+    if (sampleId) {
+      const check = await checkSampleId(sampleId, auth.user);
+      return NextResponse.json({ check });
+    }
+
+    const schemes = await loadSampleIdSchemes();
+
+    const { data: reservations, error } = await supabaseAdmin
+      .from('sample_labels')
+      .select('sample_id, issued_at')
+      .eq('reserved_by', auth.user.id)
+      .is('used_at', null)
+      .order('issued_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching reservations:', error);
+      return NextResponse.json({ error: 'Failed to fetch reservations' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      schemes,
+      currentScheme: schemeForDate(schemes),
+      reservations: reservations.map(reservation => reservation.sample_id),
+    });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Reserve the next sample IDs of the current season for the caller
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { count } = await request.json();
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_RESERVATIONS) {
+      return NextResponse.json(
+        { error: `Count must be a whole number from 1 to ${MAX_RESERVATIONS}` },
+        { status: 400 }
+      );
+    }
+
+    const scheme = schemeForDate(await loadSampleIdSchemes());
+    if (!scheme) {
+      return NextResponse.json(
+        { error: 'No sample ID scheme covers today; ask an admin to set one up' },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('allocate_sample_ids', {
+      p_scheme_id: scheme.id,
+      p_count: count,
+      p_allocated_by: auth.user.id,
+    });
+
+    if (error) {
+      console.error('Error reserving sample IDs:', error);
+      return NextResponse.json({ error: 'Failed to reserve sample IDs' }, { status: 500 });
+    }
+
+    return NextResponse.json({ sampleIds: data }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { SAMPLE_ID_SCHEME_COLUMNS, parseSchemeFields } from '@/lib/sampleIds';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// POST - Create a season's sample ID scheme
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const parsed = parseSchemeFields(await request.json());
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: scheme, error } = await supabaseAdmin
+      .from('sample_id_schemes')
+      .insert({ ...parsed.fields, created_by: auth.user.id })
+      .select(SAMPLE_ID_SCHEME_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A scheme for this season already exists' }, { status: 409 });
+      }
+      console.error('Error creating sample ID scheme:', error);
+      return NextResponse.json({ error: 'Failed to create sample ID scheme' }, { status: 500 });
+    }
+
+    return NextResponse.json({ scheme }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Update a scheme's pattern or dates. IDs already issued keep their
+// old form; the allocator skips any new ID that collides with an existing one.
+export async function PUT(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = parseSchemeFields(body, true);
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'Scheme ID is required' }, { status: 400 });
+    }
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: scheme, error } = await supabaseAdmin
+      .from('sample_id_schemes')
+      .update(parsed.fields)
+      .eq('id', body.id)
+      .select(SAMPLE_ID_SCHEME_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A scheme for this season already exists' }, { status: 409 });
+      }
+      // season_dates_ordered, when only one of the dates was sent
+      if (error.code === '23514') {
+        return NextResponse.json({ error: 'End date must not be before the start date' }, { status: 400 });
+      }
+      console.error('Error updating sample ID scheme:', error);
+      return NextResponse.json({ error: 'Failed to update sample ID scheme' }, { status: 500 });
+    }
+
+    if (!scheme) {
+      return NextResponse.json({ error: 'Sample ID scheme not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ scheme });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { UserRole, canModify, requireAuth } from '@/lib/apiAuth';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// A response if the user may not change the route's detections, otherwise null
+async function checkRouteAccess(user: { id: string; role: UserRole }, routeId: string) {
+  const { data: route, error } = await supabaseAdmin
+    .from('sampling_routes')
+    .select('created_by')
+    .eq('id', routeId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching route:', error);
+    return NextResponse.json({ error: 'Failed to fetch route' }, { status: 500 });
+  }
+
+  if (!route) {
+    return NextResponse.json({ error: 'Route not found' }, { status: 404 });
+  }
+
+  if (!canModify(user, route.created_by)) {
+    return NextResponse.json({ error: 'Only admins can change detections on routes recorded by someone else' }, { status: 403 });
+  }
+
+  return null;
+}
+
+// POST - Add a pathogen detection by hand
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { routeId, pathogenSpeciesId, readCount } = await request.json();
+
+    if (!routeId || !pathogenSpeciesId) {
+      return NextResponse.json({ error: 'Route and pathogen species are required' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(readCount) || readCount < 0) {
+      return NextResponse.json({ error: 'Read count must be a whole number of zero or more' }, { status: 400 });
+    }
+
+    const denied = await checkRouteAccess(auth.user, routeId);
+    if (denied) return denied;
+
+    const { data: detection, error } = await supabaseAdmin
+      .from('pathogen_detections')
+      .insert({ route_id: routeId, pathogen_species_id: pathogenSpeciesId, read_count: readCount })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'This pathogen detection already exists for this route' }, { status: 409 });
+      }
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'Pathogen species not found' }, { status: 404 });
+      }
+      console.error('Error creating detection:', error);
+      return NextResponse.json({ error: 'Failed to create detection' }, { status: 500 });
+    }
+
+    return NextResponse.json({ detection }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a pathogen detection
+export async function DELETE(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const detectionId = request.nextUrl.searchParams.get('id');
+
+    if (!detectionId) {
+      return NextResponse.json({ error: 'Detection ID is required' }, { status: 400 });
+    }
+
+    const { data: detection, error: fetchError } = await supabaseAdmin
+      .from('pathogen_detections')
+      .select('route_id')
+      .eq('id', detectionId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching detection:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch detection' }, { status: 500 });
+    }
+
+    if (!detection) {
+      return NextResponse.json({ error: 'Detection not found' }, { status: 404 });
+    }
+
+    const denied = await checkRouteAccess(auth.user, detection.route_id);
+    if (denied) return denied;
+
+    const { error } = await supabaseAdmin
+      .from('pathogen_detections')
+      .delete()
+      .eq('id', detectionId);
+
+    if (error) {
+      console.error('Error deleting detection:', error);
+      return NextResponse.json({ error: 'Failed to delete detection' }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: 'Detection deleted successfully' });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { ExportPoint, TRACK_FORMATS, formatTrack, isTrackFormat } from '@/lib/trackFormats';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// GET - Download a route and its GPS track (?routeId=...&format=gpx|kml|geojson)
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'viewer');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const routeId = request.nextUrl.searchParams.get('routeId');
+    const format = request.nextUrl.searchParams.get('format') || 'gpx';
+
+    if (!routeId) {
+      return NextResponse.json({ error: 'Route ID is required' }, { status: 400 });
+    }
+
+    if (!isTrackFormat(format)) {
+      return NextResponse.json({ error: 'Format must be gpx, kml or geojson' }, { status: 400 });
+    }
+
+    const { data: route, error: routeError } = await supabaseAdmin
+      .from('sampling_routes')
+      .select('sample_id, start_name, end_name, start_latitude, start_longitude, end_latitude, end_longitude, collection_date')
+      .eq('id', routeId)
+      .maybeSingle();
+
+    if (routeError) {
+      console.error('Error fetching route:', routeError);
+      return NextResponse.json({ error: 'Failed to fetch route' }, { status: 500 });
+    }
+
+    if (!route) {
+      return NextResponse.json({ error: 'Route not found' }, { status: 404 });
+    }
+
+    const points: ExportPoint[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('gps_tracking_points')
+        .select('latitude, longitude, accuracy, recorded_at')
+        .eq('route_id', routeId)
+        .order('recorded_at')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching track:', error);
+        return NextResponse.json({ error: 'Failed to fetch track' }, { status: 500 });
+      }
+
+      for (const { latitude, longitude, accuracy, recorded_at } of data) {
+        points.push({
+          latitude: Number(latitude),
+          longitude: Number(longitude),
+          accuracy: accuracy === null ? null : Number(accuracy),
+          recorded_at,
+        });
+      }
+
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    const { mimeType, extension } = TRACK_FORMATS[format];
+    const body = formatTrack(format, {
+      ...route,
+      start_latitude: Number(route.start_latitude),
+      start_longitude: Number(route.start_longitude),
+      end_latitude: Number(route.end_latitude),
+      end_longitude: Number(route.end_longitude),
+    }, points);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': `${mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${route.sample_id.replace(/[^\w.-]/g, '_')}.${extension}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
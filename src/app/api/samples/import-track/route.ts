@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { canModify, requireAuth } from '@/lib/apiAuth';
+import { checkSampleId } from '@/lib/sampleIdAllocator';
+import { parseTrackFile } from '@/lib/trackFormats';
+import { processRouteTrack } from '@/lib/trackProcessing';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_POINTS = 50000;
+
+// POST - Set a route's start, end and track from an uploaded GPX or KML file
+// (multipart: file, sampleId, optional startName/endName). Creates the route
+// when no sample with that ID has been recorded yet; samplers may only replace
+// the tracks of routes they recorded.
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const sampleId = String(formData.get('sampleId') ?? '').trim();
+    const startName = String(formData.get('startName') ?? '').trim();
+    const endName = String(formData.get('endName') ?? '').trim();
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A GPX or KML file is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: 'Track files must be 10 MB or smaller' }, { status: 400 });
+    }
+
+    if (!sampleId) {
+      return NextResponse.json({ error: 'Sample ID is required' }, { status: 400 });
+    }
+
+    const parsed = parseTrackFile(await file.text(), file.name);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { points } = parsed;
+    if (points.length > MAX_POINTS) {
+      return NextResponse.json({ error: `Tracks can have at most ${MAX_POINTS} points` }, { status: 400 });
+    }
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const startTime = points.find(point => point.recorded_at)?.recorded_at ?? null;
+    const endTime = [...points].reverse().find(point => point.recorded_at)?.recorded_at ?? null;
+
+    const routeFields = {
+      start_latitude: first.latitude,
+      start_longitude: first.longitude,
+      end_latitude: last.latitude,
+      end_longitude: last.longitude,
+      ...(startName && { start_name: startName }),
+      ...(endName && { end_name: endName }),
+      ...(startTime && { collection_start_time: startTime, collection_end_time: endTime }),
+    };
+
+    // The check is made first so the route is looked up by the ID it gives
+    // back, the same one a new route would be created with
+    const check = await checkSampleId(sampleId, auth.user);
+    if (check.status === 'malformed') {
+      return NextResponse.json({ error: check.message }, { status: 400 });
+    }
+    if (check.status === 'reserved') {
+      return NextResponse.json({ error: check.message }, { status: 409 });
+    }
+
+    let existing: { id: string; created_by: string | null; collection_start_time: string | null } | null = null;
+    if (check.status === 'used') {
+      const { data, error: lookupError } = await supabaseAdmin
+        .from('sampling_routes')
+        .select('id, created_by, collection_start_time')
+        .eq('sample_id', check.sampleId)
+        .maybeSingle();
+
+      if (lookupError) {
+        console.error('Error fetching route:', lookupError);
+        return NextResponse.json({ error: 'Failed to fetch route' }, { status: 500 });
+      }
+
+      // Used as a label without a route being recorded
+      if (!data) {
+        return NextResponse.json({ error: check.message }, { status: 409 });
+      }
+      existing = data;
+    }
+
+    if (existing && !canModify(auth.user, existing.created_by)) {
+      return NextResponse.json({ error: `${check.sampleId} was recorded by someone else; only admins can replace its track` }, { status: 403 });
+    }
+
+    let target = existing;
+    if (!target) {
+      const { data, error } = await supabaseAdmin
+        .from('sampling_routes')
+        .insert({
+          sample_id: check.sampleId,
+          start_name: 'Field Location',
+          end_name: 'Field Location',
+          ...routeFields,
+          collection_date: (startTime ?? new Date().toISOString()).split('T')[0],
+          created_by: auth.user.id
+        })
+        .select('id, created_by, collection_start_time')
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return NextResponse.json({ error: `Sample ID ${check.sampleId} has already been used` }, { status: 409 });
+        }
+        console.error('Error creating route:', error);
+        return NextResponse.json({ error: 'Failed to create route' }, { status: 500 });
+      }
+      target = data;
+    }
+
+    // Untimed points (planned routes, plain KML lines) are stamped a
+    // millisecond apart from the route's start so they keep file order
+    const fallbackTime = Date.parse(startTime ?? target.collection_start_time ?? new Date().toISOString());
+
+    // The route, its old fixes and the new ones change together, so a failed
+    // upload leaves the previous track in place
+    const { data: route, error: trackError } = await supabaseAdmin.rpc('replace_route_track', {
+      p_route_id: target.id,
+      p_route: routeFields,
+      p_points: points.map((point, i) => ({
+        latitude: point.latitude,
+        longitude: point.longitude,
+        recorded_at: point.recorded_at ?? new Date(fallbackTime + i).toISOString()
+      })),
+      p_recorded_by: auth.user.id
+    });
+
+    if (trackError) {
+      console.error('Error saving track:', trackError);
+      // A route created for this upload goes too, rather than being left without a track
+      if (!existing) {
+        await supabaseAdmin.from('sampling_routes').delete().eq('id', target.id);
+      }
+      return NextResponse.json({ error: 'Failed to save track' }, { status: 500 });
+    }
+
+    // The track is saved by now, so a quality control failure is reported
+    // alongside it rather than as a failed upload
+    let qc: Awaited<ReturnType<typeof processRouteTrack>> = { stats: null, speedFlag: null };
+    let qcError: string | null = null;
+    try {
+      qc = await processRouteTrack(route.id);
+    } catch (error) {
+      console.error('Track processing error:', error);
+      qcError = 'Track saved, but quality control failed; re-run it from the sample details';
+    }
+
+    return NextResponse.json({ route, pointCount: points.length, created: !existing, ...qc, qcError });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
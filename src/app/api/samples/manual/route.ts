@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { checkSampleId } from '@/lib/sampleIdAllocator';
+import { parseRouteFields } from '@/lib/samplingRoutes';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// POST - Record a route entered by hand, without a GPS track
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const parsed = parseRouteFields(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const check = await checkSampleId(parsed.fields.sample_id, auth.user);
+    if (check.status === 'malformed') {
+      return NextResponse.json({ error: check.message }, { status: 400 });
+    }
+    if (check.status === 'used' || check.status === 'reserved') {
+      return NextResponse.json({ error: check.message }, { status: 409 });
+    }
+
+    const { data: route, error } = await supabaseAdmin
+      .from('sampling_routes')
+      .insert({ ...parsed.fields, sample_id: check.sampleId, created_by: auth.user.id })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `Sample ID ${check.sampleId} has already been used` }, { status: 409 });
+      }
+      console.error('Error creating route:', error);
+      return NextResponse.json({ error: 'Failed to create route' }, { status: 500 });
+    }
+
+    return NextResponse.json({ route }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
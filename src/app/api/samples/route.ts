@@ -2,6 +2,11 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { canModify, requireAuth } from '@/lib/apiAuth';
+import { checkSampleId } from '@/lib/sampleIdAllocator';
+import { isTripId, parseTripMetadata } from '@/lib/fieldTrips';
+import { parseRouteFields } from '@/lib/samplingRoutes';
+import { processRouteTrack } from '@/lib/trackProcessing';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -15,10 +20,17 @@ const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
 });
 
 export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'viewer');
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { data, error } = await supabaseAdmin
       .from('sampling_routes')
-      .select('*')
+      .select(`
+        *,
+        sequencing_run:sequencing_runs (name, primer_set, platform, pipeline_version, run_date, notes),
+        trip:field_trips (name, trip_date, vehicle, sampler_name, weather, notes)
+      `)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -33,7 +45,81 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Correct a route's ID, names, coordinates or date; samplers may only edit the routes they recorded
+export async function PATCH(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'Route ID is required' }, { status: 400 });
+    }
+
+    const parsed = parseRouteFields(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: route, error: fetchError } = await supabaseAdmin
+      .from('sampling_routes')
+      .select('sample_id, created_by')
+      .eq('id', body.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('PATCH route lookup error:', fetchError);
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    if (!route) {
+      return NextResponse.json({ error: 'Route not found' }, { status: 404 });
+    }
+
+    if (!canModify(auth.user, route.created_by)) {
+      return NextResponse.json({ error: 'Only admins can edit routes recorded by someone else' }, { status: 403 });
+    }
+
+    const fields = { ...parsed.fields };
+    if (fields.sample_id !== route.sample_id) {
+      const check = await checkSampleId(fields.sample_id, auth.user);
+      if (check.status === 'malformed') {
+        return NextResponse.json({ error: check.message }, { status: 400 });
+      }
+      if (check.status === 'used' || check.status === 'reserved') {
+        return NextResponse.json({ error: check.message }, { status: 409 });
+      }
+      fields.sample_id = check.sampleId;
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('sampling_routes')
+      .update(fields)
+      .eq('id', body.id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `Sample ID ${fields.sample_id} has already been used` }, { status: 409 });
+      }
+      console.error('PATCH route error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, route: updated });
+  } catch (error) {
+    console.error('API PATCH error:', error);
+    return NextResponse.json({ error: (error as Error).message || 'Unknown error' }, { status: 500 });
+  }
+}
+
+// Samplers may delete the routes they recorded; deleting anyone else's needs admin
 export async function DELETE(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { searchParams } = new URL(request.url);
     const routeId = searchParams.get('id');
@@ -42,6 +128,25 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Route ID is required' }, { status: 400 });
     }
 
+    const { data: route, error: fetchError } = await supabaseAdmin
+      .from('sampling_routes')
+      .select('created_by')
+      .eq('id', routeId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('DELETE route lookup error:', fetchError);
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    if (!route) {
+      return NextResponse.json({ error: 'Route not found' }, { status: 404 });
+    }
+
+    if (!canModify(auth.user, route.created_by)) {
+      return NextResponse.json({ error: 'Only admins can delete routes recorded by someone else' }, { status: 403 });
+    }
+
     const { error } = await supabaseAdmin
       .from('sampling_routes')
       .delete()
@@ -59,33 +164,136 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
+// The response for a repeated upload: the route it created, or a conflict if
+// the key was used by someone else. Null when the key has not been used.
+async function findUploadedRoute(uploadKey: string, userId: string) {
+  const { data: route, error } = await supabaseAdmin
+    .from('sampling_routes')
+    .select()
+    .eq('upload_key', uploadKey)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!route) return null;
+
+  if (route.created_by !== userId) {
+    return NextResponse.json({ error: 'This upload was made by another user' }, { status: 409 });
+  }
+  return NextResponse.json({ success: true, route, duplicate: true });
+}
+
 export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
-    const { sampleId, startLocationName, endLocationName, startPosition, currentPosition, trackingPoints, userId } = body;
+    const { sampleId, startLocationName, endLocationName, startPosition, currentPosition, trackingPoints, trip, tripSequence, endTime } = body;
+
+    if (typeof sampleId !== 'string' || !sampleId.trim()) {
+      return NextResponse.json({ error: 'Sample ID is required' }, { status: 400 });
+    }
+
+    // Outbox uploads carry their entry id, so a retry whose first attempt
+    // succeeded (but whose response was lost) gets the route it created
+    const uploadKey = request.headers.get('Idempotency-Key');
+    if (uploadKey !== null && (!uploadKey || uploadKey.length > 100)) {
+      return NextResponse.json({ error: 'Invalid idempotency key' }, { status: 400 });
+    }
+    if (uploadKey) {
+      const previous = await findUploadedRoute(uploadKey, auth.user.id);
+      if (previous) return previous;
+    }
 
-    const now = new Date().toISOString();
+    // Reject IDs that fit no season pattern, were already recorded or are reserved for someone else
+    const check = await checkSampleId(sampleId.trim(), auth.user);
+    if (check.status === 'malformed') {
+      return NextResponse.json({ error: check.message }, { status: 400 });
+    }
+    if (check.status === 'used' || check.status === 'reserved') {
+      return NextResponse.json({ error: check.message }, { status: 409 });
+    }
+
+    // Samples may arrive from the upload queue long after collection
+    const collectedAt = typeof endTime === 'number' ? new Date(endTime).toISOString() : new Date().toISOString();
+
+    // The trip travels with each of its samples; the latest copy of its metadata wins
+    if (trip) {
+      const parsedTrip = parseTripMetadata(trip);
+      if (!isTripId(trip.id) || !trip.name || !trip.trip_date) {
+        return NextResponse.json({ error: 'Trip must have an ID, a name and a date' }, { status: 400 });
+      }
+      if ('error' in parsedTrip) {
+        return NextResponse.json({ error: parsedTrip.error }, { status: 400 });
+      }
+      if (!Number.isInteger(tripSequence) || tripSequence < 1) {
+        return NextResponse.json({ error: 'Trip sequence must be a positive whole number' }, { status: 400 });
+      }
+
+      const { data: existingTrip, error: existingTripError } = await supabaseAdmin
+        .from('field_trips')
+        .select('created_by')
+        .eq('id', trip.id)
+        .maybeSingle();
+
+      if (existingTripError) {
+        console.error('Trip error:', existingTripError);
+        return NextResponse.json({ error: existingTripError.message }, { status: 500 });
+      }
+
+      // A conflict rather than 403 so the outbox reports it instead of retrying
+      if (existingTrip && !canModify(auth.user, existingTrip.created_by)) {
+        return NextResponse.json({ error: 'This trip was started by someone else' }, { status: 409 });
+      }
+
+      // The trip keeps the sampler who started it
+      const { error: tripError } = existingTrip
+        ? await supabaseAdmin
+            .from('field_trips')
+            .update({ ...parsedTrip.metadata, updated_at: new Date().toISOString() })
+            .eq('id', trip.id)
+        : await supabaseAdmin
+            .from('field_trips')
+            .insert({ id: trip.id, ...parsedTrip.metadata, created_by: auth.user.id });
+
+      if (tripError) {
+        console.error('Trip error:', tripError);
+        return NextResponse.json({ error: tripError.message }, { status: 500 });
+      }
+    }
 
     // Insert sampling route
     const { data: route, error: routeError } = await supabaseAdmin
       .from('sampling_routes')
       .insert({
-        sample_id: sampleId.trim(),
+        sample_id: check.sampleId,
         start_name: startLocationName || 'Field Location',
         end_name: endLocationName || 'Field Location',
         start_latitude: startPosition.latitude,
         start_longitude: startPosition.longitude,
         end_latitude: currentPosition.latitude,
         end_longitude: currentPosition.longitude,
-        collection_date: now.split('T')[0],
+        collection_date: collectedAt.split('T')[0],
         collection_start_time: new Date(startPosition.timestamp).toISOString(),
-        collection_end_time: now,
-        created_by: userId
+        collection_end_time: collectedAt,
+        trip_id: trip ? trip.id : null,
+        trip_sequence: trip ? tripSequence : null,
+        created_by: auth.user.id,
+        upload_key: uploadKey
       })
       .select()
       .single();
 
     if (routeError) {
+      if (routeError.code === '23505' && uploadKey) {
+        // A retry of the same upload may have got in first
+        const previous = await findUploadedRoute(uploadKey, auth.user.id);
+        if (previous) return previous;
+      }
+      // Recorded by someone else between the check and the insert
+      if (routeError.code === '23505') {
+        return NextResponse.json({ error: `Sample ID ${check.sampleId} has already been used` }, { status: 409 });
+      }
       console.error('Route error:', routeError);
       return NextResponse.json({ error: routeError.message }, { status: 500 });
     }
@@ -97,7 +305,8 @@ export async function POST(request: NextRequest) {
         latitude: point.latitude,
         longitude: point.longitude,
         accuracy: point.accuracy,
-        recorded_at: new Date(point.timestamp).toISOString()
+        recorded_at: new Date(point.timestamp).toISOString(),
+        recorded_by: auth.user.id
       }));
 
       const { error: trackingError } = await supabaseAdmin
@@ -107,6 +316,13 @@ export async function POST(request: NextRequest) {
       if (trackingError) {
         console.error('Tracking error:', trackingError);
         // Don't fail the whole operation if tracking points fail
+      } else {
+        try {
+          await processRouteTrack(route.id);
+        } catch (qcError) {
+          // The raw track is saved; quality control can be re-run from the sample details
+          console.error('Track processing error:', qcError);
+        }
       }
     }
 
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { isSampleStatus } from '@/lib/sampleLifecycle';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// GET - Status history of a sample, oldest first
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'viewer');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const routeId = request.nextUrl.searchParams.get('routeId');
+
+    if (!routeId) {
+      return NextResponse.json({ error: 'Route ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('sample_status_transitions')
+      .select(`
+        id, route_id, from_status, to_status, notes, changed_at,
+        changed_by_user:users!sample_status_transitions_changed_by_fkey (email, full_name)
+      `)
+      .eq('route_id', routeId)
+      .order('changed_at');
+
+    if (error) {
+      console.error('Error fetching status history:', error);
+      return NextResponse.json({ error: 'Failed to fetch status history' }, { status: 500 });
+    }
+
+    return NextResponse.json({ transitions: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Move a sample to the next (or back to the previous) lifecycle stage
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { routeId, status, notes } = await request.json();
+
+    if (!routeId) {
+      return NextResponse.json({ error: 'Route ID is required' }, { status: 400 });
+    }
+
+    if (!isSampleStatus(status)) {
+      return NextResponse.json({ error: 'Invalid sample status' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('transition_sample_status', {
+      p_route_id: routeId,
+      p_to_status: status,
+      p_changed_by: auth.user.id,
+      p_notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+    });
+
+    if (error) {
+      // P0002: sample not found, P0001: not an adjacent stage
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.code === 'P0001') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      console.error('Status transition error:', error);
+      return NextResponse.json({ error: 'Failed to update sample status' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      fromStatus: data.from_status,
+      toStatus: data.to_status,
+      changedAt: data.changed_at,
+    });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
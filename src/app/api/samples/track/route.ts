@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { canModify, requireAuth } from '@/lib/apiAuth';
+import { MAX_TRACKS_PER_REQUEST, TrackPoint } from '@/lib/tracks';
+import { processRouteTrack } from '@/lib/trackProcessing';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// GET - Cleaned GPS tracks of one or more routes (?routeId=...&routeId=...),
+// points in recording order. Public, like the routes on the pathogen map.
+export async function GET(request: NextRequest) {
+  try {
+    const routeIds = [...new Set(request.nextUrl.searchParams.getAll('routeId').filter(Boolean))];
+
+    if (routeIds.length === 0) {
+      return NextResponse.json({ error: 'At least one routeId is required' }, { status: 400 });
+    }
+
+    if (routeIds.length > MAX_TRACKS_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `At most ${MAX_TRACKS_PER_REQUEST} routes per request` },
+        { status: 400 }
+      );
+    }
+
+    const tracks: Record<string, TrackPoint[]> = Object.fromEntries(routeIds.map(id => [id, []]));
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('gps_tracking_points')
+        .select('route_id, latitude, longitude, accuracy, recorded_at')
+        .in('route_id', routeIds)
+        .is('qc', null)
+        .order('route_id')
+        .order('recorded_at')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching tracks:', error);
+        return NextResponse.json({ error: 'Failed to fetch tracks' }, { status: 500 });
+      }
+
+      for (const { route_id, latitude, longitude, accuracy, recorded_at } of data) {
+        tracks[route_id].push({
+          latitude: Number(latitude),
+          longitude: Number(longitude),
+          accuracy: accuracy === null ? null : Number(accuracy),
+          recorded_at,
+        });
+      }
+
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return NextResponse.json({ tracks });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Re-run quality control on a route's track ({ routeId })
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { routeId } = await request.json();
+
+    if (!routeId) {
+      return NextResponse.json({ error: 'Route ID is required' }, { status: 400 });
+    }
+
+    const { data: route, error: routeError } = await supabaseAdmin
+      .from('sampling_routes')
+      .select('id, created_by')
+      .eq('id', routeId)
+      .maybeSingle();
+
+    if (routeError) {
+      console.error('Error fetching route:', routeError);
+      return NextResponse.json({ error: 'Failed to fetch route' }, { status: 500 });
+    }
+
+    if (!route) {
+      return NextResponse.json({ error: 'Route not found' }, { status: 404 });
+    }
+
+    if (!canModify(auth.user, route.created_by)) {
+      return NextResponse.json({ error: 'Only admins can re-run quality control on routes recorded by someone else' }, { status: 403 });
+    }
+
+    const result = await processRouteTrack(route.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { SEQUENCING_RUN_COLUMNS, parseRunMetadata } from '@/lib/sequencingRuns';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// GET - List sequencing runs, newest first
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('sequencing_runs')
+      .select(SEQUENCING_RUN_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching sequencing runs:', error);
+      return NextResponse.json({ error: 'Failed to fetch sequencing runs' }, { status: 500 });
+    }
+
+    return NextResponse.json({ runs: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create a sequencing run with its metadata
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const parsed = parseRunMetadata(body);
+
+    if (!name) {
+      return NextResponse.json({ error: 'Run name is required' }, { status: 400 });
+    }
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: run, error } = await supabaseAdmin
+      .from('sequencing_runs')
+      .insert({ name, ...parsed.metadata, created_by: auth.user.id })
+      .select(SEQUENCING_RUN_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A run with this name already exists' }, { status: 409 });
+      }
+      console.error('Error creating sequencing run:', error);
+      return NextResponse.json({ error: 'Failed to create sequencing run' }, { status: 500 });
+    }
+
+    return NextResponse.json({ run }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Update a run's metadata; fields not sent are left as they were
+export async function PUT(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = parseRunMetadata(body);
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'Run ID is required' }, { status: 400 });
+    }
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: run, error } = await supabaseAdmin
+      .from('sequencing_runs')
+      .update({ ...parsed.metadata, updated_at: new Date().toISOString() })
+      .eq('id', body.id)
+      .select(SEQUENCING_RUN_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating sequencing run:', error);
+      return NextResponse.json({ error: 'Failed to update sequencing run' }, { status: 500 });
+    }
+
+    if (!run) {
+      return NextResponse.json({ error: 'Sequencing run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
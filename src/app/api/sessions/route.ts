@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { SessionSummary, clearSessionCookie, describeDevice, revokeUserSessions } from '@/lib/sessions';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// GET - The signed-in user's open sessions
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'viewer');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('sessions')
+      .select('id, user_agent, ip_address, created_at, last_seen_at, expires_at')
+      .eq('user_id', auth.user.id)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching sessions:', error);
+      return NextResponse.json({ error: 'Failed to fetch sessions' }, { status: 500 });
+    }
+
+    const sessions: SessionSummary[] = (data || []).map((session) => ({
+      id: session.id,
+      device: describeDevice(session.user_agent),
+      ipAddress: session.ip_address,
+      createdAt: session.created_at,
+      lastSeenAt: session.last_seen_at,
+      expiresAt: session.expires_at,
+      current: session.id === auth.session.id,
+    }));
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Sign out one session (?id=), or every session when no id is given
+export async function DELETE(request: NextRequest) {
+  const auth = await requireAuth(request, 'viewer');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const sessionId = request.nextUrl.searchParams.get('id');
+
+    if (!sessionId) {
+      const revoked = await revokeUserSessions(auth.user.id);
+      const response = NextResponse.json({ revoked });
+      clearSessionCookie(response);
+      return response;
+    }
+
+    // Scoped to the user so one cannot end someone else's session by id
+    const { data, error } = await supabaseAdmin
+      .from('sessions')
+      .delete()
+      .eq('id', sessionId)
+      .eq('user_id', auth.user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Error revoking session:', error);
+      return NextResponse.json({ error: 'Failed to revoke session' }, { status: 500 });
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ revoked: 1 });
+    if (sessionId === auth.session.id) clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { canModify, requireAuth } from '@/lib/apiAuth';
+import { FIELD_TRIP_COLUMNS, parseTripMetadata } from '@/lib/fieldTrips';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// GET - List field trips, newest first, with their samples in collection order
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'viewer');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('field_trips')
+      .select(`
+        ${FIELD_TRIP_COLUMNS},
+        creator:users!field_trips_created_by_fkey (email, full_name),
+        sampling_routes (id, sample_id, trip_sequence, start_name, end_name, collection_start_time, collection_end_time)
+      `)
+      .order('trip_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .order('trip_sequence', { referencedTable: 'sampling_routes', ascending: true });
+
+    if (error) {
+      console.error('Error fetching field trips:', error);
+      return NextResponse.json({ error: 'Failed to fetch field trips' }, { status: 500 });
+    }
+
+    return NextResponse.json({ trips: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Correct a trip's metadata; fields not sent are left as they were
+export async function PUT(request: NextRequest) {
+  const auth = await requireAuth(request, 'sampler');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const parsed = parseTripMetadata(body);
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'Trip ID is required' }, { status: 400 });
+    }
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('field_trips')
+      .select('created_by')
+      .eq('id', body.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching field trip:', fetchError);
+      return NextResponse.json({ error: 'Failed to update field trip' }, { status: 500 });
+    }
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Field trip not found' }, { status: 404 });
+    }
+
+    if (!canModify(auth.user, existing.created_by)) {
+      return NextResponse.json({ error: 'Only admins can edit trips started by someone else' }, { status: 403 });
+    }
+
+    const { data: trip, error } = await supabaseAdmin
+      .from('field_trips')
+      .update({ ...parsed.metadata, updated_at: new Date().toISOString() })
+      .eq('id', body.id)
+      .select(FIELD_TRIP_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating field trip:', error);
+      return NextResponse.json({ error: 'Failed to update field trip' }, { status: 500 });
+    }
+
+    if (!trip) {
+      return NextResponse.json({ error: 'Field trip not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ trip });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
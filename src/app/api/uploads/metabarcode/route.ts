@@ -0,0 +1,341 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { convertBiomToRows } from '@/lib/biomImport';
+import { ColumnMapping, MAPPED_FIELD_LABELS, missingMappedFields, parseColumnMapping } from '@/lib/columnMapping';
+import { RouteMetadata, convertKrakenReports } from '@/lib/krakenImport';
+import { parseRunMetadata } from '@/lib/sequencingRuns';
+import { buildSpeciesLookup } from '@/lib/speciesMatching';
+import {
+  DateFormat,
+  MetabarcodeImportReport,
+  MetabarcodePreview,
+  ParsedMetabarcodeRow,
+  REQUIRED_COLUMNS,
+  RowReport,
+  buildMetabarcodePreview,
+  isDecontaminationMode,
+  isMetabarcodeUploadFormat,
+  parseMetabarcodeCSV,
+  validateMetabarcodeRows,
+} from '@/lib/metabarcodeImport';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Look up which samples already have routes and their current read counts
+ */
+async function loadExistingData(sampleIds: string[]) {
+  const existingRoutes = new Map<string, string>();
+  const existingReadCounts = new Map<string, Map<string, number>>();
+
+  if (sampleIds.length === 0) return { existingRoutes, existingReadCounts };
+
+  const { data: routes, error: routesError } = await supabaseAdmin
+    .from('sampling_routes')
+    .select('id, sample_id')
+    .in('sample_id', sampleIds);
+
+  if (routesError) throw routesError;
+  routes.forEach(route => existingRoutes.set(route.sample_id, route.id));
+
+  const routeIds = routes.map(route => route.id);
+  if (routeIds.length > 0) {
+    const { data: detections, error: detectionsError } = await supabaseAdmin
+      .from('pathogen_detections')
+      .select('route_id, pathogen_species_id, read_count')
+      .in('route_id', routeIds);
+
+    if (detectionsError) throw detectionsError;
+    detections.forEach(detection => {
+      if (!existingReadCounts.has(detection.route_id)) {
+        existingReadCounts.set(detection.route_id, new Map());
+      }
+      existingReadCounts.get(detection.route_id)!.set(detection.pathogen_species_id, detection.read_count);
+    });
+  }
+
+  return { existingRoutes, existingReadCounts };
+}
+
+/**
+ * Route details of every existing sample, in upload CSV form, so reports that
+ * carry no location data can be matched to and imported against their routes
+ */
+async function loadRouteMetadata() {
+  const metadata = new Map<string, RouteMetadata>();
+
+  // Paged: reports are matched to samples by filename prefix, so every route is needed
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: routes, error } = await supabaseAdmin
+      .from('sampling_routes')
+      .select('sample_id, start_name, end_name, start_latitude, start_longitude, end_latitude, end_longitude, collection_date')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const route of routes) {
+      metadata.set(route.sample_id, {
+        start_name: route.start_name,
+        start_point: `${route.start_latitude}, ${route.start_longitude}`,
+        end_name: route.end_name,
+        end_point: `${route.end_latitude}, ${route.end_longitude}`,
+        collection_date: route.collection_date,
+      });
+    }
+
+    if (routes.length < PAGE_SIZE) break;
+  }
+
+  return metadata;
+}
+
+// POST - Import metabarcode results.
+// format=csv (default): long-format CSV in form field "file", with an optional
+// JSON "mapping" (see lib/columnMapping) when the sheet uses other headers.
+// format=biom: QIIME2 feature table ("featureTable", BIOM JSON or TSV), optional
+// "taxonomy" TSV and sample "metadata" sheet.
+// format=kraken: one or more Kraken2/Bracken "reports", optional "manifest"
+// mapping filenames to sample IDs.
+// Any format: optional "sequencingRun" for rows that do not name a run, with
+// its "runMetadata" (JSON, see lib/sequencingRuns), and "decontaminationMode"
+// (subtract|flag) for the runs the upload touches. The upload batch is
+// attached to sequencingRun.
+// With dryRun=true nothing is written; the response describes what the import would change.
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const formData = await request.formData();
+    const format = formData.get('format') ?? 'csv';
+    const dryRun = formData.get('dryRun') === 'true';
+    const defaultRun = (formData.get('sequencingRun') as string | null)?.trim() || null;
+    const decontaminationMode = (formData.get('decontaminationMode') as string | null) || null;
+
+    if (!isMetabarcodeUploadFormat(format)) {
+      return NextResponse.json({ error: 'Invalid format. Must be csv, biom, or kraken' }, { status: 400 });
+    }
+
+    if (decontaminationMode && !isDecontaminationMode(decontaminationMode)) {
+      return NextResponse.json({ error: 'Invalid decontamination mode' }, { status: 400 });
+    }
+
+    let runMetadata: unknown = null;
+    try {
+      runMetadata = JSON.parse((formData.get('runMetadata') as string | null) || 'null');
+    } catch {
+      return NextResponse.json({ error: 'Invalid run metadata' }, { status: 400 });
+    }
+    const parsedRunMetadata = parseRunMetadata(runMetadata);
+    if ('error' in parsedRunMetadata) {
+      return NextResponse.json({ error: parsedRunMetadata.error }, { status: 400 });
+    }
+
+    const { data: species, error: speciesError } = await supabaseAdmin
+      .from('pathogen_species')
+      .select('id, species_name, ncbi_taxid');
+
+    if (speciesError) {
+      console.error('Error loading pathogen species:', speciesError);
+      return NextResponse.json({ error: 'Failed to load pathogen species' }, { status: 500 });
+    }
+
+    const { data: synonyms, error: synonymsError } = await supabaseAdmin
+      .from('pathogen_species_synonyms')
+      .select('pathogen_species_id, synonym');
+
+    if (synonymsError) {
+      console.error('Error loading species synonyms:', synonymsError);
+      return NextResponse.json({ error: 'Failed to load species synonyms' }, { status: 500 });
+    }
+
+    const speciesLookup = buildSpeciesLookup(species, synonyms);
+
+    let rows: ParsedMetabarcodeRow[];
+    let parseErrors: RowReport[];
+    let notes: string[] = [];
+    let filename: string;
+    let fileSize: number;
+    let dateFormat: DateFormat | undefined;
+
+    if (format === 'biom') {
+      const featureTable = formData.get('featureTable');
+      const taxonomy = formData.get('taxonomy');
+      const metadata = formData.get('metadata');
+
+      if (!(featureTable instanceof File) || !(metadata instanceof File)) {
+        return NextResponse.json(
+          { error: 'A feature table and a sample metadata sheet are required' },
+          { status: 400 }
+        );
+      }
+
+      const conversion = convertBiomToRows(
+        await featureTable.text(),
+        taxonomy instanceof File ? await taxonomy.text() : null,
+        await metadata.text(),
+        speciesLookup
+      );
+      rows = conversion.rows;
+      parseErrors = conversion.errors;
+      notes = conversion.notes;
+      filename = featureTable.name;
+      fileSize = featureTable.size + metadata.size + (taxonomy instanceof File ? taxonomy.size : 0);
+
+      if (rows.length === 0 && parseErrors.length === 0) {
+        return NextResponse.json(
+          { error: 'No monitored pathogen species were found in the feature table' },
+          { status: 400 }
+        );
+      }
+    } else if (format === 'kraken') {
+      const reports = formData.getAll('reports').filter((entry): entry is File => entry instanceof File);
+      const manifest = formData.get('manifest');
+
+      if (reports.length === 0) {
+        return NextResponse.json({ error: 'At least one Kraken2 or Bracken report is required' }, { status: 400 });
+      }
+
+      const conversion = convertKrakenReports(
+        await Promise.all(reports.map(async report => ({ filename: report.name, text: await report.text() }))),
+        manifest instanceof File ? await manifest.text() : null,
+        species,
+        speciesLookup,
+        await loadRouteMetadata()
+      );
+      rows = conversion.rows;
+      parseErrors = conversion.errors;
+      notes = conversion.notes;
+      filename = reports.length === 1 ? reports[0].name : `${reports.length} Kraken reports`;
+      fileSize = reports.reduce((sum, report) => sum + report.size, 0);
+
+      if (rows.length === 0 && parseErrors.length === 0) {
+        return NextResponse.json(
+          { error: 'No monitored pathogen species were found in the reports' },
+          { status: 400 }
+        );
+      }
+    } else {
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'A CSV file is required' }, { status: 400 });
+      }
+
+      let mapping: ColumnMapping | null = null;
+      const mappingField = formData.get('mapping');
+      if (typeof mappingField === 'string') {
+        try {
+          mapping = parseColumnMapping(JSON.parse(mappingField));
+        } catch {
+          mapping = null;
+        }
+        if (!mapping) {
+          return NextResponse.json({ error: 'Invalid column mapping' }, { status: 400 });
+        }
+      }
+
+      const parsed = parseMetabarcodeCSV(await file.text(), mapping);
+
+      const missingColumns = mapping
+        ? missingMappedFields(mapping, parsed.headers).map(field => MAPPED_FIELD_LABELS[field])
+        : REQUIRED_COLUMNS.filter(column => !parsed.headers.includes(column));
+      if (missingColumns.length > 0) {
+        return NextResponse.json(
+          { error: `Missing required columns: ${missingColumns.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      rows = parsed.rows;
+      parseErrors = parsed.errors;
+      dateFormat = mapping?.dateFormat;
+      filename = file.name;
+      fileSize = file.size;
+
+      if (rows.length === 0 && parseErrors.length === 0) {
+        return NextResponse.json({ error: 'No valid data found in CSV' }, { status: 400 });
+      }
+    }
+
+    const validation = validateMetabarcodeRows(rows, speciesLookup, dateFormat, defaultRun);
+    const { samples, controls } = validation;
+    const rowReports = [...parseErrors, ...validation.rows].sort((a, b) => a.line - b.line);
+
+    if (dryRun) {
+      const { existingRoutes, existingReadCounts } = await loadExistingData(
+        samples.map(sample => sample.sample_id)
+      );
+      const preview: MetabarcodePreview = {
+        samples: buildMetabarcodePreview(samples, existingRoutes, existingReadCounts),
+        controls: controls.map(control => ({
+          controlId: control.control_id,
+          controlType: control.control_type,
+          sequencingRun: control.sequencing_run,
+          detections: control.detections.length,
+        })),
+        rows: rowReports,
+        notes,
+      };
+      return NextResponse.json({ preview });
+    }
+
+    const failedRows = rowReports.filter(r => r.status === 'error').length;
+    if (failedRows > 0) {
+      const report: MetabarcodeImportReport = {
+        success: false,
+        message: `${failedRows} of ${rowReports.length} rows failed validation. Nothing was imported.`,
+        routesCreated: 0,
+        detectionsWritten: 0,
+        rows: rowReports,
+        notes,
+      };
+      return NextResponse.json({ report }, { status: 422 });
+    }
+
+    const { data: result, error: importError } = await supabaseAdmin.rpc('import_metabarcode_upload', {
+      p_uploaded_by: auth.user.id,
+      p_filename: filename,
+      p_file_size: fileSize,
+      p_samples: samples,
+      p_controls: controls,
+      p_decontamination_mode: decontaminationMode,
+      p_sequencing_run: defaultRun,
+      p_run_metadata: parsedRunMetadata.metadata,
+    });
+
+    if (importError) {
+      console.error('Metabarcode import error:', importError);
+      return NextResponse.json(
+        { error: `Import failed and was rolled back: ${importError.message}` },
+        { status: 500 }
+      );
+    }
+
+    const report: MetabarcodeImportReport = {
+      success: true,
+      message: controls.length > 0
+        ? `Imported ${samples.length} samples and ${controls.length} controls`
+        : `Imported ${samples.length} samples`,
+      batchId: result.batch_id,
+      routesCreated: result.routes_created,
+      detectionsWritten: result.detections_written,
+      controlsWritten: result.controls_written,
+      rows: rowReports,
+      notes,
+    };
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// POST - Roll back an upload batch to the state before it was imported
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { id } = await request.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'Upload batch ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('rollback_upload_batch', {
+      p_batch_id: id,
+      p_rolled_back_by: auth.user.id,
+    });
+
+    if (error) {
+      // P0002: batch not found, P0001: already rolled back or blocked by a later upload
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.code === 'P0001') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      console.error('Rollback error:', error);
+      return NextResponse.json({ error: 'Failed to roll back upload' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      routesDeleted: data.routes_deleted,
+      detectionsDeleted: data.detections_deleted,
+      detectionsRestored: data.detections_restored,
+      routesRestored: data.routes_restored,
+      controlsDeleted: data.controls_deleted,
+      controlsRestored: data.controls_restored,
+      runsDeleted: data.runs_deleted,
+      runsRestored: data.runs_restored,
+    });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
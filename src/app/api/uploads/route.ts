@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// GET - List upload batches, newest first
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('upload_batches')
+      .select(`
+        id, filename, file_size, row_count, created_at, rolled_back_at,
+        sequencing_run:sequencing_runs (name),
+        uploader:users!upload_batches_uploaded_by_fkey (email, full_name),
+        rolled_back_by_user:users!upload_batches_rolled_back_by_fkey (email, full_name)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching upload batches:', error);
+      return NextResponse.json({ error: 'Failed to fetch upload history' }, { status: 500 });
+    }
+
+    return NextResponse.json({ batches: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/apiAuth';
+import { parseColumnMapping } from '@/lib/columnMapping';
+
+// Service role client bypasses RLS for admin operations
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const TEMPLATE_COLUMNS = 'id, lab_name, name, mapping, created_at, updated_at';
+
+// GET - List column mapping templates, grouped by lab
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('column_mapping_templates')
+      .select(TEMPLATE_COLUMNS)
+      .order('lab_name')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching mapping templates:', error);
+      return NextResponse.json({ error: 'Failed to fetch mapping templates' }, { status: 500 });
+    }
+
+    return NextResponse.json({ templates: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Save a template. Saving under an existing lab and name replaces its mapping.
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json();
+    const labName = typeof body.lab_name === 'string' ? body.lab_name.trim() : '';
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const mapping = parseColumnMapping(body.mapping);
+
+    if (!labName || !name) {
+      return NextResponse.json({ error: 'Lab name and template name are required' }, { status: 400 });
+    }
+
+    if (!mapping) {
+      return NextResponse.json({ error: 'Invalid column mapping' }, { status: 400 });
+    }
+
+    const { data: template, error } = await supabaseAdmin
+      .from('column_mapping_templates')
+      .upsert(
+        {
+          lab_name: labName,
+          name,
+          mapping,
+          created_by: auth.user.id,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'lab_name,name' }
+      )
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error saving mapping template:', error);
+      return NextResponse.json({ error: 'Failed to save mapping template' }, { status: 500 });
+    }
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete a template
+export async function DELETE(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const templateId = request.nextUrl.searchParams.get('id');
+
+    if (!templateId) {
+      return NextResponse.json({ error: 'Template ID is required' }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('column_mapping_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      console.error('Error deleting mapping template:', error);
+      return NextResponse.json({ error: 'Failed to delete mapping template' }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { createClient } from '@supabase/supabase-js';
-import bcrypt from 'bcryptjs';
 import { requireAuth } from '@/lib/apiAuth';
+import { revokeUserSessions } from '@/lib/sessions';
+import { sendInvite } from '@/lib/passwordTokens';
 
 // Service role client bypasses RLS for admin operations
 const supabaseAdmin = createClient(
@@ -18,7 +19,7 @@ export async function GET(request: NextRequest) {
   try {
     const { data, error } = await supabaseAdmin
       .from('users')
-      .select('id, email, role, full_name, is_active, created_at, last_login')
+      .select('id, email, role, full_name, is_active, created_at, last_login, password_set_at')
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -33,19 +34,19 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Create new user
+// POST - Create a user and email them an invitation to set their password
 export async function POST(request: NextRequest) {
   const auth = await requireAuth(request, 'admin');
   if (auth instanceof NextResponse) return auth;
 
   try {
     const body = await request.json();
-    const { email, password, full_name, role } = body;
+    const { email, full_name, role } = body;
 
     // Validate required fields
-    if (!email || !password || !full_name) {
+    if (!email || !full_name) {
       return NextResponse.json(
-        { error: 'Email, password, and full name are required' },
+        { error: 'Email and full name are required' },
         { status: 400 }
       );
     }
@@ -72,21 +73,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Hash password
-    const password_hash = await bcrypt.hash(password, 10);
-
-    // Create new user
+    // Create new user; they have no password until they accept the invitation
     const { data: newUser, error } = await supabaseAdmin
       .from('users')
       .insert({
         email: email.toLowerCase(),
-        password_hash,
         full_name,
         role,
         is_active: true,
         created_at: new Date().toISOString()
       })
-      .select('id, email, role, full_name, is_active, created_at')
+      .select('id, email, role, full_name, is_active, created_at, password_set_at')
       .single();
 
     if (error) {
@@ -94,7 +91,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create user' }, { status: 500 });
     }
 
-    return NextResponse.json({ user: newUser }, { status: 201 });
+    // The user is kept if the email fails; the invitation can be resent
+    let inviteSent = true;
+    try {
+      await sendInvite(newUser, auth.user);
+    } catch (inviteError) {
+      console.error('Error sending invitation:', inviteError);
+      inviteSent = false;
+    }
+
+    return NextResponse.json({ user: newUser, inviteSent }, { status: 201 });
   } catch (error) {
     console.error('Unexpected error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -130,7 +136,7 @@ export async function PATCH(request: NextRequest) {
       .from('users')
       .update(updates)
       .eq('id', id)
-      .select('id, email, role, full_name, is_active, created_at, last_login')
+      .select('id, email, role, full_name, is_active, created_at, last_login, password_set_at')
       .single();
 
     if (error) {
@@ -138,6 +144,11 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to update user' }, { status: 500 });
     }
 
+    // Sign a deactivated user out so reactivating them later does not revive old sessions
+    if (is_active === false) {
+      await revokeUserSessions(id);
+    }
+
     return NextResponse.json({ user: updatedUser });
   } catch (error) {
     console.error('Unexpected error:', error);
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import RoleGuard from '@/components/RoleGuard';
+import { MIN_PASSWORD_LENGTH, validatePassword } from '@/lib/passwords';
+
+const EMPTY_FORM = { currentPassword: '', newPassword: '', confirmPassword: '' };
+
+export default function ChangePasswordPage() {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+
+    const passwordError = validatePassword(formData.newPassword);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+    if (formData.newPassword !== formData.confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/password/change', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword: formData.currentPassword, newPassword: formData.newPassword })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to change password');
+      }
+
+      setFormData(EMPTY_FORM);
+      setMessage(result.revoked > 0
+        ? `Password changed. ${result.revoked} other session${result.revoked === 1 ? ' was' : 's were'} signed out.`
+        : 'Password changed.');
+    } catch (err) {
+      console.error('Change password error:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900";
+
+  return (
+    <RoleGuard requiredRole="viewer">
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white shadow-sm border-b px-6 py-4">
+          <div className="flex items-center justify-between max-w-7xl mx-auto">
+            <Link href="/" className="cursor-pointer hover:opacity-80 transition-opacity">
+              <h1 className="text-2xl font-bold text-gray-900">spore.net</h1>
+              <p className="text-gray-700 text-sm font-medium">Change Password</p>
+            </Link>
+            <Link
+              href="/"
+              className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              Home
+            </Link>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-md mx-auto px-4 py-8">
+          <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+            {message && (
+              <div className="rounded-md bg-green-50 p-4">
+                <div className="text-sm text-green-700">{message}</div>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                Current password
+              </label>
+              <input
+                id="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={formData.currentPassword}
+                onChange={(e) => setFormData({ ...formData, currentPassword: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                New password
+              </label>
+              <input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={MIN_PASSWORD_LENGTH}
+                value={formData.newPassword}
+                onChange={(e) => setFormData({ ...formData, newPassword: e.target.value })}
+                className={inputClass}
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+              />
+            </div>
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                Confirm new password
+              </label>
+              <input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={formData.confirmPassword}
+                onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">Your other devices will be signed out.</p>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md font-medium transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Change password'}
+            </button>
+          </form>
+        </main>
+      </div>
+    </RoleGuard>
+  );
+}
@@ -6,6 +6,8 @@ import { supabase } from '@/lib/supabase';
 import RoleGuard from '@/components/RoleGuard';
 import MetabarcodeUpload from '@/components/MetabarcodeUpload';
 import { AuthService } from '@/lib/auth';
+import { relativeAbundance } from '@/lib/abundance';
+import { SEVERITY_COLORS, SeverityThresholds, classifySeverity, severityThresholds } from '@/lib/severity';
 
 interface SamplingRoute {
   id: string;
@@ -18,6 +20,8 @@ interface SamplingRoute {
   end_longitude: number;
   collection_date: string;
   year: number;
+  total_reads: number | null;
+  fungal_reads: number | null;
   created_at: string;
 }
 
@@ -25,12 +29,15 @@ interface PathogenDetection {
   id: string;
   route_id: string;
   pathogen_species_id: string;
-  read_count: number;
+  read_count: number; // raw, as imported
+  corrected_read_count: number | null; // after blank correction; null when the route has no run
+  blank_read_count: number | null;
+  below_blank: boolean;
   pathogen_species?: {
     species_name: string;
     common_name: string;
     disease_type: string;
-  };
+  } & SeverityThresholds;
 }
 
 interface PathogenSpecies {
@@ -116,7 +123,10 @@ export default function DataManagement() {
           pathogen_species (
             species_name,
             common_name,
-            disease_type
+            disease_type,
+            severity_metric,
+            medium_threshold,
+            high_threshold
           )
         `)
         .eq('route_id', routeId)
@@ -153,33 +163,26 @@ export default function DataManagement() {
         collection_date: routeFormData.collection_date
       };
 
-      if (editingRoute) {
-        const { error } = await supabase
-          .from('sampling_routes')
-          .update(routeData)
-          .eq('id', editingRoute.id);
-
-        if (error) throw error;
-        alert('Sampling route updated successfully');
-      } else {
-        const { error } = await supabase
-          .from('sampling_routes')
-          .insert(routeData);
-
-        if (error) throw error;
-        alert('Sampling route added successfully');
+      // PATCH corrects the route being edited; new routes entered by hand have their own endpoint
+      const response = await fetch(editingRoute ? '/api/samples' : '/api/samples/manual', {
+        method: editingRoute ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editingRoute ? { id: editingRoute.id, ...routeData } : routeData)
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save sampling route');
       }
 
+      alert(editingRoute ? 'Sampling route updated successfully' : 'Sampling route added successfully');
+
       resetRouteForm();
       loadRoutes();
     } catch (error) {
       console.error('Error saving route:', error);
-      const err = error as { code?: string; message?: string };
-      if (err.code === '23505') {
-        alert('A sampling route with this sample ID already exists');
-      } else {
-        alert('Failed to save sampling route: ' + (err.message || 'Unknown error'));
-      }
+      alert('Failed to save sampling route: ' + (error as Error).message);
     }
   };
 
@@ -192,27 +195,28 @@ export default function DataManagement() {
     }
 
     try {
-      const { error } = await supabase
-        .from('pathogen_detections')
-        .insert({
-          route_id: selectedRoute.id,
-          pathogen_species_id: detectionFormData.pathogen_species_id,
-          read_count: parseInt(detectionFormData.read_count)
-        });
-
-      if (error) throw error;
+      const response = await fetch('/api/samples/detections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          routeId: selectedRoute.id,
+          pathogenSpeciesId: detectionFormData.pathogen_species_id,
+          readCount: parseInt(detectionFormData.read_count)
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save pathogen detection');
+      }
 
       alert('Pathogen detection added successfully');
       setDetectionFormData({ pathogen_species_id: '', read_count: '' });
       loadDetections(selectedRoute.id);
     } catch (error) {
       console.error('Error saving detection:', error);
-      const err = error as { code?: string; message?: string };
-      if (err.code === '23505') {
-        alert('This pathogen detection already exists for this route');
-      } else {
-        alert('Failed to save pathogen detection: ' + (err.message || 'Unknown error'));
-      }
+      alert('Failed to save pathogen detection: ' + (error as Error).message);
     }
   };
 
@@ -237,12 +241,15 @@ export default function DataManagement() {
     }
 
     try {
-      const { error } = await supabase
-        .from('sampling_routes')
-        .delete()
-        .eq('id', route.id);
+      const response = await fetch(`/api/samples?id=${route.id}`, {
+        method: 'DELETE'
+      });
 
-      if (error) throw error;
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete route');
+      }
       alert('Sampling route deleted successfully');
       loadRoutes();
 
@@ -263,12 +270,15 @@ export default function DataManagement() {
     }
 
     try {
-      const { error } = await supabase
-        .from('pathogen_detections')
-        .delete()
-        .eq('id', detection.id);
+      const response = await fetch(`/api/samples/detections?id=${detection.id}`, {
+        method: 'DELETE'
+      });
 
-      if (error) throw error;
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete pathogen detection');
+      }
       alert('Pathogen detection deleted successfully');
 
       if (selectedRoute) {
@@ -296,6 +306,22 @@ export default function DataManagement() {
     setEditingRoute(null);
   };
 
+  const detectionSeverity = (detection: PathogenDetection) => {
+    const readCount = detection.corrected_read_count ?? detection.read_count;
+    return classifySeverity(
+      readCount,
+      selectedRoute ? relativeAbundance(readCount, selectedRoute) : null,
+      severityThresholds(detection.pathogen_species)
+    );
+  };
+
+  // Raw and blank counts behind a blank-corrected read count, for display
+  const blankNote = (detection: PathogenDetection) => {
+    if (detection.below_blank) return `below blank (${detection.blank_read_count?.toLocaleString()} reads in run blanks)`;
+    if (detection.corrected_read_count === null || detection.corrected_read_count === detection.read_count) return null;
+    return `raw ${detection.read_count.toLocaleString()}, blank ${detection.blank_read_count?.toLocaleString()}`;
+  };
+
   const handleRouteSelect = (route: SamplingRoute) => {
     setSelectedRoute(route);
     loadDetections(route.id);
@@ -598,7 +624,13 @@ export default function DataManagement() {
                                 </span>
                               </p>
                               <p className="text-sm font-semibold text-blue-600">
-                                {detection.read_count.toLocaleString()} reads
+                                <span className={`mr-2 px-2 py-0.5 text-xs font-medium rounded ${SEVERITY_COLORS[detectionSeverity(detection)]}`}>
+                                  {detectionSeverity(detection)}
+                                </span>
+                                {(detection.corrected_read_count ?? detection.read_count).toLocaleString()} reads
+                                {blankNote(detection) && (
+                                  <span className="ml-2 font-normal text-xs text-amber-700">{blankNote(detection)}</span>
+                                )}
                               </p>
                             </div>
                             <button
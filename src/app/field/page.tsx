@@ -6,7 +6,10 @@ import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import RoleGuard from '@/components/RoleGuard';
 import { AuthService } from '@/lib/auth';
-import { supabase } from '@/lib/supabase';
+import { SampleIdCheck } from '@/lib/sampleIds';
+import { queueSample, uploadQueuedSample } from '@/lib/outbox';
+import PendingUploads from '@/components/sample/PendingUploads';
+import { TRACK_FIX_INTERVAL_MS } from '@/lib/trackQuality';
 
 // Dynamically import map component (client-side only)
 const FieldMap = dynamic(() => import('@/components/FieldMap'), {
@@ -48,9 +51,6 @@ export default function FieldCollectionPage() {
   const watchIdRef = useRef<number | null>(null);
   const saveIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Get current user
-  const user = AuthService.getCurrentUser();
-
   // Recover session on mount
   useEffect(() => {
     const savedSession = localStorage.getItem(LOCAL_STORAGE_KEY);
@@ -94,10 +94,20 @@ export default function FieldCollectionPage() {
       // Then save every 10 seconds
       saveIntervalRef.current = setInterval(saveSession, 10000);
 
+      // Save the latest points when the tab is closed, and warn before closing mid-run
+      const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+        saveSession();
+        event.preventDefault();
+      };
+      window.addEventListener('beforeunload', handleBeforeUnload);
+      window.addEventListener('pagehide', saveSession);
+
       return () => {
         if (saveIntervalRef.current) {
           clearInterval(saveIntervalRef.current);
         }
+        window.removeEventListener('beforeunload', handleBeforeUnload);
+        window.removeEventListener('pagehide', saveSession);
       };
     }
   }, [status, sampleId, startPosition, currentPosition, trackingPoints]);
@@ -136,10 +146,10 @@ export default function FieldCollectionPage() {
           setCurrentPosition(gpsPos);
           setGpsError('');
 
-          // Add to tracking points every 30 seconds
+          // Keep a fix every few seconds; the server drops bad fixes and simplifies the track
           setTrackingPoints(prev => {
             const lastPoint = prev[prev.length - 1];
-            if (!lastPoint || position.timestamp - lastPoint.timestamp > 30000) {
+            if (!lastPoint || position.timestamp - lastPoint.timestamp >= TRACK_FIX_INTERVAL_MS) {
               const newPoints = [...prev, gpsPos];
               // Also save to localStorage immediately
               const session: SavedSession = {
@@ -190,16 +200,19 @@ export default function FieldCollectionPage() {
       return;
     }
 
-    // Check if sample ID already exists
-    const { data: existing } = await supabase
-      .from('sampling_routes')
-      .select('id')
-      .eq('sample_id', sampleId.trim())
-      .single();
+    // Offline, the ID is checked when the sample is saved
+    try {
+      const response = await fetch(`/api/sample-ids?sampleId=${encodeURIComponent(sampleId.trim())}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to check sample ID');
 
-    if (existing) {
-      setError('This sample ID already exists. Please use a different ID.');
-      return;
+      const check: SampleIdCheck = data.check;
+      if (check.status === 'used' || check.status === 'reserved' || check.status === 'malformed') {
+        setError(check.message);
+        return;
+      }
+    } catch (checkError) {
+      console.error('Error checking sample ID:', checkError);
     }
 
     // Try to get initial GPS position
@@ -254,38 +267,33 @@ export default function FieldCollectionPage() {
     setStatus('saving');
 
     try {
-      // Call API endpoint instead of directly using Supabase
-      const response = await fetch('/api/samples', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          sampleId,
-          startPosition,
-          currentPosition,
-          trackingPoints,
-          userId: user?.id
-        })
+      // Queue on this device first, so a dead zone or a closed tab cannot lose the sample
+      const entry = await queueSample({
+        sampleId: sampleId.trim(),
+        startPosition,
+        currentPosition,
+        trackingPoints,
+        endTime: Date.now()
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to save sample');
-      }
-
-      // Clear localStorage after successful save
+      // The outbox holds the sample from here on
       localStorage.removeItem(LOCAL_STORAGE_KEY);
 
-      // Reset and redirect
-      alert(`Sample ${sampleId} saved successfully! ${trackingPoints.length} GPS points recorded.`);
+      const result = await uploadQueuedSample(entry.id);
       setSampleId('');
       setStartPosition(null);
       setCurrentPosition(null);
       setTrackingPoints([]);
       setStatus('idle');
-      router.push('/data');
+
+      if (result.outcome === 'uploaded') {
+        alert(`Sample ${sampleId} saved successfully! ${trackingPoints.length} GPS points recorded.`);
+        router.push('/data');
+      } else if (result.outcome === 'pending') {
+        alert(`Sample ${sampleId} is saved on this device and will upload automatically when you are back online.`);
+      } else {
+        alert(`Sample ${sampleId} was rejected: ${result.error}. It is kept under pending uploads so you can change its ID.`);
+      }
     } catch (err: any) {
       console.error('Error saving sample:', err);
       setError(err.message || 'Failed to save sample. Please try again. Data is saved locally.');
@@ -340,6 +348,8 @@ export default function FieldCollectionPage() {
           </div>
         </header>
 
+        <PendingUploads />
+
         {/* Main Content */}
         <div className="flex-1 flex flex-col lg:flex-row overflow-hidden">
           {/* Map View */}
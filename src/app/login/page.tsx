@@ -3,7 +3,16 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { AuthService } from '@/lib/auth';
+import { useAuth } from '@/components/AuthProvider';
+
+// Page the proxy sent the user here from; only same-site paths are followed.
+// The URL parser decides, since browsers read "/\evil.com" as another host.
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  if (!next?.startsWith('/')) return '/';
+  const url = new URL(next, window.location.origin);
+  return url.origin === window.location.origin ? url.pathname + url.search + url.hash : '/';
+}
 
 export default function Login() {
   const [credentials, setCredentials] = useState({
@@ -13,14 +22,14 @@ export default function Login() {
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const router = useRouter();
+  const { user, login } = useAuth();
 
   // Redirect if already authenticated
   useEffect(() => {
-    const user = AuthService.getCurrentUser();
     if (user) {
-      router.push('/');
+      router.push(nextPath());
     }
-  }, [router]);
+  }, [user, router]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,11 +37,10 @@ export default function Login() {
     setLoading(true);
 
     try {
-      const user = await AuthService.login(credentials.email, credentials.password);
+      const user = await login(credentials.email, credentials.password);
 
       if (user) {
-        // Always redirect to main page
-        router.push('/');
+        router.push(nextPath());
       } else {
         setError('Invalid email or password');
       }
@@ -104,6 +112,12 @@ export default function Login() {
               </div>
             </div>
 
+            <div className="text-right">
+              <Link href="/forgot-password" className="text-sm text-blue-600 hover:text-blue-500 font-medium">
+                Forgot your password?
+              </Link>
+            </div>
+
             <div>
               <button
                 type="submit"
@@ -8,7 +8,7 @@ import SampleDetails from '@/components/SampleDetails';
 import RoleSwitcher from '@/components/RoleSwitcher';
 import { Sample, pathogens } from '@/data/sampleData';
 import { fetchSamples, fetchUniqueYears, fetchUniquePathogens } from '@/lib/dataService';
-import { AuthService } from '@/lib/auth';
+import { useAuth } from '@/components/AuthProvider';
 
 // Dynamically import the map to avoid SSR issues
 const PathogenMap = dynamic(() => import('@/components/PathogenMap'), {
@@ -27,7 +27,7 @@ export default function Home() {
   const [availableYears, setAvailableYears] = useState<number[]>([]);
   const [availablePathogens, setAvailablePathogens] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
-  const [user, setUser] = useState(AuthService.getCurrentUser());
+  const { user, logout } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [viewAsRole, setViewAsRole] = useState<string | null>(null);
 
@@ -97,8 +97,7 @@ export default function Home() {
   };
 
   const handleLogout = async () => {
-    await AuthService.logout();
-    setUser(null);
+    await logout();
     router.refresh();
   };
 
@@ -318,6 +317,13 @@ export default function Home() {
                   >
                     Manage Pathogens
                   </Link>
+                  <Link
+                    href="/uploads"
+                    onClick={() => setMobileMenuOpen(false)}
+                    className="block w-full bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium text-center transition-colors"
+                  >
+                    Upload History
+                  </Link>
                 </div>
               )}
             </div>
@@ -326,12 +332,28 @@ export default function Home() {
             <div className="p-3 mb-3">
               <div className="bg-white rounded-lg p-3 shadow-md">
                 {user ? (
-                  <button
-                    onClick={() => { handleLogout(); setMobileMenuOpen(false); }}
-                    className="w-full bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
-                  >
-                    Logout
-                  </button>
+                  <div className="space-y-2">
+                    <Link
+                      href="/sessions"
+                      onClick={() => setMobileMenuOpen(false)}
+                      className="block w-full bg-white hover:bg-gray-50 border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium text-center transition-colors"
+                    >
+                      My Sessions
+                    </Link>
+                    <Link
+                      href="/change-password"
+                      onClick={() => setMobileMenuOpen(false)}
+                      className="block w-full bg-white hover:bg-gray-50 border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium text-center transition-colors"
+                    >
+                      Change Password
+                    </Link>
+                    <button
+                      onClick={() => { handleLogout(); setMobileMenuOpen(false); }}
+                      className="w-full bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                    >
+                      Logout
+                    </button>
+                  </div>
                 ) : (
                   <Link
                     href="/login"
@@ -5,36 +5,61 @@ import Link from 'next/link';
 import { supabase } from '@/lib/supabase';
 import RoleGuard from '@/components/RoleGuard';
 import { AuthService } from '@/lib/auth';
+import {
+  DEFAULT_SEVERITY_THRESHOLDS,
+  SEVERITY_METRIC_LABELS,
+  SeverityMetric,
+  describeThresholds,
+  validateThresholds,
+} from '@/lib/severity';
 
 interface PathogenSpecies {
   id: string;
   species_name: string;
   common_name: string;
   disease_type: string;
+  ncbi_taxid: number | null;
+  severity_metric: SeverityMetric;
+  medium_threshold: number;
+  high_threshold: number;
   created_at: string;
 }
 
+interface PathogenSynonym {
+  id: string;
+  pathogen_species_id: string;
+  synonym: string;
+}
+
+const EMPTY_FORM = {
+  species_name: '',
+  common_name: '',
+  disease_type: '',
+  ncbi_taxid: '',
+  severity_metric: DEFAULT_SEVERITY_THRESHOLDS.severity_metric,
+  medium_threshold: String(DEFAULT_SEVERITY_THRESHOLDS.medium_threshold),
+  high_threshold: String(DEFAULT_SEVERITY_THRESHOLDS.high_threshold)
+};
+
 export default function PathogenManagement() {
   const handleLogout = async () => {
     await AuthService.logout();
     window.location.href = '/admin/login';
   };
   const [pathogens, setPathogens] = useState<PathogenSpecies[]>([]);
+  const [synonyms, setSynonyms] = useState<PathogenSynonym[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingPathogen, setEditingPathogen] = useState<PathogenSpecies | null>(null);
   const [diseaseTypes, setDiseaseTypes] = useState<string[]>([]);
-  const [formData, setFormData] = useState({
-    species_name: '',
-    common_name: '',
-    disease_type: ''
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
   const [newDiseaseType, setNewDiseaseType] = useState('');
 
   // Load pathogens and disease types
   useEffect(() => {
     loadPathogens();
     loadDiseaseTypes();
+    loadSynonyms();
   }, []);
 
   const loadPathogens = async () => {
@@ -55,6 +80,62 @@ export default function PathogenManagement() {
     }
   };
 
+  const loadSynonyms = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pathogen_species_synonyms')
+        .select('id, pathogen_species_id, synonym')
+        .order('synonym');
+
+      if (error) throw error;
+      setSynonyms(data || []);
+    } catch (error) {
+      console.error('Error loading synonyms:', error);
+    }
+  };
+
+  const handleAddSynonym = async (pathogen: PathogenSpecies) => {
+    const synonym = prompt(`Add another name that should import as ${pathogen.species_name}:`);
+    if (!synonym?.trim()) return;
+
+    try {
+      const response = await fetch('/api/pathogens/synonyms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pathogen_species_id: pathogen.id, synonym })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to add synonym');
+      }
+
+      loadSynonyms();
+    } catch (error) {
+      console.error('Error adding synonym:', error);
+      alert('Failed to add synonym: ' + (error as Error).message);
+    }
+  };
+
+  const handleDeleteSynonym = async (synonym: PathogenSynonym) => {
+    if (!confirm(`Remove synonym "${synonym.synonym}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/pathogens/synonyms?id=${synonym.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove synonym');
+      }
+
+      loadSynonyms();
+    } catch (error) {
+      console.error('Error removing synonym:', error);
+      alert('Failed to remove synonym: ' + (error as Error).message);
+    }
+  };
+
   const loadDiseaseTypes = async () => {
     try {
       const { data, error } = await supabase
@@ -80,48 +161,55 @@ export default function PathogenManagement() {
       return;
     }
 
+    if (formData.ncbi_taxid.trim() && !/^\d+$/.test(formData.ncbi_taxid.trim())) {
+      alert('NCBI taxid must be a number');
+      return;
+    }
+    const ncbiTaxid = formData.ncbi_taxid.trim() ? Number(formData.ncbi_taxid.trim()) : null;
+
+    const thresholds = {
+      severity_metric: formData.severity_metric,
+      medium_threshold: formData.medium_threshold.trim() ? Number(formData.medium_threshold) : NaN,
+      high_threshold: formData.high_threshold.trim() ? Number(formData.high_threshold) : NaN
+    };
+    const thresholdError = validateThresholds(thresholds);
+    if (thresholdError) {
+      alert(thresholdError);
+      return;
+    }
+
     try {
-      if (editingPathogen) {
-        // Update existing pathogen
-        const { error } = await supabase
-          .from('pathogen_species')
-          .update({
-            species_name: formData.species_name.trim(),
-            common_name: formData.common_name.trim(),
-            disease_type: formData.disease_type.trim()
-          })
-          .eq('id', editingPathogen.id);
-
-        if (error) throw error;
-        alert('Pathogen updated successfully');
-      } else {
-        // Add new pathogen
-        const { error } = await supabase
-          .from('pathogen_species')
-          .insert({
-            species_name: formData.species_name.trim(),
-            common_name: formData.common_name.trim(),
-            disease_type: formData.disease_type.trim()
-          });
-
-        if (error) throw error;
-        alert('Pathogen added successfully');
+      // PATCH updates the pathogen being edited, POST adds a new one
+      const response = await fetch('/api/pathogens', {
+        method: editingPathogen ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(editingPathogen && { id: editingPathogen.id }),
+          species_name: formData.species_name.trim(),
+          common_name: formData.common_name.trim(),
+          disease_type: formData.disease_type.trim(),
+          ncbi_taxid: ncbiTaxid,
+          ...thresholds
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save pathogen');
       }
 
+      alert(editingPathogen ? 'Pathogen updated successfully' : 'Pathogen added successfully');
+
       // Reset form and reload data
-      setFormData({ species_name: '', common_name: '', disease_type: '' });
+      setFormData(EMPTY_FORM);
       setShowAddForm(false);
       setEditingPathogen(null);
       loadPathogens();
       loadDiseaseTypes();
     } catch (error) {
       console.error('Error saving pathogen:', error);
-      const err = error as { code?: string; message?: string };
-      if (err.code === '23505') {
-        alert('A pathogen with this species name already exists');
-      } else {
-        alert('Failed to save pathogen: ' + (err.message || 'Unknown error'));
-      }
+      alert('Failed to save pathogen: ' + (error as Error).message);
     }
   };
 
@@ -130,7 +218,11 @@ export default function PathogenManagement() {
     setFormData({
       species_name: pathogen.species_name,
       common_name: pathogen.common_name,
-      disease_type: pathogen.disease_type
+      disease_type: pathogen.disease_type,
+      ncbi_taxid: pathogen.ncbi_taxid?.toString() ?? '',
+      severity_metric: pathogen.severity_metric,
+      medium_threshold: String(pathogen.medium_threshold),
+      high_threshold: String(pathogen.high_threshold)
     });
     setShowAddForm(true);
   };
@@ -141,27 +233,26 @@ export default function PathogenManagement() {
     }
 
     try {
-      const { error } = await supabase
-        .from('pathogen_species')
-        .delete()
-        .eq('id', pathogen.id);
+      const response = await fetch(`/api/pathogens?id=${pathogen.id}`, {
+        method: 'DELETE'
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete pathogen');
+      }
 
-      if (error) throw error;
       alert('Pathogen deleted successfully');
       loadPathogens();
     } catch (error) {
       console.error('Error deleting pathogen:', error);
-      const err = error as { code?: string; message?: string };
-      if (err.code === '23503') {
-        alert('Cannot delete this pathogen because it has associated detection data');
-      } else {
-        alert('Failed to delete pathogen: ' + (err.message || 'Unknown error'));
-      }
+      alert('Failed to delete pathogen: ' + (error as Error).message);
     }
   };
 
   const resetForm = () => {
-    setFormData({ species_name: '', common_name: '', disease_type: '' });
+    setFormData(EMPTY_FORM);
     setShowAddForm(false);
     setEditingPathogen(null);
   };
@@ -228,7 +319,7 @@ export default function PathogenManagement() {
                 {editingPathogen ? 'Edit Pathogen' : 'Add New Pathogen'}
               </h3>
               <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
                   <div>
                     <label htmlFor="species_name" className="block text-sm font-medium text-gray-700">
                       Species Name (Scientific)
@@ -276,6 +367,78 @@ export default function PathogenManagement() {
                       </select>
                     </div>
                   </div>
+                  <div>
+                    <label htmlFor="ncbi_taxid" className="block text-sm font-medium text-gray-700">
+                      NCBI Taxid
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      id="ncbi_taxid"
+                      value={formData.ncbi_taxid}
+                      onChange={(e) => setFormData({ ...formData, ncbi_taxid: e.target.value })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                      placeholder="e.g., 168172"
+                    />
+                  </div>
+                </div>
+
+                {/* Severity thresholds */}
+                <div className="border-t pt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Severity Thresholds
+                  </label>
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                    <div>
+                      <label htmlFor="severity_metric" className="block text-sm text-gray-600">
+                        Measured in
+                      </label>
+                      <select
+                        id="severity_metric"
+                        value={formData.severity_metric}
+                        onChange={(e) => setFormData({ ...formData, severity_metric: e.target.value as SeverityMetric })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                      >
+                        {(Object.entries(SEVERITY_METRIC_LABELS) as Array<[SeverityMetric, string]>).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="medium_threshold" className="block text-sm text-gray-600">
+                        Medium above
+                      </label>
+                      <input
+                        type="number"
+                        id="medium_threshold"
+                        min="0"
+                        step="any"
+                        value={formData.medium_threshold}
+                        onChange={(e) => setFormData({ ...formData, medium_threshold: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="high_threshold" className="block text-sm text-gray-600">
+                        High above
+                      </label>
+                      <input
+                        type="number"
+                        id="high_threshold"
+                        min="0"
+                        step="any"
+                        value={formData.high_threshold}
+                        onChange={(e) => setFormData({ ...formData, high_threshold: e.target.value })}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                        required
+                      />
+                    </div>
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">
+                    At or below the medium threshold a detection is low severity. Abundance is a percentage of the
+                    sample&apos;s fungal reads (or total reads); samples without library totals fall back to read counts.
+                  </p>
                 </div>
 
                 {/* Add new disease type */}
@@ -359,7 +522,30 @@ export default function PathogenManagement() {
                         </div>
                         <p className="text-sm text-gray-500">
                           Added: {new Date(pathogen.created_at).toLocaleDateString()}
+                          {pathogen.ncbi_taxid && ` · NCBI taxid ${pathogen.ncbi_taxid}`}
+                          {` · Severity: ${describeThresholds(pathogen)}`}
                         </p>
+                        <div className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+                          <span className="text-gray-500">Also imports as:</span>
+                          {synonyms.filter(s => s.pathogen_species_id === pathogen.id).map(synonym => (
+                            <span key={synonym.id} className="inline-flex items-center px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full">
+                              {synonym.synonym}
+                              <button
+                                onClick={() => handleDeleteSynonym(synonym)}
+                                className="ml-1 text-gray-400 hover:text-red-600"
+                                title="Remove synonym"
+                              >
+                                ×
+                              </button>
+                            </span>
+                          ))}
+                          <button
+                            onClick={() => handleAddSynonym(pathogen)}
+                            className="text-blue-600 hover:text-blue-900 font-medium"
+                          >
+                            + Add synonym
+                          </button>
+                        </div>
                       </div>
                       <div className="flex space-x-2">
                         <button
@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import RoleGuard from '@/components/RoleGuard';
 import RoleSwitcher from '@/components/RoleSwitcher';
-import { AuthService } from '@/lib/auth';
+import { useAuth } from '@/components/AuthProvider';
 import dynamic from 'next/dynamic';
 
 // Dynamically import the tab components
@@ -24,7 +24,7 @@ type TabType = 'collect' | 'manage';
 function SamplePageContent() {
   const searchParams = useSearchParams();
   const sampleId = searchParams.get('id');
-  const user = AuthService.getCurrentUser();
+  const { user, loading } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>('manage');
   const [viewAsRole, setViewAsRole] = useState<string | null>(null);
 
@@ -33,8 +33,13 @@ function SamplePageContent() {
     ? (viewAsRole === 'public' ? null : { ...user, role: viewAsRole })
     : user;
 
-  // If a specific sample ID is provided and effective user is not authenticated, show read-only view
-  const isPublicView = sampleId && !effectiveUser;
+  // The proxy only lets signed-in users this far; viewers (or anyone viewing
+  // as one) get a read-only view of the sample they were linked to
+  const isReadOnlyView = sampleId && !(effectiveUser && (effectiveUser.role === 'sampler' || effectiveUser.role === 'admin'));
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-screen">Loading...</div>;
+  }
 
   // If effective user is authenticated (sampler or admin), show full functionality
   if (user && (user.role === 'sampler' || user.role === 'admin') && effectiveUser && (effectiveUser.role === 'sampler' || effectiveUser.role === 'admin')) {
@@ -97,8 +102,8 @@ function SamplePageContent() {
     );
   }
 
-  // Public view - read-only access to specific sample
-  if (isPublicView) {
+  // Read-only access to specific sample
+  if (isReadOnlyView) {
     return (
       <div className="h-screen flex flex-col bg-gray-50">
         {/* Header */}
@@ -125,7 +130,7 @@ function SamplePageContent() {
     );
   }
 
-  // Redirect to login if no sample ID provided and not authenticated
+  // No sample ID and no permission to manage samples
   return (
     <div className="h-screen flex items-center justify-center bg-gray-50">
       <div className="text-center">
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import RoleGuard from '@/components/RoleGuard';
+import { useAuth } from '@/components/AuthProvider';
+import type { SessionSummary } from '@/lib/sessions';
+
+export default function SessionsPage() {
+  const router = useRouter();
+  const { refresh } = useAuth();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sessions', { cache: 'no-store' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load sessions');
+      }
+
+      setSessions(result.sessions || []);
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+      alert('Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // Ending the current session (or all of them) signs this browser out too
+  const afterSignOut = async () => {
+    await refresh();
+    router.push('/login');
+  };
+
+  const handleRevoke = async (session: SessionSummary) => {
+    if (session.current && !confirm('This is the session you are using now. Sign out?')) {
+      return;
+    }
+
+    setRevokingId(session.id);
+    try {
+      const response = await fetch(`/api/sessions?id=${session.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to sign out session');
+      }
+
+      if (session.current) {
+        await afterSignOut();
+        return;
+      }
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      alert('Failed to sign out session: ' + (error as Error).message);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm('Sign out on every device, including this one?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/sessions', { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to sign out everywhere');
+      }
+
+      await afterSignOut();
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      alert('Failed to sign out everywhere: ' + (error as Error).message);
+    }
+  };
+
+  return (
+    <RoleGuard requiredRole="viewer">
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white shadow-sm border-b px-6 py-4">
+          <div className="flex items-center justify-between max-w-7xl mx-auto">
+            <Link href="/" className="cursor-pointer hover:opacity-80 transition-opacity">
+              <h1 className="text-2xl font-bold text-gray-900">spore.net</h1>
+              <p className="text-gray-700 text-sm font-medium">My Sessions</p>
+            </Link>
+            <Link
+              href="/"
+              className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              Home
+            </Link>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-6 flex justify-between items-center">
+            <h2 className="text-2xl font-bold text-gray-900">Signed-in devices ({sessions.length})</h2>
+            <button
+              onClick={handleRevokeAll}
+              disabled={sessions.length === 0}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md font-medium transition-colors disabled:opacity-50"
+            >
+              Sign out everywhere
+            </button>
+          </div>
+
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+                <p className="text-gray-600">Loading sessions...</p>
+              </div>
+            ) : sessions.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-gray-500">No open sessions</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {sessions.map((session) => (
+                  <li key={session.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {session.device}
+                        {session.current && (
+                          <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {session.ipAddress || 'Unknown IP'} · Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Signed in {new Date(session.createdAt).toLocaleString()} · Expires {new Date(session.expiresAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(session)}
+                      disabled={revokingId === session.id}
+                      className="text-red-600 hover:text-red-900 text-sm font-medium disabled:opacity-50"
+                    >
+                      {revokingId === session.id ? 'Signing out...' : 'Sign out'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </main>
+      </div>
+    </RoleGuard>
+  );
+}
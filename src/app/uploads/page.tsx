@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import RoleGuard from '@/components/RoleGuard';
+import RoleSwitcher from '@/components/RoleSwitcher';
+import SequencingRuns from '@/components/SequencingRuns';
+
+interface UploadUser {
+  email: string;
+  full_name: string | null;
+}
+
+interface UploadBatch {
+  id: string;
+  filename: string;
+  file_size: number | null;
+  row_count: number | null;
+  created_at: string;
+  rolled_back_at: string | null;
+  uploader: UploadUser | null;
+  rolled_back_by_user: UploadUser | null;
+  sequencing_run: { name: string } | null;
+}
+
+export default function UploadsPage() {
+  const [batches, setBatches] = useState<UploadBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const loadBatches = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/uploads');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load upload history');
+      }
+
+      setBatches(result.batches || []);
+    } catch (error) {
+      console.error('Error loading upload history:', error);
+      alert('Failed to load upload history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRollback = async (batch: UploadBatch) => {
+    if (!confirm(`Roll back "${batch.filename}"? Routes it created will be deleted and any read counts, library totals or run controls it overwrote will be restored.`)) {
+      return;
+    }
+
+    setRollingBackId(batch.id);
+    try {
+      const response = await fetch('/api/uploads/rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: batch.id })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to roll back upload');
+      }
+
+      alert(
+        `Upload rolled back: ${result.routesDeleted} routes deleted, ` +
+        `${result.detectionsDeleted} detections removed, ${result.detectionsRestored} read counts restored, ` +
+        `${result.routesRestored} library totals restored, ` +
+        `${result.controlsDeleted} controls removed, ${result.controlsRestored} controls restored, ` +
+        `${result.runsDeleted} runs removed, ${result.runsRestored} runs restored`
+      );
+      loadBatches();
+    } catch (error) {
+      console.error('Error rolling back upload:', error);
+      alert('Failed to roll back upload: ' + (error as Error).message);
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading upload history...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <RoleGuard requiredRole="admin">
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white shadow-sm border-b px-6 py-4">
+          <div className="flex items-center justify-between max-w-7xl mx-auto">
+            <Link href="/" className="cursor-pointer hover:opacity-80 transition-opacity">
+              <h1 className="text-2xl font-bold text-gray-900">spore.net</h1>
+              <p className="text-gray-700 text-sm font-medium">Upload History</p>
+            </Link>
+            <div className="flex items-center gap-4">
+              <RoleSwitcher />
+              <Link
+                href="/"
+                className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
+              >
+                Home
+              </Link>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">Uploads ({batches.length})</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Rolling back an upload restores every route and detection it touched to its pre-upload state.
+              Uploads must be rolled back newest first when they touch the same samples.
+            </p>
+          </div>
+
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    File
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Uploaded By
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Uploaded
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {batches.map((batch) => (
+                  <tr key={batch.id} className={batch.rolled_back_at ? 'bg-gray-50 opacity-60' : ''}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{batch.filename}</div>
+                      <div className="text-sm text-gray-500">
+                        {batch.row_count ?? 0} rows
+                        {batch.file_size ? ` · ${(batch.file_size / 1024).toFixed(1)} KB` : ''}
+                        {batch.sequencing_run ? ` · run ${batch.sequencing_run.name}` : ''}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {batch.uploader?.full_name || batch.uploader?.email || 'Unknown'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(batch.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {batch.rolled_back_at ? (
+                        <span
+                          className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800"
+                          title={`by ${batch.rolled_back_by_user?.full_name || batch.rolled_back_by_user?.email || 'unknown'}`}
+                        >
+                          Rolled back {new Date(batch.rolled_back_at).toLocaleDateString()}
+                        </span>
+                      ) : (
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          Active
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {!batch.rolled_back_at && (
+                        <button
+                          onClick={() => handleRollback(batch)}
+                          disabled={rollingBackId !== null}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          {rollingBackId === batch.id ? 'Rolling back...' : 'Roll back'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {batches.length === 0 && (
+              <div className="text-center py-12">
+                <p className="text-gray-500">No uploads yet</p>
+              </div>
+            )}
+          </div>
+
+          <SequencingRuns />
+        </main>
+      </div>
+    </RoleGuard>
+  );
+}
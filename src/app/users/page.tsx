@@ -4,7 +4,6 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import RoleGuard from '@/components/RoleGuard';
 import RoleSwitcher from '@/components/RoleSwitcher';
-import { supabase } from '@/lib/supabase';
 
 interface User {
   id: string;
@@ -14,6 +13,7 @@ interface User {
   is_active: boolean;
   created_at: string;
   last_login: string | null;
+  password_set_at: string | null;
 }
 
 interface EditData {
@@ -34,7 +34,6 @@ export default function UsersPage() {
 
   const [formData, setFormData] = useState({
     email: '',
-    password: '',
     full_name: '',
     role: 'sampler' as 'viewer' | 'sampler' | 'admin'
   });
@@ -46,13 +45,14 @@ export default function UsersPage() {
   const loadUsers = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, email, role, full_name, is_active, created_at, last_login')
-        .order('created_at', { ascending: false });
+      const response = await fetch('/api/users');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load users');
+      }
 
-      if (error) throw error;
-      setUsers(data || []);
+      setUsers(result.users || []);
     } catch (error) {
       console.error('Error loading users:', error);
       alert('Failed to load users');
@@ -64,7 +64,7 @@ export default function UsersPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.email || !formData.password || !formData.full_name) {
+    if (!formData.email || !formData.full_name) {
       alert('Please fill in all required fields');
       return;
     }
@@ -82,8 +82,10 @@ export default function UsersPage() {
         throw new Error(result.error || 'Failed to create user');
       }
 
-      alert('User created successfully');
-      setFormData({ email: '', password: '', full_name: '', role: 'sampler' });
+      alert(result.inviteSent
+        ? `Invitation sent to ${result.user.email}`
+        : 'User created, but the invitation email could not be sent. Use "Resend invite" to try again.');
+      setFormData({ email: '', full_name: '', role: 'sampler' });
       setShowAddForm(false);
       loadUsers();
     } catch (error) {
@@ -94,12 +96,17 @@ export default function UsersPage() {
 
   const handleToggleActive = async (userId: string, currentStatus: boolean) => {
     try {
-      const { error } = await supabase
-        .from('users')
-        .update({ is_active: !currentStatus })
-        .eq('id', userId);
+      const response = await fetch('/api/users', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: userId, is_active: !currentStatus })
+      });
 
-      if (error) throw error;
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update user status');
+      }
 
       alert(`User ${!currentStatus ? 'activated' : 'deactivated'} successfully`);
       loadUsers();
@@ -109,6 +116,50 @@ export default function UsersPage() {
     }
   };
 
+  const handleResendInvite = async (userId: string, userEmail: string) => {
+    try {
+      const response = await fetch('/api/users/invite', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to resend invitation');
+      }
+
+      alert(`Invitation sent to ${userEmail}`);
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      alert('Failed to resend invitation: ' + (error as Error).message);
+    }
+  };
+
+  const handleSignOutUser = async (userId: string, userEmail: string) => {
+    if (!confirm(`Sign "${userEmail}" out on every device?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/users/sessions?userId=${userId}`, {
+        method: 'DELETE'
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to sign user out');
+      }
+
+      alert(`Ended ${result.revoked} session${result.revoked === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error signing user out:', error);
+      alert('Failed to sign user out: ' + (error as Error).message);
+    }
+  };
+
   const handleDeleteUser = async (userId: string, userEmail: string) => {
     if (!confirm(`Are you sure you want to permanently delete user "${userEmail}"?`)) {
       return;
@@ -245,19 +296,6 @@ export default function UsersPage() {
                       required
                     />
                   </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Password *
-                    </label>
-                    <input
-                      type="password"
-                      value={formData.password}
-                      onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                      className="w-full px-3 py-2 text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      required
-                      minLength={6}
-                    />
-                  </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Role *
@@ -273,6 +311,9 @@ export default function UsersPage() {
                     </select>
                   </div>
                 </div>
+                <p className="text-sm text-gray-600">
+                  The user is emailed a link to choose their own password. The link expires in 7 days.
+                </p>
                 <div className="flex justify-end gap-3">
                   <button
                     type="button"
@@ -285,7 +326,7 @@ export default function UsersPage() {
                     type="submit"
                     className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium"
                   >
-                    Create User
+                    Send Invitation
                   </button>
                 </div>
               </form>
@@ -384,6 +425,11 @@ export default function UsersPage() {
                             {user.is_active ? 'Active' : 'Inactive'}
                           </span>
                         )}
+                        {!isEditing && !user.password_set_at && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                            Invited
+                          </span>
+                        )}
                       </td>
                       {/* Last Login */}
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -415,6 +461,20 @@ export default function UsersPage() {
                             >
                               Edit
                             </button>
+                            {!user.password_set_at && (
+                              <button
+                                onClick={() => handleResendInvite(user.id, user.email)}
+                                className="text-indigo-600 hover:text-indigo-900"
+                              >
+                                Resend invite
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleSignOutUser(user.id, user.email)}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              Sign out
+                            </button>
                             <button
                               onClick={() => handleDeleteUser(user.id, user.email)}
                               className="text-red-600 hover:text-red-900"
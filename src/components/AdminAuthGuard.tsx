@@ -1,33 +1,24 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { AuthService } from '@/lib/auth';
+import { useAuth } from '@/components/AuthProvider';
 
 interface AdminAuthGuardProps {
   children: React.ReactNode;
 }
 
 export default function AdminAuthGuard({ children }: AdminAuthGuardProps) {
-  const [isLoading, setIsLoading] = useState(true);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { user, loading } = useAuth();
   const router = useRouter();
 
   useEffect(() => {
-    const checkAuth = () => {
-      const authenticated = AuthService.isAuthenticated();
-      setIsAuthenticated(authenticated);
-      setIsLoading(false);
+    if (!loading && !user) {
+      router.push('/admin/login');
+    }
+  }, [loading, user, router]);
 
-      if (!authenticated) {
-        router.push('/admin/login');
-      }
-    };
-
-    checkAuth();
-  }, [router]);
-
-  if (isLoading) {
+  if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -38,9 +29,9 @@ export default function AdminAuthGuard({ children }: AdminAuthGuardProps) {
     );
   }
 
-  if (!isAuthenticated) {
+  if (!user) {
     return null;
   }
 
   return <>{children}</>;
-}
\ No newline at end of file
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { AuthService, User, UserRole, hasRole } from '@/lib/auth';
+
+interface AuthContextValue {
+  user: User | null;
+  loading: boolean;
+  offline: boolean; // user is the last one the server confirmed; /api/me was unreachable
+  hasRole: (requiredRole: UserRole) => boolean;
+  login: (email: string, password: string) => Promise<User | null>;
+  logout: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * Signed-in user for the whole app, loaded once from /api/me
+ */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState<{ user: User | null; loading: boolean; offline: boolean }>({
+    user: null,
+    loading: true,
+    offline: false,
+  });
+
+  const refresh = useCallback(async () => {
+    const { user, offline } = await AuthService.fetchCurrentUser();
+    setState({ user, loading: false, offline });
+  }, []);
+
+  useEffect(() => {
+    AuthService.fetchCurrentUser().then(({ user, offline }) => setState({ user, loading: false, offline }));
+  }, []);
+
+  const login = useCallback(async (email: string, password: string) => {
+    const user = await AuthService.login(email, password);
+    if (user) setState({ user, loading: false, offline: false });
+    return user;
+  }, []);
+
+  const logout = useCallback(async () => {
+    await AuthService.logout();
+    setState({ user: null, loading: false, offline: false });
+  }, []);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        ...state,
+        hasRole: (requiredRole: UserRole) => hasRole(state.user, requiredRole),
+        login,
+        logout,
+        refresh,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within AuthProvider');
+  }
+  return context;
+}
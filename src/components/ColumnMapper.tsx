@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { CSVRecord } from '@/lib/csv';
+import {
+  COORDINATE_FORMAT_LABELS,
+  ColumnMapping,
+  ColumnMappingTemplate,
+  CoordinateFormat,
+  DATE_FORMATS,
+  MAPPED_FIELD_LABELS,
+  MappedField,
+  OPTIONAL_MAPPED_FIELDS,
+  applyColumnMapping,
+  missingMappedFields,
+  requiredMappedFields,
+} from '@/lib/columnMapping';
+import { DateFormat, parseDate } from '@/lib/metabarcodeImport';
+
+interface ColumnMapperProps {
+  headers: string[];
+  records: CSVRecord[]; // first few records, used for the preview
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  disabled?: boolean;
+}
+
+export default function ColumnMapper({ headers, records, mapping, onChange, disabled }: ColumnMapperProps) {
+  const [templates, setTemplates] = useState<ColumnMappingTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [labName, setLabName] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch('/api/uploads/templates');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load mapping templates');
+      }
+
+      setTemplates(result.templates || []);
+    } catch (error) {
+      console.error('Error loading mapping templates:', error);
+    }
+  };
+
+  const handleTemplateSelect = (templateId: string) => {
+    setSelectedTemplateId(templateId);
+    const template = templates.find(t => t.id === templateId);
+    if (template) {
+      onChange(template.mapping);
+      setLabName(template.lab_name);
+      setTemplateName(template.name);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!labName.trim() || !templateName.trim()) {
+      alert('Please enter a lab name and a template name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/uploads/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lab_name: labName, name: templateName, mapping })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save template');
+      }
+
+      await loadTemplates();
+      setSelectedTemplateId(result.template.id);
+    } catch (error) {
+      console.error('Error saving mapping template:', error);
+      alert('Failed to save template: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    const template = templates.find(t => t.id === selectedTemplateId);
+    if (!template || !confirm(`Delete template "${template.lab_name} / ${template.name}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/uploads/templates?id=${template.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete template');
+      }
+
+      setSelectedTemplateId('');
+      loadTemplates();
+    } catch (error) {
+      console.error('Error deleting mapping template:', error);
+      alert('Failed to delete template: ' + (error as Error).message);
+    }
+  };
+
+  const setColumn = (field: MappedField, column: string) => {
+    onChange({ ...mapping, columns: { ...mapping.columns, [field]: column || undefined } });
+  };
+
+  const missing = missingMappedFields(mapping, headers);
+  const previewRows = applyColumnMapping(records.slice(0, 3), mapping);
+  const labs = [...new Set(templates.map(t => t.lab_name))];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">Map Columns</h4>
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedTemplateId}
+            onChange={(e) => handleTemplateSelect(e.target.value)}
+            disabled={disabled}
+            className="text-sm border-gray-300 rounded-md text-gray-900"
+          >
+            <option value="">Apply a saved template...</option>
+            {labs.map(lab => (
+              <optgroup key={lab} label={lab}>
+                {templates.filter(t => t.lab_name === lab).map(t => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          {selectedTemplateId && (
+            <button
+              onClick={handleDeleteTemplate}
+              disabled={disabled}
+              className="text-red-600 hover:text-red-900 text-sm font-medium"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Formats */}
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <label className="text-sm text-gray-700">
+          Date format
+          <select
+            value={mapping.dateFormat}
+            onChange={(e) => onChange({ ...mapping, dateFormat: e.target.value as DateFormat })}
+            disabled={disabled}
+            className="mt-1 block w-full text-sm border-gray-300 rounded-md text-gray-900"
+          >
+            {DATE_FORMATS.map(format => (
+              <option key={format} value={format}>{format}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Coordinates
+          <select
+            value={mapping.coordinateFormat}
+            onChange={(e) => onChange({ ...mapping, coordinateFormat: e.target.value as CoordinateFormat })}
+            disabled={disabled}
+            className="mt-1 block w-full text-sm border-gray-300 rounded-md text-gray-900"
+          >
+            {(Object.entries(COORDINATE_FORMAT_LABELS) as Array<[CoordinateFormat, string]>).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Field assignments */}
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        {[...requiredMappedFields(mapping.coordinateFormat), ...OPTIONAL_MAPPED_FIELDS].map(field => (
+          <label key={field} className="flex items-center justify-between gap-2 text-sm text-gray-700">
+            <span>
+              {MAPPED_FIELD_LABELS[field]}
+              {OPTIONAL_MAPPED_FIELDS.includes(field) && <span className="text-gray-400"> (optional)</span>}
+            </span>
+            <select
+              value={mapping.columns[field] ?? ''}
+              onChange={(e) => setColumn(field, e.target.value)}
+              disabled={disabled}
+              className={`w-44 text-sm rounded-md text-gray-900 ${missing.includes(field) ? 'border-red-400' : 'border-gray-300'}`}
+            >
+              <option value="">— not mapped —</option>
+              {headers.map(header => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {/* Preview of the first rows as they will be imported */}
+      {missing.length === 0 && previewRows.length > 0 && (
+        <div className="bg-gray-50 rounded overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left text-gray-700">Sample</th>
+                <th className="px-2 py-1 text-left text-gray-700">Start</th>
+                <th className="px-2 py-1 text-left text-gray-700">End</th>
+                <th className="px-2 py-1 text-left text-gray-700">Species</th>
+                <th className="px-2 py-1 text-right text-gray-700">Reads</th>
+                <th className="px-2 py-1 text-left text-gray-700">Date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {previewRows.map(({ line, values }) => (
+                <tr key={line} className="border-t text-gray-800">
+                  <td className="px-2 py-1 font-mono">{values.sample_id}</td>
+                  <td className="px-2 py-1">{values.start_name} ({values.start_point})</td>
+                  <td className="px-2 py-1">{values.end_name} ({values.end_point})</td>
+                  <td className="px-2 py-1">{values.species}</td>
+                  <td className="px-2 py-1 text-right font-mono">{values.read_count}</td>
+                  <td className="px-2 py-1">
+                    {parseDate(values.collection_date, mapping.dateFormat) ?? (
+                      <span className="text-red-600">{values.collection_date}?</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Save as template */}
+      <div className="border-t pt-3 flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          list="mapping-template-labs"
+          value={labName}
+          onChange={(e) => setLabName(e.target.value)}
+          disabled={disabled}
+          placeholder="Lab name"
+          className="flex-1 min-w-32 text-sm border-gray-300 rounded-md text-gray-900"
+        />
+        <datalist id="mapping-template-labs">
+          {labs.map(lab => (
+            <option key={lab} value={lab} />
+          ))}
+        </datalist>
+        <input
+          type="text"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          disabled={disabled}
+          placeholder="Template name"
+          className="flex-1 min-w-32 text-sm border-gray-300 rounded-md text-gray-900"
+        />
+        <button
+          onClick={handleSaveTemplate}
+          disabled={disabled || saving || missing.length > 0}
+          className="px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 text-sm disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Template'}
+        </button>
+      </div>
+    </div>
+  );
+}
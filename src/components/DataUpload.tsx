@@ -1,7 +1,10 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Sample, PathogenDetection } from '@/data/sampleData';
+import { parseCSV } from '@/lib/csv';
+import { supabase } from '@/lib/supabase';
+import { SeverityThresholds, classifySeverity, severityThresholds } from '@/lib/severity';
 
 interface DataUploadProps {
   onDataUploaded: (samples: Sample[]) => void;
@@ -14,6 +17,30 @@ export default function DataUpload({ onDataUploaded, onClose }: DataUploadProps)
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [thresholds, setThresholds] = useState<Map<string, SeverityThresholds>>(new Map());
+
+  // Per-species severity thresholds, keyed by species name
+  useEffect(() => {
+    const loadThresholds = async () => {
+      const { data, error } = await supabase
+        .from('pathogen_species')
+        .select('species_name, severity_metric, medium_threshold, high_threshold');
+
+      if (error) {
+        console.error('Error loading severity thresholds:', error);
+        return;
+      }
+
+      const bySpecies = new Map<string, SeverityThresholds>();
+      for (const row of data || []) {
+        const speciesThresholds = severityThresholds(row);
+        if (speciesThresholds) bySpecies.set(row.species_name, speciesThresholds);
+      }
+      setThresholds(bySpecies);
+    };
+
+    loadThresholds();
+  }, []);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -52,7 +79,7 @@ export default function DataUpload({ onDataUploaded, onClose }: DataUploadProps)
         const jsonData = JSON.parse(text);
         validateAndSetData(jsonData);
       } else if (file.name.endsWith('.csv')) {
-        const csvData = parseCSV(text);
+        const csvData = csvToSamples(text);
         validateAndSetData(csvData);
       } else {
         throw new Error('Unsupported file format. Please upload JSON or CSV files.');
@@ -64,9 +91,14 @@ export default function DataUpload({ onDataUploaded, onClose }: DataUploadProps)
     }
   };
 
-  const parseCSV = (text: string): Sample[] => {
-    const lines = text.split('\n').filter(line => line.trim());
-    const headers = lines[0].split(',').map(h => h.trim());
+  const csvToSamples = (text: string): Sample[] => {
+    const { headers, records, errors } = parseCSV(text);
+
+    if (errors.length > 0) {
+      const details = errors.slice(0, 5).map(e => `line ${e.line}: ${e.message}`).join('; ');
+      const more = errors.length > 5 ? ` (and ${errors.length - 5} more)` : '';
+      throw new Error(`Could not parse CSV - ${details}${more}`);
+    }
 
     // Expected headers for metabarcoding data
     const requiredHeaders = ['sample_id', 'start_latitude', 'start_longitude', 'end_latitude', 'end_longitude', 'location', 'collection_date', 'species', 'read_count', 'relative_abundance'];
@@ -78,14 +110,7 @@ export default function DataUpload({ onDataUploaded, onClose }: DataUploadProps)
 
     const samplesMap = new Map<string, Sample>();
 
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim());
-      const row: Record<string, string> = {};
-
-      headers.forEach((header, idx) => {
-        row[header] = values[idx] || '';
-      });
-
+    for (const { values: row } of records) {
       const sampleId = row.sample_id;
       const species = row.species;
 
@@ -116,7 +141,7 @@ export default function DataUpload({ onDataUploaded, onClose }: DataUploadProps)
         commonName: getCommonName(species),
         readCount,
         relativeAbundance,
-        severity: getSeverity(relativeAbundance)
+        severity: classifySeverity(readCount, relativeAbundance, thresholds.get(species))
       };
 
       sample.pathogens.push(pathogen);
@@ -147,12 +172,6 @@ export default function DataUpload({ onDataUploaded, onClose }: DataUploadProps)
     return commonNames[species] || species;
   };
 
-  const getSeverity = (abundance: number): 'low' | 'medium' | 'high' => {
-    if (abundance >= 20) return 'high';
-    if (abundance >= 10) return 'medium';
-    return 'low';
-  };
-
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const validateAndSetData = (data: any) => {
     if (!Array.isArray(data)) {
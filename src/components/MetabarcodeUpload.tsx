@@ -1,258 +1,301 @@
 'use client';
 
-import { useState, useRef } from 'react';
-import { supabase } from '@/lib/supabase';
-import { AuthService } from '@/lib/auth';
-
-interface UploadResult {
-  success: boolean;
-  message: string;
-  routesProcessed: number;
-  detectionsAdded: number;
-  errors: string[];
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import ColumnMapper from '@/components/ColumnMapper';
+import { ColumnMapping, guessColumnMapping, missingMappedFields } from '@/lib/columnMapping';
+import { CSVRecord, parseCSV } from '@/lib/csv';
+import {
+  CONTROL_TYPE_LABELS,
+  DECONTAMINATION_MODE_LABELS,
+  DecontaminationMode,
+  MetabarcodeImportReport,
+  MetabarcodePreview,
+  MetabarcodeUploadFormat,
+  RowReport,
+} from '@/lib/metabarcodeImport';
+import { PLATFORMS, PRIMER_SETS, SequencingRun } from '@/lib/sequencingRuns';
+import { SpeciesSuggestion } from '@/lib/speciesMatching';
+
+interface FileInput {
+  field: string; // multipart form field name expected by /api/uploads/metabarcode
+  label: string;
+  accept: string;
+  optional?: boolean;
+  multiple?: boolean;
 }
 
-interface CSVRow {
-  sample_id: string;
-  start_name: string;
-  start_point: string;
-  end_name: string;
-  end_point: string;
-  species: string;
-  read_count: string;
-  collection_date: string;
-}
+const FORMAT_INPUTS: Record<MetabarcodeUploadFormat, FileInput[]> = {
+  csv: [
+    { field: 'file', label: 'Select CSV File', accept: '.csv' },
+  ],
+  biom: [
+    { field: 'featureTable', label: 'Feature Table (BIOM JSON or TSV)', accept: '.biom,.json,.tsv,.txt' },
+    { field: 'taxonomy', label: 'Taxonomy (taxonomy.tsv)', accept: '.tsv,.txt', optional: true },
+    { field: 'metadata', label: 'Sample Metadata', accept: '.tsv,.csv,.txt' },
+  ],
+  kraken: [
+    { field: 'reports', label: 'Kraken2 / Bracken Reports', accept: '.kreport,.kreport2,.report,.bracken,.k2,.kraken,.kraken2,.txt,.tsv', multiple: true },
+    { field: 'manifest', label: 'Manifest (filename, sample_id)', accept: '.csv,.tsv,.txt', optional: true },
+  ],
+};
+
+const FORMAT_LABELS: Array<[MetabarcodeUploadFormat, string]> = [
+  ['csv', 'Long-format CSV'],
+  ['biom', 'QIIME2 / BIOM'],
+  ['kraken', 'Kraken2 / Bracken'],
+];
+
+function Notes({ notes }: { notes?: string[] }) {
+  if (!notes || notes.length === 0) return null;
 
-export default function MetabarcodeUpload() {
-  const [file, setFile] = useState<File | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const [result, setResult] = useState<UploadResult | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  return (
+    <ul className="mt-3 text-xs text-gray-600 list-disc list-inside space-y-1">
+      {notes.map(note => (
+        <li key={note}>{note}</li>
+      ))}
+    </ul>
+  );
+}
 
-  const parseCSV = (text: string): CSVRow[] => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length < 2) return [];
+interface RowErrorsProps {
+  rows: RowReport[];
+  onAcceptSuggestion?: (species: string, suggestion: SpeciesSuggestion) => void;
+  disabled?: boolean;
+}
 
-    const headers = lines[0].split(',').map(h => h.trim());
-    const rows: CSVRow[] = [];
+function RowErrors({ rows, onAcceptSuggestion, disabled }: RowErrorsProps) {
+  const failedRows = rows.filter(row => row.status === 'error');
+  if (failedRows.length === 0) return null;
 
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',');
-      if (values.length < headers.length) continue;
+  return (
+    <div className="mt-3">
+      <p className="font-medium text-red-900 mb-1">Row errors ({failedRows.length}):</p>
+      <div className="bg-white rounded max-h-40 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-2 py-1 text-left text-gray-700">Line</th>
+              <th className="px-2 py-1 text-left text-gray-700">Sample</th>
+              <th className="px-2 py-1 text-left text-gray-700">Species</th>
+              <th className="px-2 py-1 text-left text-gray-700">Problem</th>
+            </tr>
+          </thead>
+          <tbody>
+            {failedRows.map((row, index) => (
+              <tr key={index} className="border-t text-red-700">
+                <td className="px-2 py-1 font-mono">{row.line}</td>
+                <td className="px-2 py-1">{row.sampleId}</td>
+                <td className="px-2 py-1">{row.species}</td>
+                <td className="px-2 py-1">
+                  {row.message}
+                  {onAcceptSuggestion && row.suggestions && row.suggestions.length > 0 && (
+                    <div className="mt-1 flex flex-wrap items-center gap-1 text-gray-700">
+                      Did you mean:
+                      {row.suggestions.map(suggestion => (
+                        <button
+                          key={suggestion.pathogenSpeciesId}
+                          onClick={() => onAcceptSuggestion(row.species, suggestion)}
+                          disabled={disabled}
+                          title={`Closest match: ${suggestion.matchedName} (${Math.round(suggestion.score * 100)}%)`}
+                          className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 hover:bg-blue-200 disabled:opacity-50"
+                        >
+                          {suggestion.speciesName}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
 
-      const row: any = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index]?.trim() || '';
+export default function MetabarcodeUpload() {
+  const [format, setFormat] = useState<MetabarcodeUploadFormat>('csv');
+  const [files, setFiles] = useState<Record<string, File[]>>({});
+  const [inputsKey, setInputsKey] = useState(0);
+  const [csvColumns, setCsvColumns] = useState<{ headers: string[]; records: CSVRecord[] } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [sequencingRun, setSequencingRun] = useState('');
+  const [knownRuns, setKnownRuns] = useState<SequencingRun[]>([]);
+  const [runMetadata, setRunMetadata] = useState({ primer_set: '', platform: '', pipeline_version: '' });
+  const [decontaminationMode, setDecontaminationMode] = useState<DecontaminationMode>('subtract');
+  const [uploading, setUploading] = useState(false);
+  const [preview, setPreview] = useState<MetabarcodePreview | null>(null);
+  const [result, setResult] = useState<MetabarcodeImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Existing runs are offered by name, and their metadata prefilled when picked
+    fetch('/api/sequencing-runs')
+      .then(response => (response.ok ? response.json() : { runs: [] }))
+      .then(result => setKnownRuns(result.runs || []))
+      .catch(error => console.error('Error loading sequencing runs:', error));
+  }, []);
+
+  const handleRunChange = (name: string) => {
+    setSequencingRun(name);
+    setPreview(null);
+
+    const known = knownRuns.find(run => run.name === name.trim());
+    if (known) {
+      setRunMetadata({
+        primer_set: known.primer_set ?? '',
+        platform: known.platform ?? '',
+        pipeline_version: known.pipeline_version ?? '',
       });
-
-      rows.push(row as CSVRow);
     }
-
-    return rows;
   };
 
-  const parseCoordinates = (coordString: string): [number, number] | null => {
-    // Format: "-31.95086, 115.86223" or similar
-    const cleaned = coordString.replace(/["']/g, '').trim();
-    const parts = cleaned.split(',').map(p => parseFloat(p.trim()));
-    if (parts.length === 2 && !isNaN(parts[0]) && !isNaN(parts[1])) {
-      return [parts[0], parts[1]];
+  const inputs = FORMAT_INPUTS[format];
+  const hasFiles = Object.keys(files).length > 0;
+  const mappingIncomplete = format === 'csv' && (!mapping || !csvColumns || missingMappedFields(mapping, csvColumns.headers).length > 0);
+  const filesReady = inputs.every(input => input.optional || files[input.field]?.length) && !mappingIncomplete;
+
+  const handleFileSelect = async (input: FileInput, e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = Array.from(e.target.files ?? []);
+    if (selectedFiles.length === 0) return;
+
+    const extensions = input.accept.split(',');
+    const invalid = selectedFiles.find(file => !extensions.some(ext => file.name.toLowerCase().endsWith(ext)));
+    if (invalid) {
+      alert(`${invalid.name} is not a ${extensions.join(', ')} file`);
+      e.target.value = '';
+      return;
     }
-    return null;
-  };
 
-  const parseDate = (dateString: string): string => {
-    // Handle formats like "30/07/2025"
-    const parts = dateString.split('/');
-    if (parts.length === 3) {
-      const [day, month, year] = parts;
-      return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    setFiles(prev => ({ ...prev, [input.field]: selectedFiles }));
+    setPreview(null);
+    setResult(null);
+    setError(null);
+
+    // CSV uploads go through the column mapping step; start from a guess based on the headers
+    if (format === 'csv') {
+      const { headers, records } = parseCSV(await selectedFiles[0].text());
+      setCsvColumns({ headers, records: records.slice(0, 20) });
+      setMapping(guessColumnMapping(headers, records));
     }
-    return dateString; // Assume it's already in YYYY-MM-DD format
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile && selectedFile.type === 'text/csv') {
-      setFile(selectedFile);
-      setResult(null);
-    } else {
-      alert('Please select a valid CSV file');
+  const submitFile = async (dryRun: boolean) => {
+    if (!filesReady) return null;
+
+    const formData = new FormData();
+    formData.append('format', format);
+    if (format === 'csv' && mapping) formData.append('mapping', JSON.stringify(mapping));
+    if (sequencingRun.trim()) {
+      formData.append('sequencingRun', sequencingRun.trim());
+      formData.append('runMetadata', JSON.stringify(runMetadata));
+    }
+    formData.append('decontaminationMode', decontaminationMode);
+    inputs.forEach(input => {
+      files[input.field]?.forEach(file => formData.append(input.field, file));
+    });
+    if (dryRun) formData.append('dryRun', 'true');
+
+    const response = await fetch('/api/uploads/metabarcode', {
+      method: 'POST',
+      body: formData
+    });
+
+    const data = await response.json();
+    if (!data.preview && !data.report) {
+      throw new Error(data.error || 'Upload failed');
     }
+    return data;
   };
 
-  const handleUpload = async () => {
-    if (!file) return;
-
+  const handlePreview = async () => {
     setUploading(true);
+    setPreview(null);
     setResult(null);
-
-    const errors: string[] = [];
-    let routesProcessed = 0;
-    let detectionsAdded = 0;
+    setError(null);
 
     try {
-      // Read file
-      const text = await file.text();
-      const rows = parseCSV(text);
-
-      if (rows.length === 0) {
-        setResult({
-          success: false,
-          message: 'No valid data found in CSV',
-          routesProcessed: 0,
-          detectionsAdded: 0,
-          errors: ['CSV file is empty or invalid']
-        });
-        return;
-      }
+      const data = await submitFile(true);
+      if (data) setPreview(data.preview);
+    } catch (err) {
+      console.error('Preview error:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Save the unmatched name as a synonym of the chosen species, then re-check the file
+  const handleAcceptSuggestion = async (species: string, suggestion: SpeciesSuggestion) => {
+    if (!confirm(`Save "${species}" as a synonym of ${suggestion.speciesName}? Future imports will match it automatically.`)) {
+      return;
+    }
 
-      // Group by sample_id
-      const sampleGroups = new Map<string, CSVRow[]>();
-      rows.forEach(row => {
-        if (!sampleGroups.has(row.sample_id)) {
-          sampleGroups.set(row.sample_id, []);
-        }
-        sampleGroups.get(row.sample_id)!.push(row);
+    try {
+      const response = await fetch('/api/pathogens/synonyms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pathogen_species_id: suggestion.pathogenSpeciesId, synonym: species })
       });
 
-      const user = AuthService.getCurrentUser();
-
-      // Process each sample
-      for (const [sampleId, sampleRows] of sampleGroups) {
-        const firstRow = sampleRows[0];
-
-        // Parse coordinates
-        const startCoords = parseCoordinates(firstRow.start_point);
-        const endCoords = parseCoordinates(firstRow.end_point);
-
-        if (!startCoords || !endCoords) {
-          errors.push(`${sampleId}: Invalid coordinates`);
-          continue;
-        }
-
-        const collectionDate = parseDate(firstRow.collection_date);
-
-        // Check if route already exists
-        const { data: existingRoute } = await supabase
-          .from('sampling_routes')
-          .select('id')
-          .eq('sample_id', sampleId)
-          .single();
-
-        let routeId: string;
-
-        if (existingRoute) {
-          // Route exists, we'll add detections to it
-          routeId = existingRoute.id;
-        } else {
-          // Create new route
-          const { data: newRoute, error: routeError } = await supabase
-            .from('sampling_routes')
-            .insert({
-              sample_id: sampleId,
-              start_name: firstRow.start_name,
-              end_name: firstRow.end_name,
-              start_latitude: startCoords[0],
-              start_longitude: startCoords[1],
-              end_latitude: endCoords[0],
-              end_longitude: endCoords[1],
-              collection_date: collectionDate,
-              created_by: user?.id
-            })
-            .select()
-            .single();
-
-          if (routeError || !newRoute) {
-            errors.push(`${sampleId}: Failed to create route - ${routeError?.message}`);
-            continue;
-          }
-
-          routeId = newRoute.id;
-          routesProcessed++;
-        }
-
-        // Record upload metadata
-        await supabase.from('sample_uploads').insert({
-          route_id: routeId,
-          uploaded_by: user?.id,
-          filename: file.name,
-          file_size: file.size,
-          row_count: sampleRows.length,
-          notes: `Uploaded via metabarcode CSV upload`
-        });
-
-        // Add pathogen detections
-        for (const row of sampleRows) {
-          const readCount = parseInt(row.read_count);
-
-          // Skip zero reads if you want, or include them
-          if (isNaN(readCount)) {
-            errors.push(`${sampleId}: Invalid read count for ${row.species}`);
-            continue;
-          }
-
-          // Get pathogen species ID
-          const { data: pathogen } = await supabase
-            .from('pathogen_species')
-            .select('id')
-            .eq('species_name', row.species)
-            .single();
-
-          if (!pathogen) {
-            errors.push(`${sampleId}: Unknown species ${row.species}`);
-            continue;
-          }
-
-          // Insert or update detection
-          const { error: detectionError } = await supabase
-            .from('pathogen_detections')
-            .upsert({
-              route_id: routeId,
-              pathogen_species_id: pathogen.id,
-              read_count: readCount
-            }, {
-              onConflict: 'route_id,pathogen_species_id'
-            });
-
-          if (detectionError) {
-            errors.push(`${sampleId}: Failed to add detection for ${row.species}`);
-          } else {
-            detectionsAdded++;
-          }
-        }
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save synonym');
       }
 
-      setResult({
-        success: errors.length < rows.length,
-        message: `Processed ${sampleGroups.size} samples`,
-        routesProcessed,
-        detectionsAdded,
-        errors
-      });
+      await handlePreview();
+    } catch (err) {
+      console.error('Synonym error:', err);
+      alert('Failed to save synonym: ' + (err as Error).message);
+    }
+  };
 
-    } catch (error) {
-      console.error('Upload error:', error);
-      setResult({
-        success: false,
-        message: 'Upload failed',
-        routesProcessed: 0,
-        detectionsAdded: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error']
-      });
+  const handleConfirm = async () => {
+    setUploading(true);
+    setError(null);
+
+    try {
+      const data = await submitFile(false);
+      if (data) {
+        setResult(data.report);
+        setPreview(null);
+      }
+    } catch (err) {
+      console.error('Upload error:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
       setUploading(false);
     }
   };
 
   const handleReset = () => {
-    setFile(null);
+    setFiles({});
+    setCsvColumns(null);
+    setMapping(null);
+    setInputsKey(key => key + 1);
+    setPreview(null);
     setResult(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    setError(null);
   };
 
+  const handleFormatChange = (newFormat: MetabarcodeUploadFormat) => {
+    setFormat(newFormat);
+    handleReset();
+  };
+
+  const previewHasErrors = preview?.rows.some(row => row.status === 'error') ?? false;
+  const newSamples = preview?.samples.filter(sample => sample.action === 'create') ?? [];
+  const existingSamples = preview?.samples.filter(sample => sample.action === 'update') ?? [];
+  const samplesWithoutTotals = preview?.samples.filter(
+    sample => sample.totalReads === null && sample.fungalReads === null
+  ).length ?? 0;
+  const changedCounts = existingSamples.reduce(
+    (sum, sample) => sum + sample.detections.filter(d => d.change === 'update').length,
+    0
+  );
+
   return (
     <div className="bg-white shadow rounded-lg p-6">
       <div className="mb-4">
@@ -260,66 +303,315 @@ export default function MetabarcodeUpload() {
           Upload Metabarcode Data
         </h3>
         <p className="text-sm text-gray-600">
-          Upload a CSV file containing pathogen detection data from sequencing.
+          Upload pathogen detection data from sequencing, as a CSV, QIIME2 exports or Kraken2/Bracken reports.
+          Changes are previewed before anything is written.
         </p>
       </div>
 
       <div className="space-y-4">
-        {/* File input */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Select CSV File
-          </label>
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".csv"
-            onChange={handleFileSelect}
+        {/* Format selector */}
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm font-medium">
+          {FORMAT_LABELS.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => handleFormatChange(value)}
+              disabled={uploading}
+              className={`flex-1 px-4 py-2 ${format === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* File inputs */}
+        {inputs.map(input => (
+          <div key={`${inputsKey}-${input.field}`}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {input.label}
+              {input.optional && <span className="text-gray-500 font-normal"> (optional)</span>}
+            </label>
+            <input
+              type="file"
+              accept={input.accept}
+              multiple={input.multiple}
+              onChange={(e) => handleFileSelect(input, e)}
+              disabled={uploading}
+              className="block w-full text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50 focus:outline-none file:mr-4 file:py-2 file:px-4 file:rounded-l-lg file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+            {files[input.field]?.length === 1 && (
+              <p className="mt-2 text-sm text-gray-600">
+                Selected: {files[input.field][0].name} ({(files[input.field][0].size / 1024).toFixed(2)} KB)
+              </p>
+            )}
+            {files[input.field]?.length > 1 && (
+              <p className="mt-2 text-sm text-gray-600">
+                Selected: {files[input.field].length} files
+              </p>
+            )}
+          </div>
+        ))}
+
+        {/* Column mapping */}
+        {format === 'csv' && csvColumns && mapping && (
+          <ColumnMapper
+            headers={csvColumns.headers}
+            records={csvColumns.records}
+            mapping={mapping}
+            onChange={(newMapping) => {
+              setMapping(newMapping);
+              setPreview(null);
+            }}
             disabled={uploading}
-            className="block w-full text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50 focus:outline-none file:mr-4 file:py-2 file:px-4 file:rounded-l-lg file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
           />
-          {file && (
-            <p className="mt-2 text-sm text-gray-600">
-              Selected: {file.name} ({(file.size / 1024).toFixed(2)} KB)
-            </p>
-          )}
+        )}
+
+        {/* Sequencing run and control handling */}
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <label className="text-sm font-medium text-gray-700">
+            Sequencing run <span className="text-gray-500 font-normal">(optional, for rows without one)</span>
+            <input
+              type="text"
+              list="known-sequencing-runs"
+              value={sequencingRun}
+              onChange={(e) => handleRunChange(e.target.value)}
+              disabled={uploading}
+              placeholder="e.g., MiSeq_2025_07"
+              className="mt-1 block w-full text-sm border-gray-300 rounded-md text-gray-900"
+            />
+            <datalist id="known-sequencing-runs">
+              {knownRuns.map(run => <option key={run.id} value={run.name} />)}
+            </datalist>
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Blank handling
+            <select
+              value={decontaminationMode}
+              onChange={(e) => setDecontaminationMode(e.target.value as DecontaminationMode)}
+              disabled={uploading}
+              className="mt-1 block w-full text-sm border-gray-300 rounded-md text-gray-900"
+            >
+              {(Object.entries(DECONTAMINATION_MODE_LABELS) as Array<[DecontaminationMode, string]>).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
         </div>
+        {sequencingRun.trim() && (
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <label className="text-sm font-medium text-gray-700">
+              Primer set
+              <input
+                type="text"
+                list="primer-set-options"
+                value={runMetadata.primer_set}
+                onChange={(e) => setRunMetadata({ ...runMetadata, primer_set: e.target.value })}
+                disabled={uploading}
+                placeholder="e.g., ITS2"
+                className="mt-1 block w-full text-sm border-gray-300 rounded-md text-gray-900"
+              />
+              <datalist id="primer-set-options">
+                {PRIMER_SETS.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Platform
+              <input
+                type="text"
+                list="platform-options"
+                value={runMetadata.platform}
+                onChange={(e) => setRunMetadata({ ...runMetadata, platform: e.target.value })}
+                disabled={uploading}
+                placeholder="e.g., Illumina MiSeq"
+                className="mt-1 block w-full text-sm border-gray-300 rounded-md text-gray-900"
+              />
+              <datalist id="platform-options">
+                {PLATFORMS.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Pipeline version
+              <input
+                type="text"
+                value={runMetadata.pipeline_version}
+                onChange={(e) => setRunMetadata({ ...runMetadata, pipeline_version: e.target.value })}
+                disabled={uploading}
+                placeholder="e.g., QIIME2 2024.5"
+                className="mt-1 block w-full text-sm border-gray-300 rounded-md text-gray-900"
+              />
+            </label>
+          </div>
+        )}
+        <p className="text-xs text-gray-500 -mt-2">
+          Mark extraction blanks and controls with a <span className="font-mono">sample_type</span> column
+          (blank, negative, positive). Detections in the same run are corrected against the highest blank read
+          count per species; raw counts are kept.
+        </p>
 
-        {/* CSV Format Info */}
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-          <h4 className="text-sm font-medium text-blue-900 mb-2">Expected CSV Format:</h4>
-          <pre className="text-xs text-blue-800 font-mono overflow-x-auto">
+        {/* Format Info */}
+        {format === 'csv' ? (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <h4 className="text-sm font-medium text-blue-900 mb-2">Standard CSV Format (other layouts can be mapped):</h4>
+            <pre className="text-xs text-blue-800 font-mono overflow-x-auto">
 {`sample_id,start_name,start_point,end_name,end_point,species,read_count,collection_date
 25_01,Perth,"-31.95, 115.86",Bindoon,"-31.39, 116.09",Puccinia striiformis,3146,30/07/2025`}
-          </pre>
-        </div>
+            </pre>
+          </div>
+        ) : format === 'kraken' ? (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-xs text-blue-800 space-y-2">
+            <h4 className="text-sm font-medium text-blue-900">Expected Kraken2 / Bracken Reports:</h4>
+            <p>
+              One report per sample: Kraken2 <span className="font-mono">--report</span> output, a Bracken
+              <span className="font-mono"> .kreport</span> or a Bracken abundance table. Only species-level rows are
+              read, matched to pathogens by NCBI taxid or name.
+            </p>
+            <p>
+              Reports are matched to samples by filename (e.g. <span className="font-mono">25_01.kreport</span>).
+              Otherwise supply a manifest; include the route columns for samples that have no route yet:
+            </p>
+            <pre className="font-mono overflow-x-auto">
+{`filename,sample_id,start_name,start_point,end_name,end_point,collection_date
+run7_S3.kreport,25_01,Perth,"-31.95, 115.86",Bindoon,"-31.39, 116.09",30/07/2025`}
+            </pre>
+          </div>
+        ) : (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-xs text-blue-800 space-y-2">
+            <h4 className="text-sm font-medium text-blue-900">Expected QIIME2 Exports:</h4>
+            <p>
+              Feature table as BIOM JSON or <span className="font-mono">biom convert --to-tsv</span> output.
+              Taxonomy from <span className="font-mono">taxonomy.tsv</span> (Feature ID, Taxon); it can be omitted
+              if the table carries a taxonomy column. Reads of features assigned to the same species are summed;
+              taxa that are not in the pathogen list are skipped.
+            </p>
+            <pre className="font-mono overflow-x-auto">
+{`sample-id\tstart_name\tstart_point\tend_name\tend_point\tcollection_date
+25_01\tPerth\t-31.95, 115.86\tBindoon\t-31.39, 116.09\t30/07/2025`}
+            </pre>
+          </div>
+        )}
 
-        {/* Upload button */}
+        {/* Preview / confirm buttons */}
         <div className="flex gap-3">
-          <button
-            onClick={handleUpload}
-            disabled={!file || uploading}
-            className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {uploading ? (
-              <div className="flex items-center justify-center">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                Uploading...
-              </div>
-            ) : (
-              'Upload & Process'
-            )}
-          </button>
-          {file && !uploading && (
+          {preview ? (
+            <button
+              onClick={handleConfirm}
+              disabled={uploading || previewHasErrors}
+              className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {uploading ? (
+                <div className="flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Importing...
+                </div>
+              ) : (
+                'Confirm Import'
+              )}
+            </button>
+          ) : (
+            <button
+              onClick={handlePreview}
+              disabled={!filesReady || uploading}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {uploading ? (
+                <div className="flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Checking...
+                </div>
+              ) : (
+                'Preview Changes'
+              )}
+            </button>
+          )}
+          {hasFiles && !uploading && (
             <button
               onClick={handleReset}
               className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-md font-medium"
             >
-              Clear
+              {preview ? 'Cancel' : 'Clear'}
             </button>
           )}
         </div>
 
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* Dry-run preview */}
+        {preview && (
+          <div className={`rounded-lg p-4 ${previewHasErrors ? 'bg-red-50 border border-red-200' : 'bg-yellow-50 border border-yellow-200'}`}>
+            <h4 className={`font-medium mb-2 ${previewHasErrors ? 'text-red-900' : 'text-yellow-900'}`}>
+              {previewHasErrors
+                ? 'Fix the errors below before importing'
+                : 'Review the changes below, then confirm the import'}
+            </h4>
+            <div className="text-sm space-y-1 text-gray-800">
+              <p>New samples: {newSamples.length}</p>
+              <p>Existing samples: {existingSamples.length}</p>
+              <p className={changedCounts > 0 ? 'font-semibold text-orange-700' : ''}>
+                Read counts that would change: {changedCounts}
+              </p>
+              {preview.controls && preview.controls.length > 0 && (
+                <p>
+                  Controls: {preview.controls.map(control =>
+                    `${control.controlId} (${CONTROL_TYPE_LABELS[control.controlType].toLowerCase()}, ${control.sequencingRun})`
+                  ).join(', ')}
+                </p>
+              )}
+              <p className={samplesWithoutTotals > 0 ? 'text-orange-700' : ''}>
+                Samples with library read totals: {preview.samples.length - samplesWithoutTotals} of {preview.samples.length}
+              </p>
+            </div>
+
+            {newSamples.length > 0 && (
+              <div className="mt-3">
+                <p className="text-sm font-medium text-gray-900 mb-1">Will create:</p>
+                <p className="text-xs text-gray-700 font-mono">
+                  {newSamples.map(sample => sample.sampleId).join(', ')}
+                </p>
+              </div>
+            )}
+
+            {existingSamples.length > 0 && (
+              <div className="mt-3">
+                <p className="text-sm font-medium text-gray-900 mb-1">Will update:</p>
+                <div className="bg-white rounded max-h-48 overflow-y-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-2 py-1 text-left text-gray-700">Sample</th>
+                        <th className="px-2 py-1 text-left text-gray-700">Species</th>
+                        <th className="px-2 py-1 text-right text-gray-700">Reads</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {existingSamples.flatMap(sample =>
+                        sample.detections
+                          .filter(detection => detection.change !== 'unchanged')
+                          .map(detection => (
+                            <tr key={`${sample.sampleId}-${detection.species}`} className="border-t text-gray-800">
+                              <td className="px-2 py-1 font-mono">{sample.sampleId}</td>
+                              <td className="px-2 py-1">{detection.species}</td>
+                              <td className={`px-2 py-1 text-right font-mono ${detection.change === 'update' ? 'text-orange-700 font-semibold' : 'text-green-700'}`}>
+                                {detection.change === 'update'
+                                  ? `${detection.oldReadCount?.toLocaleString()} → ${detection.newReadCount.toLocaleString()}`
+                                  : `new: ${detection.newReadCount.toLocaleString()}`}
+                              </td>
+                            </tr>
+                          ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            <RowErrors rows={preview.rows} onAcceptSuggestion={handleAcceptSuggestion} disabled={uploading} />
+            <Notes notes={preview.notes} />
+          </div>
+        )}
+
         {/* Results */}
         {result && (
           <div className={`rounded-lg p-4 ${result.success ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
@@ -328,25 +620,23 @@ export default function MetabarcodeUpload() {
             </h4>
             <div className="text-sm space-y-1">
               <p className={result.success ? 'text-green-800' : 'text-red-800'}>
-                Routes created: {result.routesProcessed}
+                Routes created: {result.routesCreated}
               </p>
               <p className={result.success ? 'text-green-800' : 'text-red-800'}>
-                Detections added: {result.detectionsAdded}
+                Detections written: {result.detectionsWritten}
               </p>
-              {result.errors.length > 0 && (
-                <div className="mt-3">
-                  <p className="font-medium text-red-900 mb-1">Errors ({result.errors.length}):</p>
-                  <div className="bg-white rounded p-2 max-h-40 overflow-y-auto">
-                    {result.errors.slice(0, 10).map((error, i) => (
-                      <p key={i} className="text-xs text-red-700">{error}</p>
-                    ))}
-                    {result.errors.length > 10 && (
-                      <p className="text-xs text-red-600 italic mt-1">
-                        ... and {result.errors.length - 10} more errors
-                      </p>
-                    )}
-                  </div>
-                </div>
+              {!!result.controlsWritten && (
+                <p className={result.success ? 'text-green-800' : 'text-red-800'}>
+                  Controls written: {result.controlsWritten}
+                </p>
+              )}
+              <RowErrors rows={result.rows} />
+              <Notes notes={result.notes} />
+              {result.batchId && (
+                <p className="text-xs text-green-700 mt-2">
+                  Made a mistake? This upload can be undone from{' '}
+                  <Link href="/uploads" className="underline font-medium">Upload History</Link>.
+                </p>
               )}
             </div>
           </div>
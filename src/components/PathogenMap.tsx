@@ -1,10 +1,12 @@
 'use client';
 
-import { MapContainer, TileLayer, Circle } from 'react-leaflet';
+import { useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, Polygon, Tooltip } from 'react-leaflet';
 import L from 'leaflet';
-import * as turf from '@turf/turf';
 import 'leaflet/dist/leaflet.css';
-import { Sample, pathogenColors } from '@/data/sampleData';
+import { PathogenDetection, Sample, pathogenColors } from '@/data/sampleData';
+import { ABUNDANCE_BASIS_LABELS, formatAbundance } from '@/lib/abundance';
+import { TrackPoint, fetchTracks, trackCorridor, trackLine } from '@/lib/tracks';
 
 // Fix for default markers in Next.js
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -25,47 +27,37 @@ interface PathogenMapProps {
 }
 
 
-interface PathogenCircle {
+interface PathogenCorridor {
   pathogenSpecies: string;
-  center: [number, number];
-  radius: number; // radius in meters
+  positions: [number, number][][][]; // corridor polygon(s) around the sample's track
   color: string;
   opacity: number;
   sample: Sample;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  pathogenData: any;
-  position: 'start' | 'end' | 'midpoint';
+  pathogenData: PathogenDetection | null;
 }
 
-function createPathogenCircles(sample: Sample, selectedPathogens: string[], selectedSample: Sample | null): PathogenCircle[] {
-  const circles: PathogenCircle[] = [];
-
-  // Calculate midpoint (center of circle)
-  const midpointLat = (sample.startLatitude + sample.endLatitude) / 2;
-  const midpointLng = (sample.startLongitude + sample.endLongitude) / 2;
-
-  // Calculate distance between start and end points to get radius
-  const startPoint = turf.point([sample.startLongitude, sample.startLatitude]);
-  const endPoint = turf.point([sample.endLongitude, sample.endLatitude]);
-  const distance = turf.distance(startPoint, endPoint, { units: 'kilometers' });
-  const radius = (distance / 2) * 1000; // Convert to meters for radius
+function createPathogenCorridors(
+  sample: Sample,
+  corridor: [number, number][][][],
+  selectedPathogens: string[],
+  selectedSample: Sample | null
+): PathogenCorridor[] {
+  const corridors: PathogenCorridor[] = [];
 
   const isSelected = selectedSample?.id === sample.id;
   const hasFilters = selectedPathogens.length > 0;
 
-  // Always show a base circle for the sample
-  circles.push({
+  // Always show a base corridor for the sample
+  corridors.push({
     pathogenSpecies: 'base',
-    center: [midpointLat, midpointLng],
-    radius,
+    positions: corridor,
     color: isSelected ? '#3b82f6' : '#6b7280',
     opacity: isSelected ? 0.4 : 0, // Filled if selected, hollow otherwise
     sample,
-    pathogenData: null,
-    position: 'midpoint'
+    pathogenData: null
   });
 
-  // If filters are active, add colored circles for matching pathogens
+  // If filters are active, add colored corridors for matching pathogens
   if (hasFilters) {
     const visiblePathogens = sample.pathogens.filter(pathogen =>
       selectedPathogens.includes(pathogen.species)
@@ -80,25 +72,24 @@ function createPathogenCircles(sample: Sample, selectedPathogens: string[], sele
       if (pathogen.severity === 'medium') opacity = 0.4;
       if (pathogen.severity === 'high') opacity = 0.6;
 
-      circles.push({
+      corridors.push({
         pathogenSpecies: pathogen.species,
-        center: [midpointLat, midpointLng],
-        radius,
+        positions: corridor,
         color,
         opacity,
         sample,
-        pathogenData: pathogen,
-        position: 'midpoint'
+        pathogenData: pathogen
       });
     });
   }
 
-  return circles;
+  return corridors;
 }
 
 
 export default function PathogenMap({ selectedYear, selectedPathogens, selectedDiseaseTypes, onSampleSelect, samples: propSamples, selectedSample }: PathogenMapProps) {
   const samplesData = propSamples || [];
+  const [tracks, setTracks] = useState<Record<string, TrackPoint[]>>({});
 
   const handleSampleClick = (sample: Sample, e: L.LeafletMouseEvent) => {
     const newSelection = selectedSample?.id === sample.id ? null : sample;
@@ -109,6 +100,33 @@ export default function PathogenMap({ selectedYear, selectedPathogens, selectedD
   // Calculate everything in render instead of useEffect to ensure immediate updates
   let filteredSamples = samplesData.filter(sample => sample.year === selectedYear);
 
+  // Load the year's recorded tracks; until they arrive, corridors follow the start-end line
+  const routeIds = filteredSamples.map(sample => sample.routeId).filter(Boolean).join(',');
+  useEffect(() => {
+    if (!routeIds) return;
+    fetchTracks(routeIds.split(','))
+      .then(loaded => setTracks(previous => ({ ...previous, ...loaded })))
+      .catch(trackError => console.error('Error loading tracks:', trackError));
+  }, [routeIds]);
+
+  // Buffering is the expensive part, so corridors are only rebuilt when tracks change
+  const corridors = useMemo(() => {
+    const bySample = new Map<string, [number, number][][][]>();
+    (propSamples || []).filter(sample => sample.year === selectedYear).forEach(sample => {
+      const line = trackLine(
+        {
+          start_latitude: sample.startLatitude,
+          start_longitude: sample.startLongitude,
+          end_latitude: sample.endLatitude,
+          end_longitude: sample.endLongitude,
+        },
+        sample.routeId ? tracks[sample.routeId] : undefined
+      );
+      bySample.set(sample.id, trackCorridor(line));
+    });
+    return bySample;
+  }, [propSamples, selectedYear, tracks]);
+
   // Filter pathogens by disease type
   const getPathogenCategory = (species: string): string => {
     const speciesLower = species.toLowerCase();
@@ -137,10 +155,15 @@ export default function PathogenMap({ selectedYear, selectedPathogens, selectedD
     ? selectedPathogens
     : filteredPathogenSpecies;
 
-  const allPathogenCircles: PathogenCircle[] = [];
+  const allPathogenCorridors: PathogenCorridor[] = [];
   filteredSamples.forEach(sample => {
-    const sampleCircles = createPathogenCircles(sample, combinedPathogenFilter, selectedSample || null);
-    allPathogenCircles.push(...sampleCircles);
+    const sampleCorridors = createPathogenCorridors(
+      sample,
+      corridors.get(sample.id) ?? [],
+      combinedPathogenFilter,
+      selectedSample || null
+    );
+    allPathogenCorridors.push(...sampleCorridors);
   });
 
   return (
@@ -156,20 +179,28 @@ export default function PathogenMap({ selectedYear, selectedPathogens, selectedD
         />
 
 
-        {/* Render pathogen spread circles - each pathogen gets its own colored, semi-transparent circles */}
-        {allPathogenCircles.map((circle, idx) => (
-          <Circle
-            key={`${circle.sample.id}-${circle.pathogenSpecies}-${circle.position}-${selectedSample?.id || 'none'}-${idx}`}
-            center={circle.center}
-            radius={circle.radius}
-            color={circle.color}
-            weight={1} // Thin consistent border for all circles
-            fillOpacity={circle.opacity}
-            opacity={circle.opacity === 0 ? 0.8 : circle.opacity + 0.2} // Clearer border for hollow circles
+        {/* Render pathogen corridors around each sample's track - each pathogen gets its own colored, semi-transparent corridor */}
+        {allPathogenCorridors.map((corridor, idx) => (
+          <Polygon
+            key={`${corridor.sample.id}-${corridor.pathogenSpecies}-${selectedSample?.id || 'none'}-${idx}`}
+            positions={corridor.positions}
+            color={corridor.color}
+            weight={1} // Thin consistent border for all corridors
+            fillOpacity={corridor.opacity}
+            opacity={corridor.opacity === 0 ? 0.8 : corridor.opacity + 0.2} // Clearer border for hollow corridors
             eventHandlers={{
-              click: (e) => handleSampleClick(circle.sample, e),
+              click: (e) => handleSampleClick(corridor.sample, e),
             }}
-          />
+          >
+            {corridor.pathogenData && (
+              <Tooltip sticky>
+                <span className="italic">{corridor.pathogenSpecies}</span>:{' '}
+                {corridor.pathogenData.relativeAbundance !== null && corridor.sample.abundanceBasis
+                  ? `${formatAbundance(corridor.pathogenData.relativeAbundance)} ${ABUNDANCE_BASIS_LABELS[corridor.sample.abundanceBasis]}`
+                  : `${corridor.pathogenData.readCount.toLocaleString()} reads`}
+              </Tooltip>
+            )}
+          </Polygon>
         ))}
       </MapContainer>
     </div>
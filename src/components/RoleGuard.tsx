@@ -1,8 +1,9 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { AuthService, UserRole } from '@/lib/auth';
+import { UserRole } from '@/lib/auth';
+import { useAuth } from '@/components/AuthProvider';
 
 interface RoleGuardProps {
   children: React.ReactNode;
@@ -19,34 +20,27 @@ export default function RoleGuard({
   requiredRole,
   fallbackPath = '/'
 }: RoleGuardProps) {
-  const [isChecking, setIsChecking] = useState(true);
+  const { user, loading, hasRole } = useAuth();
   const router = useRouter();
+  const allowed = hasRole(requiredRole);
 
   useEffect(() => {
-    const checkAuth = () => {
-      const user = AuthService.getCurrentUser();
-
-      if (!user) {
-        // Not authenticated - redirect to login
-        router.push('/login');
-        return;
-      }
-
-      if (!AuthService.hasRole(requiredRole)) {
-        // Authenticated but insufficient permissions
-        router.push(fallbackPath);
-        return;
-      }
-
-      // Has access - stop checking
-      setIsChecking(false);
-    };
-
-    checkAuth();
-  }, [router, requiredRole, fallbackPath]);
-
-  // Don't render anything during initial check to avoid hydration mismatch
-  if (isChecking) {
+    if (loading) return;
+
+    if (!user) {
+      // Not authenticated - redirect to login
+      router.push('/login');
+      return;
+    }
+
+    if (!allowed) {
+      // Authenticated but insufficient permissions
+      router.push(fallbackPath);
+    }
+  }, [loading, user, allowed, router, fallbackPath]);
+
+  // Don't render anything until the session is confirmed
+  if (loading || !allowed) {
     return null;
   }
 
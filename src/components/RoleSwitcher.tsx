@@ -1,14 +1,14 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { AuthService } from '@/lib/auth';
+import { useAuth } from '@/components/AuthProvider';
 
 interface RoleSwitcherProps {
   onRoleChange?: (role: string | null) => void;
 }
 
 export default function RoleSwitcher({ onRoleChange }: RoleSwitcherProps) {
-  const [user, setUser] = useState(AuthService.getCurrentUser());
+  const { user } = useAuth();
   const [viewAsRole, setViewAsRole] = useState<string | null>(null);
 
   useEffect(() => {
@@ -1,9 +1,10 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { MapContainer, TileLayer, Marker, Polyline, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { TrackPoint, fetchTracks, trackLine } from '@/lib/tracks';
 
 interface SamplingRoute {
   id: string;
@@ -42,27 +43,33 @@ const endIcon = L.icon({
 });
 
 // Component to handle map bounds
-function MapBoundsHandler({ routes }: { routes: SamplingRoute[] }) {
+function MapBoundsHandler({ lines }: { lines: [number, number][][] }) {
   const map = useMap();
 
   useEffect(() => {
-    if (routes.length > 0) {
-      const bounds: L.LatLngBoundsExpression = routes.flatMap(route => [
-        [route.start_latitude, route.start_longitude] as [number, number],
-        [route.end_latitude, route.end_longitude] as [number, number]
-      ]);
-
-      if (bounds.length > 0) {
-        map.fitBounds(bounds, { padding: [50, 50] });
-      }
+    const bounds: L.LatLngBoundsExpression = lines.flat();
+    if (bounds.length > 0) {
+      map.fitBounds(bounds, { padding: [50, 50] });
     }
-  }, [routes, map]);
+  }, [lines, map]);
 
   return null;
 }
 
 export default function RouteMap({ routes, selectedRoute }: RouteMapProps) {
   const displayRoutes = selectedRoute ? [selectedRoute] : routes;
+  const [tracks, setTracks] = useState<Record<string, TrackPoint[]>>({});
+  const routeIds = displayRoutes.map(route => route.id).join(',');
+
+  // Recorded breadcrumb trails; routes are drawn as straight lines until they arrive
+  useEffect(() => {
+    if (!routeIds) return;
+    fetchTracks(routeIds.split(','))
+      .then(setTracks)
+      .catch(trackError => console.error('Error loading tracks:', trackError));
+  }, [routeIds]);
+
+  const lines = displayRoutes.map(route => trackLine(route, tracks[route.id]));
 
   // Default center (Perth, WA)
   const defaultCenter: [number, number] = [-31.9505, 115.8605];
@@ -80,9 +87,9 @@ export default function RouteMap({ routes, selectedRoute }: RouteMapProps) {
         url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
       />
 
-      <MapBoundsHandler routes={displayRoutes} />
+      <MapBoundsHandler lines={lines} />
 
-      {displayRoutes.map((route) => (
+      {displayRoutes.map((route, index) => (
         <div key={route.id}>
           {/* Start marker */}
           <Marker
@@ -98,12 +105,9 @@ export default function RouteMap({ routes, selectedRoute }: RouteMapProps) {
             title={`${route.sample_id} - End: ${route.end_name}`}
           />
 
-          {/* Line connecting start and end */}
+          {/* Driven track, or a straight line when none was recorded */}
           <Polyline
-            positions={[
-              [route.start_latitude, route.start_longitude],
-              [route.end_latitude, route.end_longitude]
-            ]}
+            positions={lines[index]}
             color={selectedRoute?.id === route.id ? '#3b82f6' : '#6b7280'}
             weight={3}
             opacity={0.7}
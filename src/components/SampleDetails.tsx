@@ -3,6 +3,8 @@
 import { Sample, pathogens } from '@/data/sampleData';
 import Link from 'next/link';
 import { AuthService } from '@/lib/auth';
+import { ABUNDANCE_BASIS_LABELS, formatAbundance } from '@/lib/abundance';
+import { SEVERITY_COLORS } from '@/lib/severity';
 
 interface SampleDetailsProps {
   sample: Sample | null;
@@ -44,7 +46,7 @@ export default function SampleDetails({ sample, onClose, position }: SampleDetai
   let positionStyle: React.CSSProperties = {};
   if (position) {
     const tooltipWidth = 320;
-    const tooltipHeight = 250;
+    const tooltipHeight = 330;
     const padding = 16;
 
     // Try to position to the right of the marker
@@ -121,6 +123,45 @@ export default function SampleDetails({ sample, onClose, position }: SampleDetai
           </div>
         </div>
 
+        {/* Per-species abundance and severity */}
+        <div>
+          <h4 className="text-xs font-semibold text-gray-700 mb-1">
+            Relative Abundance
+            <span className="font-normal text-gray-500">
+              {sample.abundanceBasis ? ` (${ABUNDANCE_BASIS_LABELS[sample.abundanceBasis]})` : ' (no library totals)'}
+            </span>
+          </h4>
+          <ul className="text-xs text-gray-800 max-h-24 overflow-y-auto space-y-0.5">
+            {[...sample.pathogens]
+              .sort((a, b) => (b.relativeAbundance ?? b.readCount) - (a.relativeAbundance ?? a.readCount))
+              .map(pathogen => (
+                <li
+                  key={pathogen.species}
+                  className="flex items-center justify-between gap-2"
+                  title={pathogen.rawReadCount !== undefined && pathogen.rawReadCount !== pathogen.readCount
+                    ? `${pathogen.readCount.toLocaleString()} reads after blank correction (raw ${pathogen.rawReadCount.toLocaleString()}, blank ${pathogen.blankReadCount?.toLocaleString()})`
+                    : `${pathogen.readCount.toLocaleString()} reads`}
+                >
+                  <span className="italic truncate">{pathogen.species}</span>
+                  <span className="flex items-center gap-1 shrink-0">
+                    <span className="font-mono">
+                      {pathogen.relativeAbundance !== null
+                        ? formatAbundance(pathogen.relativeAbundance)
+                        : pathogen.readCount.toLocaleString()}
+                    </span>
+                    <span className={`px-1 rounded ${SEVERITY_COLORS[pathogen.severity]}`}>{pathogen.severity}</span>
+                  </span>
+                </li>
+              ))}
+          </ul>
+          {!!(sample.totalReads || sample.fungalReads) && (
+            <div className="text-xs text-gray-600 mt-1">
+              Library: {sample.totalReads ? `${sample.totalReads.toLocaleString()} reads` : 'total unknown'}
+              {sample.fungalReads ? `, ${sample.fungalReads.toLocaleString()} fungal` : ''}
+            </div>
+          )}
+        </div>
+
         {/* Link to sample details - visible to all users */}
         <Link
           href={`/sample?id=${sample.id}`}
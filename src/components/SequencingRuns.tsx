@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { DECONTAMINATION_MODE_LABELS } from '@/lib/metabarcodeImport';
+import {
+  PLATFORMS,
+  PRIMER_SETS,
+  RUN_METADATA_LABELS,
+  SequencingRun,
+  SequencingRunMetadata,
+  describeRun,
+} from '@/lib/sequencingRuns';
+
+const EMPTY_METADATA: SequencingRunMetadata = {
+  primer_set: null,
+  platform: null,
+  pipeline_version: null,
+  run_date: null,
+  notes: null,
+};
+
+export default function SequencingRuns() {
+  const [runs, setRuns] = useState<SequencingRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SequencingRunMetadata>(EMPTY_METADATA);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  const loadRuns = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/sequencing-runs');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load sequencing runs');
+      }
+
+      setRuns(result.runs || []);
+    } catch (error) {
+      console.error('Error loading sequencing runs:', error);
+      alert('Failed to load sequencing runs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (run: SequencingRun) => {
+    setEditingId(run.id);
+    setForm({
+      primer_set: run.primer_set,
+      platform: run.platform,
+      pipeline_version: run.pipeline_version,
+      run_date: run.run_date,
+      notes: run.notes,
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/sequencing-runs', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: editingId, ...form })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save sequencing run');
+      }
+
+      setRuns(runs.map(run => (run.id === editingId ? result.run : run)));
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error saving sequencing run:', error);
+      alert('Failed to save sequencing run: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const textField = (field: 'primer_set' | 'platform' | 'pipeline_version', suggestions?: string[]) => (
+    <label className="block text-xs font-medium text-gray-700">
+      {RUN_METADATA_LABELS[field]}
+      <input
+        type="text"
+        list={suggestions ? `run-${field}-options` : undefined}
+        value={form[field] ?? ''}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+        className="mt-1 block w-full border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+      />
+      {suggestions && (
+        <datalist id={`run-${field}-options`}>
+          {suggestions.map(option => <option key={option} value={option} />)}
+        </datalist>
+      )}
+    </label>
+  );
+
+  return (
+    <div className="mt-10">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Sequencing Runs ({runs.length})</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Runs are created when an upload names them. Record the primer set, platform and pipeline version
+          so detections from a run can be traced back and re-analysed.
+        </p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="text-center py-12 text-gray-500">Loading sequencing runs...</div>
+        ) : runs.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No sequencing runs yet</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {runs.map(run => (
+              <li key={run.id} className="px-6 py-4">
+                {editingId === run.id ? (
+                  <form onSubmit={handleSave} className="space-y-3">
+                    <div className="text-sm font-medium text-gray-900">{run.name}</div>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      {textField('primer_set', PRIMER_SETS)}
+                      {textField('platform', PLATFORMS)}
+                      {textField('pipeline_version')}
+                      <label className="block text-xs font-medium text-gray-700">
+                        {RUN_METADATA_LABELS.run_date}
+                        <input
+                          type="date"
+                          value={form.run_date ?? ''}
+                          onChange={(e) => setForm({ ...form, run_date: e.target.value })}
+                          className="mt-1 block w-full border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+                        />
+                      </label>
+                    </div>
+                    <label className="block text-xs font-medium text-gray-700">
+                      {RUN_METADATA_LABELS.notes}
+                      <textarea
+                        value={form.notes ?? ''}
+                        onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                        rows={2}
+                        placeholder="e.g. low yield, index hopping suspected"
+                        className="mt-1 block w-full border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+                      />
+                    </label>
+                    <div className="flex gap-2">
+                      <button
+                        type="submit"
+                        disabled={saving}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm font-medium disabled:opacity-50"
+                      >
+                        {saving ? 'Saving...' : 'Save'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded-md text-sm font-medium"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">
+                        {run.name}
+                        {run.run_date && <span className="ml-2 font-normal text-gray-500">{run.run_date}</span>}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {describeRun(run) || 'No run metadata recorded'}
+                        {` · ${DECONTAMINATION_MODE_LABELS[run.decontamination_mode].toLowerCase()}`}
+                      </div>
+                      {run.notes && <div className="text-sm text-gray-600 mt-1">{run.notes}</div>}
+                    </div>
+                    <button
+                      onClick={() => startEditing(run)}
+                      disabled={editingId !== null}
+                      className="text-blue-600 hover:text-blue-900 text-sm font-medium disabled:opacity-50"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
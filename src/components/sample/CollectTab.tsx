@@ -1,12 +1,19 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import RoleGuard from '@/components/RoleGuard';
-import { AuthService } from '@/lib/auth';
-import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/components/AuthProvider';
+import { parseScannedLabel } from '@/lib/sampleLabels';
+import { MAX_RESERVATIONS, SampleIdCheck } from '@/lib/sampleIds';
+import LabelScanner from '@/components/sample/LabelScanner';
+import PendingUploads from '@/components/sample/PendingUploads';
+import TripPanel from '@/components/sample/TripPanel';
+import { queueSample, uploadQueuedSample } from '@/lib/outbox';
+import { ActiveTrip, tripDetails } from '@/lib/fieldTrips';
+import { TRACK_FIX_INTERVAL_MS } from '@/lib/trackQuality';
 
 // Dynamically import map component (client-side only)
 const FieldMap = dynamic(() => import('@/components/FieldMap'), {
@@ -24,6 +31,26 @@ interface GPSPosition {
 type CollectionStatus = 'idle' | 'confirming' | 'recording' | 'saving';
 
 const LOCAL_STORAGE_KEY = 'field_collection_session';
+const RESERVED_IDS_KEY = 'reserved_sample_ids';
+const RESERVE_COUNT = 5;
+const TRIP_STORAGE_KEY = 'field_trip';
+
+// Sample IDs reserved on the server and kept for use without a connection
+const loadReservedIds = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(RESERVED_IDS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const loadActiveTrip = (): ActiveTrip | null => {
+  try {
+    return JSON.parse(localStorage.getItem(TRIP_STORAGE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
 
 interface SavedSession {
   sampleId: string;
@@ -36,6 +63,47 @@ interface SavedSession {
   endLocationName?: string;
 }
 
+const ID_CHECK_COLORS: Record<SampleIdCheck['status'], string> = {
+  issued: 'text-green-700',
+  reserved: 'text-red-600',
+  unissued: 'text-gray-500',
+  used: 'text-red-600',
+  malformed: 'text-red-600',
+};
+
+interface ReservedIdsProps {
+  ids: string[];
+  reserving: boolean;
+  onUse: (id: string) => void;
+  onReserve: () => void;
+}
+
+function ReservedIds({ ids, reserving, onUse, onReserve }: ReservedIdsProps) {
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+      {ids.map(id => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => onUse(id)}
+          className="px-2 py-0.5 bg-blue-50 hover:bg-blue-100 text-blue-800 rounded font-mono"
+          title="Use this reserved ID"
+        >
+          {id}
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={onReserve}
+        disabled={reserving}
+        className="text-blue-600 hover:text-blue-900 font-medium disabled:opacity-50"
+      >
+        {reserving ? 'Reserving...' : ids.length > 0 ? 'Reserve more' : 'Reserve IDs for offline use'}
+      </button>
+    </div>
+  );
+}
+
 export default function CollectTab() {
   const router = useRouter();
   const [status, setStatus] = useState<CollectionStatus>('idle');
@@ -49,11 +117,16 @@ export default function CollectTab() {
   const [gpsError, setGpsError] = useState('');
   const [useManualEntry, setUseManualEntry] = useState(false);
   const [sessionRecovered, setSessionRecovered] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [idCheck, setIdCheck] = useState<SampleIdCheck | null>(null);
+  const [reservedIds, setReservedIds] = useState<string[]>(loadReservedIds);
+  const [reserving, setReserving] = useState(false);
+  const [trip, setTrip] = useState<ActiveTrip | null>(loadActiveTrip);
   const watchIdRef = useRef<number | null>(null);
   const saveIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // Get current user
-  const user = AuthService.getCurrentUser();
+  const { user, logout } = useAuth();
 
   // Recover session on mount - but only if explicitly in recording state
   useEffect(() => {
@@ -122,10 +195,20 @@ export default function CollectTab() {
       // Then save every 10 seconds
       saveIntervalRef.current = setInterval(saveSession, 10000);
 
+      // Save the latest points when the tab is closed, and warn before closing mid-run
+      const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+        saveSession();
+        event.preventDefault();
+      };
+      window.addEventListener('beforeunload', handleBeforeUnload);
+      window.addEventListener('pagehide', saveSession);
+
       return () => {
         if (saveIntervalRef.current) {
           clearInterval(saveIntervalRef.current);
         }
+        window.removeEventListener('beforeunload', handleBeforeUnload);
+        window.removeEventListener('pagehide', saveSession);
       };
     }
   }, [status, sampleId, startPosition, currentPosition, trackingPoints, startLocationName, endLocationName]);
@@ -164,10 +247,10 @@ export default function CollectTab() {
           setCurrentPosition(gpsPos);
           setGpsError('');
 
-          // Add to tracking points every 30 seconds
+          // Keep a fix every few seconds; the server drops bad fixes and simplifies the track
           setTrackingPoints(prev => {
             const lastPoint = prev[prev.length - 1];
-            if (!lastPoint || position.timestamp - lastPoint.timestamp > 30000) {
+            if (!lastPoint || position.timestamp - lastPoint.timestamp >= TRACK_FIX_INTERVAL_MS) {
               const newPoints = [...prev, gpsPos];
               // Also save to localStorage immediately
               const session: SavedSession = {
@@ -207,26 +290,131 @@ export default function CollectTab() {
     }
   }, [status, useManualEntry, sampleId, startPosition]);
 
-  const handleStartSample = async () => {
+  const saveTrip = (activeTrip: ActiveTrip | null) => {
+    if (activeTrip) {
+      localStorage.setItem(TRIP_STORAGE_KEY, JSON.stringify(activeTrip));
+    } else {
+      localStorage.removeItem(TRIP_STORAGE_KEY);
+    }
+    setTrip(activeTrip);
+  };
+
+  const saveReservedIds = (ids: string[]) => {
+    localStorage.setItem(RESERVED_IDS_KEY, JSON.stringify(ids));
+    setReservedIds(ids);
+  };
+
+  // The server's list of the user's unused reservations replaces the local copy whenever online
+  useEffect(() => {
+    if (!navigator.onLine) return;
+    fetch('/api/sample-ids')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.reservations) saveReservedIds(data.reservations);
+      })
+      .catch(reservationError => console.error('Error loading reserved sample IDs:', reservationError));
+  }, []);
+
+  // Whether an ID can be recorded; null when the check could not be made (e.g. offline)
+  const checkId = async (id: string): Promise<SampleIdCheck | null> => {
+    try {
+      const response = await fetch(`/api/sample-ids?sampleId=${encodeURIComponent(id)}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to check sample ID');
+      setIdCheck(data.check);
+      return data.check;
+    } catch (checkError) {
+      console.error('Error checking sample ID:', checkError);
+      setIdCheck(null);
+      return null;
+    }
+  };
+
+  const handleReserve = async () => {
+    setReserving(true);
+    try {
+      const count = Math.min(RESERVE_COUNT, MAX_RESERVATIONS - reservedIds.length);
+      if (count < 1) {
+        alert(`You already hold ${reservedIds.length} reserved IDs`);
+        return;
+      }
+
+      const response = await fetch('/api/sample-ids', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ count })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to reserve sample IDs');
+
+      saveReservedIds([...reservedIds, ...data.sampleIds]);
+    } catch (reserveError) {
+      console.error('Error reserving sample IDs:', reserveError);
+      alert('Failed to reserve sample IDs: ' + (reserveError as Error).message);
+    } finally {
+      setReserving(false);
+    }
+  };
+
+  const handleUseReserved = (id: string) => {
+    setSampleId(id);
+    setIdCheck(null);
+    setError('');
+  };
+
+  const handleScan = useCallback((text: string) => {
+    const id = parseScannedLabel(text);
+    setScanning(false);
+    setSampleId(id);
+    setError('');
+    checkId(id);
+  }, []);
+
+  const handleSampleIdChange = (value: string) => {
+    setSampleId(value);
+    setIdCheck(null);
+  };
+
+  // With fromPreviousEnd, the sample starts where the trip's last sample ended
+  const handleStartSample = async (fromPreviousEnd = false) => {
+    const previousEnd = fromPreviousEnd ? trip?.lastEnd : null;
+
     if (!sampleId.trim()) {
       setError('Please enter a sample ID');
       return;
     }
 
-    if (!startLocationName.trim()) {
+    if (!previousEnd && !startLocationName.trim()) {
       setError('Please enter a start location name');
       return;
     }
 
-    // Check if sample ID already exists
-    const { data: existing } = await supabase
-      .from('sampling_routes')
-      .select('id')
-      .eq('sample_id', sampleId.trim())
-      .single();
+    // Reserved IDs are known to be free; anything else is checked when the sample is saved
+    const check = await checkId(sampleId.trim());
+    if (check?.status === 'used' || check?.status === 'reserved' || check?.status === 'malformed') {
+      setError(check.message);
+      return;
+    }
+    if (
+      !check &&
+      !reservedIds.includes(sampleId.trim()) &&
+      !confirm(`Could not check "${sampleId.trim()}" (offline?). It will be checked when the sample is saved. Continue?`)
+    ) {
+      return;
+    }
 
-    if (existing) {
-      setError('This sample ID already exists. Please use a different ID.');
+    if (previousEnd) {
+      const pos: GPSPosition = {
+        latitude: previousEnd.latitude,
+        longitude: previousEnd.longitude,
+        timestamp: Date.now()
+      };
+      setStartLocationName(previousEnd.name);
+      setStartPosition(pos);
+      setCurrentPosition(pos);
+      setTrackingPoints([pos]);
+      setStatus('recording');
+      setError('');
       return;
     }
 
@@ -300,34 +488,39 @@ export default function CollectTab() {
     setStatus('saving');
 
     try {
-      // Call API endpoint instead of directly using Supabase
-      const response = await fetch('/api/samples', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          sampleId,
-          startLocationName,
-          endLocationName,
-          startPosition,
-          currentPosition,
-          trackingPoints,
-          userId: user?.id
-        })
+      // Queue on this device first, so a dead zone or a closed tab cannot lose the sample
+      const entry = await queueSample({
+        sampleId: sampleId.trim(),
+        startLocationName,
+        endLocationName,
+        startPosition,
+        currentPosition,
+        trackingPoints,
+        endTime: Date.now(),
+        ...(trip && { trip: tripDetails(trip), tripSequence: trip.sampleCount + 1 })
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to save sample');
+      // The outbox holds the sample from here on
+      localStorage.removeItem(LOCAL_STORAGE_KEY);
+      saveReservedIds(reservedIds.filter(id => id !== sampleId.trim()));
+      if (trip) {
+        saveTrip({
+          ...trip,
+          sampleCount: trip.sampleCount + 1,
+          lastEnd: { latitude: currentPosition.latitude, longitude: currentPosition.longitude, name: endLocationName.trim() }
+        });
       }
 
-      // Clear localStorage after successful save
-      localStorage.removeItem(LOCAL_STORAGE_KEY);
+      const result = await uploadQueuedSample(entry.id);
+      if (result.outcome === 'uploaded') {
+        alert(`Sample ${sampleId} saved successfully! ${trackingPoints.length} GPS points recorded.`);
+      } else if (result.outcome === 'pending') {
+        alert(`Sample ${sampleId} is saved on this device and will upload automatically when you are back online.`);
+      } else {
+        alert(`Sample ${sampleId} was rejected: ${result.error}. It is kept under pending uploads so you can change its ID.`);
+      }
 
-      // Reset and redirect
-      alert(`Sample ${sampleId} saved successfully! ${trackingPoints.length} GPS points recorded.`);
+      // Reset
       setSampleId('');
       setStartLocationName('');
       setEndLocationName('');
@@ -357,25 +550,46 @@ export default function CollectTab() {
   };
 
   const handleLogout = async () => {
-    await AuthService.logout();
+    await logout();
     router.push('/login');
   };
 
   return (
         <div className="h-full flex flex-col overflow-hidden bg-gray-50">
+          {scanning && <LabelScanner onScan={handleScan} onClose={() => setScanning(false)} />}
+          <PendingUploads />
+          {status === 'idle' && (
+            <TripPanel trip={trip} defaultSampler={user?.fullName || user?.email || ''} onChange={saveTrip} />
+          )}
+
           {/* Start Sampling Form - Only show in idle state */}
           {status === 'idle' && (
             <div className="bg-white border-b px-6 py-4">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Sample ID *</label>
-                  <input
-                    type="text"
-                    value={sampleId}
-                    onChange={(e) => setSampleId(e.target.value)}
-                    placeholder="e.g., 25_01"
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={sampleId}
+                      onChange={(e) => handleSampleIdChange(e.target.value)}
+                      placeholder="e.g., 25_01"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setScanning(true)}
+                      className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md text-sm font-medium whitespace-nowrap"
+                    >
+                      Scan
+                    </button>
+                  </div>
+                  {idCheck && (
+                    <p className={`mt-1 text-xs ${ID_CHECK_COLORS[idCheck.status]}`}>
+                      {idCheck.message}
+                    </p>
+                  )}
+                  <ReservedIds ids={reservedIds} reserving={reserving} onUse={handleUseReserved} onReserve={handleReserve} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Start Location *</label>
@@ -387,13 +601,24 @@ export default function CollectTab() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
                   />
                 </div>
-                <button
-                  onClick={handleStartSample}
-                  disabled={!sampleId.trim() || !startLocationName.trim()}
-                  className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Start Recording
-                </button>
+                <div className="flex flex-col gap-2">
+                  <button
+                    onClick={() => handleStartSample()}
+                    disabled={!sampleId.trim() || !startLocationName.trim()}
+                    className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Start Recording
+                  </button>
+                  {trip?.lastEnd && (
+                    <button
+                      onClick={() => handleStartSample(true)}
+                      disabled={!sampleId.trim()}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Start from {trip.lastEnd.name || 'previous end'}
+                    </button>
+                  )}
+                </div>
               </div>
               {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
             </div>
@@ -481,14 +706,29 @@ export default function CollectTab() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Sample ID
                   </label>
-                  <input
-                    type="text"
-                    value={sampleId}
-                    onChange={(e) => setSampleId(e.target.value)}
-                    placeholder="e.g., 26_01"
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg text-gray-900 text-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    autoFocus
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={sampleId}
+                      onChange={(e) => handleSampleIdChange(e.target.value)}
+                      placeholder="e.g., 26_01"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg text-gray-900 text-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      autoFocus
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setScanning(true)}
+                      className="px-4 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium"
+                    >
+                      Scan
+                    </button>
+                  </div>
+                  {idCheck && (
+                    <p className={`mt-1 text-xs ${ID_CHECK_COLORS[idCheck.status]}`}>
+                      {idCheck.message}
+                    </p>
+                  )}
+                  <ReservedIds ids={reservedIds} reserving={reserving} onUse={handleUseReserved} onReserve={handleReserve} />
                 </div>
 
                 <div className="flex gap-3">
@@ -499,7 +739,7 @@ export default function CollectTab() {
                     Cancel
                   </button>
                   <button
-                    onClick={handleStartSample}
+                    onClick={() => handleStartSample()}
                     className="flex-1 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium"
                   >
                     Start Recording
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+
+interface LabelScannerProps {
+  onScan: (text: string) => void;
+  onClose: () => void;
+}
+
+// Shape of the browser Shape Detection API, which TypeScript's DOM types do not include yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 250;
+
+/**
+ * Reads QR codes from video frames with jsQR, for browsers without
+ * BarcodeDetector (iOS Safari, Firefox). Labels are printed as QR codes, so
+ * the other formats BarcodeDetector reads are not needed here.
+ */
+async function createFallbackDetector(): Promise<BarcodeDetectorLike> {
+  const { default: jsQR } = await import('jsqr');
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  return {
+    async detect(video) {
+      if (!context || !video.videoWidth) return [];
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      context.drawImage(video, 0, 0);
+      const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+      const code = jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' });
+      return code ? [{ rawValue: code.data }] : [];
+    },
+  };
+}
+
+/**
+ * Full-screen camera view that reads the first QR code or barcode it sees.
+ * Uses the browser's BarcodeDetector where there is one (Chrome and Android)
+ * and jsQR elsewhere. The ID can always be typed instead.
+ */
+export default function LabelScanner({ onScan, onClose }: LabelScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState('');
+  const [typedId, setTypedId] = useState('');
+
+  useEffect(() => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    const detectorReady: Promise<BarcodeDetectorLike> = Detector
+      ? Promise.resolve(new Detector({ formats: ['qr_code', 'code_128', 'data_matrix'] }))
+      : createFallbackDetector();
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let done = false;
+
+    const stop = () => {
+      done = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (mediaStream) => {
+        const detector = await detectorReady;
+        if (done) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        await video.play();
+
+        timer = setInterval(async () => {
+          if (done || video.readyState < 2) return;
+          try {
+            const [code] = await detector.detect(video);
+            if (code?.rawValue && !done) {
+              stop();
+              onScan(code.rawValue);
+            }
+          } catch (detectError) {
+            console.error('Label detection error:', detectError);
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch((cameraError) => {
+        console.error('Camera error:', cameraError);
+        setError(
+          cameraError?.name === 'NotAllowedError'
+            ? 'Camera permission denied. Please type the sample ID below.'
+            : 'Could not open the camera. Please type the sample ID below.'
+        );
+      });
+
+    return stop;
+  }, [onScan]);
+
+  const handleTypedSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (typedId.trim()) onScan(typedId.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black z-[2000] flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 text-white">
+        <span className="font-medium">Scan sample label</span>
+        <button onClick={onClose} className="text-2xl font-bold leading-none" aria-label="Close scanner">×</button>
+      </div>
+      {error ? (
+        <div className="flex-1 flex items-center justify-center p-6">
+          <p className="text-white text-center">{error}</p>
+        </div>
+      ) : (
+        <div className="flex-1 relative">
+          <video ref={videoRef} playsInline muted className="absolute inset-0 w-full h-full object-cover" />
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="w-56 h-56 border-4 border-white/80 rounded-lg" />
+          </div>
+        </div>
+      )}
+      {/* Damaged or unreadable labels */}
+      <form onSubmit={handleTypedSubmit} className="flex gap-2 px-4 py-3 bg-black">
+        <input
+          type="text"
+          value={typedId}
+          onChange={(e) => setTypedId(e.target.value)}
+          placeholder="Can't scan? Type the sample ID"
+          className="flex-1 px-3 py-2 rounded-md text-gray-900 bg-white"
+        />
+        <button
+          type="submit"
+          disabled={!typedId.trim()}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md font-medium disabled:opacity-50"
+        >
+          Use ID
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -3,8 +3,35 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import MetabarcodeUpload from '@/components/MetabarcodeUpload';
+import SampleLabels from '@/components/sample/SampleLabels';
+import TrackImport from '@/components/sample/TrackImport';
+import TrackExportLinks from '@/components/sample/TrackExportLinks';
+import TrackSummary from '@/components/sample/TrackSummary';
+import { useAuth } from '@/components/AuthProvider';
+import { ABUNDANCE_BASIS_LABELS, abundanceBasis, formatAbundance, relativeAbundance } from '@/lib/abundance';
+import { SEVERITY_COLORS, SeverityThresholds, classifySeverity, severityThresholds } from '@/lib/severity';
+import { SequencingRun, SequencingRunMetadata, describeRun } from '@/lib/sequencingRuns';
+import { FieldTripMetadata, describeTrip } from '@/lib/fieldTrips';
+import { SPEED_FLAG_COLORS, SPEED_FLAG_LABELS, SpeedFlag, TrackStats } from '@/lib/trackQuality';
+import {
+  SAMPLE_STATUS_COLORS,
+  SAMPLE_STATUS_LABELS,
+  SAMPLE_STATUSES,
+  SampleStatus,
+  SampleStatusTransition,
+} from '@/lib/sampleLifecycle';
 import dynamic from 'next/dynamic';
 
+const SampleBoard = dynamic(() => import('@/components/sample/SampleBoard'), {
+  ssr: false,
+  loading: () => <div className="h-full flex items-center justify-center bg-gray-100">Loading board...</div>
+});
+
+const TripList = dynamic(() => import('@/components/sample/TripList'), {
+  ssr: false,
+  loading: () => <div className="h-full flex items-center justify-center bg-gray-100">Loading trips...</div>
+});
+
 const RouteMap = dynamic(() => import('@/components/RouteMap'), {
   ssr: false,
   loading: () => <div className="h-full flex items-center justify-center bg-gray-100">Loading map...</div>
@@ -21,6 +48,17 @@ interface SamplingRoute {
   end_longitude: number;
   collection_date: string;
   year: number;
+  total_reads: number | null;
+  fungal_reads: number | null;
+  sequencing_run: (Pick<SequencingRun, 'name'> & SequencingRunMetadata) | null;
+  trip: FieldTripMetadata | null;
+  trip_sequence: number | null;
+  track_stats: TrackStats | null;
+  track_speed_flag: SpeedFlag | null;
+  track_processed_at: string | null;
+  status: SampleStatus;
+  status_updated_at: string;
+  created_by: string | null;
   created_at: string;
 }
 
@@ -28,12 +66,15 @@ interface PathogenDetection {
   id: string;
   route_id: string;
   pathogen_species_id: string;
-  read_count: number;
+  read_count: number; // raw, as imported
+  corrected_read_count: number | null; // after blank correction; null when the route has no run
+  blank_read_count: number | null;
+  below_blank: boolean;
   pathogen_species?: {
     species_name: string;
     common_name: string;
     disease_type: string;
-  };
+  } & SeverityThresholds;
 }
 
 interface PathogenSpecies {
@@ -56,6 +97,11 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
   const [editingRoute, setEditingRoute] = useState<SamplingRoute | null>(null);
   const [selectedRoute, setSelectedRoute] = useState<SamplingRoute | null>(null);
   const [detections, setDetections] = useState<PathogenDetection[]>([]);
+  const [view, setView] = useState<'map' | 'board' | 'trips'>('map');
+  const [statusHistory, setStatusHistory] = useState<SampleStatusTransition[]>([]);
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const [trackVersion, setTrackVersion] = useState(0);
+  const { user, hasRole } = useAuth();
 
   const [routeFormData, setRouteFormData] = useState({
     sample_id: '',
@@ -103,6 +149,7 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
 
       console.log('Routes loaded:', data.routes?.length || 0);
       setRoutes(data.routes || []);
+      return (data.routes || []) as SamplingRoute[];
     } catch (error) {
       console.error('Error loading routes:', error);
       alert('Failed to load sampling routes: ' + (error as any)?.message);
@@ -134,7 +181,10 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
           pathogen_species (
             species_name,
             common_name,
-            disease_type
+            disease_type,
+            severity_metric,
+            medium_threshold,
+            high_threshold
           )
         `)
         .eq('route_id', routeId)
@@ -171,33 +221,26 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
         collection_date: routeFormData.collection_date
       };
 
-      if (editingRoute) {
-        const { error } = await supabase
-          .from('sampling_routes')
-          .update(routeData)
-          .eq('id', editingRoute.id);
-
-        if (error) throw error;
-        alert('Sampling route updated successfully');
-      } else {
-        const { error } = await supabase
-          .from('sampling_routes')
-          .insert(routeData);
-
-        if (error) throw error;
-        alert('Sampling route added successfully');
+      // PATCH corrects the route being edited; new routes entered by hand have their own endpoint
+      const response = await fetch(editingRoute ? '/api/samples' : '/api/samples/manual', {
+        method: editingRoute ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editingRoute ? { id: editingRoute.id, ...routeData } : routeData)
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save sampling route');
       }
 
+      alert(editingRoute ? 'Sampling route updated successfully' : 'Sampling route added successfully');
+
       resetRouteForm();
       loadRoutes();
     } catch (error) {
       console.error('Error saving route:', error);
-      const err = error as { code?: string; message?: string };
-      if (err.code === '23505') {
-        alert('A sampling route with this sample ID already exists');
-      } else {
-        alert('Failed to save sampling route: ' + (err.message || 'Unknown error'));
-      }
+      alert('Failed to save sampling route: ' + (error as Error).message);
     }
   };
 
@@ -210,27 +253,28 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
     }
 
     try {
-      const { error } = await supabase
-        .from('pathogen_detections')
-        .insert({
-          route_id: selectedRoute.id,
-          pathogen_species_id: detectionFormData.pathogen_species_id,
-          read_count: parseInt(detectionFormData.read_count)
-        });
+      const response = await fetch('/api/samples/detections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          routeId: selectedRoute.id,
+          pathogenSpeciesId: detectionFormData.pathogen_species_id,
+          readCount: parseInt(detectionFormData.read_count)
+        })
+      });
 
-      if (error) throw error;
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save pathogen detection');
+      }
 
       alert('Pathogen detection added successfully');
       setDetectionFormData({ pathogen_species_id: '', read_count: '' });
       loadDetections(selectedRoute.id);
     } catch (error) {
       console.error('Error saving detection:', error);
-      const err = error as { code?: string; message?: string };
-      if (err.code === '23505') {
-        alert('This pathogen detection already exists for this route');
-      } else {
-        alert('Failed to save pathogen detection: ' + (err.message || 'Unknown error'));
-      }
+      alert('Failed to save pathogen detection: ' + (error as Error).message);
     }
   };
 
@@ -285,12 +329,15 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
     }
 
     try {
-      const { error } = await supabase
-        .from('pathogen_detections')
-        .delete()
-        .eq('id', detection.id);
+      const response = await fetch(`/api/samples/detections?id=${detection.id}`, {
+        method: 'DELETE'
+      });
 
-      if (error) throw error;
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete pathogen detection');
+      }
       alert('Pathogen detection deleted successfully');
 
       if (selectedRoute) {
@@ -318,9 +365,89 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
     setEditingRoute(null);
   };
 
+  const loadStatusHistory = async (routeId: string) => {
+    try {
+      const response = await fetch(`/api/samples/status?routeId=${routeId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load status history');
+      }
+
+      setStatusHistory(data.transitions || []);
+    } catch (error) {
+      console.error('Error loading status history:', error);
+      setStatusHistory([]);
+    }
+  };
+
   const handleRouteSelect = (route: SamplingRoute) => {
     setSelectedRoute(route);
     loadDetections(route.id);
+    if (!readOnly) loadStatusHistory(route.id);
+  };
+
+  const handleTrackUpdated = async (routeId: string) => {
+    const loaded = await loadRoutes();
+    const route = loaded?.find(r => r.id === routeId);
+    if (route) handleRouteSelect(route);
+    // Remount the map so it fetches the new track even if the route was already selected
+    setTrackVersion(version => version + 1);
+  };
+
+  const handleStatusMove = async (routeId: string, status: SampleStatus) => {
+    const route = routes.find(r => r.id === routeId);
+    if (!route) return;
+
+    const movingBack = SAMPLE_STATUSES.indexOf(status) < SAMPLE_STATUSES.indexOf(route.status);
+    if (movingBack && !confirm(`Move ${route.sample_id} back to "${SAMPLE_STATUS_LABELS[status]}"?`)) {
+      return;
+    }
+
+    setMovingId(routeId);
+    try {
+      const response = await fetch('/api/samples/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ routeId, status })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update sample status');
+      }
+
+      const updated = { ...route, status: data.toStatus, status_updated_at: data.changedAt };
+      setRoutes(routes.map(r => (r.id === routeId ? updated : r)));
+      if (selectedRoute?.id === routeId) {
+        setSelectedRoute(updated);
+        loadStatusHistory(routeId);
+      }
+    } catch (error) {
+      console.error('Error updating sample status:', error);
+      alert('Failed to update sample status: ' + (error as Error).message);
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  const selectedAbundance = selectedRoute ? abundanceBasis(selectedRoute) : null;
+
+  const detectionSeverity = (detection: PathogenDetection) => {
+    const readCount = detection.corrected_read_count ?? detection.read_count;
+    return classifySeverity(
+      readCount,
+      selectedRoute ? relativeAbundance(readCount, selectedRoute) : null,
+      severityThresholds(detection.pathogen_species)
+    );
+  };
+
+  // Raw and blank counts behind a blank-corrected read count, for display
+  const blankNote = (detection: PathogenDetection) => {
+    if (detection.below_blank) return `below blank (${detection.blank_read_count?.toLocaleString()} reads in run blanks)`;
+    if (detection.corrected_read_count === null || detection.corrected_read_count === detection.read_count) return null;
+    return `raw ${detection.read_count.toLocaleString()}, blank ${detection.blank_read_count?.toLocaleString()}`;
   };
 
   if (loading) {
@@ -338,13 +465,49 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
       <div className="h-full flex flex-col">
         {/* Top Section: Map and Sidebar */}
         <div className="flex-1 flex overflow-hidden">
-          {/* Map - Left Side */}
+          {/* Map or custody board - Left Side */}
           <div className="flex-1 relative">
-            <RouteMap
-              key={selectedRoute?.id || 'all'}
-              routes={routes}
-              selectedRoute={selectedRoute}
-            />
+            {!readOnly && (
+              <div className="absolute top-2 right-2 z-[1000] flex rounded-md shadow bg-white text-sm font-medium">
+                {(['map', 'board', 'trips'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1 first:rounded-l-md last:rounded-r-md ${
+                      view === option ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    {{ map: 'Map', board: 'Board', trips: 'Trips' }[option]}
+                  </button>
+                ))}
+              </div>
+            )}
+            {view === 'trips' && !readOnly ? (
+              <TripList
+                selectedId={selectedRoute?.id}
+                onSelect={(routeId) => {
+                  const route = routes.find(r => r.id === routeId);
+                  if (route) handleRouteSelect(route);
+                }}
+              />
+            ) : view === 'board' && !readOnly ? (
+              <SampleBoard
+                samples={routes}
+                selectedId={selectedRoute?.id}
+                movingId={movingId}
+                onSelect={(routeId) => {
+                  const route = routes.find(r => r.id === routeId);
+                  if (route) handleRouteSelect(route);
+                }}
+                onMove={handleStatusMove}
+              />
+            ) : (
+              <RouteMap
+                key={`${selectedRoute?.id || 'all'}-${trackVersion}`}
+                routes={routes}
+                selectedRoute={selectedRoute}
+              />
+            )}
           </div>
 
           {/* Sidebar - Right Side */}
@@ -367,16 +530,28 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
                         <div className="flex-1">
                           <p className="text-sm font-medium text-gray-900">{route.sample_id}</p>
                           <p className="text-sm text-gray-500">{route.start_name} → {route.end_name}</p>
-                          <p className="text-xs text-gray-400">{new Date(route.collection_date).toLocaleDateString()}</p>
-                        </div>
-                        <div className="flex space-x-2" onClick={(e) => e.stopPropagation()}>
-                          <button
-                            onClick={() => handleDeleteRoute(route)}
-                            className="text-red-600 hover:text-red-900 text-sm font-medium"
-                          >
-                            Delete
-                          </button>
+                          <p className="text-xs text-gray-400">
+                            {new Date(route.collection_date).toLocaleDateString()}
+                            <span className={`ml-2 px-1.5 py-0.5 rounded ${SAMPLE_STATUS_COLORS[route.status]}`}>
+                              {SAMPLE_STATUS_LABELS[route.status]}
+                            </span>
+                            {route.track_speed_flag && (
+                              <span className={`ml-1 px-1.5 py-0.5 rounded ${SPEED_FLAG_COLORS[route.track_speed_flag]}`}>
+                                {SPEED_FLAG_LABELS[route.track_speed_flag]}
+                              </span>
+                            )}
+                          </p>
                         </div>
+                        {(hasRole('admin') || route.created_by === user?.id) && (
+                          <div className="flex space-x-2" onClick={(e) => e.stopPropagation()}>
+                            <button
+                              onClick={() => handleDeleteRoute(route)}
+                              className="text-red-600 hover:text-red-900 text-sm font-medium"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </li>
@@ -394,6 +569,8 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
                 {/* Upload Section */}
                 <div>
                   <MetabarcodeUpload />
+                  <TrackImport selectedSampleId={selectedRoute?.sample_id} onImported={handleTrackUpdated} />
+                  {hasRole('admin') && <SampleLabels />}
                 </div>
 
                 {/* Pathogen Detections */}
@@ -404,6 +581,31 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
                         <h3 className="text-lg font-medium text-gray-900">
                           Pathogen Detections for {selectedRoute.sample_id} ({detections.length})
                         </h3>
+                        <TrackExportLinks routeId={selectedRoute.id} className="block mt-1" />
+                        <div className="mt-2">
+                          <TrackSummary
+                            routeId={selectedRoute.id}
+                            createdBy={selectedRoute.created_by}
+                            stats={selectedRoute.track_stats}
+                            speedFlag={selectedRoute.track_speed_flag}
+                            processedAt={selectedRoute.track_processed_at}
+                            onProcessed={() => handleTrackUpdated(selectedRoute.id)}
+                          />
+                        </div>
+                        <div className="mt-2 text-xs text-gray-600">
+                          <span className={`px-2 py-0.5 font-medium rounded ${SAMPLE_STATUS_COLORS[selectedRoute.status]}`}>
+                            {SAMPLE_STATUS_LABELS[selectedRoute.status]}
+                          </span>
+                          <ol className="mt-2 space-y-0.5">
+                            {statusHistory.map(transition => (
+                              <li key={transition.id}>
+                                {new Date(transition.changed_at).toLocaleString()}: {SAMPLE_STATUS_LABELS[transition.to_status]}
+                                {' by '}{transition.changed_by_user?.full_name || transition.changed_by_user?.email || 'unknown'}
+                                {transition.notes && <span className="text-gray-400"> ({transition.notes})</span>}
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
                       </div>
                       <ul className="divide-y divide-gray-200 max-h-48 overflow-y-auto">
                         {detections.map((detection) => (
@@ -421,7 +623,19 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
                                     </span>
                                   </p>
                                   <p className="text-sm font-semibold text-blue-600">
-                                    {detection.read_count.toLocaleString()} reads
+                                    <span className={`mr-2 px-2 py-0.5 text-xs font-medium rounded ${SEVERITY_COLORS[detectionSeverity(detection)]}`}>
+                                      {detectionSeverity(detection)}
+                                    </span>
+                                    {(detection.corrected_read_count ?? detection.read_count).toLocaleString()} reads
+                                    {blankNote(detection) && (
+                                      <span className="ml-2 font-normal text-xs text-amber-700">{blankNote(detection)}</span>
+                                    )}
+                                    {selectedAbundance && (
+                                      <span className="ml-2 font-normal text-gray-500">
+                                        {formatAbundance(((detection.corrected_read_count ?? detection.read_count) / selectedAbundance.reads) * 100)}{' '}
+                                        {ABUNDANCE_BASIS_LABELS[selectedAbundance.basis]}
+                                      </span>
+                                    )}
                                   </p>
                                 </div>
                                 <button
@@ -461,6 +675,7 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
                   <p className="mt-1 max-w-2xl text-sm text-gray-500">
                     Collection information and pathogen detections
                   </p>
+                  <TrackExportLinks routeId={selectedRoute.id} className="block mt-2" />
                 </div>
                 <div className="border-t border-gray-200 px-4 py-5 sm:px-6">
                   <dl className="grid grid-cols-1 gap-x-4 gap-y-6 sm:grid-cols-2">
@@ -472,6 +687,74 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
                       <dt className="text-sm font-medium text-gray-500">Sample Route</dt>
                       <dd className="mt-1 text-sm text-gray-900">{selectedRoute.start_name} → {selectedRoute.end_name}</dd>
                     </div>
+                    <div className="sm:col-span-2">
+                      <dt className="text-sm font-medium text-gray-500">Status</dt>
+                      <dd className="mt-1 text-sm">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded ${SAMPLE_STATUS_COLORS[selectedRoute.status]}`}>
+                          {SAMPLE_STATUS_LABELS[selectedRoute.status]}
+                        </span>
+                        <span className="ml-2 text-gray-500">since {new Date(selectedRoute.status_updated_at).toLocaleDateString()}</span>
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500">Total Library Reads</dt>
+                      <dd className="mt-1 text-sm text-gray-900">{selectedRoute.total_reads?.toLocaleString() ?? 'Not recorded'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500">Fungal Reads</dt>
+                      <dd className="mt-1 text-sm text-gray-900">{selectedRoute.fungal_reads?.toLocaleString() ?? 'Not recorded'}</dd>
+                    </div>
+                    <div className="sm:col-span-2">
+                      <dt className="text-sm font-medium text-gray-500">Field Trip</dt>
+                      <dd className="mt-1 text-sm text-gray-900">
+                        {selectedRoute.trip ? (
+                          <>
+                            {selectedRoute.trip.name}
+                            <span className="ml-2 text-gray-500">
+                              sample {selectedRoute.trip_sequence} · {new Date(selectedRoute.trip.trip_date).toLocaleDateString()}
+                            </span>
+                            {describeTrip(selectedRoute.trip) && (
+                              <p className="text-gray-500">{describeTrip(selectedRoute.trip)}</p>
+                            )}
+                            {selectedRoute.trip.notes && (
+                              <p className="text-amber-700">{selectedRoute.trip.notes}</p>
+                            )}
+                          </>
+                        ) : 'Not part of a trip'}
+                      </dd>
+                    </div>
+                    <div className="sm:col-span-2">
+                      <dt className="text-sm font-medium text-gray-500">Sequencing Run</dt>
+                      <dd className="mt-1 text-sm text-gray-900">
+                        {selectedRoute.sequencing_run ? (
+                          <>
+                            {selectedRoute.sequencing_run.name}
+                            {selectedRoute.sequencing_run.run_date && (
+                              <span className="ml-2 text-gray-500">{selectedRoute.sequencing_run.run_date}</span>
+                            )}
+                            <p className="text-gray-500">
+                              {describeRun(selectedRoute.sequencing_run) || 'No primer set, platform or pipeline recorded'}
+                            </p>
+                            {selectedRoute.sequencing_run.notes && (
+                              <p className="text-amber-700">{selectedRoute.sequencing_run.notes}</p>
+                            )}
+                          </>
+                        ) : 'Not recorded'}
+                      </dd>
+                    </div>
+                    <div className="sm:col-span-2">
+                      <dt className="text-sm font-medium text-gray-500">GPS Track</dt>
+                      <dd className="mt-1">
+                        <TrackSummary
+                          routeId={selectedRoute.id}
+                          createdBy={selectedRoute.created_by}
+                          stats={selectedRoute.track_stats}
+                          speedFlag={selectedRoute.track_speed_flag}
+                          processedAt={selectedRoute.track_processed_at}
+                          onProcessed={() => handleTrackUpdated(selectedRoute.id)}
+                        />
+                      </dd>
+                    </div>
                     <div className="sm:col-span-2">
                       <dt className="text-sm font-medium text-gray-500 mb-3">Detected Pathogens ({detections.length})</dt>
                       <dd className="mt-1">
@@ -489,9 +772,23 @@ export default function ManageTab({ readOnly = false, sampleId }: ManageTabProps
                                   </span>
                                 </p>
                               </div>
-                              <span className="text-blue-600 font-semibold">
-                                {detection.read_count.toLocaleString()} reads
-                              </span>
+                              <div className="text-right">
+                                <span className={`mr-2 px-2 py-0.5 text-xs font-medium rounded ${SEVERITY_COLORS[detectionSeverity(detection)]}`}>
+                                  {detectionSeverity(detection)}
+                                </span>
+                                <span className="text-blue-600 font-semibold">
+                                  {(detection.corrected_read_count ?? detection.read_count).toLocaleString()} reads
+                                </span>
+                                {blankNote(detection) && (
+                                  <p className="text-xs text-amber-700">{blankNote(detection)}</p>
+                                )}
+                                {selectedAbundance && (
+                                  <p className="text-xs text-gray-500">
+                                    {formatAbundance(((detection.corrected_read_count ?? detection.read_count) / selectedAbundance.reads) * 100)}{' '}
+                                    {ABUNDANCE_BASIS_LABELS[selectedAbundance.basis]}
+                                  </p>
+                                )}
+                              </div>
                             </li>
                           ))}
                         </ul>
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  OutboxEntry,
+  discardQueuedSample,
+  flushOutbox,
+  listOutbox,
+  onOutboxChange,
+  registerServiceWorker,
+  renameQueuedSample,
+  uploadQueuedSample,
+} from '@/lib/outbox';
+
+/**
+ * Samples saved on this device but not yet uploaded. Also keeps the outbox
+ * moving: registers the service worker and retries on load and whenever the
+ * browser comes back online.
+ */
+export default function PendingUploads() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    const loadEntries = () => {
+      listOutbox()
+        .then(setEntries)
+        .catch(outboxError => console.error('Error reading upload queue:', outboxError));
+    };
+    const retry = () => {
+      flushOutbox().catch(outboxError => console.error('Error uploading queued samples:', outboxError));
+    };
+
+    registerServiceWorker();
+    loadEntries();
+    retry();
+
+    const unsubscribe = onOutboxChange(loadEntries);
+    window.addEventListener('online', retry);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', retry);
+    };
+  }, []);
+
+  const handleRetry = async () => {
+    setUploading(true);
+    try {
+      await flushOutbox();
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRename = async (entry: OutboxEntry) => {
+    const sampleId = prompt(`New sample ID for "${entry.sampleId}":`, entry.sampleId)?.trim();
+    if (!sampleId || sampleId === entry.sampleId) return;
+
+    await renameQueuedSample(entry.id, sampleId);
+    const result = await uploadQueuedSample(entry.id);
+    if (result.outcome === 'failed') {
+      alert(`Sample ${sampleId} was rejected: ${result.error}`);
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (confirm(`Discard sample ${entry.sampleId} and its ${entry.pointCount} GPS points? This cannot be undone.`)) {
+      await discardQueuedSample(entry.id);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 px-6 py-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-amber-900">
+          {entries.length} sample{entries.length === 1 ? '' : 's'} waiting to upload
+        </h3>
+        <button
+          onClick={handleRetry}
+          disabled={uploading}
+          className="text-sm text-blue-600 hover:text-blue-900 font-medium disabled:opacity-50"
+        >
+          {uploading ? 'Uploading...' : 'Retry now'}
+        </button>
+      </div>
+      <ul className="mt-2 space-y-1 text-sm">
+        {entries.map(entry => (
+          <li key={entry.id} className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <span className="font-mono text-gray-900">{entry.sampleId}</span>
+              <span className="ml-2 text-gray-600">
+                {entry.pointCount} points · {new Date(entry.queuedAt).toLocaleString()}
+              </span>
+              {entry.lastError && (
+                <span className={`ml-2 ${entry.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                  {entry.lastError}
+                </span>
+              )}
+            </div>
+            <div className="flex gap-3 shrink-0">
+              {entry.status === 'failed' && (
+                <button onClick={() => handleRename(entry)} className="text-blue-600 hover:text-blue-900 font-medium">
+                  Change ID
+                </button>
+              )}
+              <button onClick={() => handleDiscard(entry)} className="text-red-600 hover:text-red-900 font-medium">
+                Discard
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
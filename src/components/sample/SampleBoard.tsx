@@ -0,0 +1,106 @@
+'use client';
+
+import {
+  SAMPLE_STATUSES,
+  SAMPLE_STATUS_COLORS,
+  SAMPLE_STATUS_LABELS,
+  SampleStatus,
+  daysInStatus,
+  nextStatus,
+  previousStatus,
+} from '@/lib/sampleLifecycle';
+
+interface BoardSample {
+  id: string;
+  sample_id: string;
+  start_name: string;
+  end_name: string;
+  collection_date: string;
+  status: SampleStatus;
+  status_updated_at: string;
+}
+
+interface SampleBoardProps {
+  samples: BoardSample[];
+  selectedId?: string;
+  movingId: string | null;
+  onSelect: (sampleId: string) => void;
+  onMove: (sampleId: string, status: SampleStatus) => void;
+}
+
+// Samples sitting in a pre-results stage longer than this are highlighted
+const STALE_AFTER_DAYS = 14;
+
+/**
+ * Kanban view of samples by chain-of-custody stage, oldest in stage first,
+ * so samples that are stuck stand out
+ */
+export default function SampleBoard({ samples, selectedId, movingId, onSelect, onMove }: SampleBoardProps) {
+  return (
+    <div className="h-full overflow-x-auto bg-gray-100">
+      <div className="flex h-full gap-3 p-3 min-w-max">
+        {SAMPLE_STATUSES.map(status => {
+          const column = samples
+            .filter(sample => sample.status === status)
+            .sort((a, b) => a.status_updated_at.localeCompare(b.status_updated_at));
+
+          return (
+            <div key={status} className="w-60 flex flex-col bg-gray-50 rounded-lg border">
+              <div className="px-3 py-2 border-b flex items-center justify-between">
+                <span className={`px-2 py-0.5 text-xs font-semibold rounded ${SAMPLE_STATUS_COLORS[status]}`}>
+                  {SAMPLE_STATUS_LABELS[status]}
+                </span>
+                <span className="text-xs text-gray-500">{column.length}</span>
+              </div>
+              <ul className="flex-1 overflow-y-auto p-2 space-y-2">
+                {column.map(sample => {
+                  const days = daysInStatus(sample.status_updated_at);
+                  const stale = status !== 'results_loaded' && days >= STALE_AFTER_DAYS;
+                  const back = previousStatus(sample.status);
+                  const forward = nextStatus(sample.status);
+
+                  return (
+                    <li
+                      key={sample.id}
+                      onClick={() => onSelect(sample.id)}
+                      className={`bg-white rounded-md shadow-sm p-2 cursor-pointer border ${
+                        selectedId === sample.id ? 'border-blue-400' : stale ? 'border-red-300' : 'border-transparent'
+                      }`}
+                    >
+                      <p className="text-sm font-medium text-gray-900">{sample.sample_id}</p>
+                      <p className="text-xs text-gray-500 truncate">{sample.start_name} → {sample.end_name}</p>
+                      <p className={`text-xs ${stale ? 'text-red-600 font-medium' : 'text-gray-400'}`}>
+                        {days === 0 ? 'Moved here today' : `${days} day${days === 1 ? '' : 's'} in this stage`}
+                      </p>
+                      <div className="mt-1 flex justify-between" onClick={(e) => e.stopPropagation()}>
+                        {back ? (
+                          <button
+                            onClick={() => onMove(sample.id, back)}
+                            disabled={movingId !== null}
+                            className="text-xs text-gray-500 hover:text-gray-800 disabled:opacity-50"
+                            title={`Move back to ${SAMPLE_STATUS_LABELS[back]}`}
+                          >
+                            ← Back
+                          </button>
+                        ) : <span />}
+                        {forward && (
+                          <button
+                            onClick={() => onMove(sample.id, forward)}
+                            disabled={movingId !== null}
+                            className="text-xs text-blue-600 hover:text-blue-900 font-medium disabled:opacity-50"
+                          >
+                            {movingId === sample.id ? 'Moving...' : `${SAMPLE_STATUS_LABELS[forward]} →`}
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
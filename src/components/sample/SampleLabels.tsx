@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { MAX_LABELS_PER_BATCH } from '@/lib/sampleLabels';
+import { SampleIdScheme, formatSampleId, validateIdPattern } from '@/lib/sampleIds';
+
+interface LabelBatch {
+  id: string;
+  prefix: string | null;
+  label_count: number;
+  created_at: string;
+  scheme: { season: string; pattern: string } | null;
+  creator: { email: string; full_name: string | null } | null;
+  sample_labels: { sample_id: string; used_at: string | null }[];
+}
+
+const sortIds = (ids: string[]) =>
+  [...ids].sort((a, b) => a.length - b.length || a.localeCompare(b));
+
+const emptyScheme = () => {
+  const year = new Date().getFullYear();
+  return { season: String(year), pattern: '{YY}_{seq:02}', starts_on: `${year}-01-01`, ends_on: `${year}-12-31` };
+};
+
+// First few IDs a pattern would give, or why it is invalid
+const previewPattern = (scheme: ReturnType<typeof emptyScheme>) => {
+  const problem = validateIdPattern(scheme.pattern);
+  if (problem) return problem;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(scheme.starts_on)) return 'Enter a start date';
+  return [1, 2, 3].map(seq => formatSampleId(scheme, seq)).join(', ') + ', ...';
+};
+
+export default function SampleLabels() {
+  const [batches, setBatches] = useState<LabelBatch[]>([]);
+  const [schemes, setSchemes] = useState<SampleIdScheme[]>([]);
+  const [schemeId, setSchemeId] = useState('');
+  const [newScheme, setNewScheme] = useState(emptyScheme);
+  const [showSchemeForm, setShowSchemeForm] = useState(false);
+  const [count, setCount] = useState('21');
+  const [issuing, setIssuing] = useState(false);
+  const [printingId, setPrintingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBatches();
+    loadSchemes();
+  }, []);
+
+  const loadSchemes = async () => {
+    try {
+      const response = await fetch('/api/sample-ids');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load sample ID schemes');
+      }
+
+      setSchemes(result.schemes || []);
+      setSchemeId(current => current || result.currentScheme?.id || '');
+    } catch (error) {
+      console.error('Error loading sample ID schemes:', error);
+    }
+  };
+
+  const handleCreateScheme = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = await fetch('/api/sample-ids/schemes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newScheme)
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create scheme');
+      }
+
+      setNewScheme(emptyScheme());
+      setShowSchemeForm(false);
+      setSchemeId(result.scheme.id);
+      loadSchemes();
+    } catch (error) {
+      console.error('Error creating sample ID scheme:', error);
+      alert('Failed to create scheme: ' + (error as Error).message);
+    }
+  };
+
+  const loadBatches = async () => {
+    try {
+      const response = await fetch('/api/labels');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load label batches');
+      }
+
+      setBatches(result.batches || []);
+    } catch (error) {
+      console.error('Error loading label batches:', error);
+    }
+  };
+
+  const downloadSheet = async (sampleIds: string[], filename: string) => {
+    // Loaded on demand; only needed when printing
+    const { buildLabelSheet } = await import('@/lib/labelSheet');
+    const blob = buildLabelSheet(sortIds(sampleIds), window.location.origin);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const labelCount = parseInt(count);
+    if (!schemeId) {
+      alert('Choose a season first');
+      return;
+    }
+    if (isNaN(labelCount) || labelCount < 1 || labelCount > MAX_LABELS_PER_BATCH) {
+      alert(`Count must be between 1 and ${MAX_LABELS_PER_BATCH}`);
+      return;
+    }
+
+    setIssuing(true);
+    try {
+      const response = await fetch('/api/labels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ schemeId, count: labelCount })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to issue labels');
+      }
+
+      const ids: string[] = result.sampleIds;
+      await downloadSheet(ids, `labels_${ids[0]}-${ids[ids.length - 1]}.pdf`);
+      loadBatches();
+      loadSchemes();
+    } catch (error) {
+      console.error('Error issuing labels:', error);
+      alert('Failed to issue labels: ' + (error as Error).message);
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const handleReprint = async (batch: LabelBatch) => {
+    const unused = batch.sample_labels.filter(label => !label.used_at).map(label => label.sample_id);
+    if (unused.length === 0) {
+      alert('Every label in this batch has been used');
+      return;
+    }
+
+    setPrintingId(batch.id);
+    try {
+      await downloadSheet(unused, `labels_${batch.scheme?.season ?? batch.prefix}_${batch.id.slice(0, 8)}.pdf`);
+    } catch (error) {
+      console.error('Error building label sheet:', error);
+      alert('Failed to build label sheet');
+    } finally {
+      setPrintingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-md p-4 mt-6">
+      <h3 className="text-lg font-medium text-gray-900">Sample Labels</h3>
+      <p className="text-sm text-gray-500 mt-1">
+        Issue the next sample IDs for a season and print them as QR label sheets (A4, 3 × 7).
+      </p>
+
+      <form onSubmit={handleIssue} className="mt-3 flex items-end gap-3">
+        <label className="text-sm font-medium text-gray-700">
+          Season
+          <select
+            value={schemeId}
+            onChange={(e) => setSchemeId(e.target.value)}
+            className="mt-1 block w-48 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+          >
+            <option value="">Choose...</option>
+            {schemes.map(scheme => (
+              <option key={scheme.id} value={scheme.id}>
+                {scheme.season} ({formatSampleId(scheme, scheme.next_seq)} next)
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Labels
+          <input
+            type="number"
+            min="1"
+            max={MAX_LABELS_PER_BATCH}
+            value={count}
+            onChange={(e) => setCount(e.target.value)}
+            className="mt-1 block w-24 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={issuing}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-md text-sm font-medium disabled:opacity-50"
+        >
+          {issuing ? 'Issuing...' : 'Issue & download PDF'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowSchemeForm(!showSchemeForm)}
+          className="text-blue-600 hover:text-blue-900 text-sm font-medium py-1.5"
+        >
+          {showSchemeForm ? 'Cancel' : 'New season'}
+        </button>
+      </form>
+
+      {showSchemeForm && (
+        <form onSubmit={handleCreateScheme} className="mt-3 p-3 bg-gray-50 rounded-md">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-sm font-medium text-gray-700">
+              Season
+              <input
+                type="text"
+                value={newScheme.season}
+                onChange={(e) => setNewScheme({ ...newScheme, season: e.target.value.trim() })}
+                className="mt-1 block w-24 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              ID pattern
+              <input
+                type="text"
+                value={newScheme.pattern}
+                onChange={(e) => setNewScheme({ ...newScheme, pattern: e.target.value.trim() })}
+                className="mt-1 block w-40 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 font-mono"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              From
+              <input
+                type="date"
+                value={newScheme.starts_on}
+                onChange={(e) => setNewScheme({ ...newScheme, starts_on: e.target.value })}
+                className="mt-1 block border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              To
+              <input
+                type="date"
+                value={newScheme.ends_on}
+                onChange={(e) => setNewScheme({ ...newScheme, ends_on: e.target.value })}
+                className="mt-1 block border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+              />
+            </label>
+            <button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-md text-sm font-medium"
+            >
+              Create
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Tokens: {'{YYYY}'}, {'{YY}'}, {'{season}'}, {'{seq}'} or {'{seq:N}'} (padded to N digits).
+            Gives: <span className="font-mono">{previewPattern(newScheme)}</span>
+          </p>
+        </form>
+      )}
+
+      {batches.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-200 text-sm">
+          {batches.map(batch => {
+            const ids = sortIds(batch.sample_labels.map(label => label.sample_id));
+            const used = batch.sample_labels.filter(label => label.used_at).length;
+
+            return (
+              <li key={batch.id} className="py-2 flex items-center justify-between">
+                <div>
+                  <span className="font-mono text-gray-900">
+                    {ids[0]}{ids.length > 1 ? ` – ${ids[ids.length - 1]}` : ''}
+                  </span>
+                  <span className="ml-2 text-gray-500">
+                    {used} of {batch.label_count} used · {new Date(batch.created_at).toLocaleDateString()}
+                    {batch.creator ? ` · ${batch.creator.full_name || batch.creator.email}` : ''}
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleReprint(batch)}
+                  disabled={printingId !== null}
+                  className="text-blue-600 hover:text-blue-900 font-medium disabled:opacity-50"
+                >
+                  {printingId === batch.id ? 'Building...' : 'Reprint unused'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
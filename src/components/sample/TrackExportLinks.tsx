@@ -0,0 +1,28 @@
+import { TRACK_FORMATS, TrackFormat } from '@/lib/trackFormats';
+
+interface TrackExportLinksProps {
+  routeId: string;
+  className?: string;
+}
+
+/**
+ * Download links for a route's GPS track in each export format
+ */
+export default function TrackExportLinks({ routeId, className = '' }: TrackExportLinksProps) {
+  return (
+    <span className={`text-sm text-gray-500 ${className}`}>
+      Download track:{' '}
+      {(Object.keys(TRACK_FORMATS) as TrackFormat[]).map((format, index) => (
+        <span key={format}>
+          {index > 0 && ' · '}
+          <a
+            href={`/api/samples/export?routeId=${encodeURIComponent(routeId)}&format=${format}`}
+            className="text-blue-600 hover:text-blue-900 font-medium"
+          >
+            {TRACK_FORMATS[format].label}
+          </a>
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+
+interface TrackImportProps {
+  selectedSampleId?: string;
+  onImported: (routeId: string) => void;
+}
+
+/**
+ * Upload a GPX or KML track recorded on a GPS unit or phone app. It replaces
+ * the start, end and track of the sample with that ID, or records a new
+ * sample if the ID has not been used yet.
+ */
+export default function TrackImport({ selectedSampleId, onImported }: TrackImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [inputKey, setInputKey] = useState(0);
+  const [sampleId, setSampleId] = useState('');
+  const [startName, setStartName] = useState('');
+  const [endName, setEndName] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  // Typing an ID takes precedence over the sample selected in the list
+  const targetId = sampleId.trim() || selectedSampleId || '';
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    if (!/\.(gpx|kml)$/i.test(selected.name)) {
+      alert(`${selected.name} is not a .gpx or .kml file`);
+      e.target.value = '';
+      return;
+    }
+
+    setFile(selected);
+    setMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !targetId) return;
+
+    if (targetId === selectedSampleId && !confirm(`Replace the track of ${targetId} with ${file.name}?`)) {
+      return;
+    }
+
+    setUploading(true);
+    setMessage(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('sampleId', targetId);
+      if (startName.trim()) formData.append('startName', startName.trim());
+      if (endName.trim()) formData.append('endName', endName.trim());
+
+      const response = await fetch('/api/samples/import-track', {
+        method: 'POST',
+        body: formData
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to import track');
+      }
+
+      setMessage({
+        text: `${result.created ? 'Created' : 'Updated'} ${result.route.sample_id} with ${result.pointCount} track points` +
+          (result.qcError ? `. ${result.qcError}` : ''),
+        error: Boolean(result.qcError),
+      });
+      setFile(null);
+      setInputKey(key => key + 1);
+      setSampleId('');
+      setStartName('');
+      setEndName('');
+      onImported(result.route.id);
+    } catch (error) {
+      console.error('Error importing track:', error);
+      setMessage({ text: (error as Error).message, error: true });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 bg-white p-4 rounded-lg shadow">
+      <h3 className="text-lg font-medium text-gray-900">Import GPS Track</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        GPX or KML from a GPS unit or tracking app. The first and last points become the start and end.
+      </p>
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <input
+          key={inputKey}
+          type="file"
+          accept=".gpx,.kml"
+          onChange={handleFileSelect}
+          className="sm:col-span-3 text-sm text-gray-700"
+        />
+        <input
+          type="text"
+          value={sampleId}
+          onChange={(e) => setSampleId(e.target.value)}
+          placeholder={selectedSampleId || 'Sample ID'}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 font-mono"
+        />
+        <input
+          type="text"
+          value={startName}
+          onChange={(e) => setStartName(e.target.value)}
+          placeholder="Start name (optional)"
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+        />
+        <input
+          type="text"
+          value={endName}
+          onChange={(e) => setEndName(e.target.value)}
+          placeholder="End name (optional)"
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={!file || !targetId || uploading}
+        className="mt-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-3 py-1.5 rounded-md text-sm font-medium"
+      >
+        {uploading ? 'Importing...' : targetId ? `Import into ${targetId}` : 'Import'}
+      </button>
+      {message && (
+        <p className={`mt-2 text-sm ${message.error ? 'text-red-700' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/components/AuthProvider';
+import {
+  SAMPLER_SPEED_RANGE_KMH,
+  SPEED_FLAG_COLORS,
+  SPEED_FLAG_LABELS,
+  SpeedFlag,
+  TrackStats,
+  formatDuration,
+} from '@/lib/trackQuality';
+
+interface TrackSummaryProps {
+  routeId: string;
+  createdBy: string | null;
+  stats: TrackStats | null;
+  speedFlag: SpeedFlag | null;
+  processedAt: string | null;
+  onProcessed: () => void;
+}
+
+/**
+ * Transect length, timing and speed from the cleaned GPS track, with the
+ * sampler speed check
+ */
+export default function TrackSummary({ routeId, createdBy, stats, speedFlag, processedAt, onProcessed }: TrackSummaryProps) {
+  const [processing, setProcessing] = useState(false);
+  const { user, hasRole } = useAuth();
+
+  const handleProcess = async () => {
+    setProcessing(true);
+    try {
+      const response = await fetch('/api/samples/track', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ routeId })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to analyse track');
+      }
+
+      onProcessed();
+    } catch (error) {
+      console.error('Error analysing track:', error);
+      alert('Failed to analyse track: ' + (error as Error).message);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Samplers may re-analyse only the routes they recorded
+  const analyseButton = hasRole('sampler') && (hasRole('admin') || createdBy === user?.id) && (
+    <button
+      onClick={handleProcess}
+      disabled={processing}
+      className="ml-2 text-blue-600 hover:text-blue-900 font-medium disabled:text-gray-400"
+    >
+      {processing ? 'Analysing...' : processedAt ? 'Re-analyse' : 'Analyse track'}
+    </button>
+  );
+
+  if (!stats) {
+    return (
+      <div className="text-sm text-gray-500">
+        {processedAt ? 'No GPS track recorded' : 'Track not analysed yet'}
+        {analyseButton}
+      </div>
+    );
+  }
+
+  const dropped = stats.droppedForAccuracy + stats.droppedForSpeed;
+
+  return (
+    <div className="text-sm text-gray-900 space-y-1">
+      <p>
+        {(stats.lengthM / 1000).toFixed(2)} km
+        {stats.durationS !== null && <> in {formatDuration(stats.durationS)}</>}
+        {stats.movingSpeedKmh !== null && (
+          <span className="ml-2 text-gray-600">
+            {stats.movingSpeedKmh} km/h moving
+            {stats.avgSpeedKmh !== null && stats.avgSpeedKmh !== stats.movingSpeedKmh && `, ${stats.avgSpeedKmh} km/h overall`}
+          </span>
+        )}
+        {speedFlag && (
+          <span
+            title={`Sampler speed range ${SAMPLER_SPEED_RANGE_KMH.min}-${SAMPLER_SPEED_RANGE_KMH.max} km/h`}
+            className={`ml-2 px-2 py-0.5 text-xs font-medium rounded ${SPEED_FLAG_COLORS[speedFlag]}`}
+          >
+            {SPEED_FLAG_LABELS[speedFlag]}
+          </span>
+        )}
+      </p>
+      {stats.durationS === null && <p className="text-gray-500">No times in the track; speed not checked</p>}
+      {stats.stationaryPeriods.length > 0 && (
+        <p className="text-gray-600">
+          Stationary {formatDuration(stats.stationaryS ?? 0)}:{' '}
+          {stats.stationaryPeriods.map(period =>
+            `${new Date(period.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} (${formatDuration(period.seconds)})`
+          ).join(', ')}
+        </p>
+      )}
+      <p className="text-xs text-gray-500">
+        {stats.rawPoints} fixes, {stats.simplifiedPoints} on the simplified line
+        {dropped > 0 && `; dropped ${stats.droppedForAccuracy} for accuracy and ${stats.droppedForSpeed} as jumps`}
+        {analyseButton}
+      </p>
+    </div>
+  );
+}
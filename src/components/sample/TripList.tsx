@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FieldTrip, FieldTripMetadata, TRIP_METADATA_LABELS, describeTrip } from '@/lib/fieldTrips';
+
+interface TripSample {
+  id: string;
+  sample_id: string;
+  trip_sequence: number | null;
+  start_name: string;
+  end_name: string;
+  collection_start_time: string | null;
+  collection_end_time: string | null;
+}
+
+interface TripWithSamples extends FieldTrip {
+  creator: { email: string; full_name: string | null } | null;
+  sampling_routes: TripSample[];
+}
+
+interface TripListProps {
+  selectedId?: string;
+  onSelect: (routeId: string) => void;
+}
+
+const EDITABLE_FIELDS: Array<keyof FieldTripMetadata> = ['name', 'trip_date', 'vehicle', 'sampler_name', 'weather', 'notes'];
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '?';
+
+/**
+ * Field trips with their samples in collection order, for reviewing a day's
+ * run of transects and correcting the shared metadata
+ */
+export default function TripList({ selectedId, onSelect }: TripListProps) {
+  const [trips, setTrips] = useState<TripWithSamples[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id: string; values: Record<keyof FieldTripMetadata, string> } | null>(null);
+
+  useEffect(() => {
+    loadTrips();
+  }, []);
+
+  const loadTrips = async () => {
+    try {
+      const response = await fetch('/api/trips');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load trips');
+      }
+
+      setTrips(result.trips || []);
+    } catch (error) {
+      console.error('Error loading trips:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (trip: TripWithSamples) => {
+    setEditing({
+      id: trip.id,
+      values: Object.fromEntries(EDITABLE_FIELDS.map(field => [field, trip[field] ?? ''])) as Record<keyof FieldTripMetadata, string>,
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    try {
+      const response = await fetch('/api/trips', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: editing.id, ...editing.values })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update trip');
+      }
+
+      setEditing(null);
+      loadTrips();
+    } catch (error) {
+      console.error('Error updating trip:', error);
+      alert('Failed to update trip: ' + (error as Error).message);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-full flex items-center justify-center bg-gray-100 text-gray-600">Loading trips...</div>;
+  }
+
+  return (
+    <div className="h-full overflow-y-auto bg-gray-100 p-3 space-y-3">
+      {trips.length === 0 && (
+        <p className="text-center text-gray-500 mt-8">No field trips yet. Start one from the Collect tab.</p>
+      )}
+      {trips.map(trip => (
+        <div key={trip.id} className="bg-white rounded-lg border">
+          {editing?.id === trip.id ? (
+            <form onSubmit={handleSave} className="p-3">
+              <div className="grid grid-cols-2 gap-2">
+                {EDITABLE_FIELDS.map(field => (
+                  <label key={field} className="text-xs font-medium text-gray-700">
+                    {TRIP_METADATA_LABELS[field]}
+                    <input
+                      type={field === 'trip_date' ? 'date' : 'text'}
+                      value={editing.values[field]}
+                      onChange={(e) => setEditing({ ...editing, values: { ...editing.values, [field]: e.target.value } })}
+                      className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="mt-2 flex gap-3 text-sm">
+                <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md font-medium">
+                  Save
+                </button>
+                <button type="button" onClick={() => setEditing(null)} className="text-gray-600 hover:text-gray-900">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="px-3 py-2 border-b flex items-start justify-between">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {trip.name}
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    {new Date(trip.trip_date).toLocaleDateString()} · {trip.sampling_routes.length} samples
+                  </span>
+                </p>
+                <p className="text-sm text-gray-600">
+                  {describeTrip(trip) || 'No vehicle, sampler or weather recorded'}
+                  {trip.creator ? ` · uploaded by ${trip.creator.full_name || trip.creator.email}` : ''}
+                </p>
+                {trip.notes && <p className="text-sm text-amber-700">{trip.notes}</p>}
+              </div>
+              <button onClick={() => startEditing(trip)} className="text-sm text-blue-600 hover:text-blue-900 font-medium">
+                Edit
+              </button>
+            </div>
+          )}
+          <ol className="divide-y divide-gray-100 text-sm">
+            {trip.sampling_routes.map(sample => (
+              <li
+                key={sample.id}
+                onClick={() => onSelect(sample.id)}
+                className={`px-3 py-1.5 flex items-center gap-3 cursor-pointer hover:bg-gray-50 ${
+                  selectedId === sample.id ? 'bg-blue-50' : ''
+                }`}
+              >
+                <span className="w-6 text-right text-gray-400">{sample.trip_sequence}</span>
+                <span className="font-mono text-gray-900">{sample.sample_id}</span>
+                <span className="flex-1 text-gray-600 truncate">{sample.start_name} → {sample.end_name}</span>
+                <span className="text-gray-500">
+                  {formatTime(sample.collection_start_time)}–{formatTime(sample.collection_end_time)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { ActiveTrip, FieldTripMetadata, TRIP_METADATA_LABELS, describeTrip } from '@/lib/fieldTrips';
+
+interface TripPanelProps {
+  trip: ActiveTrip | null;
+  defaultSampler: string;
+  onChange: (trip: ActiveTrip | null) => void;
+}
+
+type TripForm = Record<keyof FieldTripMetadata, string>;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const FORM_FIELDS: Array<{ field: keyof FieldTripMetadata; type: string; placeholder?: string }> = [
+  { field: 'name', type: 'text' },
+  { field: 'trip_date', type: 'date' },
+  { field: 'vehicle', type: 'text', placeholder: 'e.g., Hilux, roof sampler' },
+  { field: 'sampler_name', type: 'text' },
+  { field: 'weather', type: 'text', placeholder: 'e.g., Windy, 18°C, dry' },
+  { field: 'notes', type: 'text' },
+];
+
+/**
+ * Start, edit and end the field trip that groups the samples collected on
+ * this device. The trip lives on the device until ended, so it survives
+ * reloads and offline stretches.
+ */
+export default function TripPanel({ trip, defaultSampler, onChange }: TripPanelProps) {
+  const [form, setForm] = useState<TripForm | null>(null);
+
+  const openForm = () => {
+    setForm({
+      name: trip?.name ?? `Trip ${today()}`,
+      trip_date: trip?.trip_date ?? today(),
+      vehicle: trip?.vehicle ?? '',
+      sampler_name: trip?.sampler_name ?? defaultSampler,
+      weather: trip?.weather ?? '',
+      notes: trip?.notes ?? '',
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    if (!form.name.trim() || !form.trip_date) {
+      alert('Trip name and date are required');
+      return;
+    }
+
+    const details = {
+      name: form.name.trim(),
+      trip_date: form.trip_date,
+      vehicle: form.vehicle.trim() || null,
+      sampler_name: form.sampler_name.trim() || null,
+      weather: form.weather.trim() || null,
+      notes: form.notes.trim() || null,
+    };
+
+    onChange(trip
+      ? { ...trip, ...details }
+      : { id: crypto.randomUUID(), ...details, sampleCount: 0, lastEnd: null });
+    setForm(null);
+  };
+
+  const handleEnd = () => {
+    if (trip && confirm(`End trip "${trip.name}" after ${trip.sampleCount} sample${trip.sampleCount === 1 ? '' : 's'}?`)) {
+      onChange(null);
+    }
+  };
+
+  if (form) {
+    return (
+      <form onSubmit={handleSubmit} className="bg-blue-50 border-b border-blue-200 px-6 py-3">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+          {FORM_FIELDS.map(({ field, type, placeholder }) => (
+            <label key={field} className="text-xs font-medium text-gray-700">
+              {TRIP_METADATA_LABELS[field]}
+              <input
+                type={type}
+                value={form[field]}
+                placeholder={placeholder}
+                onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="mt-2 flex gap-3 text-sm">
+          <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md font-medium">
+            {trip ? 'Save trip' : 'Start trip'}
+          </button>
+          <button type="button" onClick={() => setForm(null)} className="text-gray-600 hover:text-gray-900">
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="bg-blue-50 border-b border-blue-200 px-6 py-2 flex items-center justify-between text-sm">
+      {trip ? (
+        <>
+          <div className="min-w-0">
+            <span className="font-medium text-blue-900">{trip.name}</span>
+            <span className="ml-2 text-blue-800">
+              {trip.sampleCount} sample{trip.sampleCount === 1 ? '' : 's'}
+              {describeTrip(trip) && ` · ${describeTrip(trip)}`}
+            </span>
+          </div>
+          <div className="flex gap-3 shrink-0">
+            <button onClick={openForm} className="text-blue-600 hover:text-blue-900 font-medium">Edit</button>
+            <button onClick={handleEnd} className="text-red-600 hover:text-red-900 font-medium">End trip</button>
+          </div>
+        </>
+      ) : (
+        <>
+          <span className="text-blue-900">Collecting several samples in a row? Group them as a trip.</span>
+          <button onClick={openForm} className="text-blue-600 hover:text-blue-900 font-medium">Start a trip</button>
+        </>
+      )}
+    </div>
+  );
+}
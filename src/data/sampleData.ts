@@ -1,5 +1,8 @@
+import type { AbundanceBasis } from '@/lib/abundance';
+
 export interface Sample {
   id: string;
+  routeId?: string; // sampling_routes.id, for loading the GPS track
   startLatitude: number;
   startLongitude: number;
   endLatitude: number;
@@ -8,6 +11,9 @@ export interface Sample {
   collectionDate: string;
   season: string;
   year: number;
+  totalReads?: number | null; // library totals stored at import
+  fungalReads?: number | null;
+  abundanceBasis?: AbundanceBasis | null; // what relativeAbundance is a percentage of
   pathogens: PathogenDetection[];
   // Legacy support for single-point samples
   latitude?: number;
@@ -17,8 +23,10 @@ export interface Sample {
 export interface PathogenDetection {
   species: string;
   commonName: string;
-  readCount: number;
-  relativeAbundance: number;
+  readCount: number; // blank-corrected when the sample's run has blanks
+  rawReadCount?: number; // as imported
+  blankReadCount?: number | null; // highest blank count for the species in the run
+  relativeAbundance: number | null; // percent of the library, null when the sample has no read totals
   severity: 'low' | 'medium' | 'high';
 }
 
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { abundanceBasis, formatAbundance, relativeAbundance } from './abundance';
+
+describe('abundanceBasis', () => {
+  it('prefers fungal reads over total library reads', () => {
+    expect(abundanceBasis({ total_reads: 10000, fungal_reads: 4000 })).toEqual({ basis: 'fungal', reads: 4000 });
+  });
+
+  it('falls back to total reads without a fungal count', () => {
+    expect(abundanceBasis({ total_reads: 10000, fungal_reads: null })).toEqual({ basis: 'total', reads: 10000 });
+    expect(abundanceBasis({ total_reads: 10000, fungal_reads: 0 })).toEqual({ basis: 'total', reads: 10000 });
+  });
+
+  it('has no basis without totals', () => {
+    expect(abundanceBasis({})).toBeNull();
+    expect(abundanceBasis({ total_reads: 0, fungal_reads: null })).toBeNull();
+  });
+});
+
+describe('relativeAbundance', () => {
+  it('is the percentage of the basis reads', () => {
+    expect(relativeAbundance(500, { total_reads: 10000, fungal_reads: 2000 })).toBe(25);
+    expect(relativeAbundance(500, { total_reads: 10000 })).toBe(5);
+  });
+
+  it('makes samples of different depth comparable', () => {
+    expect(relativeAbundance(100, { total_reads: 1000 })).toBe(relativeAbundance(1000, { total_reads: 10000 }));
+  });
+
+  it('is null without totals', () => {
+    expect(relativeAbundance(500, { total_reads: null, fungal_reads: null })).toBeNull();
+  });
+});
+
+describe('formatAbundance', () => {
+  it('uses one decimal from 1% and two significant figures below', () => {
+    expect(formatAbundance(25)).toBe('25.0%');
+    expect(formatAbundance(1)).toBe('1.0%');
+    expect(formatAbundance(0.0456)).toBe('0.046%');
+  });
+});
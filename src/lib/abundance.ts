@@ -0,0 +1,39 @@
+/**
+ * Relative abundance of a detection within its sample's library. Fungal reads
+ * are the preferred denominator since the assays target fungi; total library
+ * reads are used when the pipeline did not report a fungal count.
+ */
+
+export interface LibraryTotals {
+  total_reads?: number | null;
+  fungal_reads?: number | null;
+}
+
+export type AbundanceBasis = 'fungal' | 'total';
+
+export const ABUNDANCE_BASIS_LABELS: Record<AbundanceBasis, string> = {
+  fungal: 'of fungal reads',
+  total: 'of total reads',
+};
+
+/**
+ * The read count abundances are expressed against, or null when the sample
+ * has no usable totals
+ */
+export function abundanceBasis(totals: LibraryTotals): { basis: AbundanceBasis; reads: number } | null {
+  if (totals.fungal_reads) return { basis: 'fungal', reads: totals.fungal_reads };
+  if (totals.total_reads) return { basis: 'total', reads: totals.total_reads };
+  return null;
+}
+
+/**
+ * Percentage of the library a detection makes up, or null without totals
+ */
+export function relativeAbundance(readCount: number, totals: LibraryTotals): number | null {
+  const basis = abundanceBasis(totals);
+  return basis ? (readCount / basis.reads) * 100 : null;
+}
+
+export function formatAbundance(percent: number): string {
+  return percent >= 1 ? `${percent.toFixed(1)}%` : `${percent.toPrecision(2)}%`;
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { SESSION_COOKIE, touchSession } from '@/lib/sessions';
 
 const supabaseAdmin = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -16,6 +17,7 @@ const roleHierarchy: Record<UserRole, number> = {
 
 /**
  * Validate the session cookie and return the user, or a 401/403 response.
+ * Each valid request slides the session's expiry forward.
  * Usage:
  *   const result = await requireAuth(request, 'admin');
  *   if (result instanceof NextResponse) return result;
@@ -24,8 +26,11 @@ const roleHierarchy: Record<UserRole, number> = {
 export async function requireAuth(
   request: NextRequest,
   requiredRole: UserRole = 'viewer'
-): Promise<{ user: { id: string; email: string; role: UserRole } } | NextResponse> {
-  const sessionToken = request.cookies.get('session')?.value;
+): Promise<{
+  user: { id: string; email: string; role: UserRole; fullName: string | null };
+  session: { id: string; token: string; expiresAt: Date };
+} | NextResponse> {
+  const sessionToken = request.cookies.get(SESSION_COOKIE)?.value;
 
   if (!sessionToken) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -34,7 +39,7 @@ export async function requireAuth(
   // Look up the session token in the DB
   const { data: session, error } = await supabaseAdmin
     .from('sessions')
-    .select('user_id, expires_at, users(id, email, role, is_active)')
+    .select('id, user_id, expires_at, created_at, last_seen_at, users(id, email, role, full_name, is_active)')
     .eq('token', sessionToken)
     .single();
 
@@ -48,7 +53,7 @@ export async function requireAuth(
     return NextResponse.json({ error: 'Session expired' }, { status: 401 });
   }
 
-  const userData = (Array.isArray(session.users) ? session.users[0] : session.users) as unknown as { id: string; email: string; role: UserRole; is_active: boolean } | null;
+  const userData = (Array.isArray(session.users) ? session.users[0] : session.users) as unknown as { id: string; email: string; role: UserRole; full_name: string | null; is_active: boolean } | null;
 
   if (!userData || !userData.is_active) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -58,5 +63,17 @@ export async function requireAuth(
     return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
   }
 
-  return { user: { id: userData.id, email: userData.email, role: userData.role } };
+  const expiresAt = await touchSession(sessionToken, session);
+
+  return {
+    user: { id: userData.id, email: userData.email, role: userData.role, fullName: userData.full_name },
+    session: { id: session.id, token: sessionToken, expiresAt },
+  };
+}
+
+/**
+ * Samplers may change only the records they created; admins may change any.
+ */
+export function canModify(user: { id: string; role: UserRole }, createdBy: string | null): boolean {
+  return user.role === 'admin' || (createdBy !== null && createdBy === user.id);
 }
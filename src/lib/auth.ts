@@ -1,6 +1,10 @@
 /**
  * Authentication system with role-based access control
  * Roles: viewer (map only), sampler (map + field collection), admin (full access)
+ *
+ * The session is an HTTP-only cookie. The browser learns who is signed in from
+ * /api/me and never decides access from anything it stores itself; components
+ * read the user through useAuth() from AuthProvider.
  */
 
 
@@ -10,21 +14,32 @@ export interface User {
   id: string;
   email: string;
   role: UserRole;
-  fullName?: string;
+  fullName?: string | null;
   isActive: boolean;
 }
 
-interface Session {
-  user: User;
-  loginTime: number;
+const ROLE_HIERARCHY: Record<UserRole, number> = {
+  viewer: 1,
+  sampler: 2,
+  admin: 3,
+};
+
+/**
+ * Check if a user has the required role or higher
+ */
+export function hasRole(user: Pick<User, 'role'> | null, requiredRole: UserRole): boolean {
+  if (!user) return false;
+  return ROLE_HIERARCHY[user.role] >= ROLE_HIERARCHY[requiredRole];
 }
 
 export class AuthService {
-  private static readonly SESSION_KEY = 'spore_session';
-  private static readonly SESSION_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+  // Last user confirmed by the server, shown while /api/me cannot be reached
+  private static readonly LAST_USER_KEY = 'spore_last_user';
+  // Written by earlier versions, which trusted it
+  private static readonly LEGACY_SESSION_KEY = 'spore_session';
 
   /**
-   * Authenticate user with email/password
+   * Authenticate user with email/password; the server sets the session cookie
    */
   static async login(email: string, password: string): Promise<User | null> {
     try {
@@ -39,15 +54,7 @@ export class AuthService {
       const { user } = await response.json();
       if (!user) return null;
 
-      // Store session in localStorage
-      if (typeof window !== 'undefined') {
-        const session: Session = {
-          user,
-          loginTime: Date.now(),
-        };
-        localStorage.setItem(this.SESSION_KEY, JSON.stringify(session));
-      }
-
+      localStorage.setItem(this.LAST_USER_KEY, JSON.stringify(user));
       return user;
     } catch (error) {
       console.error('Login error:', error);
@@ -56,87 +63,49 @@ export class AuthService {
   }
 
   /**
-   * Get current authenticated user
+   * The signed-in user according to the session cookie. When the server cannot
+   * be reached (field collection without signal) the last confirmed user is
+   * returned with offline set; that only affects what the UI shows, since
+   * every API route checks the session itself.
    */
-  static getCurrentUser(): User | null {
-    if (typeof window === 'undefined') return null;
-
+  static async fetchCurrentUser(): Promise<{ user: User | null; offline: boolean }> {
     try {
-      const sessionData = localStorage.getItem(this.SESSION_KEY);
-      if (!sessionData) return null;
-
-      const session: Session = JSON.parse(sessionData);
+      const response = await fetch('/api/me', { cache: 'no-store' });
 
-      // Check if session is expired
-      if (Date.now() - session.loginTime > this.SESSION_DURATION) {
-        this.logout();
-        return null;
+      if (response.status === 401 || response.status === 403) {
+        localStorage.removeItem(this.LAST_USER_KEY);
+        return { user: null, offline: false };
       }
 
-      return session.user;
+      if (response.ok) {
+        const { user } = await response.json();
+        localStorage.setItem(this.LAST_USER_KEY, JSON.stringify(user));
+        return { user, offline: false };
+      }
     } catch {
-      return null;
+      // Network error: fall through to the last confirmed user
     }
-  }
 
-  /**
-   * Check if user is authenticated
-   */
-  static isAuthenticated(): boolean {
-    return this.getCurrentUser() !== null;
+    try {
+      const saved = localStorage.getItem(this.LAST_USER_KEY);
+      return { user: saved ? JSON.parse(saved) : null, offline: true };
+    } catch {
+      return { user: null, offline: true };
+    }
   }
 
   /**
-   * Logout current user — clears localStorage and invalidates server session cookie
+   * Logout current user — invalidates the server session cookie
    */
   static async logout(): Promise<void> {
     if (typeof window !== 'undefined') {
-      localStorage.removeItem(this.SESSION_KEY);
+      localStorage.removeItem(this.LAST_USER_KEY);
+      localStorage.removeItem(this.LEGACY_SESSION_KEY);
     }
     try {
       await fetch('/api/logout', { method: 'POST' });
     } catch {
-      // Best-effort — local session is already cleared
+      // Best-effort — local state is already cleared
     }
   }
-
-  /**
-   * Check if current user has admin role
-   */
-  static isAdmin(): boolean {
-    const user = this.getCurrentUser();
-    return user?.role === 'admin';
-  }
-
-  /**
-   * Check if current user has sampler role or higher
-   */
-  static isSampler(): boolean {
-    const user = this.getCurrentUser();
-    return user?.role === 'sampler' || user?.role === 'admin';
-  }
-
-  /**
-   * Check if current user has at least viewer role
-   */
-  static isViewer(): boolean {
-    const user = this.getCurrentUser();
-    return user !== null;
-  }
-
-  /**
-   * Check if current user has required role or higher
-   */
-  static hasRole(requiredRole: UserRole): boolean {
-    const user = this.getCurrentUser();
-    if (!user) return false;
-
-    const roleHierarchy: Record<UserRole, number> = {
-      viewer: 1,
-      sampler: 2,
-      admin: 3,
-    };
-
-    return roleHierarchy[user.role] >= roleHierarchy[requiredRole];
-  }
-}
\ No newline at end of file
+}
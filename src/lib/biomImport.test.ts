@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { convertBiomToRows, isFungalTaxon, parseFeatureTable, parseTaxonomy, speciesFromTaxonomy } from './biomImport';
+import { buildSpeciesLookup } from './speciesMatching';
+
+const lookup = buildSpeciesLookup([
+  { id: 'ps', species_name: 'Puccinia striiformis' },
+  { id: 'bg', species_name: 'Blumeria graminis' },
+]);
+
+const METADATA = [
+  'sample-id,start_name,start_point,end_name,end_point,collection_date',
+  'S1,Farm A,"52.1,0.1",Farm B,"52.2,0.2",2026-06-01',
+  'S2,Farm C,"52.3,0.3",Farm D,"52.4,0.4",2026-06-02',
+].join('\n');
+
+describe('speciesFromTaxonomy', () => {
+  it('joins Greengenes-style genus and epithet ranks', () => {
+    expect(speciesFromTaxonomy('k__Fungi; g__Puccinia; s__striiformis')).toBe('Puccinia striiformis');
+  });
+
+  it('takes full binomials from UNITE and SILVA', () => {
+    expect(speciesFromTaxonomy('k__Fungi;g__Puccinia;s__Puccinia_striiformis')).toBe('Puccinia striiformis');
+    expect(speciesFromTaxonomy('D_0__Eukaryota; D_5__Blumeria; D_6__Blumeria graminis')).toBe('Blumeria graminis');
+  });
+
+  it('returns null below species level or for placeholder species', () => {
+    expect(speciesFromTaxonomy('k__Fungi; g__Puccinia')).toBeNull();
+    expect(speciesFromTaxonomy('k__Fungi; g__Puccinia; s__')).toBeNull();
+    expect(speciesFromTaxonomy('k__Fungi; g__Puccinia; s__unidentified')).toBeNull();
+    expect(speciesFromTaxonomy('k__Fungi; s__Puccinia_sp')).toBeNull();
+    expect(speciesFromTaxonomy('k__Fungi; s__striiformis')).toBeNull();
+  });
+});
+
+describe('isFungalTaxon', () => {
+  it('recognises kingdom Fungi in either notation', () => {
+    expect(isFungalTaxon('k__Fungi; g__Puccinia')).toBe(true);
+    expect(isFungalTaxon('D_0__Eukaryota; D_3__Fungi')).toBe(true);
+    expect(isFungalTaxon('k__Plantae; g__Triticum')).toBe(false);
+  });
+});
+
+describe('parseFeatureTable', () => {
+  it('reads sparse BIOM JSON with taxonomy metadata', () => {
+    const table = parseFeatureTable(JSON.stringify({
+      matrix_type: 'sparse',
+      rows: [
+        { id: 'f1', metadata: { taxonomy: ['k__Fungi', 'g__Puccinia', 's__striiformis'] } },
+        { id: 'f2', metadata: null },
+      ],
+      columns: [{ id: 'S1' }, { id: 'S2' }],
+      data: [[0, 1, 7], [1, 0, 3]],
+    }));
+
+    expect(table.sampleIds).toEqual(['S1', 'S2']);
+    expect(table.features).toEqual([
+      { id: 'f1', counts: [0, 7], taxonomy: 'k__Fungi; g__Puccinia; s__striiformis' },
+      { id: 'f2', counts: [3, 0], taxonomy: undefined },
+    ]);
+  });
+
+  it('reads dense BIOM JSON', () => {
+    const table = parseFeatureTable(JSON.stringify({
+      matrix_type: 'dense',
+      rows: [{ id: 'f1' }],
+      columns: [{ id: 'S1' }, { id: 'S2' }],
+      data: [[4, 5]],
+    }));
+
+    expect(table.features[0].counts).toEqual([4, 5]);
+  });
+
+  it('reads biom convert TSV, skipping the banner and keeping a taxonomy column', () => {
+    const table = parseFeatureTable(
+      '# Constructed from biom file\n#OTU ID\tS1\tS2\ttaxonomy\nf1\t10\t0\tk__Fungi; s__Puccinia_striiformis\n'
+    );
+
+    expect(table.sampleIds).toEqual(['S1', 'S2']);
+    expect(table.features).toEqual([{ id: 'f1', counts: [10, 0], taxonomy: 'k__Fungi; s__Puccinia_striiformis' }]);
+  });
+
+  it('rejects JSON that is not a BIOM table', () => {
+    expect(() => parseFeatureTable('{"rows": []}')).toThrow('Not a BIOM JSON table');
+  });
+});
+
+describe('parseTaxonomy', () => {
+  it('maps feature IDs to taxon strings', () => {
+    const taxonomy = parseTaxonomy('Feature ID\tTaxon\tConfidence\nf1\tk__Fungi; s__Blumeria_graminis\t0.99\n');
+
+    expect(taxonomy.get('f1')).toBe('k__Fungi; s__Blumeria_graminis');
+  });
+
+  it('requires a Taxon column', () => {
+    expect(() => parseTaxonomy('Feature ID\tConfidence\nf1\t0.9\n')).toThrow('Taxonomy file needs a "Taxon" column');
+  });
+});
+
+describe('convertBiomToRows', () => {
+  const table = [
+    '#OTU ID\tS1\tS2',
+    'f1\t10\t0',
+    'f2\t5\t8',
+    'f3\t20\t2',
+    'f4\t65\t90',
+  ].join('\n');
+  const taxonomy = [
+    'Feature ID\tTaxon',
+    'f1\tk__Fungi; g__Puccinia; s__striiformis',
+    'f2\tk__Fungi; s__Puccinia_striiformis',
+    'f3\tk__Fungi; g__Fusarium; s__graminearum',
+    'f4\tk__Plantae; g__Triticum',
+  ].join('\n');
+
+  it('sums features of the same species and derives library totals', () => {
+    const { rows, errors } = convertBiomToRows(table, taxonomy, METADATA, lookup);
+
+    expect(errors).toEqual([]);
+    expect(rows.map(row => [row.values.sample_id, row.values.species, row.values.read_count])).toEqual([
+      ['S1', 'Puccinia striiformis', '15'],
+      ['S2', 'Puccinia striiformis', '8'],
+    ]);
+    expect(rows[0].values.total_reads).toBe('100');
+    expect(rows[0].values.fungal_reads).toBe('35');
+    expect(rows[0].values.start_point).toBe('52.1,0.1');
+  });
+
+  it('notes features skipped for want of a species or a monitored one', () => {
+    const { notes } = convertBiomToRows(table, taxonomy, METADATA, lookup);
+
+    expect(notes).toContain('1 features were not assigned to species level and were skipped');
+    expect(notes).toContain('1 species are not in the pathogen list and were skipped');
+  });
+
+  it('leaves fungal reads empty when no feature has a kingdom', () => {
+    const { rows } = convertBiomToRows(
+      '#OTU ID\tS1\ttaxonomy\nf1\t10\tg__Puccinia; s__striiformis\n',
+      null,
+      METADATA,
+      lookup
+    );
+
+    expect(rows[0].values.fungal_reads).toBe('');
+  });
+
+  it('reports samples without metadata and metadata without samples', () => {
+    const { errors, notes } = convertBiomToRows(
+      '#OTU ID\tS1\tS9\nf1\t1\t1\n',
+      'Feature ID\tTaxon\nf1\tk__Fungi; s__Puccinia_striiformis\n',
+      METADATA,
+      lookup
+    );
+
+    expect(errors).toEqual([{ line: 0, sampleId: 'S9', species: '', status: 'error', message: 'No metadata row for this sample' }]);
+    expect(notes).toContain('Metadata rows with no feature table column were ignored: S2');
+  });
+
+  it('requires the route columns in the metadata sheet', () => {
+    const { rows, errors } = convertBiomToRows(table, taxonomy, 'sample-id,start_name\nS1,Farm A\n', lookup);
+
+    expect(rows).toEqual([]);
+    expect(errors[0].message).toBe('Metadata sheet is missing columns: start_point, end_name, end_point, collection_date');
+  });
+});
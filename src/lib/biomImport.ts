@@ -0,0 +1,289 @@
+/**
+ * QIIME2 / BIOM import: reshapes a feature table, taxonomy assignments and a
+ * sample metadata sheet into the long-format rows the metabarcode importer
+ * already validates, so BIOM uploads produce the same pathogen_detections upserts.
+ *
+ * Accepted inputs:
+ * - Feature table: BIOM 1.0 JSON, or TSV from `biom convert --to-tsv`
+ *   (optionally with a trailing taxonomy column)
+ * - Taxonomy: QIIME2 taxonomy.tsv (Feature ID, Taxon[, Confidence]); optional
+ *   when the feature table already carries taxonomy
+ * - Metadata: QIIME2 metadata TSV/CSV keyed by sample-id, with the route
+ *   columns start_name, start_point, end_name, end_point and collection_date,
+ *   and optionally sample_type and sequencing_run (controls need no route values)
+ *
+ * Library totals come from the table itself: every feature counts towards a
+ * sample's total reads, and features whose taxonomy places them in kingdom
+ * Fungi towards its fungal reads.
+ */
+
+import { parseCSV } from './csv';
+import {
+  MetabarcodeCSVRow,
+  MetabarcodeConversionResult,
+  ParsedMetabarcodeRow,
+  RowReport,
+} from './metabarcodeImport';
+import { SpeciesLookup, resolveSpecies } from './speciesMatching';
+
+export interface FeatureTable {
+  sampleIds: string[];
+  features: Array<{ id: string; counts: number[]; taxonomy?: string }>;
+}
+
+const SAMPLE_ID_COLUMNS = ['sample-id', 'sample_id', 'sampleid', '#sampleid', 'id', '#sample id', 'sample id', 'feature-id'];
+const METADATA_COLUMNS: Array<keyof MetabarcodeCSVRow> = ['start_name', 'start_point', 'end_name', 'end_point', 'collection_date'];
+
+function structuralError(message: string, line = 0): RowReport {
+  return { line, sampleId: '', species: '', status: 'error', message };
+}
+
+/**
+ * Parse a BIOM 1.0 JSON table (sparse or dense)
+ */
+function parseBiomJSON(text: string): FeatureTable {
+  const biom = JSON.parse(text);
+  if (!Array.isArray(biom.rows) || !Array.isArray(biom.columns) || !Array.isArray(biom.data)) {
+    throw new Error('Not a BIOM JSON table (missing rows, columns or data)');
+  }
+
+  const sampleIds: string[] = biom.columns.map((column: { id: string }) => column.id);
+  const features = biom.rows.map((row: { id: string; metadata?: { taxonomy?: string[] | string } | null }) => {
+    const taxonomy = row.metadata?.taxonomy;
+    return {
+      id: row.id,
+      counts: new Array(sampleIds.length).fill(0),
+      taxonomy: Array.isArray(taxonomy) ? taxonomy.join('; ') : taxonomy,
+    };
+  });
+
+  if (biom.matrix_type === 'sparse') {
+    for (const [rowIndex, columnIndex, value] of biom.data as number[][]) {
+      features[rowIndex].counts[columnIndex] = value;
+    }
+  } else {
+    (biom.data as number[][]).forEach((values, rowIndex) => {
+      features[rowIndex].counts = values.slice();
+    });
+  }
+
+  return { sampleIds, features };
+}
+
+/**
+ * Parse a TSV exported with `biom convert --to-tsv`
+ */
+function parseBiomTSV(text: string): FeatureTable {
+  // Drop the "# Constructed from biom file" banner but keep the "#OTU ID" header
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const lines = input.split(/\r\n|\r|\n/);
+  const body = lines.filter(line => !(line.startsWith('#') && !/^#\s*OTU ID/i.test(line))).join('\n');
+
+  const { headers, records, errors } = parseCSV(body, { delimiter: '\t' });
+  if (errors.length > 0) {
+    throw new Error(`Feature table line ${errors[0].line}: ${errors[0].message}`);
+  }
+  if (headers.length < 2) {
+    throw new Error('Feature table has no sample columns');
+  }
+
+  const idColumn = headers[0];
+  const taxonomyColumn = headers.find(h => h.toLowerCase() === 'taxonomy');
+  const sampleIds = headers.slice(1).filter(h => h !== taxonomyColumn);
+
+  return {
+    sampleIds,
+    features: records.map(record => ({
+      id: record.values[idColumn],
+      counts: sampleIds.map(sampleId => Number(record.values[sampleId]) || 0),
+      taxonomy: taxonomyColumn ? record.values[taxonomyColumn] : undefined,
+    })),
+  };
+}
+
+export function parseFeatureTable(text: string): FeatureTable {
+  return text.trimStart().startsWith('{') ? parseBiomJSON(text) : parseBiomTSV(text);
+}
+
+/**
+ * Read a QIIME2 taxonomy.tsv into a feature ID -> taxon string map
+ */
+export function parseTaxonomy(text: string): Map<string, string> {
+  const { headers, records, errors } = parseCSV(text, { delimiter: '\t' });
+  if (errors.length > 0) {
+    throw new Error(`Taxonomy line ${errors[0].line}: ${errors[0].message}`);
+  }
+
+  const idColumn = headers[0];
+  const taxonColumn = headers.find(h => ['taxon', 'taxonomy'].includes(h.toLowerCase()));
+  if (!taxonColumn) {
+    throw new Error('Taxonomy file needs a "Taxon" column');
+  }
+
+  return new Map(records.map(record => [record.values[idColumn], record.values[taxonColumn]]));
+}
+
+/**
+ * Turn a taxonomy string into a binomial species name, or null when the
+ * assignment does not reach species level.
+ * Handles Greengenes/UNITE ("g__Puccinia; s__striiformis", "s__Puccinia_striiformis")
+ * and SILVA ("D_5__Puccinia; D_6__Puccinia striiformis") styles.
+ */
+export function speciesFromTaxonomy(taxon: string): string | null {
+  let genus: string | null = null;
+  let species: string | null = null;
+
+  for (const rank of taxon.split(';')) {
+    const match = rank.trim().match(/^(?:([a-z])|D_(\d))__(.*)$/i);
+    if (!match) continue;
+
+    const value = match[3].replace(/_/g, ' ').trim();
+    const level = match[1]?.toLowerCase() ?? (match[2] === '5' ? 'g' : match[2] === '6' ? 's' : '');
+    if (level === 'g') genus = value || null;
+    if (level === 's') species = value || null;
+  }
+
+  if (!species || /^(unidentified|uncultured|unknown|sp\.?)$/i.test(species) || / sp\.?$/i.test(species)) {
+    return null;
+  }
+
+  // UNITE and SILVA already give the full binomial
+  if (species.includes(' ')) return species;
+  return genus ? `${genus} ${species}` : null;
+}
+
+/**
+ * Whether a taxonomy string places the feature in kingdom Fungi
+ * ("k__Fungi; ...", or a SILVA "D_n__Fungi" rank)
+ */
+export function isFungalTaxon(taxon: string): boolean {
+  return taxon.split(';').some(rank => /^(?:[a-z]|D_\d+)__Fungi$/i.test(rank.trim()));
+}
+
+/**
+ * Combine the three inputs into long-format metabarcode rows.
+ * Read counts of features assigned to the same species are summed per sample;
+ * features that do not resolve to a known species or synonym are skipped and
+ * summarised in notes, since most amplicon features are not monitored pathogens.
+ */
+export function convertBiomToRows(
+  featureTableText: string,
+  taxonomyText: string | null,
+  metadataText: string,
+  speciesLookup: SpeciesLookup
+): MetabarcodeConversionResult {
+  const errors: RowReport[] = [];
+  const notes: string[] = [];
+
+  let table: FeatureTable;
+  let taxonomy = new Map<string, string>();
+  try {
+    table = parseFeatureTable(featureTableText);
+    if (taxonomyText) taxonomy = parseTaxonomy(taxonomyText);
+  } catch (error) {
+    return { rows: [], errors: [structuralError(error instanceof Error ? error.message : 'Invalid input')], notes };
+  }
+
+  // Metadata sheet: first matching ID column, skipping a QIIME2 "#q2:types" row
+  const metadata = parseCSV(metadataText);
+  metadata.errors.forEach(error => errors.push(structuralError(`Metadata: ${error.message}`, error.line)));
+
+  const idColumn = metadata.headers.find(h => SAMPLE_ID_COLUMNS.includes(h.toLowerCase()));
+  if (!idColumn) {
+    errors.push(structuralError('Metadata sheet needs a sample-id column'));
+    return { rows: [], errors, notes };
+  }
+
+  const missingColumns = METADATA_COLUMNS.filter(column => !metadata.headers.includes(column));
+  if (missingColumns.length > 0) {
+    errors.push(structuralError(`Metadata sheet is missing columns: ${missingColumns.join(', ')}`));
+    return { rows: [], errors, notes };
+  }
+
+  const metadataBySample = new Map(
+    metadata.records
+      .filter(record => !record.values[idColumn].startsWith('#'))
+      .map(record => [record.values[idColumn], record])
+  );
+
+  // Resolve each feature to a monitored species
+  const speciesByFeature = new Map<string, string>();
+  const fungalFeatures = new Set<string>();
+  const skippedTaxa = new Set<string>();
+  let unassignedFeatures = 0;
+
+  for (const feature of table.features) {
+    const taxon = taxonomy.get(feature.id) ?? feature.taxonomy;
+    const species = taxon ? speciesFromTaxonomy(taxon) : null;
+    const match = species ? resolveSpecies(species, speciesLookup) : null;
+    if (taxon && isFungalTaxon(taxon)) fungalFeatures.add(feature.id);
+
+    if (!species) {
+      unassignedFeatures++;
+    } else if (match) {
+      speciesByFeature.set(feature.id, match.speciesName);
+    } else {
+      skippedTaxa.add(species);
+    }
+  }
+
+  if (unassignedFeatures > 0) {
+    notes.push(`${unassignedFeatures} features were not assigned to species level and were skipped`);
+  }
+  if (skippedTaxa.size > 0) {
+    notes.push(`${skippedTaxa.size} species are not in the pathogen list and were skipped`);
+  }
+
+  // Without kingdom assignments the fungal share is unknown rather than zero
+  const hasKingdoms = fungalFeatures.size > 0;
+  const rows: ParsedMetabarcodeRow[] = [];
+
+  table.sampleIds.forEach((tableSampleId, columnIndex) => {
+    const record = metadataBySample.get(tableSampleId);
+    if (!record) {
+      errors.push({ line: 0, sampleId: tableSampleId, species: '', status: 'error', message: 'No metadata row for this sample' });
+      return;
+    }
+
+    const totals = new Map<string, number>();
+    let totalReads = 0;
+    let fungalReads = 0;
+    for (const feature of table.features) {
+      const count = feature.counts[columnIndex];
+      totalReads += count;
+      if (fungalFeatures.has(feature.id)) fungalReads += count;
+
+      const species = speciesByFeature.get(feature.id);
+      if (!species) continue;
+      totals.set(species, (totals.get(species) ?? 0) + count);
+    }
+
+    for (const [species, readCount] of totals) {
+      if (readCount <= 0) continue;
+      rows.push({
+        line: record.line,
+        values: {
+          sample_id: record.values.sample_id || tableSampleId,
+          start_name: record.values.start_name,
+          start_point: record.values.start_point,
+          end_name: record.values.end_name,
+          end_point: record.values.end_point,
+          species,
+          read_count: String(Math.round(readCount)),
+          collection_date: record.values.collection_date,
+          total_reads: String(Math.round(totalReads)),
+          fungal_reads: hasKingdoms ? String(Math.round(fungalReads)) : '',
+          sample_type: record.values.sample_type ?? '',
+          sequencing_run: record.values.sequencing_run ?? '',
+        },
+      });
+    }
+  });
+
+  const unusedMetadata = [...metadataBySample.keys()].filter(id => !table.sampleIds.includes(id));
+  if (unusedMetadata.length > 0) {
+    notes.push(`Metadata rows with no feature table column were ignored: ${unusedMetadata.join(', ')}`);
+  }
+
+  return { rows, errors, notes };
+}
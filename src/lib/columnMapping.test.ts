@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV } from './csv';
+import {
+  ColumnMapping,
+  applyColumnMapping,
+  guessColumnMapping,
+  missingMappedFields,
+  parseColumnMapping,
+  requiredMappedFields,
+} from './columnMapping';
+
+describe('guessColumnMapping', () => {
+  it('maps lab header spellings to canonical fields', () => {
+    const { columns, coordinateFormat } = guessColumnMapping([
+      'Sample Name', 'From', 'To', 'Start GPS', 'End GPS', 'Organism', 'Num. Reads', 'Date Collected', 'Library Size', 'Run ID',
+    ]);
+
+    expect(columns).toEqual({
+      sample_id: 'Sample Name',
+      start_name: 'From',
+      end_name: 'To',
+      start_point: 'Start GPS',
+      end_point: 'End GPS',
+      species: 'Organism',
+      read_count: 'Num. Reads',
+      collection_date: 'Date Collected',
+      total_reads: 'Library Size',
+      sequencing_run: 'Run ID',
+    });
+    expect(coordinateFormat).toBe('lat_lng');
+  });
+
+  it('picks separate coordinates when there are no point columns', () => {
+    const { columns, coordinateFormat } = guessColumnMapping(['Lat1', 'Lon1', 'Lat2', 'Lon2']);
+
+    expect(coordinateFormat).toBe('separate');
+    expect(columns).toMatchObject({
+      start_latitude: 'Lat1',
+      start_longitude: 'Lon1',
+      end_latitude: 'Lat2',
+      end_longitude: 'Lon2',
+    });
+  });
+
+  it('guesses the date order from the values', () => {
+    const guess = (dates: string[]) => {
+      const { headers, records } = parseCSV(['date', ...dates].join('\n'));
+      return guessColumnMapping(headers, records).dateFormat;
+    };
+
+    expect(guess(['03/04/2026', '25/04/2026'])).toBe('DD/MM/YYYY');
+    expect(guess(['04/03/2026', '04/25/2026'])).toBe('MM/DD/YYYY');
+    expect(guess(['2026-04-25'])).toBe('YYYY-MM-DD');
+    expect(guess(['03/04/2026'])).toBe('DD/MM/YYYY');
+  });
+});
+
+describe('requiredMappedFields and missingMappedFields', () => {
+  const mapping: ColumnMapping = {
+    columns: {
+      sample_id: 'id',
+      start_name: 'from',
+      end_name: 'to',
+      start_latitude: 'lat1',
+      start_longitude: 'lon1',
+      end_latitude: 'lat2',
+      species: 'taxon',
+      read_count: 'reads',
+      collection_date: 'gone',
+    },
+    dateFormat: 'DD/MM/YYYY',
+    coordinateFormat: 'separate',
+  };
+
+  it('requires the coordinate columns of the chosen format', () => {
+    expect(requiredMappedFields('lat_lng')).toContain('start_point');
+    expect(requiredMappedFields('separate')).toContain('end_longitude');
+    expect(requiredMappedFields('separate')).not.toContain('start_point');
+  });
+
+  it('lists fields that are unmapped or mapped to a column the file lacks', () => {
+    const headers = ['id', 'from', 'to', 'lat1', 'lon1', 'lat2', 'taxon', 'reads'];
+
+    expect(missingMappedFields(mapping, headers)).toEqual(['end_longitude', 'collection_date']);
+  });
+});
+
+describe('parseColumnMapping', () => {
+  it('accepts a valid mapping and drops empty columns', () => {
+    expect(parseColumnMapping({
+      columns: { sample_id: 'Sample', species: '' },
+      dateFormat: 'YYYY-MM-DD',
+      coordinateFormat: 'lng_lat',
+    })).toEqual({ columns: { sample_id: 'Sample' }, dateFormat: 'YYYY-MM-DD', coordinateFormat: 'lng_lat' });
+  });
+
+  it('rejects unknown formats and fields', () => {
+    const valid = { columns: {}, dateFormat: 'DD/MM/YYYY', coordinateFormat: 'lat_lng' };
+
+    expect(parseColumnMapping(null)).toBeNull();
+    expect(parseColumnMapping({ ...valid, dateFormat: 'YYYY/DD/MM' })).toBeNull();
+    expect(parseColumnMapping({ ...valid, coordinateFormat: 'utm' })).toBeNull();
+    expect(parseColumnMapping({ ...valid, columns: { latitude: 'Lat' } })).toBeNull();
+    expect(parseColumnMapping({ ...valid, columns: { sample_id: 3 } })).toBeNull();
+  });
+
+  it('rejects inherited object keys as fields', () => {
+    const valid = { dateFormat: 'DD/MM/YYYY', coordinateFormat: 'lat_lng' };
+
+    expect(parseColumnMapping({ ...valid, columns: { toString: 'x' } })).toBeNull();
+    expect(parseColumnMapping({ ...valid, columns: { constructor: 'x' } })).toBeNull();
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('reshapes records into canonical rows and joins separate coordinates', () => {
+    const { records } = parseCSV('id,taxon,reads,lat1,lon1,lat2,lon2\nS1, Puccinia striiformis ,12,52.1,0.1,52.2,0.2\n');
+    const [row] = applyColumnMapping(records, {
+      columns: {
+        sample_id: 'id',
+        species: 'taxon',
+        read_count: 'reads',
+        start_latitude: 'lat1',
+        start_longitude: 'lon1',
+        end_latitude: 'lat2',
+        end_longitude: 'lon2',
+      },
+      dateFormat: 'DD/MM/YYYY',
+      coordinateFormat: 'separate',
+    });
+
+    expect(row.line).toBe(2);
+    expect(row.values).toMatchObject({
+      sample_id: 'S1',
+      species: 'Puccinia striiformis',
+      read_count: '12',
+      start_point: '52.1, 0.1',
+      end_point: '52.2, 0.2',
+      start_name: '',
+      collection_date: '',
+    });
+  });
+
+  it('swaps "lng, lat" points into "lat, lng"', () => {
+    const { records } = parseCSV('start,end\n"0.1, 52.1","0.2,52.2"\n');
+    const [row] = applyColumnMapping(records, {
+      columns: { start_point: 'start', end_point: 'end' },
+      dateFormat: 'DD/MM/YYYY',
+      coordinateFormat: 'lng_lat',
+    });
+
+    expect(row.values.start_point).toBe('52.1, 0.1');
+    expect(row.values.end_point).toBe('52.2, 0.2');
+  });
+
+  it('leaves a missing coordinate half empty', () => {
+    const { records } = parseCSV('lat1,lon1\n52.1,\n');
+    const [row] = applyColumnMapping(records, {
+      columns: { start_latitude: 'lat1', start_longitude: 'lon1' },
+      dateFormat: 'DD/MM/YYYY',
+      coordinateFormat: 'separate',
+    });
+
+    expect(row.values.start_point).toBe('');
+  });
+});
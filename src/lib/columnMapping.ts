@@ -0,0 +1,222 @@
+/**
+ * Column mapping for metabarcode spreadsheets that do not use the canonical
+ * upload headers. A mapping assigns source columns to canonical fields and
+ * says how dates and coordinates are written; admins save mappings as named
+ * templates per lab (column_mapping_templates).
+ */
+
+import type { CSVRecord } from './csv';
+import type { DateFormat, ParsedMetabarcodeRow } from './metabarcodeImport';
+
+export type CoordinateFormat =
+  | 'lat_lng'   // one column per end, "lat, lng"
+  | 'lng_lat'   // one column per end, "lng, lat"
+  | 'separate'; // latitude and longitude in their own columns
+
+export type MappedField =
+  | 'sample_id'
+  | 'start_name'
+  | 'end_name'
+  | 'start_point'
+  | 'end_point'
+  | 'start_latitude'
+  | 'start_longitude'
+  | 'end_latitude'
+  | 'end_longitude'
+  | 'species'
+  | 'read_count'
+  | 'collection_date'
+  | 'total_reads'
+  | 'fungal_reads'
+  | 'sample_type'
+  | 'sequencing_run';
+
+export interface ColumnMapping {
+  columns: Partial<Record<MappedField, string>>; // canonical field -> source column header
+  dateFormat: DateFormat;
+  coordinateFormat: CoordinateFormat;
+}
+
+export interface ColumnMappingTemplate {
+  id: string;
+  name: string;
+  lab_name: string;
+  mapping: ColumnMapping;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAPPED_FIELD_LABELS: Record<MappedField, string> = {
+  sample_id: 'Sample ID',
+  start_name: 'Start location name',
+  end_name: 'End location name',
+  start_point: 'Start coordinates',
+  end_point: 'End coordinates',
+  start_latitude: 'Start latitude',
+  start_longitude: 'Start longitude',
+  end_latitude: 'End latitude',
+  end_longitude: 'End longitude',
+  species: 'Species',
+  read_count: 'Read count',
+  collection_date: 'Collection date',
+  total_reads: 'Total library reads',
+  fungal_reads: 'Fungal reads',
+  sample_type: 'Sample type (field / blank / control)',
+  sequencing_run: 'Sequencing run',
+};
+
+// Mapped when the sheet has them: library totals for relative abundance, and
+// control flags and run names for decontamination
+export const OPTIONAL_MAPPED_FIELDS: MappedField[] = ['total_reads', 'fungal_reads', 'sample_type', 'sequencing_run'];
+
+export const DATE_FORMATS: DateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  lat_lng: 'One column per end: "lat, lng"',
+  lng_lat: 'One column per end: "lng, lat"',
+  separate: 'Separate latitude and longitude columns',
+};
+
+// Header spellings seen in lab spreadsheets, compared after lower-casing and dropping punctuation
+const FIELD_ALIASES: Record<MappedField, string[]> = {
+  sample_id: ['sampleid', 'sample', 'samplename', 'samplecode', 'id'],
+  start_name: ['startname', 'start', 'startlocation', 'from', 'origin'],
+  end_name: ['endname', 'end', 'endlocation', 'to', 'destination'],
+  start_point: ['startpoint', 'startcoords', 'startcoordinates', 'startgps'],
+  end_point: ['endpoint', 'endcoords', 'endcoordinates', 'endgps'],
+  start_latitude: ['startlatitude', 'startlat', 'latstart', 'latitudestart', 'lat1'],
+  start_longitude: ['startlongitude', 'startlong', 'startlon', 'startlng', 'longstart', 'lonstart', 'lngstart', 'longitudestart', 'lon1', 'lng1'],
+  end_latitude: ['endlatitude', 'endlat', 'latend', 'latitudeend', 'lat2'],
+  end_longitude: ['endlongitude', 'endlong', 'endlon', 'endlng', 'longend', 'lonend', 'lngend', 'longitudeend', 'lon2', 'lng2'],
+  species: ['species', 'speciesname', 'taxon', 'organism', 'pathogen', 'scientificname'],
+  read_count: ['readcount', 'reads', 'readcounts', 'count', 'numreads', 'nreads'],
+  collection_date: ['collectiondate', 'date', 'sampledate', 'datecollected', 'collected'],
+  total_reads: ['totalreads', 'libraryreads', 'librarysize', 'totalcount', 'readstotal', 'sequencingdepth'],
+  fungal_reads: ['fungalreads', 'fungireads', 'totalfungalreads', 'fungalcount'],
+  sample_type: ['sampletype', 'type', 'control', 'controltype', 'kind'],
+  sequencing_run: ['sequencingrun', 'run', 'runid', 'runname', 'seqrun', 'flowcell'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Canonical fields that must be mapped for the chosen coordinate format
+ */
+export function requiredMappedFields(coordinateFormat: CoordinateFormat): MappedField[] {
+  const coordinates: MappedField[] = coordinateFormat === 'separate'
+    ? ['start_latitude', 'start_longitude', 'end_latitude', 'end_longitude']
+    : ['start_point', 'end_point'];
+
+  return ['sample_id', 'start_name', 'end_name', ...coordinates, 'species', 'read_count', 'collection_date'];
+}
+
+/**
+ * Required fields that are unmapped or mapped to a column the file does not have
+ */
+export function missingMappedFields(mapping: ColumnMapping, headers: string[]): MappedField[] {
+  return requiredMappedFields(mapping.coordinateFormat).filter(field => {
+    const column = mapping.columns[field];
+    return !column || !headers.includes(column);
+  });
+}
+
+/**
+ * Suggest a mapping from header names, and the date order from the values
+ * (a first part above 12 means DD/MM, a second part above 12 means MM/DD)
+ */
+export function guessColumnMapping(headers: string[], records: CSVRecord[] = []): ColumnMapping {
+  const columns: Partial<Record<MappedField, string>> = {};
+
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as Array<[MappedField, string[]]>) {
+    const match = aliases
+      .map(alias => headers.find(header => normalizeHeader(header) === alias))
+      .find(Boolean);
+    if (match) columns[field] = match;
+  }
+
+  const coordinateFormat: CoordinateFormat =
+    !(columns.start_point && columns.end_point) && columns.start_latitude && columns.start_longitude
+      ? 'separate'
+      : 'lat_lng';
+
+  let dateFormat: DateFormat = 'DD/MM/YYYY';
+  const dateColumn = columns.collection_date;
+  if (dateColumn) {
+    const dates = records.map(record => record.values[dateColumn]?.trim() ?? '');
+    const slashed = dates.map(date => date.match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{4}$/)).filter(Boolean);
+    if (slashed.length === 0 && dates.some(date => /^\d{4}-\d{1,2}-\d{1,2}/.test(date))) {
+      dateFormat = 'YYYY-MM-DD';
+    } else if (slashed.some(parts => Number(parts![2]) > 12) && !slashed.some(parts => Number(parts![1]) > 12)) {
+      dateFormat = 'MM/DD/YYYY';
+    }
+  }
+
+  return { columns, dateFormat, coordinateFormat };
+}
+
+/**
+ * Check a mapping received from a client or loaded from a template
+ */
+export function parseColumnMapping(value: unknown): ColumnMapping | null {
+  if (!value || typeof value !== 'object') return null;
+  const { columns, dateFormat, coordinateFormat } = value as Record<string, unknown>;
+
+  if (!DATE_FORMATS.includes(dateFormat as DateFormat)) return null;
+  if (!Object.keys(COORDINATE_FORMAT_LABELS).includes(coordinateFormat as string)) return null;
+  if (!columns || typeof columns !== 'object') return null;
+
+  const checked: Partial<Record<MappedField, string>> = {};
+  for (const [field, column] of Object.entries(columns)) {
+    if (!Object.hasOwn(MAPPED_FIELD_LABELS, field) || typeof column !== 'string') return null;
+    if (column) checked[field as MappedField] = column;
+  }
+
+  return { columns: checked, dateFormat: dateFormat as DateFormat, coordinateFormat: coordinateFormat as CoordinateFormat };
+}
+
+/**
+ * Reshape source records into canonical metabarcode rows. Coordinates are
+ * rewritten as "lat, lng"; dates are left as written and parsed during
+ * validation with mapping.dateFormat.
+ */
+export function applyColumnMapping(records: CSVRecord[], mapping: ColumnMapping): ParsedMetabarcodeRow[] {
+  return records.map(({ line, values }) => {
+    const get = (field: MappedField) => {
+      const column = mapping.columns[field];
+      return column ? values[column]?.trim() ?? '' : '';
+    };
+
+    const point = (end: 'start' | 'end') => {
+      if (mapping.coordinateFormat === 'separate') {
+        const latitude = get(`${end}_latitude`);
+        const longitude = get(`${end}_longitude`);
+        return latitude && longitude ? `${latitude}, ${longitude}` : '';
+      }
+
+      const raw = get(`${end}_point`);
+      if (mapping.coordinateFormat === 'lng_lat') {
+        const parts = raw.replace(/["']/g, '').split(',');
+        return parts.length === 2 ? `${parts[1].trim()}, ${parts[0].trim()}` : raw;
+      }
+      return raw;
+    };
+
+    return {
+      line,
+      values: {
+        sample_id: get('sample_id'),
+        start_name: get('start_name'),
+        start_point: point('start'),
+        end_name: get('end_name'),
+        end_point: point('end'),
+        species: get('species'),
+        read_count: get('read_count'),
+        collection_date: get('collection_date'),
+        total_reads: get('total_reads'),
+        fungal_reads: get('fungal_reads'),
+        sample_type: get('sample_type'),
+        sequencing_run: get('sequencing_run'),
+      },
+    };
+  });
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCSV } from './csv';
+
+describe('parseCSV', () => {
+  it('keys records by trimmed header and numbers their lines', () => {
+    const result = parseCSV(' sample_id , reads\nA1,10\nA2,20\n');
+
+    expect(result.headers).toEqual(['sample_id', 'reads']);
+    expect(result.records).toEqual([
+      { line: 2, values: { sample_id: 'A1', reads: '10' } },
+      { line: 3, values: { sample_id: 'A2', reads: '20' } },
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('keeps delimiters, doubled quotes and newlines inside quoted fields', () => {
+    const result = parseCSV('name,notes\n"Smith, J","said ""hi""\nthen left"\nB,plain\n');
+
+    expect(result.records.map(record => record.values)).toEqual([
+      { name: 'Smith, J', notes: 'said "hi"\nthen left' },
+      { name: 'B', notes: 'plain' },
+    ]);
+    // The record after the embedded newline starts on line 4
+    expect(result.records[1].line).toBe(4);
+  });
+
+  it('keeps whitespace inside quotes but trims unquoted fields', () => {
+    const result = parseCSV('a,b\n  x  ," y "\n');
+
+    expect(result.records[0].values).toEqual({ a: 'x', b: ' y ' });
+  });
+
+  it('handles CRLF and lone CR line endings', () => {
+    expect(parseCSV('a,b\r\n1,2\r\n3,4\r\n').records.map(record => record.values)).toEqual([
+      { a: '1', b: '2' },
+      { a: '3', b: '4' },
+    ]);
+    expect(parseCSV('a,b\r1,2\r').records).toEqual([{ line: 2, values: { a: '1', b: '2' } }]);
+  });
+
+  it('strips a UTF-8 BOM from the first header', () => {
+    const result = parseCSV('\uFEFFsample_id,reads\nA1,5\n');
+
+    expect(result.headers).toEqual(['sample_id', 'reads']);
+    expect(result.records[0].values.sample_id).toBe('A1');
+  });
+
+  it('skips blank lines', () => {
+    const result = parseCSV('a,b\n\n1,2\n\n\n3,4');
+
+    expect(result.records.map(record => record.line)).toEqual([3, 6]);
+  });
+
+  it('reports and skips ragged rows', () => {
+    const result = parseCSV('a,b,c\n1,2,3\n4,5\n6,7,8,9\n10,11,12\n');
+
+    expect(result.records.map(record => record.values.a)).toEqual(['1', '10']);
+    expect(result.errors).toEqual([
+      { line: 3, message: 'Expected 3 fields but found 2' },
+      { line: 4, message: 'Expected 3 fields but found 4' },
+    ]);
+  });
+
+  it('reports stray and unterminated quotes', () => {
+    expect(parseCSV('a,b\nx"y,1\n').errors).toEqual([
+      { line: 2, message: 'Unexpected quote in unquoted field "x"' },
+    ]);
+    expect(parseCSV('a,b\n"x"y,1\n').errors).toEqual([
+      { line: 2, message: 'Unexpected characters after closing quote' },
+    ]);
+    expect(parseCSV('a,b\n1,"open\n').errors).toEqual([
+      { line: 2, message: 'Unterminated quoted field' },
+    ]);
+  });
+
+  it('returns no headers for empty input', () => {
+    expect(parseCSV('')).toEqual({ headers: [], records: [], errors: [], delimiter: ',' });
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the most frequent delimiter in the header line', () => {
+    expect(detectDelimiter('a,b,c\n1;2;3;4;5')).toBe(',');
+    expect(detectDelimiter('a;b;c\n1,5;2,5;3')).toBe(';');
+    expect(detectDelimiter('a\tb\tc\n')).toBe('\t');
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"a,b,c";d;e\n')).toBe(';');
+  });
+
+  it('is used for semicolon-delimited European exports', () => {
+    const result = parseCSV('sample;reads\nA1;"1,5"\n');
+
+    expect(result.delimiter).toBe(';');
+    expect(result.records[0].values).toEqual({ sample: 'A1', reads: '1,5' });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * RFC 4180 CSV parsing shared by every importer (metabarcode upload API,
+ * DataUpload preview and scripts/ingest-data.ts).
+ * Handles quoted fields (including embedded delimiters, quotes and newlines),
+ * UTF-8 BOMs, CRLF/CR line endings and semicolon-delimited European exports.
+ */
+
+export type CSVDelimiter = ',' | ';' | '\t';
+
+export interface CSVParseError {
+  line: number; // 1-based line where the offending record starts
+  message: string;
+}
+
+export interface CSVRecord {
+  line: number; // 1-based line where the record starts
+  values: Record<string, string>;
+}
+
+export interface CSVParseResult {
+  headers: string[];
+  records: CSVRecord[];
+  errors: CSVParseError[];
+  delimiter: CSVDelimiter;
+}
+
+export interface CSVParseOptions {
+  delimiter?: CSVDelimiter; // detected from the header line when omitted
+}
+
+interface RawRow {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Pick the delimiter that occurs most often outside quotes in the first line
+ */
+export function detectDelimiter(text: string): CSVDelimiter {
+  const counts: Record<CSVDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && char in counts) counts[char as CSVDelimiter]++;
+  }
+
+  if (counts[';'] > counts[','] && counts[';'] >= counts['\t']) return ';';
+  if (counts['\t'] > counts[',']) return '\t';
+  return ',';
+}
+
+/**
+ * Tokenise text into rows of fields. Blank lines are skipped.
+ */
+export function parseCSVRows(text: string, delimiter: CSVDelimiter): { rows: RawRow[]; errors: CSVParseError[] } {
+  const rows: RawRow[] = [];
+  const errors: CSVParseError[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+  let line = 1;
+  let rowStartLine = 1;
+  let rowHasContent = false;
+  let rowError: string | null = null;
+
+  const endField = () => {
+    fields.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    if (rowError) {
+      errors.push({ line: rowStartLine, message: rowError });
+    } else if (rowHasContent) {
+      rows.push({ line: rowStartLine, fields });
+    }
+    fields = [];
+    rowHasContent = false;
+    rowError = null;
+  };
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field.trim() === '' && !fieldWasQuoted) {
+        inQuotes = true;
+        fieldWasQuoted = true;
+        field = '';
+        rowHasContent = true;
+      } else if (!rowError) {
+        rowError = `Unexpected quote in unquoted field "${field}"`;
+      }
+    } else if (char === delimiter) {
+      rowHasContent = true;
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowStartLine = line;
+    } else {
+      if (fieldWasQuoted) {
+        // Only whitespace may follow a closing quote
+        if (char.trim() && !rowError) rowError = 'Unexpected characters after closing quote';
+        continue;
+      }
+      if (char.trim()) rowHasContent = true;
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: rowStartLine, message: 'Unterminated quoted field' });
+  } else {
+    endRow();
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Parse CSV text into records keyed by (trimmed) header name.
+ * Records whose field count differs from the header are reported and skipped.
+ */
+export function parseCSV(text: string, options: CSVParseOptions = {}): CSVParseResult {
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const { rows, errors } = parseCSVRows(text, delimiter);
+
+  if (rows.length === 0) {
+    return { headers: [], records: [], errors, delimiter };
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  const headers = headerRow.fields.map(h => h.trim());
+  const records: CSVRecord[] = [];
+
+  for (const row of dataRows) {
+    if (row.fields.length !== headers.length) {
+      errors.push({
+        line: row.line,
+        message: `Expected ${headers.length} fields but found ${row.fields.length}`,
+      });
+      continue;
+    }
+
+    const values: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      values[header] = row.fields[index];
+    });
+    records.push({ line: row.line, values });
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  return { headers, records, errors, delimiter };
+}
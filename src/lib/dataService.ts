@@ -12,9 +12,15 @@ export async function fetchSamples(): Promise<Sample[]> {
         *,
         pathogen_detections (
           read_count,
+          corrected_read_count,
+          blank_read_count,
+          below_blank,
           pathogen_species (
             species_name,
-            common_name
+            common_name,
+            severity_metric,
+            medium_threshold,
+            high_threshold
           )
         )
       `)
@@ -45,9 +51,15 @@ export async function fetchSamplesByYear(year: number): Promise<Sample[]> {
         *,
         pathogen_detections (
           read_count,
+          corrected_read_count,
+          blank_read_count,
+          below_blank,
           pathogen_species (
             species_name,
-            common_name
+            common_name,
+            severity_metric,
+            medium_threshold,
+            high_threshold
           )
         )
       `)
@@ -0,0 +1,100 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers email. Chosen with EMAIL_TRANSPORT; register another with
+ * registerEmailTransport to send through a different provider.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Development: print the message to the server log
+const consoleTransport: EmailTransport = {
+  async send(message) {
+    console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n\n${message.text}\n`);
+  },
+};
+
+// Development: write each message to EMAIL_FILE_DIR (default .emails/) as a .eml file
+const fileTransport: EmailTransport = {
+  async send(message) {
+    const dir = process.env.EMAIL_FILE_DIR || '.emails';
+    await mkdir(dir, { recursive: true });
+
+    const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`);
+    const eml = [
+      `From: ${emailFrom()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await writeFile(file, eml);
+  },
+};
+
+// Production: POST the message as JSON to EMAIL_WEBHOOK_URL, e.g. a mail
+// provider's send endpoint or a relay, with EMAIL_WEBHOOK_TOKEN as a bearer token
+const webhookTransport: EmailTransport = {
+  async send(message) {
+    const url = process.env.EMAIL_WEBHOOK_URL;
+    if (!url) throw new Error('EMAIL_WEBHOOK_URL is not set');
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.EMAIL_WEBHOOK_TOKEN ? { Authorization: `Bearer ${process.env.EMAIL_WEBHOOK_TOKEN}` } : {}),
+      },
+      body: JSON.stringify({ from: emailFrom(), ...message }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email webhook responded ${response.status}`);
+    }
+  },
+};
+
+const transports = new Map<string, EmailTransport>([
+  ['console', consoleTransport],
+  ['file', fileTransport],
+  ['webhook', webhookTransport],
+]);
+
+export function registerEmailTransport(name: string, transport: EmailTransport): void {
+  transports.set(name, transport);
+}
+
+function emailFrom(): string {
+  return process.env.EMAIL_FROM || 'spore.net <no-reply@spore.net>';
+}
+
+// Console is only a default in development; in production an unset transport
+// would leave invite and reset links in the server log instead of sending them
+function transportName(): string {
+  const name = process.env.EMAIL_TRANSPORT;
+  if (name) return name;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('EMAIL_TRANSPORT is not set; choose a transport to send email in production');
+  }
+  return 'console';
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const name = transportName();
+  const transport = transports.get(name);
+  if (!transport) {
+    throw new Error(`Unknown email transport "${name}"`);
+  }
+  await transport.send(message);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { describeTrip, isTripId, parseTripMetadata, tripDetails, type ActiveTrip } from './fieldTrips';
+
+describe('isTripId', () => {
+  it('accepts UUIDs in either case', () => {
+    expect(isTripId('0b6f3c1e-8d2a-4c5b-9e7f-1a2b3c4d5e6f')).toBe(true);
+    expect(isTripId('0B6F3C1E-8D2A-4C5B-9E7F-1A2B3C4D5E6F')).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isTripId('trip-1')).toBe(false);
+    expect(isTripId('0b6f3c1e8d2a4c5b9e7f1a2b3c4d5e6f')).toBe(false);
+    expect(isTripId(42)).toBe(false);
+    expect(isTripId(null)).toBe(false);
+  });
+});
+
+describe('parseTripMetadata', () => {
+  it('returns only the fields present, trimmed', () => {
+    expect(parseTripMetadata({ name: '  North loop ', vehicle: 'Hilux' })).toEqual({
+      metadata: { name: 'North loop', vehicle: 'Hilux' },
+    });
+  });
+
+  it('treats a missing body as no changes', () => {
+    expect(parseTripMetadata(null)).toEqual({ metadata: {} });
+    expect(parseTripMetadata('name')).toEqual({ metadata: {} });
+  });
+
+  it('clears optional fields given empty text or null', () => {
+    expect(parseTripMetadata({ weather: '  ', notes: null })).toEqual({
+      metadata: { weather: null, notes: null },
+    });
+  });
+
+  it('does not let the name be cleared', () => {
+    expect(parseTripMetadata({ name: ' ' })).toEqual({ error: 'Trip name is required' });
+    expect(parseTripMetadata({ name: null })).toEqual({ error: 'Trip name is required' });
+  });
+
+  it('rejects non-text and overlong values', () => {
+    expect(parseTripMetadata({ vehicle: 3 })).toEqual({ error: 'Vehicle must be text' });
+    expect(parseTripMetadata({ weather: 'x'.repeat(201) })).toEqual({
+      error: 'Weather must be at most 200 characters',
+    });
+    expect(parseTripMetadata({ notes: 'x'.repeat(2000) })).toEqual({ metadata: { notes: 'x'.repeat(2000) } });
+  });
+
+  it('requires the date as YYYY-MM-DD', () => {
+    expect(parseTripMetadata({ trip_date: ' 2026-03-14 ' })).toEqual({ metadata: { trip_date: '2026-03-14' } });
+    expect(parseTripMetadata({ trip_date: '14/03/2026' })).toEqual({ error: 'Trip date must be YYYY-MM-DD' });
+    expect(parseTripMetadata({ trip_date: '2026-13-01' })).toEqual({ error: 'Trip date must be YYYY-MM-DD' });
+    expect(parseTripMetadata({ trip_date: null })).toEqual({ error: 'Trip date must be YYYY-MM-DD' });
+  });
+});
+
+describe('describeTrip', () => {
+  it('joins the details that are set', () => {
+    expect(describeTrip({ vehicle: 'Hilux', sampler_name: 'J. Smith', weather: 'Windy, 18°C' }))
+      .toBe('Hilux · J. Smith · Windy, 18°C');
+    expect(describeTrip({ vehicle: null, sampler_name: 'J. Smith', weather: '' })).toBe('J. Smith');
+    expect(describeTrip({})).toBe('');
+  });
+});
+
+describe('tripDetails', () => {
+  it('sends the trip metadata without the device state', () => {
+    const trip: ActiveTrip = {
+      id: '0b6f3c1e-8d2a-4c5b-9e7f-1a2b3c4d5e6f',
+      name: 'North loop',
+      trip_date: '2026-03-14',
+      vehicle: 'Hilux',
+      sampler_name: null,
+      weather: null,
+      notes: null,
+      sampleCount: 3,
+      lastEnd: { latitude: -37.8, longitude: 145.0, name: 'Gate 4' },
+    };
+    expect(tripDetails(trip)).toEqual({
+      id: trip.id,
+      name: 'North loop',
+      trip_date: '2026-03-14',
+      vehicle: 'Hilux',
+      sampler_name: null,
+      weather: null,
+      notes: null,
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Field trips: consecutive samples collected on one outing. Metadata that is
+ * the same for every sample (vehicle, sampler, weather) is entered once per
+ * trip. The collection form creates the trip ID on the device and sends the
+ * trip with each sample, so trips work offline through the upload outbox.
+ */
+
+export interface FieldTripMetadata {
+  name: string;
+  trip_date: string;           // YYYY-MM-DD
+  vehicle: string | null;
+  sampler_name: string | null; // who collected, which may differ from the account that uploads
+  weather: string | null;
+  notes: string | null;
+}
+
+export interface FieldTrip extends FieldTripMetadata {
+  id: string;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export const FIELD_TRIP_COLUMNS = 'id, name, trip_date, vehicle, sampler_name, weather, notes, created_at, updated_at';
+
+export const TRIP_METADATA_LABELS: Record<keyof FieldTripMetadata, string> = {
+  name: 'Trip name',
+  trip_date: 'Date',
+  vehicle: 'Vehicle',
+  sampler_name: 'Sampler',
+  weather: 'Weather',
+  notes: 'Notes',
+};
+
+const TEXT_LIMITS: Record<Exclude<keyof FieldTripMetadata, 'trip_date'>, number> = {
+  name: 100,
+  vehicle: 100,
+  sampler_name: 100,
+  weather: 200,
+  notes: 2000,
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isTripId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Check trip metadata received from a client. Only the fields present are
+ * returned, so a partial update leaves the others alone; empty strings clear
+ * a field. The name and date cannot be cleared.
+ */
+export function parseTripMetadata(
+  value: unknown
+): { metadata: Partial<FieldTripMetadata> } | { error: string } {
+  if (!value || typeof value !== 'object') return { metadata: {} };
+  const body = value as Record<string, unknown>;
+  const metadata: Partial<FieldTripMetadata> = {};
+
+  for (const [field, limit] of Object.entries(TEXT_LIMITS) as Array<[keyof typeof TEXT_LIMITS, number]>) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && typeof body[field] !== 'string') {
+      return { error: `${TRIP_METADATA_LABELS[field]} must be text` };
+    }
+    const text = (body[field] as string | null)?.trim() || null;
+    if (text && text.length > limit) {
+      return { error: `${TRIP_METADATA_LABELS[field]} must be at most ${limit} characters` };
+    }
+    if (field === 'name') {
+      if (!text) return { error: 'Trip name is required' };
+      metadata.name = text;
+    } else {
+      metadata[field] = text;
+    }
+  }
+
+  if (body.trip_date !== undefined) {
+    const date = typeof body.trip_date === 'string' ? body.trip_date.trim() : '';
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      return { error: 'Trip date must be YYYY-MM-DD' };
+    }
+    metadata.trip_date = date;
+  }
+
+  return { metadata };
+}
+
+/**
+ * One-line summary, e.g. "Hilux · J. Smith · Windy, 18°C"
+ */
+export function describeTrip(trip: Partial<FieldTripMetadata>): string {
+  return [trip.vehicle, trip.sampler_name, trip.weather].filter(Boolean).join(' · ');
+}
+
+/**
+ * The trip in progress on a collection device, with what the form needs to
+ * chain the next sample onto the previous one
+ */
+export interface ActiveTrip extends FieldTripMetadata {
+  id: string;
+  sampleCount: number;
+  lastEnd: { latitude: number; longitude: number; name: string } | null;
+}
+
+/**
+ * The part of an active trip that is sent with each sample
+ */
+export function tripDetails(trip: ActiveTrip): FieldTripMetadata & { id: string } {
+  const { id, name, trip_date, vehicle, sampler_name, weather, notes } = trip;
+  return { id, name, trip_date, vehicle, sampler_name, weather, notes };
+}
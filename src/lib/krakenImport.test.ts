@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import {
+  RouteMetadata,
+  convertKrakenReports,
+  parseKrakenManifest,
+  parseKrakenReport,
+  sampleIdFromFilename,
+} from './krakenImport';
+import { buildSpeciesLookup } from './speciesMatching';
+
+const row = (...fields: Array<string | number>) => fields.join('\t');
+
+// percent, clade reads, direct reads, rank, taxid, name
+const KRAKEN_REPORT = [
+  row(' 10.00', 100, 100, 'U', 0, 'unclassified'),
+  row(' 90.00', 900, 5, 'R', 1, 'root'),
+  row(' 30.00', 300, 0, 'K', 4751, '    Fungi'),
+  row(' 12.00', 120, 100, 'S', 27350, '          Puccinia striiformis'),
+  row('  2.00', 20, 20, 'S1', 168172, '            Puccinia striiformis f. sp. tritici'),
+  row('  5.00', 50, 50, 'S', 5518, '          Fusarium graminearum'),
+].join('\n');
+
+const BRACKEN_TABLE = [
+  row('name', 'taxonomy_id', 'taxonomy_lvl', 'kraken_assigned_reads', 'added_reads', 'new_est_reads', 'fraction_total_reads'),
+  row('Puccinia striiformis', 27350, 'S', 100, 30, 130, 0.5),
+  row('Puccinia', 5296, 'G', 10, 0, 10, 0.1),
+].join('\n');
+
+const pathogens = [
+  { species_name: 'Puccinia striiformis', ncbi_taxid: 27350 },
+  { species_name: 'Blumeria graminis', ncbi_taxid: null },
+];
+const lookup = buildSpeciesLookup([
+  { id: 'ps', species_name: 'Puccinia striiformis' },
+  { id: 'bg', species_name: 'Blumeria graminis' },
+]);
+
+const route: RouteMetadata = {
+  start_name: 'Farm A',
+  start_point: '52.1, 0.1',
+  end_name: 'Farm B',
+  end_point: '52.2, 0.2',
+  collection_date: '2026-06-01',
+};
+
+describe('parseKrakenReport', () => {
+  it('keeps species rows and derives library totals from a Kraken2 report', () => {
+    const report = parseKrakenReport(KRAKEN_REPORT);
+
+    expect(report.kind).toBe('kraken2');
+    expect(report.totalReads).toBe(1000);
+    expect(report.fungalReads).toBe(300);
+    expect(report.species).toEqual([
+      { line: 4, taxid: 27350, name: 'Puccinia striiformis', reads: 120 },
+      { line: 6, taxid: 5518, name: 'Fusarium graminearum', reads: 50 },
+    ]);
+  });
+
+  it('reads reports with minimizer columns', () => {
+    const report = parseKrakenReport(row(' 100.00', 40, 40, 900, 300, 'S', 27350, 'Puccinia striiformis'));
+
+    expect(report.species).toEqual([{ line: 1, taxid: 27350, name: 'Puccinia striiformis', reads: 40 }]);
+    expect(report.totalReads).toBeNull();
+  });
+
+  it('reads Bracken abundance tables without totals', () => {
+    const report = parseKrakenReport(BRACKEN_TABLE);
+
+    expect(report.kind).toBe('bracken');
+    expect(report.species).toEqual([{ line: 2, taxid: 27350, name: 'Puccinia striiformis', reads: 130 }]);
+    expect(report.totalReads).toBeNull();
+    expect(report.fungalReads).toBeNull();
+  });
+
+  it('rejects empty and malformed reports', () => {
+    expect(() => parseKrakenReport('\n\n')).toThrow('Report is empty');
+    expect(() => parseKrakenReport('not\ta report')).toThrow('Line 1 is not a Kraken2 report row');
+  });
+});
+
+describe('sampleIdFromFilename', () => {
+  const sampleIds = ['25_01', '25_010', '25_02'];
+
+  it('matches the stem exactly after report suffixes are removed', () => {
+    expect(sampleIdFromFilename('25_01.kreport', sampleIds)).toBe('25_01');
+    expect(sampleIdFromFilename('runs/25_02_bracken_species.kreport2', sampleIds)).toBe('25_02');
+  });
+
+  it('takes the longest sample ID the stem starts with, at a separator', () => {
+    expect(sampleIdFromFilename('25_010_S3_L001.bracken', sampleIds)).toBe('25_010');
+    expect(sampleIdFromFilename('25_01_S1.k2.report', sampleIds)).toBe('25_01');
+  });
+
+  it('returns null when no sample matches', () => {
+    expect(sampleIdFromFilename('25_0123.kreport', sampleIds)).toBeNull();
+    expect(sampleIdFromFilename('other.kreport', sampleIds)).toBeNull();
+  });
+});
+
+describe('parseKrakenManifest', () => {
+  it('maps filenames to samples, with route columns when all are filled in', () => {
+    const { entries, errors } = parseKrakenManifest([
+      'filename,sample_id,start_name,start_point,end_name,end_point,collection_date,total_reads',
+      'a.kreport,26_01,Farm A,"52.1, 0.1",Farm B,"52.2, 0.2",2026-06-01,5000',
+      'b.kreport,26_02,,,,,,',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(entries.get('a.kreport')).toMatchObject({ sampleId: '26_01', metadata: route, totalReads: '5000' });
+    expect(entries.get('b.kreport')).toMatchObject({ sampleId: '26_02', metadata: null });
+  });
+
+  it('requires filename and sample_id columns', () => {
+    const { errors } = parseKrakenManifest('file,sample\na,b\n');
+
+    expect(errors.map(error => error.message)).toEqual(['Manifest needs filename and sample_id columns']);
+  });
+});
+
+describe('convertKrakenReports', () => {
+  it('imports reports against existing routes, resolving species by taxid then name', () => {
+    const { rows, errors, notes } = convertKrakenReports(
+      [{ filename: '26_01.kreport', text: KRAKEN_REPORT }],
+      null,
+      pathogens,
+      lookup,
+      new Map([['26_01', route]])
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([{
+      line: 4,
+      values: {
+        sample_id: '26_01',
+        ...route,
+        species: 'Puccinia striiformis',
+        read_count: '120',
+        total_reads: '1000',
+        fungal_reads: '300',
+        sample_type: '',
+        sequencing_run: '',
+      },
+    }]);
+    expect(notes).toEqual(['1 species-level taxa are not in the pathogen list and were skipped']);
+  });
+
+  it('takes Bracken totals, sample IDs and new routes from the manifest', () => {
+    const { rows, errors } = convertKrakenReports(
+      [{ filename: 'lane1.bracken', text: BRACKEN_TABLE }],
+      [
+        'filename,sample_id,start_name,start_point,end_name,end_point,collection_date,total_reads,fungal_reads',
+        'lane1.bracken,26_05,Farm A,"52.1, 0.1",Farm B,"52.2, 0.2",2026-06-01,2000,800',
+      ].join('\n'),
+      pathogens,
+      lookup,
+      new Map()
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].values).toMatchObject({ sample_id: '26_05', read_count: '130', total_reads: '2000', fungal_reads: '800' });
+  });
+
+  it('imports controls without a route', () => {
+    const { rows, errors } = convertKrakenReports(
+      [{ filename: 'blank.kreport', text: KRAKEN_REPORT }],
+      'filename,sample_id,sample_type,sequencing_run\nblank.kreport,EB1,blank,RUN7\n',
+      pathogens,
+      lookup,
+      new Map()
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows[0].values).toMatchObject({ sample_id: 'EB1', start_name: '', sample_type: 'blank', sequencing_run: 'RUN7' });
+  });
+
+  it('reports unmatched files, missing routes and duplicate reports', () => {
+    const { rows, errors } = convertKrakenReports(
+      [
+        { filename: 'mystery.kreport', text: KRAKEN_REPORT },
+        { filename: '26_01.kreport', text: KRAKEN_REPORT },
+        { filename: '26_01_rerun.kreport', text: KRAKEN_REPORT },
+        { filename: 'new.kreport', text: KRAKEN_REPORT },
+      ],
+      'filename,sample_id\nnew.kreport,26_09\n',
+      pathogens,
+      lookup,
+      new Map([['26_01', route]])
+    );
+
+    expect(rows.map(row => row.values.sample_id)).toEqual(['26_01']);
+    expect(errors.map(error => error.message)).toEqual([
+      'mystery.kreport: no sample matches this filename; add it to the manifest',
+      '26_01_rerun.kreport: sample already has a report (26_01.kreport)',
+      'new.kreport: no sampling route for this sample; add route columns to the manifest',
+    ]);
+  });
+});
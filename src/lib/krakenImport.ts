@@ -0,0 +1,323 @@
+/**
+ * Kraken2 / Bracken import: reads per-sample classification reports and
+ * reshapes their species-level rows into long-format metabarcode rows, so they
+ * go through the same validation, preview and import as CSV uploads.
+ *
+ * Accepted inputs:
+ * - Kraken2 reports (`--report`, with or without `--report-minimizer-data`),
+ *   including Bracken's `*_bracken_species.kreport` output
+ * - Bracken abundance tables (name, taxonomy_id, taxonomy_lvl, ..., new_est_reads)
+ * - Optional manifest (CSV/TSV) with filename and sample_id columns, plus the
+ *   route columns when a report belongs to a sample that has no route yet,
+ *   total_reads / fungal_reads for reports that do not carry library totals, and
+ *   sample_type / sequencing_run for control samples (which need no route)
+ *
+ * Kraken2 reports give library totals directly: unclassified plus root reads
+ * is the total, and the clade count of kingdom Fungi (taxid 4751) the fungal
+ * reads. Bracken tables only list species, so their totals come from the manifest.
+ */
+
+import { parseCSV } from './csv';
+import {
+  MetabarcodeCSVRow,
+  MetabarcodeConversionResult,
+  ParsedMetabarcodeRow,
+  RowReport,
+  parseSampleType,
+} from './metabarcodeImport';
+import { SpeciesLookup, resolveSpecies } from './speciesMatching';
+
+export type RouteMetadata = Pick<
+  MetabarcodeCSVRow,
+  'start_name' | 'start_point' | 'end_name' | 'end_point' | 'collection_date'
+>;
+
+export interface KrakenSpeciesRow {
+  line: number;
+  taxid: number;
+  name: string;
+  reads: number;
+}
+
+export interface KrakenReport {
+  kind: 'kraken2' | 'bracken';
+  species: KrakenSpeciesRow[];
+  totalReads: number | null; // null for Bracken tables
+  fungalReads: number | null; // null when the report has no Fungi row
+}
+
+export interface KrakenReportFile {
+  filename: string;
+  text: string;
+}
+
+export interface KrakenManifestEntry {
+  line: number;
+  sampleId: string;
+  metadata: RouteMetadata | null; // null when the manifest has no route columns for this file
+  totalReads: string;
+  fungalReads: string;
+  sampleType: string;
+  sequencingRun: string;
+}
+
+export interface PathogenTaxon {
+  species_name: string;
+  ncbi_taxid: number | null;
+}
+
+const ROUTE_COLUMNS: Array<keyof RouteMetadata> = ['start_name', 'start_point', 'end_name', 'end_point', 'collection_date'];
+
+const FUNGI_TAXID = 4751;
+
+// Control samples are not sampling routes
+const NO_ROUTE: RouteMetadata = { start_name: '', start_point: '', end_name: '', end_point: '', collection_date: '' };
+
+// Extensions and suffixes stripped from report filenames before matching sample IDs
+const REPORT_SUFFIXES = /(\.(k2|kraken2?|bracken|kreport2?|report|txt|tsv))+$/i;
+const BRACKEN_SUFFIX = /_bracken(_species)?$/i;
+
+function structuralError(message: string, sampleId = '', line = 0): RowReport {
+  return { line, sampleId, species: '', status: 'error', message };
+}
+
+/**
+ * Parse a Kraken2 or Bracken report, keeping only species-level rows
+ */
+export function parseKrakenReport(text: string): KrakenReport {
+  const lines = text.split(/\r\n|\r|\n/);
+  const firstLine = lines.findIndex(line => line.trim() !== '');
+  const species: KrakenSpeciesRow[] = [];
+
+  if (firstLine === -1) {
+    throw new Error('Report is empty');
+  }
+
+  // Bracken abundance table
+  if (lines[firstLine].startsWith('name\ttaxonomy_id')) {
+    const columns = lines[firstLine].split('\t');
+    const taxidIndex = columns.indexOf('taxonomy_id');
+    const levelIndex = columns.indexOf('taxonomy_lvl');
+    const readsIndex = columns.indexOf('new_est_reads');
+    if (levelIndex === -1 || readsIndex === -1) {
+      throw new Error('Bracken table needs taxonomy_lvl and new_est_reads columns');
+    }
+
+    lines.forEach((line, index) => {
+      if (index <= firstLine || line.trim() === '') return;
+      const fields = line.split('\t');
+      if (fields[levelIndex] !== 'S') return;
+      species.push({
+        line: index + 1,
+        taxid: Number(fields[taxidIndex]),
+        name: fields[0].trim(),
+        reads: Number(fields[readsIndex]) || 0,
+      });
+    });
+
+    return { kind: 'bracken', species, totalReads: null, fungalReads: null };
+  }
+
+  // Kraken2 report: percent, clade reads, direct reads, [minimizers, distinct minimizers,] rank, taxid, name
+  let unclassifiedReads = 0;
+  let rootReads: number | null = null;
+  let fungalReads: number | null = null;
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '' || line.startsWith('#')) return;
+    const fields = line.split('\t');
+    if (fields.length !== 6 && fields.length !== 8) {
+      throw new Error(`Line ${index + 1} is not a Kraken2 report row`);
+    }
+
+    const offset = fields.length === 8 ? 2 : 0;
+    const rank = fields[3 + offset].trim();
+    const taxid = Number(fields[4 + offset]);
+    const cladeReads = Number(fields[1]) || 0; // clade reads, so strain-level assignments are included
+
+    if (rank === 'U') unclassifiedReads = cladeReads;
+    if (rank === 'R') rootReads = cladeReads;
+    if (taxid === FUNGI_TAXID) fungalReads = cladeReads;
+    if (rank !== 'S') return;
+
+    species.push({ line: index + 1, taxid, name: fields[5 + offset].trim(), reads: cladeReads });
+  });
+
+  return {
+    kind: 'kraken2',
+    species,
+    totalReads: rootReads === null ? null : unclassifiedReads + rootReads,
+    fungalReads,
+  };
+}
+
+/**
+ * Read a manifest mapping report filenames to sample IDs
+ */
+export function parseKrakenManifest(text: string): { entries: Map<string, KrakenManifestEntry>; errors: RowReport[] } {
+  const { headers, records, errors: parseErrors } = parseCSV(text);
+  const errors = parseErrors.map(error => structuralError(`Manifest: ${error.message}`, '', error.line));
+  const entries = new Map<string, KrakenManifestEntry>();
+
+  if (!headers.includes('filename') || !headers.includes('sample_id')) {
+    errors.push(structuralError('Manifest needs filename and sample_id columns'));
+    return { entries, errors };
+  }
+
+  const hasRouteColumns = ROUTE_COLUMNS.every(column => headers.includes(column));
+
+  for (const record of records) {
+    const { values } = record;
+    const metadata = hasRouteColumns && ROUTE_COLUMNS.every(column => values[column])
+      ? {
+          start_name: values.start_name,
+          start_point: values.start_point,
+          end_name: values.end_name,
+          end_point: values.end_point,
+          collection_date: values.collection_date,
+        }
+      : null;
+    entries.set(values.filename, {
+      line: record.line,
+      sampleId: values.sample_id,
+      metadata,
+      totalReads: values.total_reads ?? '',
+      fungalReads: values.fungal_reads ?? '',
+      sampleType: values.sample_type ?? '',
+      sequencingRun: values.sequencing_run ?? '',
+    });
+  }
+
+  return { entries, errors };
+}
+
+/**
+ * Work out which sample a report belongs to from its filename: an exact match
+ * on the stem ("25_01.kreport"), otherwise the longest known sample ID the stem
+ * starts with ("25_01_S3_L001.bracken").
+ */
+export function sampleIdFromFilename(filename: string, sampleIds: Iterable<string>): string | null {
+  const basename = filename.split(/[\\/]/).pop() ?? filename;
+  const stem = basename.replace(REPORT_SUFFIXES, '').replace(BRACKEN_SUFFIX, '');
+
+  let best: string | null = null;
+  for (const sampleId of sampleIds) {
+    if (stem === sampleId) return sampleId;
+    if (stem.startsWith(sampleId) && /^[_.-]/.test(stem.slice(sampleId.length))) {
+      if (!best || sampleId.length > best.length) best = sampleId;
+    }
+  }
+  return best;
+}
+
+/**
+ * Combine per-sample reports into long-format metabarcode rows.
+ * Species rows are resolved to pathogen_species by NCBI taxid first, then by
+ * name or synonym; everything else is skipped and summarised in notes. Route
+ * details come from the existing sampling route, or from the manifest for new
+ * samples.
+ */
+export function convertKrakenReports(
+  reports: KrakenReportFile[],
+  manifestText: string | null,
+  pathogens: PathogenTaxon[],
+  speciesLookup: SpeciesLookup,
+  existingRoutes: Map<string, RouteMetadata>
+): MetabarcodeConversionResult {
+  const errors: RowReport[] = [];
+  const notes: string[] = [];
+  const rows: ParsedMetabarcodeRow[] = [];
+
+  let manifest = new Map<string, KrakenManifestEntry>();
+  if (manifestText) {
+    const parsed = parseKrakenManifest(manifestText);
+    manifest = parsed.entries;
+    errors.push(...parsed.errors);
+  }
+
+  const speciesByTaxid = new Map<number, string>();
+  for (const pathogen of pathogens) {
+    if (pathogen.ncbi_taxid) speciesByTaxid.set(pathogen.ncbi_taxid, pathogen.species_name);
+  }
+
+  const knownSampleIds = new Set([...existingRoutes.keys(), ...[...manifest.values()].map(entry => entry.sampleId)]);
+  const reportBySample = new Map<string, string>();
+  const skippedTaxa = new Set<number>();
+
+  for (const report of reports) {
+    const entry = manifest.get(report.filename);
+    const sampleId = entry?.sampleId ?? sampleIdFromFilename(report.filename, knownSampleIds);
+
+    if (!sampleId) {
+      errors.push(structuralError(`${report.filename}: no sample matches this filename; add it to the manifest`));
+      continue;
+    }
+
+    if (reportBySample.has(sampleId)) {
+      errors.push(structuralError(
+        `${report.filename}: sample already has a report (${reportBySample.get(sampleId)})`,
+        sampleId
+      ));
+      continue;
+    }
+    reportBySample.set(sampleId, report.filename);
+
+    const isControl = (parseSampleType(entry?.sampleType) ?? 'field') !== 'field';
+    const metadata = existingRoutes.get(sampleId) ?? entry?.metadata ?? (isControl ? NO_ROUTE : null);
+    if (!metadata) {
+      errors.push(structuralError(
+        `${report.filename}: no sampling route for this sample; add route columns to the manifest`,
+        sampleId
+      ));
+      continue;
+    }
+
+    let parsed: KrakenReport;
+    try {
+      parsed = parseKrakenReport(report.text);
+    } catch (error) {
+      errors.push(structuralError(`${report.filename}: ${error instanceof Error ? error.message : 'Invalid report'}`, sampleId));
+      continue;
+    }
+
+    // Sum in case two taxids resolve to the same pathogen species
+    const totals = new Map<string, { line: number; reads: number }>();
+    for (const taxon of parsed.species) {
+      const species = speciesByTaxid.get(taxon.taxid) ?? resolveSpecies(taxon.name, speciesLookup)?.speciesName;
+      if (!species) {
+        skippedTaxa.add(taxon.taxid);
+        continue;
+      }
+      const total = totals.get(species);
+      totals.set(species, { line: total?.line ?? taxon.line, reads: (total?.reads ?? 0) + taxon.reads });
+    }
+
+    // Totals from the report win; the manifest fills in what it lacks
+    const libraryTotals = {
+      total_reads: parsed.totalReads !== null ? String(parsed.totalReads) : entry?.totalReads ?? '',
+      fungal_reads: parsed.fungalReads !== null ? String(parsed.fungalReads) : entry?.fungalReads ?? '',
+    };
+
+    for (const [species, { line, reads }] of totals) {
+      if (reads <= 0) continue;
+      rows.push({
+        line,
+        values: {
+          sample_id: sampleId,
+          ...metadata,
+          species,
+          read_count: String(Math.round(reads)),
+          ...libraryTotals,
+          sample_type: entry?.sampleType ?? '',
+          sequencing_run: entry?.sequencingRun ?? '',
+        },
+      });
+    }
+  }
+
+  if (skippedTaxa.size > 0) {
+    notes.push(`${skippedTaxa.size} species-level taxa are not in the pathogen list and were skipped`);
+  }
+
+  return { rows, errors, notes };
+}
@@ -0,0 +1,66 @@
+/**
+ * PDF label sheets for issued sample IDs, laid out for A4 sheets of 3 x 7
+ * labels (63.5 x 38.1 mm, e.g. Avery L7160). Each label has a QR code linking
+ * to the sample page and the ID in large type for reading by eye.
+ */
+
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { labelUrl } from './sampleLabels';
+
+const SHEET = {
+  columns: 3,
+  rows: 7,
+  labelWidth: 63.5,
+  labelHeight: 38.1,
+  marginLeft: 7.2,
+  marginTop: 15.1,
+  columnGap: 2.5,
+};
+
+const QR_SIZE = 30; // mm
+const PADDING = 4;  // mm
+
+// Drawn as vector squares rather than an image: sharp at any printer resolution and a small file
+function drawQRCode(doc: jsPDF, text: string, x: number, y: number) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const moduleSize = QR_SIZE / modules.size;
+
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < modules.size; row++) {
+    // One rectangle per run of dark modules
+    for (let col = 0; col < modules.size; col++) {
+      if (!modules.get(row, col)) continue;
+      const start = col;
+      while (col + 1 < modules.size && modules.get(row, col + 1)) col++;
+      doc.rect(x + start * moduleSize, y + row * moduleSize, (col - start + 1) * moduleSize, moduleSize, 'F');
+    }
+  }
+}
+
+export function buildLabelSheet(sampleIds: string[], origin: string, title = 'spore.net'): Blob {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+  const perSheet = SHEET.columns * SHEET.rows;
+
+  for (let i = 0; i < sampleIds.length; i++) {
+    if (i > 0 && i % perSheet === 0) doc.addPage();
+
+    const slot = i % perSheet;
+    const x = SHEET.marginLeft + (slot % SHEET.columns) * (SHEET.labelWidth + SHEET.columnGap);
+    const y = SHEET.marginTop + Math.floor(slot / SHEET.columns) * SHEET.labelHeight;
+    const sampleId = sampleIds[i];
+
+    drawQRCode(doc, labelUrl(origin, sampleId), x + PADDING, y + (SHEET.labelHeight - QR_SIZE) / 2);
+
+    const textX = x + PADDING * 2 + QR_SIZE;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(sampleId.length > 8 ? 11 : 16);
+    doc.text(sampleId, textX, y + SHEET.labelHeight / 2, { maxWidth: SHEET.labelWidth - QR_SIZE - PADDING * 3 });
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.text(title, textX, y + SHEET.labelHeight / 2 + 6);
+  }
+
+  return doc.output('blob');
+}
@@ -0,0 +1,426 @@
+/**
+ * Metabarcode CSV import: parsing and row validation used by the upload API.
+ * Everything here is pure so the route can validate a whole file before it
+ * writes anything to the database.
+ */
+
+import { ColumnMapping, applyColumnMapping } from './columnMapping';
+import { parseCSV } from './csv';
+import { SpeciesLookup, SpeciesSuggestion, resolveSpecies, suggestSpecies } from './speciesMatching';
+
+export interface MetabarcodeCSVRow {
+  sample_id: string;
+  start_name: string;
+  start_point: string;
+  end_name: string;
+  end_point: string;
+  species: string;
+  read_count: string;
+  collection_date: string;
+  total_reads?: string; // optional library totals, repeated on every row of the sample
+  fungal_reads?: string;
+  sample_type?: string; // blank for field samples; see parseSampleType
+  sequencing_run?: string;
+}
+
+export type ControlType = 'extraction_blank' | 'negative_control' | 'positive_control';
+
+// Field samples become sampling routes; controls are stored against their sequencing run
+export type SampleType = 'field' | ControlType;
+
+export type DecontaminationMode = 'subtract' | 'flag';
+
+export const CONTROL_TYPE_LABELS: Record<ControlType, string> = {
+  extraction_blank: 'Extraction blank',
+  negative_control: 'Negative control',
+  positive_control: 'Positive control',
+};
+
+export const DECONTAMINATION_MODE_LABELS: Record<DecontaminationMode, string> = {
+  subtract: 'Subtract blank reads',
+  flag: 'Flag detections at or under the blank',
+};
+
+export function isDecontaminationMode(value: unknown): value is DecontaminationMode {
+  return typeof value === 'string' && Object.hasOwn(DECONTAMINATION_MODE_LABELS, value);
+}
+
+// Day/month order of non-ISO collection dates
+export type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+export interface ParsedMetabarcodeRow {
+  line: number; // 1-based line number in the source file
+  values: MetabarcodeCSVRow;
+}
+
+export interface RowReport {
+  line: number;
+  sampleId: string;
+  species: string;
+  status: 'ok' | 'error';
+  message?: string;
+  suggestions?: SpeciesSuggestion[]; // closest known species when the species is unknown
+}
+
+export interface MetabarcodeImportReport {
+  success: boolean;
+  message: string;
+  batchId?: string; // set when the import was committed; used to roll it back
+  routesCreated: number;
+  detectionsWritten: number;
+  controlsWritten?: number;
+  rows: RowReport[];
+  notes?: string[]; // informational, e.g. taxa a BIOM import skipped
+}
+
+export interface ValidatedDetection {
+  pathogen_species_id: string;
+  species: string;
+  read_count: number;
+}
+
+export interface ValidatedSample {
+  sample_id: string;
+  start_name: string;
+  end_name: string;
+  start_latitude: number;
+  start_longitude: number;
+  end_latitude: number;
+  end_longitude: number;
+  collection_date: string;
+  total_reads: number | null; // reads in the whole library, when the file reports it
+  fungal_reads: number | null; // reads classified as fungal, when the file reports it
+  sequencing_run: string | null;
+  detections: ValidatedDetection[];
+}
+
+export interface ValidatedControl {
+  control_id: string;
+  control_type: ControlType;
+  sequencing_run: string;
+  detections: ValidatedDetection[];
+}
+
+export interface DetectionChange {
+  species: string;
+  oldReadCount: number | null; // null when the route has no detection for this species yet
+  newReadCount: number;
+  change: 'add' | 'update' | 'unchanged';
+}
+
+export interface SamplePreview {
+  sampleId: string;
+  action: 'create' | 'update';
+  totalReads: number | null;
+  fungalReads: number | null;
+  detections: DetectionChange[];
+}
+
+export interface ControlPreview {
+  controlId: string;
+  controlType: ControlType;
+  sequencingRun: string;
+  detections: number;
+}
+
+export interface MetabarcodePreview {
+  samples: SamplePreview[];
+  controls?: ControlPreview[];
+  rows: RowReport[];
+  notes?: string[];
+}
+
+// Input formats accepted by the metabarcode upload route
+export type MetabarcodeUploadFormat = 'csv' | 'biom' | 'kraken';
+
+const METABARCODE_UPLOAD_FORMATS: MetabarcodeUploadFormat[] = ['csv', 'biom', 'kraken'];
+
+export function isMetabarcodeUploadFormat(value: unknown): value is MetabarcodeUploadFormat {
+  return typeof value === 'string' && (METABARCODE_UPLOAD_FORMATS as string[]).includes(value);
+}
+
+// Output of the BIOM and Kraken converters: long-format rows ready for validateMetabarcodeRows
+export interface MetabarcodeConversionResult {
+  rows: ParsedMetabarcodeRow[];
+  errors: RowReport[];
+  notes: string[];
+}
+
+export const REQUIRED_COLUMNS: Array<keyof MetabarcodeCSVRow> = [
+  'sample_id',
+  'start_name',
+  'start_point',
+  'end_name',
+  'end_point',
+  'species',
+  'read_count',
+  'collection_date',
+];
+
+/**
+ * Parse the CSV into rows keyed by header name, or reshaped through a column
+ * mapping when the sheet uses its own layout. Malformed records are returned
+ * as row errors so they show up in the upload report.
+ */
+export function parseMetabarcodeCSV(text: string, mapping?: ColumnMapping | null): {
+  headers: string[];
+  rows: ParsedMetabarcodeRow[];
+  errors: RowReport[];
+} {
+  const { headers, records, errors } = parseCSV(text);
+
+  return {
+    headers,
+    rows: mapping
+      ? applyColumnMapping(records, mapping)
+      : records.map(record => ({
+          line: record.line,
+          values: record.values as unknown as MetabarcodeCSVRow,
+        })),
+    errors: errors.map(error => ({
+      line: error.line,
+      sampleId: '',
+      species: '',
+      status: 'error' as const,
+      message: error.message,
+    })),
+  };
+}
+
+/**
+ * Parse a "lat, lng" pair such as "-31.95086, 115.86223"
+ */
+export function parseCoordinates(coordString: string): [number, number] | null {
+  const cleaned = coordString.replace(/["']/g, '').trim();
+  const parts = cleaned.split(',').map(p => parseFloat(p.trim()));
+  if (parts.length !== 2 || isNaN(parts[0]) || isNaN(parts[1])) return null;
+  if (Math.abs(parts[0]) > 90 || Math.abs(parts[1]) > 180) return null;
+  return [parts[0], parts[1]];
+}
+
+/**
+ * Parse a date into YYYY-MM-DD, or null if it is not a real date.
+ * ISO dates (optionally with a time) are always accepted; other dates are read
+ * in the given day/month order, with "/", "." or "-" separators.
+ */
+export function parseDate(dateString: string, format: DateFormat = 'DD/MM/YYYY'): string | null {
+  const value = dateString.trim();
+  let year: string, month: string, day: string;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  if (iso) {
+    [, year, month, day] = iso;
+  } else {
+    const parts = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (!parts || format === 'YYYY-MM-DD') return null;
+    year = parts[3];
+    [day, month] = format === 'MM/DD/YYYY' ? [parts[2], parts[1]] : [parts[1], parts[2]];
+  }
+
+  const normalized = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const date = new Date(`${normalized}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== normalized) return null;
+  return normalized;
+}
+
+/**
+ * Parse an optional library read total; undefined when the value is not a
+ * non-negative integer
+ */
+function parseReadTotal(value: string | undefined): number | null | undefined {
+  if (!value?.trim()) return null;
+  const total = Number(value);
+  return Number.isInteger(total) && total >= 0 ? total : undefined;
+}
+
+// Spellings of control sample types seen in lab sheets, compared after lower-casing and dropping punctuation
+const SAMPLE_TYPE_ALIASES: Record<SampleType, string[]> = {
+  field: ['', 'field', 'sample', 'fieldsample'],
+  extraction_blank: ['extractionblank', 'blank', 'eb', 'extblank'],
+  negative_control: ['negativecontrol', 'negative', 'neg', 'ntc', 'pcrblank', 'pcrnegative'],
+  positive_control: ['positivecontrol', 'positive', 'pos', 'mock', 'mockcommunity', 'zymo'],
+};
+
+/**
+ * Read a sample_type value, or null when it is not a recognised type
+ */
+export function parseSampleType(value: string | undefined): SampleType | null {
+  const normalized = (value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  const match = (Object.entries(SAMPLE_TYPE_ALIASES) as Array<[SampleType, string[]]>)
+    .find(([, aliases]) => aliases.includes(normalized));
+  return match ? match[0] : null;
+}
+
+/**
+ * Validate every row and group the valid ones by sample.
+ * Route metadata (names, coordinates, date), library totals, sample type and
+ * sequencing run are taken from the first row of each sample. Control samples
+ * (blanks, negative and positive controls) need a sequencing run but no route;
+ * defaultRun applies to rows that do not name a run.
+ */
+export function validateMetabarcodeRows(
+  rows: ParsedMetabarcodeRow[],
+  speciesLookup: SpeciesLookup,
+  dateFormat?: DateFormat,
+  defaultRun?: string | null
+): { samples: ValidatedSample[]; controls: ValidatedControl[]; rows: RowReport[] } {
+  const samples = new Map<string, ValidatedSample | ValidatedControl>();
+  const invalidSamples = new Set<string>();
+  const report: RowReport[] = [];
+
+  for (const { line, values } of rows) {
+    const sampleId = values.sample_id?.trim() || '';
+    const species = values.species?.trim() || '';
+    const fail = (message: string) => {
+      report.push({ line, sampleId, species, status: 'error', message });
+    };
+
+    if (!sampleId) {
+      fail('Missing sample_id');
+      continue;
+    }
+
+    let sample = samples.get(sampleId);
+    if (!sample && !invalidSamples.has(sampleId)) {
+      const sampleType = parseSampleType(values.sample_type);
+      const sequencingRun = values.sequencing_run?.trim() || defaultRun?.trim() || null;
+
+      if (!sampleType) {
+        invalidSamples.add(sampleId);
+        fail(`Unknown sample type "${values.sample_type}"`);
+        continue;
+      }
+
+      if (sampleType !== 'field') {
+        if (!sequencingRun) {
+          invalidSamples.add(sampleId);
+          fail('Control samples need a sequencing run');
+          continue;
+        }
+        sample = { control_id: sampleId, control_type: sampleType, sequencing_run: sequencingRun, detections: [] };
+        samples.set(sampleId, sample);
+      } else {
+        const startCoords = parseCoordinates(values.start_point || '');
+        const endCoords = parseCoordinates(values.end_point || '');
+        const collectionDate = parseDate(values.collection_date || '', dateFormat);
+        const totalReads = parseReadTotal(values.total_reads);
+        const fungalReads = parseReadTotal(values.fungal_reads);
+
+        if (!startCoords || !endCoords) {
+          invalidSamples.add(sampleId);
+          fail('Invalid coordinates');
+          continue;
+        }
+        if (!collectionDate) {
+          invalidSamples.add(sampleId);
+          fail(`Invalid collection date "${values.collection_date}"`);
+          continue;
+        }
+        if (totalReads === undefined || fungalReads === undefined) {
+          invalidSamples.add(sampleId);
+          fail(`Invalid library total "${totalReads === undefined ? values.total_reads : values.fungal_reads}"`);
+          continue;
+        }
+        if (totalReads !== null && fungalReads !== null && fungalReads > totalReads) {
+          invalidSamples.add(sampleId);
+          fail('Fungal reads exceed total reads');
+          continue;
+        }
+
+        sample = {
+          sample_id: sampleId,
+          start_name: values.start_name?.trim() || '',
+          end_name: values.end_name?.trim() || '',
+          start_latitude: startCoords[0],
+          start_longitude: startCoords[1],
+          end_latitude: endCoords[0],
+          end_longitude: endCoords[1],
+          collection_date: collectionDate,
+          total_reads: totalReads,
+          fungal_reads: fungalReads,
+          sequencing_run: sequencingRun,
+          detections: [],
+        };
+        samples.set(sampleId, sample);
+      }
+    }
+
+    if (!sample) {
+      fail('Sample has invalid route data (see its first row)');
+      continue;
+    }
+
+    const readCount = Number(values.read_count);
+    if (!values.read_count?.trim() || !Number.isInteger(readCount) || readCount < 0) {
+      fail(`Invalid read count "${values.read_count}"`);
+      continue;
+    }
+
+    const match = resolveSpecies(species, speciesLookup);
+    if (!match && 'control_id' in sample) {
+      // Mock communities and blanks carry taxa that are not monitored; only pathogens matter for decontamination
+      report.push({ line, sampleId, species, status: 'ok', message: 'Not a monitored species; skipped for this control' });
+      continue;
+    }
+    if (!match) {
+      report.push({
+        line,
+        sampleId,
+        species,
+        status: 'error',
+        message: `Unknown species ${species}`,
+        suggestions: suggestSpecies(species, speciesLookup),
+      });
+      continue;
+    }
+
+    if (sample.detections.some(d => d.pathogen_species_id === match.id)) {
+      fail(`Duplicate species ${match.speciesName} for sample`);
+      continue;
+    }
+
+    sample.detections.push({ pathogen_species_id: match.id, species: match.speciesName, read_count: readCount });
+    report.push({ line, sampleId, species, status: 'ok' });
+  }
+
+  const validated = Array.from(samples.values());
+  return {
+    samples: validated.filter((sample): sample is ValidatedSample => 'sample_id' in sample),
+    controls: validated.filter((sample): sample is ValidatedControl => 'control_id' in sample),
+    rows: report,
+  };
+}
+
+/**
+ * Describe what importing the validated samples would do, without writing anything.
+ * existingRoutes maps sample_id to route id; existingReadCounts maps route id to
+ * its current read counts keyed by pathogen_species_id.
+ */
+export function buildMetabarcodePreview(
+  samples: ValidatedSample[],
+  existingRoutes: Map<string, string>,
+  existingReadCounts: Map<string, Map<string, number>>
+): SamplePreview[] {
+  return samples.map(sample => {
+    const routeId = existingRoutes.get(sample.sample_id);
+    const current = routeId ? existingReadCounts.get(routeId) : undefined;
+
+    return {
+      sampleId: sample.sample_id,
+      action: routeId ? 'update' : 'create',
+      totalReads: sample.total_reads,
+      fungalReads: sample.fungal_reads,
+      detections: sample.detections.map(detection => {
+        const oldReadCount = current?.get(detection.pathogen_species_id) ?? null;
+        return {
+          species: detection.species,
+          oldReadCount,
+          newReadCount: detection.read_count,
+          change: oldReadCount === null
+            ? 'add'
+            : oldReadCount === detection.read_count ? 'unchanged' : 'update',
+        };
+      }),
+    };
+  });
+}
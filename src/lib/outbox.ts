@@ -0,0 +1,211 @@
+/**
+ * Outbox for completed field samples. A sample is written to IndexedDB before
+ * it is uploaded, so closing the tab or losing signal at the end of a run
+ * cannot lose it. Queued samples are retried when the browser comes back
+ * online, by the page and by the service worker's background sync (public/sw.js,
+ * which reads the same database and must be kept in step with this file).
+ */
+
+export type OutboxStatus =
+  | 'pending'  // waiting for a connection or a retry
+  | 'failed';  // rejected by the server; needs the sampler's attention
+
+export interface OutboxEntry {
+  id: string;
+  sampleId: string;
+  body: Record<string, unknown>; // POST /api/samples payload
+  pointCount: number;
+  queuedAt: number;
+  attempts: number;
+  status: OutboxStatus;
+  lastError: string | null;
+}
+
+export type UploadResult =
+  | { outcome: 'uploaded' }
+  | { outcome: 'pending' | 'failed'; error: string };
+
+const DB_NAME = 'spore-outbox';
+const DB_VERSION = 1;
+const STORE = 'samples';
+const LOCK_NAME = 'sample-outbox';
+
+export const OUTBOX_SYNC_TAG = 'sample-outbox';
+export const OUTBOX_CHANGED = 'outbox-changed';
+
+function openOutbox(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openOutbox();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = action(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const notifyChanged = () => window.dispatchEvent(new Event(OUTBOX_CHANGED));
+
+const putEntry = (entry: OutboxEntry) => withStore('readwrite', store => store.put(entry));
+
+const getEntry = (id: string) => withStore<OutboxEntry | undefined>('readonly', store => store.get(id));
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function queueSample(body: Record<string, unknown> & { sampleId: string }): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    sampleId: body.sampleId,
+    body,
+    pointCount: Array.isArray(body.trackingPoints) ? body.trackingPoints.length : 0,
+    queuedAt: Date.now(),
+    attempts: 0,
+    status: 'pending',
+    lastError: null,
+  };
+
+  await putEntry(entry);
+  notifyChanged();
+  await requestBackgroundSync();
+  return entry;
+}
+
+export async function discardQueuedSample(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  notifyChanged();
+}
+
+/**
+ * Give a rejected sample a new ID (e.g. when its ID was used meanwhile) and queue it again
+ */
+export async function renameQueuedSample(id: string, sampleId: string): Promise<void> {
+  const entry = await getEntry(id);
+  if (!entry) return;
+
+  await putEntry({ ...entry, sampleId, body: { ...entry.body, sampleId }, status: 'pending', lastError: null });
+  notifyChanged();
+}
+
+// Serialise uploads between tabs and the service worker so a sample is never posted twice at once
+async function withOutboxLock<T>(action: () => Promise<T>): Promise<T> {
+  if (!navigator.locks) return action();
+  return navigator.locks.request(LOCK_NAME, action);
+}
+
+async function upload(id: string): Promise<UploadResult> {
+  // Another tab or the service worker may have uploaded it already
+  const entry = await getEntry(id);
+  if (!entry) return { outcome: 'uploaded' };
+
+  let result: UploadResult;
+  try {
+    const response = await fetch('/api/samples', {
+      method: 'POST',
+      // A retry after a lost response is recognised rather than rejected as a used ID
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': entry.id },
+      body: JSON.stringify(entry.body)
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (response.ok) {
+      result = { outcome: 'uploaded' };
+    } else if (response.status === 400 || response.status === 409) {
+      result = { outcome: 'failed', error: data.error || 'Sample was rejected' };
+    } else if (response.status === 401 || response.status === 403) {
+      result = { outcome: 'pending', error: 'Log in again to upload' };
+    } else {
+      result = { outcome: 'pending', error: data.error || `Server error (${response.status})` };
+    }
+  } catch {
+    result = { outcome: 'pending', error: 'No connection' };
+  }
+
+  if (result.outcome === 'uploaded') {
+    await withStore('readwrite', store => store.delete(id));
+  } else {
+    await putEntry({ ...entry, attempts: entry.attempts + 1, status: result.outcome, lastError: result.error });
+  }
+  return result;
+}
+
+export async function uploadQueuedSample(id: string): Promise<UploadResult> {
+  const result = await withOutboxLock(() => upload(id));
+  notifyChanged();
+  return result;
+}
+
+/**
+ * Retry every pending sample; failed ones wait until they are renamed
+ */
+export async function flushOutbox(): Promise<void> {
+  await withOutboxLock(async () => {
+    for (const entry of await listOutbox()) {
+      if (entry.status !== 'pending') continue;
+      const result = await upload(entry.id);
+      // Still offline: leave the rest for the next attempt
+      if (result.outcome === 'pending' && !navigator.onLine) break;
+    }
+  });
+  notifyChanged();
+}
+
+// Background sync is not in TypeScript's DOM types yet
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+/**
+ * Ask the service worker to upload the outbox once there is a connection,
+ * even if the page has been closed. Browsers without background sync rely on
+ * the page retrying when it comes back online.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) as SyncRegistration | undefined;
+    await registration?.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (syncError) {
+    console.log('Background sync not available:', syncError);
+  }
+}
+
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator) || process.env.NODE_ENV !== 'production') return;
+  navigator.serviceWorker.register('/sw.js').catch(registerError => {
+    console.error('Service worker registration failed:', registerError);
+  });
+}
+
+/**
+ * Call the listener whenever the outbox changes, in this tab or in the service worker
+ */
+export function onOutboxChange(listener: () => void): () => void {
+  const onMessage = (event: MessageEvent) => {
+    if (event.data?.type === OUTBOX_CHANGED) listener();
+  };
+
+  window.addEventListener(OUTBOX_CHANGED, listener);
+  navigator.serviceWorker?.addEventListener('message', onMessage);
+
+  return () => {
+    window.removeEventListener(OUTBOX_CHANGED, listener);
+    navigator.serviceWorker?.removeEventListener('message', onMessage);
+  };
+}
@@ -0,0 +1,167 @@
+import { createClient } from '@supabase/supabase-js';
+import { createHash, randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { sendEmail } from '@/lib/email';
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export type PasswordTokenPurpose = 'invite' | 'reset';
+
+const TOKEN_TTL_MS: Record<PasswordTokenPurpose, number> = {
+  invite: 7 * 24 * 60 * 60 * 1000,
+  reset: 60 * 60 * 1000,
+};
+
+/**
+ * Address of the app for links in emails. It comes from configuration, never
+ * from the request, whose Host header the sender controls.
+ */
+function appUrl(): string {
+  const url = process.env.APP_URL;
+  if (!url) throw new Error('APP_URL is not set');
+  return url.replace(/\/+$/, '');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a one-time token, replacing any unused one of the same purpose
+ */
+export async function createPasswordToken(
+  userId: string,
+  purpose: PasswordTokenPurpose,
+  createdBy: string | null = null
+): Promise<string> {
+  const { error: deleteError } = await supabaseAdmin
+    .from('password_tokens')
+    .delete()
+    .eq('user_id', userId)
+    .eq('purpose', purpose)
+    .is('used_at', null);
+
+  if (deleteError) throw deleteError;
+
+  const token = randomBytes(32).toString('hex');
+  const { error } = await supabaseAdmin.from('password_tokens').insert({
+    token_hash: hashToken(token),
+    user_id: userId,
+    purpose,
+    expires_at: new Date(Date.now() + TOKEN_TTL_MS[purpose]).toISOString(),
+    created_by: createdBy,
+  });
+
+  if (error) throw error;
+
+  return token;
+}
+
+/**
+ * The user a token was issued for, if it is unused and unexpired
+ */
+export async function findPasswordToken(
+  token: string
+): Promise<{ purpose: PasswordTokenPurpose; user: { id: string; email: string; full_name: string | null } } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('password_tokens')
+    .select('purpose, users(id, email, full_name, is_active)')
+    .eq('token_hash', hashToken(token))
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const user = (Array.isArray(data.users) ? data.users[0] : data.users) as unknown as
+    { id: string; email: string; full_name: string | null; is_active: boolean } | null;
+  if (!user || !user.is_active) return null;
+
+  return { purpose: data.purpose, user: { id: user.id, email: user.email, full_name: user.full_name } };
+}
+
+/**
+ * Spend a token. Returns the user id, or null if the token was already used,
+ * has expired or never existed. Marking it used is the check, so two requests
+ * racing with the same link cannot both succeed.
+ */
+export async function consumePasswordToken(token: string): Promise<{ userId: string; purpose: PasswordTokenPurpose } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('password_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('token_hash', hashToken(token))
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('user_id, purpose')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return { userId: data.user_id, purpose: data.purpose };
+}
+
+export async function setPassword(userId: string, password: string): Promise<void> {
+  const password_hash = await bcrypt.hash(password, 10);
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({ password_hash, password_set_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Invite a user to set their password
+ */
+export async function sendInvite(
+  user: { id: string; email: string; full_name: string | null },
+  invitedBy: { id: string; fullName: string | null; email: string }
+): Promise<void> {
+  const origin = appUrl();
+  const token = await createPasswordToken(user.id, 'invite', invitedBy.id);
+  const link = `${origin}/reset-password?token=${token}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'You have been invited to spore.net',
+    text: [
+      `Hello${user.full_name ? ` ${user.full_name}` : ''},`,
+      '',
+      `${invitedBy.fullName || invitedBy.email} has invited you to spore.net. Choose a password to activate your account:`,
+      '',
+      link,
+      '',
+      'This link can be used once and expires in 7 days.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Email a password reset link
+ */
+export async function sendPasswordReset(
+  user: { id: string; email: string; full_name: string | null }
+): Promise<void> {
+  const origin = appUrl();
+  const token = await createPasswordToken(user.id, 'reset');
+  const link = `${origin}/reset-password?token=${token}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Reset your spore.net password',
+    text: [
+      `Hello${user.full_name ? ` ${user.full_name}` : ''},`,
+      '',
+      'Someone asked to reset the password for your spore.net account. To choose a new one, open:',
+      '',
+      link,
+      '',
+      'This link can be used once and expires in 1 hour. If you did not ask for a reset, you can ignore this email.',
+    ].join('\n'),
+  });
+}
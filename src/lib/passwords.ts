@@ -0,0 +1,19 @@
+/**
+ * Password rules shared by the set, change and reset forms and their API routes
+ */
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Why a new password is not acceptable, or null if it is
+ */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (new TextEncoder().encode(password).length > 72) {
+    // bcrypt ignores everything after the 72nd byte
+    return 'Password is too long';
+  }
+  return null;
+}
@@ -0,0 +1,73 @@
+import { createClient } from '@supabase/supabase-js';
+import { UserRole } from './apiAuth';
+import {
+  SAMPLE_ID_CHARACTERS,
+  SAMPLE_ID_SCHEME_COLUMNS,
+  SampleIdCheck,
+  SampleIdScheme,
+  matchesAnyScheme,
+} from './sampleIds';
+
+// Server-only: sample ID checks shared by the sample-ids and samples routes
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function loadSampleIdSchemes(): Promise<SampleIdScheme[]> {
+  const { data, error } = await supabaseAdmin
+    .from('sample_id_schemes')
+    .select(SAMPLE_ID_SCHEME_COLUMNS)
+    .order('starts_on', { ascending: false });
+
+  if (error) throw error;
+  return data as SampleIdScheme[];
+}
+
+/**
+ * Whether a sample ID may be recorded by a user. IDs the server issued
+ * (labels and reservations) are always accepted until used, except that a
+ * reservation only holds for the sampler it was made for (and admins); other
+ * IDs must fit one of the season patterns.
+ */
+export async function checkSampleId(sampleId: string, user: { id: string; role: UserRole }): Promise<SampleIdCheck> {
+  const result = (status: SampleIdCheck['status'], message: string, reservedBy: string | null = null): SampleIdCheck =>
+    ({ sampleId, status, message, reservedBy });
+
+  if (!SAMPLE_ID_CHARACTERS.test(sampleId)) {
+    return result('malformed', 'Sample IDs may only contain letters, digits, "_", "-" and "." (at most 50 characters)');
+  }
+
+  const [{ data: route, error: routeError }, { data: issued, error: issuedError }] = await Promise.all([
+    supabaseAdmin.from('sampling_routes').select('id').eq('sample_id', sampleId).maybeSingle(),
+    supabaseAdmin.from('sample_labels').select('used_at, reserved_by').eq('sample_id', sampleId).maybeSingle(),
+  ]);
+
+  if (routeError) throw routeError;
+  if (issuedError) throw issuedError;
+
+  if (route || issued?.used_at) {
+    return result('used', `Sample ID ${sampleId} has already been used`);
+  }
+
+  if (issued?.reserved_by && issued.reserved_by !== user.id && user.role !== 'admin') {
+    return result('reserved', `Sample ID ${sampleId} is reserved for another sampler`, issued.reserved_by);
+  }
+
+  if (issued) {
+    return result(
+      'issued',
+      issued.reserved_by ? 'Reserved sample ID, not yet used' : 'Issued label, not yet used',
+      issued.reserved_by
+    );
+  }
+
+  const schemes = await loadSampleIdSchemes();
+  if (schemes.length > 0 && !matchesAnyScheme(sampleId, schemes)) {
+    const patterns = schemes.map(scheme => `${scheme.pattern} (${scheme.season})`).join(', ');
+    return result('malformed', `Sample ID ${sampleId} does not match any season's ID pattern: ${patterns}`);
+  }
+
+  return result('unissued', 'Valid sample ID, not issued as a label or reservation');
+}
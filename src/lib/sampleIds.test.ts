@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SampleIdScheme,
+  formatSampleId,
+  matchesAnyScheme,
+  parseSchemeFields,
+  schemeForDate,
+  schemeIdPattern,
+  validateIdPattern,
+} from './sampleIds';
+
+const scheme = (pattern: string, season = '2026', starts_on = '2026-03-01', ends_on = '2026-10-31'): SampleIdScheme => ({
+  id: `${season}-${pattern}`,
+  season,
+  pattern,
+  starts_on,
+  ends_on,
+  next_seq: 1,
+  created_at: '2026-01-01T00:00:00Z',
+});
+
+describe('formatSampleId', () => {
+  it('fills in the year, season and padded sequence', () => {
+    expect(formatSampleId(scheme('{YY}_{seq:02}'), 1)).toBe('26_01');
+    expect(formatSampleId(scheme('{YY}_{seq:02}'), 100)).toBe('26_100');
+    expect(formatSampleId(scheme('{YYYY}-{season}-{seq}', 'spring'), 7)).toBe('2026-spring-7');
+  });
+
+  it('takes the year from the season start', () => {
+    expect(formatSampleId(scheme('W{YY}{seq:03}', 'winter', '2026-11-01', '2027-02-28'), 12)).toBe('W26012');
+  });
+});
+
+describe('schemeIdPattern', () => {
+  it('matches the IDs the scheme produces', () => {
+    const pattern = schemeIdPattern(scheme('{YY}_{seq:02}'));
+
+    expect(pattern.test('26_01')).toBe(true);
+    expect(pattern.test('26_99')).toBe(true);
+    expect(pattern.test('26_100')).toBe(true);
+  });
+
+  it('rejects IDs from other years or with the wrong padding', () => {
+    const pattern = schemeIdPattern(scheme('{YY}_{seq:02}'));
+
+    expect(pattern.test('25_01')).toBe(false);
+    expect(pattern.test('26_1')).toBe(false);
+    expect(pattern.test('26_010')).toBe(false);
+    expect(pattern.test('x26_01')).toBe(false);
+  });
+
+  it('requires unpadded sequences to start with a non-zero digit', () => {
+    const pattern = schemeIdPattern(scheme('S{seq}'));
+
+    expect(pattern.test('S1')).toBe(true);
+    expect(pattern.test('S120')).toBe(true);
+    expect(pattern.test('S01')).toBe(false);
+    expect(pattern.test('S')).toBe(false);
+  });
+
+  it('treats dots in the pattern and season as literal characters', () => {
+    const pattern = schemeIdPattern(scheme('{season}.{seq:02}', 'sp.a'));
+
+    expect(pattern.test('sp.a.03')).toBe(true);
+    expect(pattern.test('spXa.03')).toBe(false);
+    expect(pattern.test('sp.aX03')).toBe(false);
+  });
+
+  it('round-trips formatSampleId', () => {
+    const patternScheme = scheme('{YYYY}-{season}-{seq:04}', 'autumn');
+    const pattern = schemeIdPattern(patternScheme);
+
+    for (const seq of [1, 42, 9999, 10000]) {
+      expect(pattern.test(formatSampleId(patternScheme, seq))).toBe(true);
+    }
+  });
+});
+
+describe('matchesAnyScheme', () => {
+  it('accepts an ID that fits any season', () => {
+    const schemes = [scheme('{YY}_{seq:02}'), scheme('W{YY}{seq:03}', 'winter', '2026-11-01', '2027-02-28')];
+
+    expect(matchesAnyScheme('26_05', schemes)).toBe(true);
+    expect(matchesAnyScheme('W26005', schemes)).toBe(true);
+    expect(matchesAnyScheme('W27005', schemes)).toBe(false);
+    expect(matchesAnyScheme('26_05', [])).toBe(false);
+  });
+});
+
+describe('schemeForDate', () => {
+  const spring = scheme('SP{seq}', 'spring', '2026-03-01', '2026-05-31');
+  const summer = scheme('SU{seq}', 'summer', '2026-05-15', '2026-08-31');
+
+  it('picks the season covering the date, inclusive of its ends', () => {
+    expect(schemeForDate([spring, summer], new Date('2026-03-01T12:00:00Z'))).toBe(spring);
+    expect(schemeForDate([spring, summer], new Date('2026-08-31T12:00:00Z'))).toBe(summer);
+  });
+
+  it('prefers the latest start when seasons overlap', () => {
+    expect(schemeForDate([spring, summer], new Date('2026-05-20T12:00:00Z'))).toBe(summer);
+  });
+
+  it('returns null outside every season', () => {
+    expect(schemeForDate([spring, summer], new Date('2026-12-01T12:00:00Z'))).toBeNull();
+  });
+});
+
+describe('validateIdPattern', () => {
+  it('accepts patterns with one sequence token', () => {
+    expect(validateIdPattern('{YY}_{seq:02}')).toBeNull();
+    expect(validateIdPattern('{YYYY}-{season}.{seq}')).toBeNull();
+  });
+
+  it('explains what is wrong with a pattern', () => {
+    expect(validateIdPattern('  ')).toBe('Pattern is required');
+    expect(validateIdPattern('{YY}')).toBe('Pattern must contain exactly one {seq} or {seq:N} token');
+    expect(validateIdPattern('{seq}{seq:2}')).toBe('Pattern must contain exactly one {seq} or {seq:N} token');
+    expect(validateIdPattern('{seq:0}')).toBe('Sequence width must be from 1 to 9 digits');
+    expect(validateIdPattern('{MM}{seq}')).toBe('Unknown token; use {YYYY}, {YY}, {season}, {seq} or {seq:N}');
+    expect(validateIdPattern('A B{seq}')).toBe('Pattern may only contain letters, digits, "_", "-" and "." besides tokens');
+  });
+});
+
+describe('parseSchemeFields', () => {
+  const body = { season: ' 2026 ', pattern: '{YY}_{seq:02}', starts_on: '2026-03-01', ends_on: '2026-10-31' };
+
+  it('returns the trimmed fields of a complete scheme', () => {
+    expect(parseSchemeFields(body)).toEqual({
+      fields: { season: '2026', pattern: '{YY}_{seq:02}', starts_on: '2026-03-01', ends_on: '2026-10-31' },
+    });
+  });
+
+  it('requires every field unless partial', () => {
+    expect(parseSchemeFields({ ...body, season: undefined })).toEqual({
+      error: 'Season must be 1-20 letters, digits, "_", "-" or "."',
+    });
+    expect(parseSchemeFields({ ends_on: '2026-11-30' }, true)).toEqual({ fields: { ends_on: '2026-11-30' } });
+  });
+
+  it('rejects bad patterns, dates and reversed seasons', () => {
+    expect(parseSchemeFields({ ...body, pattern: '{YY}' })).toEqual({
+      error: 'Pattern must contain exactly one {seq} or {seq:N} token',
+    });
+    expect(parseSchemeFields({ ...body, starts_on: '01/03/2026' })).toEqual({ error: 'Start date must be YYYY-MM-DD' });
+    expect(parseSchemeFields({ ...body, ends_on: '2026-02-30x' })).toEqual({ error: 'End date must be YYYY-MM-DD' });
+    expect(parseSchemeFields({ ...body, ends_on: '2026-02-01' })).toEqual({
+      error: 'End date must not be before the start date',
+    });
+  });
+});
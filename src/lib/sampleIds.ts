@@ -0,0 +1,161 @@
+/**
+ * Sample ID schemes: one pattern per season, built from tokens
+ *   {YYYY}, {YY}   year the season starts in
+ *   {season}       the season name
+ *   {seq}, {seq:N} running number, zero-padded to N digits
+ * e.g. "{YY}_{seq:02}" gives 26_01, 26_02, ... 26_100. IDs are allocated by
+ * the server (allocate_sample_ids, which formats them the same way as
+ * formatSampleId below) and checked against the schemes when a sample is saved.
+ */
+
+export interface SampleIdScheme {
+  id: string;
+  season: string;
+  pattern: string;
+  starts_on: string; // YYYY-MM-DD
+  ends_on: string;
+  next_seq: number;
+  created_at: string;
+}
+
+export type SampleIdStatus =
+  | 'issued'    // allocated as a label or reservation and not yet used
+  | 'reserved'  // reserved for another sampler and not yet used
+  | 'unissued'  // fits a scheme (or the legacy character set) but was never allocated
+  | 'used'      // a route has already been recorded under this ID
+  | 'malformed';
+
+export interface SampleIdCheck {
+  sampleId: string;
+  status: SampleIdStatus;
+  message: string;
+  reservedBy: string | null; // user ID holding the reservation, when reserved
+}
+
+export const SAMPLE_ID_SCHEME_COLUMNS = 'id, season, pattern, starts_on, ends_on, next_seq, created_at';
+
+export const MAX_RESERVATIONS = 20;
+
+// IDs recorded before schemes existed, and the characters any ID may use
+export const SAMPLE_ID_CHARACTERS = /^[A-Za-z0-9_.-]{1,50}$/;
+
+const TOKEN = /\{(YYYY|YY|season|seq(?::(\d+))?)\}/g;
+const LITERAL = /^[A-Za-z0-9_.-]*$/;
+
+/**
+ * Why a pattern is unusable, or null if it is fine
+ */
+export function validateIdPattern(pattern: string): string | null {
+  if (!pattern.trim()) return 'Pattern is required';
+  if (pattern.length > 100) return 'Pattern must be at most 100 characters';
+
+  const seqTokens = pattern.match(/\{seq(?::\d+)?\}/g) ?? [];
+  if (seqTokens.length !== 1) return 'Pattern must contain exactly one {seq} or {seq:N} token';
+  const width = Number(seqTokens[0].match(/\d+/)?.[0] ?? 1);
+  if (width < 1 || width > 9) return 'Sequence width must be from 1 to 9 digits';
+
+  const literals = pattern.replace(TOKEN, '');
+  if (literals.includes('{') || literals.includes('}')) {
+    return 'Unknown token; use {YYYY}, {YY}, {season}, {seq} or {seq:N}';
+  }
+  if (!LITERAL.test(literals)) return 'Pattern may only contain letters, digits, "_", "-" and "." besides tokens';
+
+  return null;
+}
+
+const yearOf = (scheme: Pick<SampleIdScheme, 'starts_on'>) => Number(scheme.starts_on.slice(0, 4));
+
+export function formatSampleId(scheme: Pick<SampleIdScheme, 'pattern' | 'season' | 'starts_on'>, seq: number): string {
+  const year = yearOf(scheme);
+  return scheme.pattern.replace(TOKEN, (_token, name: string, width?: string) => {
+    if (name === 'YYYY') return String(year);
+    if (name === 'YY') return String(year % 100).padStart(2, '0');
+    if (name === 'season') return scheme.season;
+    return String(seq).padStart(Number(width ?? 1), '0');
+  });
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regular expression matching exactly the IDs a scheme produces
+ */
+export function schemeIdPattern(scheme: Pick<SampleIdScheme, 'pattern' | 'season' | 'starts_on'>): RegExp {
+  const year = yearOf(scheme);
+  let source = '';
+  let last = 0;
+
+  for (const match of scheme.pattern.matchAll(TOKEN)) {
+    source += escapeRegExp(scheme.pattern.slice(last, match.index));
+    const [, name, width] = match;
+    if (name === 'YYYY') source += String(year);
+    else if (name === 'YY') source += String(year % 100).padStart(2, '0');
+    else if (name === 'season') source += escapeRegExp(scheme.season);
+    // Padded numbers grow past their width once the sequence outgrows it
+    else source += width ? `(?:\\d{${Number(width)}}|[1-9]\\d{${Number(width)},})` : '[1-9]\\d*';
+    last = (match.index ?? 0) + match[0].length;
+  }
+
+  return new RegExp(`^${source}${escapeRegExp(scheme.pattern.slice(last))}$`);
+}
+
+/**
+ * Scheme whose season covers a date (latest start wins if seasons overlap)
+ */
+export function schemeForDate(schemes: SampleIdScheme[], date: Date = new Date()): SampleIdScheme | null {
+  const day = date.toISOString().slice(0, 10);
+  return schemes
+    .filter(scheme => scheme.starts_on <= day && day <= scheme.ends_on)
+    .sort((a, b) => b.starts_on.localeCompare(a.starts_on))[0] ?? null;
+}
+
+export function matchesAnyScheme(sampleId: string, schemes: SampleIdScheme[]): boolean {
+  return schemes.some(scheme => schemeIdPattern(scheme).test(sampleId));
+}
+
+type SchemeFields = Pick<SampleIdScheme, 'season' | 'pattern' | 'starts_on' | 'ends_on'>;
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate the editable fields of a scheme from a request body. With
+ * `partial`, fields that are not sent are left out rather than required.
+ */
+export function parseSchemeFields(
+  value: unknown,
+  partial = false
+): { fields: Partial<SchemeFields> } | { error: string } {
+  const body = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const fields: Partial<SchemeFields> = {};
+  const text = (field: keyof SchemeFields) => typeof body[field] === 'string' ? (body[field] as string).trim() : '';
+
+  if (!partial || body.season !== undefined) {
+    const season = text('season');
+    if (!/^[A-Za-z0-9_.-]{1,20}$/.test(season)) {
+      return { error: 'Season must be 1-20 letters, digits, "_", "-" or "."' };
+    }
+    fields.season = season;
+  }
+
+  if (!partial || body.pattern !== undefined) {
+    const pattern = text('pattern');
+    const problem = validateIdPattern(pattern);
+    if (problem) return { error: problem };
+    fields.pattern = pattern;
+  }
+
+  for (const field of ['starts_on', 'ends_on'] as const) {
+    if (partial && body[field] === undefined) continue;
+    const date = text(field);
+    if (!DATE.test(date) || isNaN(new Date(date).getTime())) {
+      return { error: `${field === 'starts_on' ? 'Start' : 'End'} date must be YYYY-MM-DD` };
+    }
+    fields[field] = date;
+  }
+
+  if (fields.starts_on && fields.ends_on && fields.ends_on < fields.starts_on) {
+    return { error: 'End date must not be before the start date' };
+  }
+
+  return { fields };
+}
@@ -0,0 +1,24 @@
+/**
+ * Printed sample labels. IDs come from the season's scheme (see sampleIds);
+ * label QR codes carry a link to the sample page so any phone camera can open it;
+ * the collection form reads the ID back out of the link.
+ */
+
+export const MAX_LABELS_PER_BATCH = 210; // ten A4 sheets
+
+export function labelUrl(origin: string, sampleId: string): string {
+  return `${origin}/sample?id=${encodeURIComponent(sampleId)}`;
+}
+
+/**
+ * Sample ID from scanned label content: a sample page link or a bare ID
+ */
+export function parseScannedLabel(text: string): string {
+  const trimmed = text.trim();
+  try {
+    const url = new URL(trimmed);
+    return url.searchParams.get('id')?.trim() || trimmed;
+  } catch {
+    return trimmed;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Chain of custody for a sample, from collection in the field to results in
+ * the database. Samples move one stage at a time; stepping back one stage is
+ * allowed to correct a mistaken transition. The same rules are enforced by
+ * transition_sample_status in the database.
+ */
+
+export type SampleStatus =
+  | 'collected'
+  | 'dispatched'
+  | 'received'
+  | 'extracted'
+  | 'sequenced'
+  | 'results_loaded';
+
+export const SAMPLE_STATUSES: SampleStatus[] = [
+  'collected',
+  'dispatched',
+  'received',
+  'extracted',
+  'sequenced',
+  'results_loaded',
+];
+
+export const SAMPLE_STATUS_LABELS: Record<SampleStatus, string> = {
+  collected: 'Collected',
+  dispatched: 'Dispatched',
+  received: 'Received at lab',
+  extracted: 'DNA extracted',
+  sequenced: 'Sequenced',
+  results_loaded: 'Results loaded',
+};
+
+export const SAMPLE_STATUS_COLORS: Record<SampleStatus, string> = {
+  collected: 'bg-gray-100 text-gray-800',
+  dispatched: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-blue-100 text-blue-800',
+  extracted: 'bg-indigo-100 text-indigo-800',
+  sequenced: 'bg-purple-100 text-purple-800',
+  results_loaded: 'bg-green-100 text-green-800',
+};
+
+export interface SampleStatusTransition {
+  id: string;
+  route_id: string;
+  from_status: SampleStatus | null; // null for the transition recorded at collection
+  to_status: SampleStatus;
+  notes: string | null;
+  changed_at: string;
+  changed_by_user: { email: string; full_name: string | null } | null;
+}
+
+export function isSampleStatus(value: unknown): value is SampleStatus {
+  return SAMPLE_STATUSES.includes(value as SampleStatus);
+}
+
+export function nextStatus(status: SampleStatus): SampleStatus | null {
+  return SAMPLE_STATUSES[SAMPLE_STATUSES.indexOf(status) + 1] ?? null;
+}
+
+export function previousStatus(status: SampleStatus): SampleStatus | null {
+  return SAMPLE_STATUSES[SAMPLE_STATUSES.indexOf(status) - 1] ?? null;
+}
+
+export function isValidTransition(from: SampleStatus, to: SampleStatus): boolean {
+  return to === nextStatus(from) || to === previousStatus(from);
+}
+
+/**
+ * Whole days a sample has spent in its current stage
+ */
+export function daysInStatus(statusUpdatedAt: string, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - new Date(statusUpdatedAt).getTime()) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,56 @@
+/**
+ * Fields of a sampling route that can be entered or corrected by hand, for
+ * routes recorded without the collection form (historic samples) and for
+ * fixing names and coordinates afterwards.
+ */
+
+export interface RouteFields {
+  sample_id: string;
+  start_name: string;
+  end_name: string;
+  start_latitude: number;
+  start_longitude: number;
+  end_latitude: number;
+  end_longitude: number;
+  collection_date: string; // YYYY-MM-DD
+}
+
+const TEXT_FIELDS = ['sample_id', 'start_name', 'end_name'] as const;
+
+const COORDINATE_LIMITS: Record<'start_latitude' | 'start_longitude' | 'end_latitude' | 'end_longitude', number> = {
+  start_latitude: 90,
+  start_longitude: 180,
+  end_latitude: 90,
+  end_longitude: 180,
+};
+
+/**
+ * Check route fields received from a client; every field is required
+ */
+export function parseRouteFields(value: unknown): { fields: RouteFields } | { error: string } {
+  if (!value || typeof value !== 'object') return { error: 'Route fields are required' };
+  const body = value as Record<string, unknown>;
+  const fields: Partial<RouteFields> = {};
+
+  for (const field of TEXT_FIELDS) {
+    const text = typeof body[field] === 'string' ? (body[field] as string).trim() : '';
+    if (!text) return { error: `${field.replace('_', ' ')} is required` };
+    fields[field] = text;
+  }
+
+  for (const [field, limit] of Object.entries(COORDINATE_LIMITS) as Array<[keyof typeof COORDINATE_LIMITS, number]>) {
+    const coordinate = body[field];
+    if (typeof coordinate !== 'number' || !Number.isFinite(coordinate) || Math.abs(coordinate) > limit) {
+      return { error: `${field.replace('_', ' ')} must be a number between -${limit} and ${limit}` };
+    }
+    fields[field] = coordinate;
+  }
+
+  const date = body.collection_date;
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    return { error: 'collection date must be a date (YYYY-MM-DD)' };
+  }
+  fields.collection_date = date;
+
+  return { fields: fields as RouteFields };
+}
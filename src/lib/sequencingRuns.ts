@@ -0,0 +1,86 @@
+/**
+ * Sequencing run metadata: what produced a run's detections, so results can
+ * be re-analysed or discounted when a run, primer set or pipeline was bad.
+ */
+
+import type { DecontaminationMode } from './metabarcodeImport';
+
+export interface SequencingRunMetadata {
+  primer_set: string | null;       // e.g. ITS1, ITS2, ITS1-ITS2
+  platform: string | null;         // e.g. Illumina MiSeq, Oxford Nanopore MinION
+  pipeline_version: string | null; // bioinformatics pipeline and version, e.g. "QIIME2 2024.5"
+  run_date: string | null;         // YYYY-MM-DD
+  notes: string | null;
+}
+
+export interface SequencingRun extends SequencingRunMetadata {
+  id: string;
+  name: string;
+  decontamination_mode: DecontaminationMode;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export const SEQUENCING_RUN_COLUMNS =
+  'id, name, decontamination_mode, primer_set, platform, pipeline_version, run_date, notes, created_at, updated_at';
+
+// Offered as suggestions; other values are accepted
+export const PRIMER_SETS = ['ITS1', 'ITS2', 'ITS1-ITS2', 'ITS3-ITS4', 'LSU', '18S'];
+export const PLATFORMS = ['Illumina MiSeq', 'Illumina NextSeq', 'Illumina NovaSeq', 'Oxford Nanopore MinION', 'PacBio Sequel'];
+
+export const RUN_METADATA_LABELS: Record<keyof SequencingRunMetadata, string> = {
+  primer_set: 'Primer set',
+  platform: 'Platform',
+  pipeline_version: 'Pipeline version',
+  run_date: 'Run date',
+  notes: 'Notes',
+};
+
+const TEXT_LIMITS: Record<Exclude<keyof SequencingRunMetadata, 'run_date'>, number> = {
+  primer_set: 50,
+  platform: 100,
+  pipeline_version: 100,
+  notes: 2000,
+};
+
+/**
+ * Check run metadata received from a client. Only the fields present are
+ * returned, so a partial update leaves the others alone; empty strings clear
+ * a field.
+ */
+export function parseRunMetadata(
+  value: unknown
+): { metadata: Partial<SequencingRunMetadata> } | { error: string } {
+  if (!value || typeof value !== 'object') return { metadata: {} };
+  const body = value as Record<string, unknown>;
+  const metadata: Partial<SequencingRunMetadata> = {};
+
+  for (const [field, limit] of Object.entries(TEXT_LIMITS) as Array<[keyof typeof TEXT_LIMITS, number]>) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && typeof body[field] !== 'string') {
+      return { error: `${RUN_METADATA_LABELS[field]} must be text` };
+    }
+    const text = (body[field] as string | null)?.trim() || null;
+    if (text && text.length > limit) {
+      return { error: `${RUN_METADATA_LABELS[field]} must be at most ${limit} characters` };
+    }
+    metadata[field] = text;
+  }
+
+  if (body.run_date !== undefined) {
+    const date = typeof body.run_date === 'string' ? body.run_date.trim() : '';
+    if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime()))) {
+      return { error: 'Run date must be YYYY-MM-DD' };
+    }
+    metadata.run_date = date || null;
+  }
+
+  return { metadata };
+}
+
+/**
+ * One-line summary, e.g. "ITS2 · Illumina MiSeq · QIIME2 2024.5"
+ */
+export function describeRun(run: Partial<SequencingRunMetadata>): string {
+  return [run.primer_set, run.platform, run.pipeline_version].filter(Boolean).join(' · ');
+}
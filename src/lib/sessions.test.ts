@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+
+const { update } = vi.hoisted(() => ({ update: vi.fn() }));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => ({ update: (values: unknown) => ({ eq: () => update(values) }) }),
+  }),
+}));
+
+import {
+  SESSION_COOKIE,
+  SESSION_IDLE_TTL_MS,
+  SESSION_MAX_AGE_MS,
+  clearSessionCookie,
+  clientIp,
+  describeDevice,
+  setSessionCookie,
+  touchSession,
+} from './sessions';
+
+const NOW = Date.parse('2026-03-14T12:00:00.000Z');
+const ago = (ms: number) => new Date(NOW - ms).toISOString();
+
+describe('describeDevice', () => {
+  it('names the browser and OS', () => {
+    expect(describeDevice(
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Mobile Safari/537.36'
+    )).toBe('Chrome on Android');
+    expect(describeDevice(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iOS');
+    expect(describeDevice(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36 Edg/126.0'
+    )).toBe('Edge on Windows');
+  });
+
+  it('falls back to what it can tell', () => {
+    expect(describeDevice('Mozilla/5.0 (X11; Linux x86_64)')).toBe('Linux');
+    expect(describeDevice('curl/8.5.0')).toBe('Unknown device');
+    expect(describeDevice(null)).toBe('Unknown device');
+  });
+});
+
+describe('clientIp', () => {
+  it('takes the first forwarded address', () => {
+    const request = new NextRequest('http://localhost/', { headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' } });
+    expect(clientIp(request)).toBe('203.0.113.7');
+    expect(clientIp(new NextRequest('http://localhost/'))).toBeNull();
+  });
+});
+
+describe('touchSession', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    update.mockReset();
+    update.mockResolvedValue({ error: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('does not write for a session seen in the last few minutes', async () => {
+    const session = { created_at: ago(60 * 60 * 1000), last_seen_at: ago(60 * 1000), expires_at: ago(-1000) };
+    expect(await touchSession('token', session)).toEqual(new Date(session.expires_at));
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('slides the expiry a day past now', async () => {
+    const session = { created_at: ago(60 * 60 * 1000), last_seen_at: ago(10 * 60 * 1000), expires_at: ago(-1000) };
+    const expiresAt = await touchSession('token', session);
+    expect(expiresAt).toEqual(new Date(NOW + SESSION_IDLE_TTL_MS));
+    expect(update).toHaveBeenCalledWith({ expires_at: expiresAt.toISOString(), last_seen_at: new Date(NOW).toISOString() });
+  });
+
+  it('never extends a session past its maximum age', async () => {
+    const createdAt = ago(SESSION_MAX_AGE_MS - 60 * 60 * 1000);
+    const session = { created_at: createdAt, last_seen_at: ago(10 * 60 * 1000), expires_at: ago(-1000) };
+    expect(await touchSession('token', session)).toEqual(new Date(Date.parse(createdAt) + SESSION_MAX_AGE_MS));
+  });
+
+  it('keeps the old expiry when the write fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    update.mockResolvedValue({ error: { message: 'timeout' } });
+    const session = { created_at: ago(60 * 60 * 1000), last_seen_at: ago(10 * 60 * 1000), expires_at: ago(-1000) };
+    expect(await touchSession('token', session)).toEqual(new Date(session.expires_at));
+  });
+});
+
+describe('session cookies', () => {
+  it('sets an HTTP-only cookie with the session expiry', () => {
+    const response = NextResponse.json({});
+    const expiresAt = new Date(NOW + SESSION_IDLE_TTL_MS);
+    setSessionCookie(response, 'abc', expiresAt);
+
+    const cookie = response.cookies.get(SESSION_COOKIE);
+    expect(cookie).toMatchObject({ value: 'abc', httpOnly: true, sameSite: 'lax', path: '/' });
+    expect(cookie?.expires).toEqual(expiresAt);
+  });
+
+  it('clears the cookie by expiring it', () => {
+    const response = NextResponse.json({});
+    clearSessionCookie(response);
+    expect(response.cookies.get(SESSION_COOKIE)).toMatchObject({ value: '', expires: new Date(0) });
+  });
+});
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { randomBytes } from 'crypto';
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const SESSION_COOKIE = 'session';
+
+// A session expires after a day without use...
+export const SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000;
+// ...and a month after sign-in however often it is used
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Expiry and last-seen are written at most this often per session
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export function clientIp(request: NextRequest): string | null {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+}
+
+/**
+ * Short browser and OS description from a User-Agent header, e.g. "Chrome on Android"
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+
+  const os =
+    /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+function slidingExpiry(createdAt: string, now: number): Date {
+  return new Date(Math.min(now + SESSION_IDLE_TTL_MS, new Date(createdAt).getTime() + SESSION_MAX_AGE_MS));
+}
+
+/**
+ * Open a session for a user who has just signed in
+ */
+export async function createSession(userId: string, request: NextRequest): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_IDLE_TTL_MS);
+
+  const { error } = await supabaseAdmin.from('sessions').insert({
+    token,
+    user_id: userId,
+    expires_at: expiresAt.toISOString(),
+    user_agent: request.headers.get('user-agent'),
+    ip_address: clientIp(request),
+  });
+
+  if (error) throw error;
+
+  return { token, expiresAt };
+}
+
+/**
+ * Slide a session's expiry forward after a request made with it. Returns the
+ * expiry the session now has.
+ */
+export async function touchSession(
+  token: string,
+  session: { created_at: string; last_seen_at: string; expires_at: string }
+): Promise<Date> {
+  const now = Date.now();
+  if (now - new Date(session.last_seen_at).getTime() < SESSION_TOUCH_INTERVAL_MS) {
+    return new Date(session.expires_at);
+  }
+
+  const expiresAt = slidingExpiry(session.created_at, now);
+  const { error } = await supabaseAdmin
+    .from('sessions')
+    .update({ expires_at: expiresAt.toISOString(), last_seen_at: new Date(now).toISOString() })
+    .eq('token', token);
+
+  if (error) {
+    // The session stays valid until its old expiry
+    console.error('Error refreshing session:', error);
+    return new Date(session.expires_at);
+  }
+
+  return expiresAt;
+}
+
+/**
+ * Sign a user out everywhere, or everywhere but one session. Returns how many
+ * sessions were ended.
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  let query = supabaseAdmin
+    .from('sessions')
+    .delete()
+    .eq('user_id', userId);
+
+  if (exceptSessionId) {
+    query = query.neq('id', exceptSessionId);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) throw error;
+
+  return data?.length ?? 0;
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: expiresAt,
+    path: '/',
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  setSessionCookie(response, '', new Date(0));
+}
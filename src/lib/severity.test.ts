@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SEVERITY_THRESHOLDS,
+  SeverityMetric,
+  classifySeverity,
+  describeThresholds,
+  severityThresholds,
+  validateThresholds,
+} from './severity';
+
+const reads = { severity_metric: 'reads' as const, medium_threshold: 500, high_threshold: 2000 };
+const abundance = { severity_metric: 'abundance' as const, medium_threshold: 5, high_threshold: 20 };
+
+describe('classifySeverity', () => {
+  it('classifies strictly above read thresholds', () => {
+    expect(classifySeverity(500, null, reads)).toBe('low');
+    expect(classifySeverity(501, null, reads)).toBe('medium');
+    expect(classifySeverity(2000, null, reads)).toBe('medium');
+    expect(classifySeverity(2001, null, reads)).toBe('high');
+  });
+
+  it('classifies by relative abundance when the species uses it', () => {
+    expect(classifySeverity(10000, 4, abundance)).toBe('low');
+    expect(classifySeverity(10, 6, abundance)).toBe('medium');
+    expect(classifySeverity(10, 25, abundance)).toBe('high');
+  });
+
+  it('falls back to the default read rule for abundance thresholds without library totals', () => {
+    expect(classifySeverity(1500, null, abundance)).toBe('medium');
+    expect(classifySeverity(3500, null, abundance)).toBe('high');
+  });
+
+  it('uses the default read rule for species without thresholds', () => {
+    expect(classifySeverity(1000, null)).toBe('low');
+    expect(classifySeverity(1001, null, null)).toBe('medium');
+    expect(classifySeverity(3001, 0.1)).toBe('high');
+  });
+});
+
+describe('severityThresholds', () => {
+  it('reads thresholds from a species row, converting numeric strings', () => {
+    expect(severityThresholds({
+      severity_metric: 'abundance',
+      medium_threshold: '2.5' as unknown as number,
+      high_threshold: 10,
+    })).toEqual({ severity_metric: 'abundance', medium_threshold: 2.5, high_threshold: 10 });
+  });
+
+  it('is null when the thresholds were not selected', () => {
+    expect(severityThresholds(null)).toBeNull();
+    expect(severityThresholds({ severity_metric: 'reads' })).toBeNull();
+  });
+});
+
+describe('describeThresholds', () => {
+  it('describes read and abundance thresholds', () => {
+    expect(describeThresholds(reads)).toBe('medium > 500 reads, high > 2,000 reads');
+    expect(describeThresholds(abundance)).toBe('medium > 5%, high > 20%');
+  });
+});
+
+describe('validateThresholds', () => {
+  it('accepts the defaults and ordered thresholds', () => {
+    expect(validateThresholds(DEFAULT_SEVERITY_THRESHOLDS)).toBeNull();
+    expect(validateThresholds({ ...reads, high_threshold: 500 })).toBeNull();
+  });
+
+  it('explains what is wrong', () => {
+    expect(validateThresholds({ ...reads, medium_threshold: NaN })).toBe('Thresholds must be numbers');
+    expect(validateThresholds({ ...reads, medium_threshold: -1 })).toBe('Thresholds cannot be negative');
+    expect(validateThresholds({ ...reads, high_threshold: 100 })).toBe('High threshold must be at least the medium threshold');
+    expect(validateThresholds({ ...abundance, high_threshold: 150 })).toBe('Abundance thresholds are percentages (0-100)');
+  });
+
+  it('rejects unknown metrics, including inherited object keys', () => {
+    for (const metric of ['percent', 'toString', 'constructor']) {
+      expect(validateThresholds({ ...reads, severity_metric: metric as SeverityMetric })).toBe('Unknown severity metric');
+    }
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Detection severity from per-species thresholds set on the /pathogens page.
+ * Thresholds are in reads or in relative abundance (percent of the sample's
+ * library); the map, sample details and exports all classify through here.
+ * Two cut-offs give the three levels: low has no threshold of its own and
+ * covers everything at or below the medium threshold.
+ */
+
+export type SeverityLevel = 'low' | 'medium' | 'high';
+
+export type SeverityMetric = 'reads' | 'abundance';
+
+export interface SeverityThresholds {
+  severity_metric: SeverityMetric;
+  medium_threshold: number; // medium above
+  high_threshold: number; // high above
+}
+
+// Used for species without thresholds, and for abundance thresholds on samples with no library totals
+export const DEFAULT_SEVERITY_THRESHOLDS: SeverityThresholds = {
+  severity_metric: 'reads',
+  medium_threshold: 1000,
+  high_threshold: 3000,
+};
+
+export const SEVERITY_METRIC_LABELS: Record<SeverityMetric, string> = {
+  reads: 'Reads',
+  abundance: 'Relative abundance (%)',
+};
+
+export const SEVERITY_COLORS: Record<SeverityLevel, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Thresholds from a pathogen_species row or join, or null when they were not selected
+ */
+export function severityThresholds(species: Partial<SeverityThresholds> | null | undefined): SeverityThresholds | null {
+  if (!species?.severity_metric || species.medium_threshold === undefined || species.high_threshold === undefined) {
+    return null;
+  }
+  return {
+    severity_metric: species.severity_metric,
+    medium_threshold: Number(species.medium_threshold),
+    high_threshold: Number(species.high_threshold),
+  };
+}
+
+export function classifySeverity(
+  readCount: number,
+  relativeAbundance: number | null,
+  thresholds?: SeverityThresholds | null
+): SeverityLevel {
+  let applied = thresholds ?? DEFAULT_SEVERITY_THRESHOLDS;
+  if (applied.severity_metric === 'abundance' && relativeAbundance === null) {
+    applied = DEFAULT_SEVERITY_THRESHOLDS;
+  }
+
+  const value = applied.severity_metric === 'abundance' ? relativeAbundance ?? 0 : readCount;
+  if (value > applied.high_threshold) return 'high';
+  if (value > applied.medium_threshold) return 'medium';
+  return 'low';
+}
+
+/**
+ * Describe thresholds for display, e.g. "medium > 500 reads, high > 2,000 reads"
+ */
+export function describeThresholds(thresholds: SeverityThresholds): string {
+  const unit = (value: number) => thresholds.severity_metric === 'abundance'
+    ? `${value}%`
+    : `${value.toLocaleString()} reads`;
+  return `medium > ${unit(thresholds.medium_threshold)}, high > ${unit(thresholds.high_threshold)}`;
+}
+
+/**
+ * Check thresholds entered by an admin; returns an error message or null
+ */
+export function validateThresholds(thresholds: SeverityThresholds): string | null {
+  const { severity_metric, medium_threshold, high_threshold } = thresholds;
+  if (!Object.hasOwn(SEVERITY_METRIC_LABELS, severity_metric)) return 'Unknown severity metric';
+  if (!Number.isFinite(medium_threshold) || !Number.isFinite(high_threshold)) return 'Thresholds must be numbers';
+  if (medium_threshold < 0) return 'Thresholds cannot be negative';
+  if (high_threshold < medium_threshold) return 'High threshold must be at least the medium threshold';
+  if (severity_metric === 'abundance' && high_threshold > 100) return 'Abundance thresholds are percentages (0-100)';
+  return null;
+}
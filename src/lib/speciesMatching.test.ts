@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { buildSpeciesLookup, normalizeSpeciesName, resolveSpecies, suggestSpecies } from './speciesMatching';
+
+const species = [
+  { id: 'ps', species_name: 'Puccinia striiformis' },
+  { id: 'pt', species_name: 'Puccinia triticina' },
+  { id: 'zt', species_name: 'Zymoseptoria tritici' },
+];
+const synonyms = [
+  { pathogen_species_id: 'zt', synonym: 'Mycosphaerella graminicola' },
+  { pathogen_species_id: 'zt', synonym: 'Septoria tritici' },
+  // A synonym spelled like another species' canonical name loses to it
+  { pathogen_species_id: 'zt', synonym: 'Puccinia triticina' },
+  { pathogen_species_id: 'missing', synonym: 'Orphan name' },
+];
+
+const lookup = buildSpeciesLookup(species, synonyms);
+
+describe('normalizeSpeciesName', () => {
+  it('lower-cases, collapses whitespace and reads underscores as spaces', () => {
+    expect(normalizeSpeciesName('  Puccinia_striiformis ')).toBe('puccinia striiformis');
+    expect(normalizeSpeciesName('Puccinia   Striiformis')).toBe('puccinia striiformis');
+  });
+});
+
+describe('resolveSpecies', () => {
+  it('matches canonical names case-insensitively', () => {
+    expect(resolveSpecies('PUCCINIA STRIIFORMIS', lookup)).toEqual({ id: 'ps', speciesName: 'Puccinia striiformis' });
+  });
+
+  it('resolves synonyms to the canonical species', () => {
+    expect(resolveSpecies('Mycosphaerella_graminicola', lookup)).toEqual({ id: 'zt', speciesName: 'Zymoseptoria tritici' });
+  });
+
+  it('prefers a canonical name over a synonym spelled the same way', () => {
+    expect(resolveSpecies('Puccinia triticina', lookup)?.id).toBe('pt');
+  });
+
+  it('ignores synonyms of unknown species and unknown names', () => {
+    expect(resolveSpecies('Orphan name', lookup)).toBeNull();
+    expect(resolveSpecies('Fusarium graminearum', lookup)).toBeNull();
+  });
+});
+
+describe('suggestSpecies', () => {
+  it('suggests close spellings, best first', () => {
+    const [best] = suggestSpecies('Pucinia striiformis', lookup);
+
+    expect(best.pathogenSpeciesId).toBe('ps');
+    expect(best.score).toBeGreaterThan(0.9);
+  });
+
+  it('matches an abbreviated genus with the full epithet', () => {
+    expect(suggestSpecies('P. striiformis', lookup)[0]).toMatchObject({ pathogenSpeciesId: 'ps', score: 0.9 });
+  });
+
+  it('ignores trailing infraspecific ranks', () => {
+    expect(suggestSpecies('Puccinia striiformis f. sp. tritici', lookup)[0]).toMatchObject({
+      pathogenSpeciesId: 'ps',
+      matchedName: 'puccinia striiformis',
+      score: 0.95,
+    });
+  });
+
+  it('suggests through synonyms and names each species once', () => {
+    const suggestions = suggestSpecies('Septoria tritic', lookup);
+
+    expect(suggestions.filter(suggestion => suggestion.pathogenSpeciesId === 'zt')).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ speciesName: 'Zymoseptoria tritici', matchedName: 'septoria tritici' });
+  });
+
+  it('suggests nothing for unrelated names and respects the limit', () => {
+    expect(suggestSpecies('Fusarium graminearum', lookup)).toEqual([]);
+    expect(suggestSpecies('Puccinia tritic', lookup, 1)).toHaveLength(1);
+  });
+});
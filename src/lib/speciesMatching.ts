@@ -0,0 +1,127 @@
+/**
+ * Species name resolution shared by every importer. Names are matched
+ * case-insensitively against pathogen_species.species_name and
+ * pathogen_species_synonyms; names that still do not match get fuzzy
+ * suggestions an admin can accept as a new synonym.
+ */
+
+export interface SpeciesRecord {
+  id: string;
+  species_name: string;
+}
+
+export interface SpeciesSynonym {
+  pathogen_species_id: string;
+  synonym: string;
+}
+
+export interface SpeciesMatch {
+  id: string;
+  speciesName: string; // canonical pathogen_species.species_name
+}
+
+export interface SpeciesSuggestion {
+  pathogenSpeciesId: string;
+  speciesName: string;
+  matchedName: string; // the species name or synonym that was close
+  score: number; // 0-1, higher is closer
+}
+
+// Normalised species name or synonym -> canonical species
+export type SpeciesLookup = Map<string, SpeciesMatch>;
+
+const MIN_SUGGESTION_SCORE = 0.7;
+
+// Trailing infraspecific ranks, e.g. "f. sp. tritici", "var. avenae", "subsp. x"
+const INFRASPECIFIC = /\s+(f\.?\s*sp\.?|forma specialis|var\.?|subsp\.?|ssp\.?|f\.|pv\.?|strain|isolate)(\s.*)?$/;
+
+export function normalizeSpeciesName(name: string): string {
+  return name.replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function buildSpeciesLookup(species: SpeciesRecord[], synonyms: SpeciesSynonym[] = []): SpeciesLookup {
+  const lookup: SpeciesLookup = new Map();
+  const byId = new Map(species.map(s => [s.id, { id: s.id, speciesName: s.species_name }]));
+
+  for (const synonym of synonyms) {
+    const match = byId.get(synonym.pathogen_species_id);
+    if (match) lookup.set(normalizeSpeciesName(synonym.synonym), match);
+  }
+  // Canonical names win over a synonym spelled the same way
+  for (const match of byId.values()) {
+    lookup.set(normalizeSpeciesName(match.speciesName), match);
+  }
+
+  return lookup;
+}
+
+export function resolveSpecies(name: string, lookup: SpeciesLookup): SpeciesMatch | null {
+  return lookup.get(normalizeSpeciesName(name)) ?? null;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Score a known name against an unmatched one. Besides plain edit distance,
+ * "P. striiformis" matches on genus initial and epithet, and infraspecific
+ * ranks ("f. sp. tritici") are ignored.
+ */
+function scoreName(input: string, known: string): number {
+  const forms = [input, input.replace(INFRASPECIFIC, '')];
+  let best = 0;
+
+  for (const form of forms) {
+    const abbreviated = form.match(/^([a-z])\.\s*(\S+)$/);
+    const [genus, epithet] = known.split(' ');
+    if (abbreviated && genus?.startsWith(abbreviated[1]) && epithet === abbreviated[2]) {
+      best = Math.max(best, 0.9);
+    }
+    best = Math.max(best, form === known ? 0.95 : similarity(form, known));
+  }
+
+  return best;
+}
+
+/**
+ * Closest known species for an unmatched name, best first
+ */
+export function suggestSpecies(name: string, lookup: SpeciesLookup, limit = 3): SpeciesSuggestion[] {
+  const input = normalizeSpeciesName(name);
+  const bestBySpecies = new Map<string, SpeciesSuggestion>();
+
+  for (const [known, match] of lookup) {
+    const score = scoreName(input, known);
+    if (score < MIN_SUGGESTION_SCORE) continue;
+
+    const current = bestBySpecies.get(match.id);
+    if (!current || score > current.score) {
+      bestBySpecies.set(match.id, {
+        pathogenSpeciesId: match.id,
+        speciesName: match.speciesName,
+        matchedName: known,
+        score: Math.round(score * 100) / 100,
+      });
+    }
+  }
+
+  return [...bestBySpecies.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import { abundanceBasis, relativeAbundance } from './abundance';
+import { SeverityThresholds, classifySeverity, severityThresholds } from './severity';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -31,12 +33,17 @@ export interface DatabaseSample {
   end_longitude: number;
   collection_date: string;
   year: number;
+  total_reads: number | null;
+  fungal_reads: number | null;
   pathogen_detections: Array<{
     read_count: number;
+    corrected_read_count: number | null;
+    blank_read_count: number | null;
+    below_blank: boolean;
     pathogen_species: {
       species_name: string;
       common_name: string;
-    };
+    } & Partial<SeverityThresholds>;
   }>;
 }
 
@@ -44,6 +51,7 @@ export interface DatabaseSample {
 export function transformToAppFormat(dbSamples: DatabaseSample[]): import('@/data/sampleData').Sample[] {
   return dbSamples.map(row => ({
     id: row.sample_id,
+    routeId: row.id,
     startLatitude: row.start_latitude,
     startLongitude: row.start_longitude,
     endLatitude: row.end_latitude,
@@ -52,14 +60,24 @@ export function transformToAppFormat(dbSamples: DatabaseSample[]): import('@/dat
     collectionDate: new Date(row.collection_date).toLocaleDateString(),
     season: 'summer', // Default season since we removed season calculation
     year: row.year,
+    totalReads: row.total_reads,
+    fungalReads: row.fungal_reads,
+    abundanceBasis: abundanceBasis(row)?.basis ?? null,
     pathogens: row.pathogen_detections
-      .filter(detection => detection.read_count > 0) // Only include actual detections
-      .map(detection => ({
-        species: detection.pathogen_species.species_name,
-        commonName: detection.pathogen_species.common_name || detection.pathogen_species.species_name,
-        readCount: detection.read_count,
-        relativeAbundance: detection.read_count / 5000, // Simple relative calculation
-        severity: detection.read_count > 3000 ? 'high' : detection.read_count > 1000 ? 'medium' : 'low'
-      }))
+      // Only include actual detections; anything at or under the run's blank is treated as contamination
+      .filter(detection => detection.read_count > 0 && !detection.below_blank)
+      .map(detection => {
+        const readCount = detection.corrected_read_count ?? detection.read_count;
+        const abundance = relativeAbundance(readCount, row);
+        return {
+          species: detection.pathogen_species.species_name,
+          commonName: detection.pathogen_species.common_name || detection.pathogen_species.species_name,
+          readCount,
+          rawReadCount: detection.read_count,
+          blankReadCount: detection.blank_read_count,
+          relativeAbundance: abundance,
+          severity: classifySeverity(readCount, abundance, severityThresholds(detection.pathogen_species))
+        };
+      })
   }));
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { isTrackFormat, parseGpx, parseKml, parseTrackFile, toGeoJson, toGpx, toKml, type ExportRoute } from './trackFormats';
+
+const route: ExportRoute = {
+  sample_id: 'S-001',
+  start_name: 'Gate & yard',
+  end_name: 'Creek <north>',
+  start_latitude: -37.8,
+  start_longitude: 145.0,
+  end_latitude: -37.9,
+  end_longitude: 145.1,
+  collection_date: '2026-03-14',
+};
+
+const points = [
+  { latitude: -37.8, longitude: 145.0, accuracy: 5, recorded_at: '2026-03-14T01:00:00.000Z' },
+  { latitude: -37.85, longitude: 145.05, accuracy: null, recorded_at: '2026-03-14T01:05:00.000Z' },
+  { latitude: -37.9, longitude: 145.1, accuracy: 8, recorded_at: '2026-03-14T01:10:00.000Z' },
+];
+
+describe('isTrackFormat', () => {
+  it('accepts only the export formats', () => {
+    expect(isTrackFormat('gpx')).toBe(true);
+    expect(isTrackFormat('geojson')).toBe(true);
+    expect(isTrackFormat('csv')).toBe(false);
+    expect(isTrackFormat('toString')).toBe(false);
+    expect(isTrackFormat(undefined)).toBe(false);
+  });
+});
+
+describe('parseGpx', () => {
+  it('reads track points with their times', () => {
+    const xml = `<?xml version="1.0"?>
+      <gpx version="1.1"><trk><name>Morning &amp; run</name><trkseg>
+        <trkpt lat="-37.8" lon="145.0"><ele>12</ele><time>2026-03-14T01:00:00Z</time></trkpt>
+        <trkpt lon="145.1" lat="-37.9"/>
+      </trkseg></trk></gpx>`;
+
+    expect(parseGpx(xml)).toEqual({
+      name: 'Morning & run',
+      points: [
+        { latitude: -37.8, longitude: 145.0, recorded_at: '2026-03-14T01:00:00.000Z' },
+        { latitude: -37.9, longitude: 145.1, recorded_at: null },
+      ],
+    });
+  });
+
+  it('falls back to route points for planned routes', () => {
+    const xml = '<gpx><rte><name>Plan</name><rtept lat="1" lon="2"/><rtept lat="3" lon="4"/></rte></gpx>';
+    expect(parseGpx(xml)).toEqual({
+      name: 'Plan',
+      points: [
+        { latitude: 1, longitude: 2, recorded_at: null },
+        { latitude: 3, longitude: 4, recorded_at: null },
+      ],
+    });
+  });
+
+  it('rejects invalid coordinates and empty files', () => {
+    expect(parseGpx('<gpx><trk><trkseg><trkpt lat="95" lon="2"/></trkseg></trk></gpx>'))
+      .toEqual({ error: 'GPX file has a trkpt with an invalid latitude or longitude' });
+    expect(parseGpx('<gpx><wpt lat="1" lon="2"/></gpx>')).toEqual({ error: 'GPX file has no track or route points' });
+    expect(parseGpx('<kml/>')).toEqual({ error: 'Not a GPX file' });
+  });
+});
+
+describe('parseKml', () => {
+  it('reads a timed gx:Track', () => {
+    const xml = `<kml xmlns:gx="http://www.google.com/kml/ext/2.2"><Placemark><name>Drive</name><gx:Track>
+      <when>2026-03-14T01:00:00Z</when><when>2026-03-14T01:01:00Z</when>
+      <gx:coord>145.0 -37.8 10</gx:coord><gx:coord>145.1 -37.9 12</gx:coord>
+    </gx:Track></Placemark></kml>`;
+
+    expect(parseKml(xml)).toEqual({
+      name: 'Drive',
+      points: [
+        { latitude: -37.8, longitude: 145.0, recorded_at: '2026-03-14T01:00:00.000Z' },
+        { latitude: -37.9, longitude: 145.1, recorded_at: '2026-03-14T01:01:00.000Z' },
+      ],
+    });
+  });
+
+  it('reads an untimed LineString', () => {
+    const xml = `<kml><Document><Placemark><name>Line</name><LineString><coordinates>
+      145.0,-37.8,0 145.1,-37.9,0
+    </coordinates></LineString></Placemark></Document></kml>`;
+
+    expect(parseKml(xml)).toEqual({
+      name: 'Line',
+      points: [
+        { latitude: -37.8, longitude: 145.0, recorded_at: null },
+        { latitude: -37.9, longitude: 145.1, recorded_at: null },
+      ],
+    });
+  });
+
+  it('rejects invalid coordinates and files without a line', () => {
+    expect(parseKml('<kml><LineString><coordinates>145,-37 200,-37</coordinates></LineString></kml>'))
+      .toEqual({ error: 'KML line has an invalid coordinate' });
+    expect(parseKml('<kml><Placemark><Point><coordinates>145,-37</coordinates></Point></Placemark></kml>'))
+      .toEqual({ error: 'KML file has no track or line' });
+  });
+});
+
+describe('parseTrackFile', () => {
+  it('chooses the format from the extension or the content', () => {
+    const gpx = '<gpx><trk><trkseg><trkpt lat="1" lon="2"/></trkseg></trk></gpx>';
+    const kml = '<kml><LineString><coordinates>2,1</coordinates></LineString></kml>';
+
+    expect(parseTrackFile(gpx, 'track.GPX')).toHaveProperty('points');
+    expect(parseTrackFile(kml, 'export.xml')).toHaveProperty('points');
+    expect(parseTrackFile(gpx, 'track.kml')).toEqual({ error: 'Not a KML file' });
+    expect(parseTrackFile('lat,lon', 'track.csv')).toEqual({ error: 'Unsupported file; upload a GPX or KML track' });
+  });
+});
+
+describe('export formats', () => {
+  it('round-trips points through GPX', () => {
+    const gpx = toGpx(route, points);
+    expect(gpx).toContain('Gate &amp; yard');
+    expect(gpx).toContain('Creek &lt;north&gt;');
+    expect(parseGpx(gpx)).toEqual({
+      name: 'S-001',
+      points: points.map(({ latitude, longitude, recorded_at }) => ({ latitude, longitude, recorded_at })),
+    });
+  });
+
+  it('round-trips coordinates through KML', () => {
+    expect(parseKml(toKml(route, points))).toEqual({
+      name: 'S-001',
+      points: points.map(({ latitude, longitude }) => ({ latitude, longitude, recorded_at: null })),
+    });
+  });
+
+  it('writes start and end when no track was recorded', () => {
+    const result = parseGpx(toGpx(route, []));
+    expect(result).toEqual({
+      name: 'S-001',
+      points: [
+        { latitude: -37.8, longitude: 145.0, recorded_at: null },
+        { latitude: -37.9, longitude: 145.1, recorded_at: null },
+      ],
+    });
+  });
+
+  it('keeps GeoJSON times and accuracies parallel to the coordinates', () => {
+    const [line, start, end] = JSON.parse(toGeoJson(route, points)).features;
+    expect(line.geometry.coordinates).toEqual([[145.0, -37.8], [145.05, -37.85], [145.1, -37.9]]);
+    expect(line.properties.times).toEqual(points.map(point => point.recorded_at));
+    expect(line.properties.accuracies).toEqual([5, null, 8]);
+    expect(start.properties.role).toBe('start');
+    expect(end.geometry.coordinates).toEqual([145.1, -37.9]);
+  });
+});
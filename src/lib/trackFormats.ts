@@ -0,0 +1,264 @@
+/**
+ * Track exchange formats: GPX 1.1, KML 2.2 and GeoJSON for export, GPX and
+ * KML for import (dedicated GPS units and phone apps). Parsing is done with a
+ * small tag scanner rather than a DOM, so the same code runs in the browser
+ * and in API routes; it reads the track elements and ignores everything else.
+ */
+
+export type TrackFormat = 'gpx' | 'kml' | 'geojson';
+
+export const TRACK_FORMATS: Record<TrackFormat, { label: string; mimeType: string; extension: string }> = {
+  gpx: { label: 'GPX', mimeType: 'application/gpx+xml', extension: 'gpx' },
+  kml: { label: 'KML', mimeType: 'application/vnd.google-earth.kml+xml', extension: 'kml' },
+  geojson: { label: 'GeoJSON', mimeType: 'application/geo+json', extension: 'geojson' },
+};
+
+export interface ExportRoute {
+  sample_id: string;
+  start_name: string;
+  end_name: string;
+  start_latitude: number;
+  start_longitude: number;
+  end_latitude: number;
+  end_longitude: number;
+  collection_date: string;
+}
+
+export interface ExportPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recorded_at: string | null;
+}
+
+export interface ImportedPoint {
+  latitude: number;
+  longitude: number;
+  recorded_at: string | null; // ISO timestamp, when the file has times
+}
+
+export type TrackParseResult =
+  | { points: ImportedPoint[]; name: string | null }
+  | { error: string };
+
+export function isTrackFormat(value: unknown): value is TrackFormat {
+  return typeof value === 'string' && Object.hasOwn(TRACK_FORMATS, value);
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+// The recorded points, or start and end when no track was recorded
+const exportPoints = (route: ExportRoute, points: ExportPoint[]): ExportPoint[] =>
+  points.length > 0
+    ? points
+    : [
+        { latitude: route.start_latitude, longitude: route.start_longitude, accuracy: null, recorded_at: null },
+        { latitude: route.end_latitude, longitude: route.end_longitude, accuracy: null, recorded_at: null },
+      ];
+
+export function toGpx(route: ExportRoute, points: ExportPoint[]): string {
+  const trackPoints = exportPoints(route, points).map(point =>
+    `      <trkpt lat="${point.latitude}" lon="${point.longitude}">` +
+    (point.recorded_at ? `<time>${new Date(point.recorded_at).toISOString()}</time>` : '') +
+    '</trkpt>'
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="spore.net" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <wpt lat="${route.start_latitude}" lon="${route.start_longitude}"><name>${escapeXml(`${route.sample_id} start: ${route.start_name}`)}</name></wpt>`,
+    `  <wpt lat="${route.end_latitude}" lon="${route.end_longitude}"><name>${escapeXml(`${route.sample_id} end: ${route.end_name}`)}</name></wpt>`,
+    '  <trk>',
+    `    <name>${escapeXml(route.sample_id)}</name>`,
+    `    <desc>${escapeXml(`${route.start_name} to ${route.end_name}, ${route.collection_date}`)}</desc>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+export function toKml(route: ExportRoute, points: ExportPoint[]): string {
+  const trackPoints = exportPoints(route, points);
+  const placemark = (name: string, latitude: number, longitude: number) =>
+    `    <Placemark><name>${escapeXml(name)}</name><Point><coordinates>${longitude},${latitude}</coordinates></Point></Placemark>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(route.sample_id)}</name>`,
+    placemark(`Start: ${route.start_name}`, route.start_latitude, route.start_longitude),
+    placemark(`End: ${route.end_name}`, route.end_latitude, route.end_longitude),
+    '    <Placemark>',
+    `      <name>${escapeXml(route.sample_id)}</name>`,
+    `      <description>${escapeXml(`${route.start_name} to ${route.end_name}, ${route.collection_date}`)}</description>`,
+    '      <LineString><tessellate>1</tessellate><coordinates>',
+    ...trackPoints.map(point => `        ${point.longitude},${point.latitude}`),
+    '      </coordinates></LineString>',
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+export function toGeoJson(route: ExportRoute, points: ExportPoint[]): string {
+  const trackPoints = exportPoints(route, points);
+  const properties = {
+    sample_id: route.sample_id,
+    start_name: route.start_name,
+    end_name: route.end_name,
+    collection_date: route.collection_date,
+  };
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: {
+          ...properties,
+          // Per-vertex times and accuracies, parallel to the coordinates
+          times: trackPoints.map(point => point.recorded_at),
+          accuracies: trackPoints.map(point => point.accuracy),
+        },
+        geometry: {
+          type: 'LineString',
+          coordinates: trackPoints.map(point => [point.longitude, point.latitude]),
+        },
+      },
+      {
+        type: 'Feature',
+        properties: { ...properties, role: 'start' },
+        geometry: { type: 'Point', coordinates: [route.start_longitude, route.start_latitude] },
+      },
+      {
+        type: 'Feature',
+        properties: { ...properties, role: 'end' },
+        geometry: { type: 'Point', coordinates: [route.end_longitude, route.end_latitude] },
+      },
+    ],
+  }, null, 2);
+}
+
+export function formatTrack(format: TrackFormat, route: ExportRoute, points: ExportPoint[]): string {
+  if (format === 'gpx') return toGpx(route, points);
+  if (format === 'kml') return toKml(route, points);
+  return toGeoJson(route, points);
+}
+
+const attribute = (tag: string, name: string) =>
+  tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+
+const element = (xml: string, name: string) =>
+  xml.match(new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`))?.[1];
+
+const isoTime = (text: string | undefined) => {
+  if (!text) return null;
+  const time = new Date(unescapeXml(text));
+  return isNaN(time.getTime()) ? null : time.toISOString();
+};
+
+const validPoint = (point: ImportedPoint) =>
+  Number.isFinite(point.latitude) && Number.isFinite(point.longitude) &&
+  Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180;
+
+/**
+ * Track points from a GPX file: track points, or route points when the file
+ * has no track (planned routes), in file order
+ */
+export function parseGpx(xml: string): TrackParseResult {
+  if (!/<gpx\b/.test(xml)) return { error: 'Not a GPX file' };
+
+  for (const tagName of ['trkpt', 'rtept']) {
+    const points: ImportedPoint[] = [];
+    const pattern = new RegExp(`<${tagName}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tagName}>)`, 'g');
+
+    for (const match of xml.matchAll(pattern)) {
+      points.push({
+        latitude: parseFloat(attribute(match[1], 'lat') ?? ''),
+        longitude: parseFloat(attribute(match[1], 'lon') ?? ''),
+        recorded_at: isoTime(match[2] && element(match[2], 'time')),
+      });
+    }
+
+    if (points.length > 0) {
+      if (!points.every(validPoint)) return { error: `GPX file has a ${tagName} with an invalid latitude or longitude` };
+      const track = element(xml, tagName === 'trkpt' ? 'trk' : 'rte');
+      const name = track && element(track.replace(/<(trkseg|rtept)\b[\s\S]*/, ''), 'name');
+      return { points, name: name ? unescapeXml(name) : null };
+    }
+  }
+
+  return { error: 'GPX file has no track or route points' };
+}
+
+/**
+ * Track points from a KML file: a gx:Track (with times) if there is one,
+ * otherwise the first LineString
+ */
+export function parseKml(xml: string): TrackParseResult {
+  if (!/<kml\b/.test(xml)) return { error: 'Not a KML file' };
+
+  const placemarkName = (index: number) => {
+    const before = xml.slice(0, index);
+    const start = before.lastIndexOf('<Placemark');
+    const name = start >= 0 ? element(before.slice(start), 'name') : undefined;
+    return name ? unescapeXml(name) : null;
+  };
+
+  const gxTrack = xml.match(/<gx:Track\b[^>]*>([\s\S]*?)<\/gx:Track>/);
+  if (gxTrack) {
+    const times = [...gxTrack[1].matchAll(/<when>([\s\S]*?)<\/when>/g)].map(match => isoTime(match[1]));
+    const coords = [...gxTrack[1].matchAll(/<gx:coord>([\s\S]*?)<\/gx:coord>/g)].map(match => match[1].trim().split(/\s+/));
+    const points = coords.map(([longitude, latitude], i) => ({
+      latitude: parseFloat(latitude),
+      longitude: parseFloat(longitude),
+      recorded_at: times[i] ?? null,
+    }));
+
+    if (points.length > 0) {
+      if (!points.every(validPoint)) return { error: 'KML track has an invalid coordinate' };
+      return { points, name: placemarkName(gxTrack.index ?? 0) };
+    }
+  }
+
+  const lineString = xml.match(/<LineString\b[^>]*>([\s\S]*?)<\/LineString>/);
+  const coordinates = lineString && element(lineString[1], 'coordinates');
+  if (coordinates) {
+    const points = coordinates.trim().split(/\s+/).map(tuple => {
+      const [longitude, latitude] = tuple.split(',');
+      return { latitude: parseFloat(latitude), longitude: parseFloat(longitude), recorded_at: null };
+    });
+
+    if (!points.every(validPoint)) return { error: 'KML line has an invalid coordinate' };
+    return { points, name: placemarkName(lineString.index ?? 0) };
+  }
+
+  return { error: 'KML file has no track or line' };
+}
+
+/**
+ * Parse an uploaded track, choosing the format from the file name or content
+ */
+export function parseTrackFile(text: string, filename: string): TrackParseResult {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'gpx' || (extension !== 'kml' && /<gpx\b/.test(text))) {
+    return parseGpx(text);
+  }
+  if (extension === 'kml' || /<kml\b/.test(text)) {
+    return parseKml(text);
+  }
+  return { error: 'Unsupported file; upload a GPX or KML track' };
+}
@@ -0,0 +1,59 @@
+import { createClient } from '@supabase/supabase-js';
+import { SpeedFlag, TrackFix, TrackStats, qualityControl, speedFlag } from './trackQuality';
+
+// Server-only: runs track quality control for a route and stores the result
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Mark the route's fixes that are left out of the cleaned track and store its
+ * stats. Routes with fewer than two fixes get no stats.
+ */
+export async function processRouteTrack(routeId: string): Promise<{ stats: TrackStats | null; speedFlag: SpeedFlag | null }> {
+  const points: Array<TrackFix & { id: string }> = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('gps_tracking_points')
+      .select('id, latitude, longitude, accuracy, recorded_at')
+      .eq('route_id', routeId)
+      .order('recorded_at')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const { id, latitude, longitude, accuracy, recorded_at } of data) {
+      points.push({
+        id,
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        accuracy: accuracy === null ? null : Number(accuracy),
+        recorded_at,
+      });
+    }
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  const { qc, stats } = points.length >= 2 ? qualityControl(points) : { qc: [], stats: null };
+
+  // Marks and stats are written in one transaction, so a failure keeps the previous result
+  const flag = speedFlag(stats);
+  const { error } = await supabaseAdmin.rpc('apply_track_qc', {
+    p_route_id: routeId,
+    p_excluded: points.flatMap((point, i) => (qc[i] ? [{ id: point.id, qc: qc[i] }] : [])),
+    p_stats: stats,
+    p_speed_flag: flag,
+  });
+
+  if (error) throw error;
+
+  return { stats, speedFlag: flag };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_STATIONARY_S, TRACK_FIX_INTERVAL_MS, TrackFix, qualityControl } from './trackQuality';
+
+const START = Date.parse('2026-06-01T08:00:00Z');
+
+// About 55.6 m of latitude: 40 km/h at one fix per TRACK_FIX_INTERVAL_MS
+const STEP = 0.0005;
+
+const fix = (index: number, latitude: number, accuracy: number | null = 5): TrackFix => ({
+  latitude,
+  longitude: 10,
+  accuracy,
+  recorded_at: new Date(START + index * TRACK_FIX_INTERVAL_MS).toISOString(),
+});
+
+// A straight drive north, one fix every interval
+const drive = (count: number) => Array.from({ length: count }, (_, i) => fix(i, 50 + i * STEP));
+
+describe('qualityControl', () => {
+  it('keeps only the ends of a straight, steady drive', () => {
+    const { qc, stats } = qualityControl(drive(10));
+
+    expect(qc[0]).toBeNull();
+    expect(qc[9]).toBeNull();
+    expect(qc.slice(1, 9).every(reason => reason === 'simplified')).toBe(true);
+    expect(stats.simplifiedPoints).toBe(2);
+    expect(stats.lengthM).toBeGreaterThan(490);
+    expect(stats.lengthM).toBeLessThan(510);
+    expect(stats.durationS).toBe(45);
+    expect(stats.avgSpeedKmh).toBeCloseTo(40, 0);
+    expect(stats.stationaryPeriods).toEqual([]);
+  });
+
+  it('drops fixes with poor accuracy', () => {
+    const points = drive(6);
+    points[2] = { ...points[2], accuracy: 120 };
+
+    const { qc, stats } = qualityControl(points);
+
+    expect(qc[2]).toBe('accuracy');
+    expect(stats.droppedForAccuracy).toBe(1);
+  });
+
+  it('drops a jump mid-track but not the fixes either side of it', () => {
+    const points = drive(8);
+    // Kilometres off the road for one fix
+    points[4] = { ...points[4], latitude: points[4].latitude + 0.05 };
+
+    const { qc, stats } = qualityControl(points);
+
+    expect(qc[4]).toBe('speed');
+    expect(qc.filter(reason => reason === 'speed')).toHaveLength(1);
+    expect(stats.droppedForSpeed).toBe(1);
+    expect(stats.lengthM).toBeLessThan(400);
+  });
+
+  it('drops a jump at either end of the track', () => {
+    const first = drive(6);
+    first[0] = { ...first[0], latitude: first[0].latitude - 0.05 };
+    const last = drive(6);
+    last[5] = { ...last[5], latitude: last[5].latitude + 0.05 };
+
+    expect(qualityControl(first).qc[0]).toBe('speed');
+    expect(qualityControl(last).qc[5]).toBe('speed');
+  });
+
+  it('does not look for jumps in untimed tracks', () => {
+    const points = drive(6).map(point => ({ ...point, recorded_at: '' }));
+    points[3] = { ...points[3], latitude: points[3].latitude + 0.05 };
+
+    const { qc, stats } = qualityControl(points);
+
+    expect(qc).not.toContain('speed');
+    expect(stats.durationS).toBeNull();
+    expect(stats.stationaryS).toBeNull();
+  });
+
+  it('reports a stop of at least the minimum length', () => {
+    const stopFixes = MIN_STATIONARY_S / (TRACK_FIX_INTERVAL_MS / 1000) + 2;
+    const before = drive(5);
+    const stopLatitude = before[4].latitude;
+    const stop = Array.from({ length: stopFixes }, (_, i) => fix(5 + i, stopLatitude));
+    const after = Array.from({ length: 5 }, (_, i) => fix(5 + stopFixes + i, stopLatitude + (i + 1) * STEP));
+
+    const { stats } = qualityControl([...before, ...stop, ...after]);
+
+    expect(stats.stationaryPeriods).toHaveLength(1);
+    const [period] = stats.stationaryPeriods;
+    expect(period.seconds).toBeGreaterThanOrEqual(MIN_STATIONARY_S);
+    expect(period.latitude).toBeCloseTo(stopLatitude, 6);
+    expect(stats.stationaryS).toBe(period.seconds);
+    expect(stats.movingSpeedKmh).toBeGreaterThan(stats.avgSpeedKmh!);
+  });
+
+  it('ignores stops shorter than the minimum', () => {
+    const before = drive(5);
+    const stopLatitude = before[4].latitude;
+    const stop = Array.from({ length: 3 }, (_, i) => fix(5 + i, stopLatitude));
+    const after = Array.from({ length: 5 }, (_, i) => fix(8 + i, stopLatitude + (i + 1) * STEP));
+
+    expect(qualityControl([...before, ...stop, ...after]).stats.stationaryPeriods).toEqual([]);
+  });
+});
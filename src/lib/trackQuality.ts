@@ -0,0 +1,241 @@
+/**
+ * Quality control for recorded GPS tracks. Phone fixes taken in a moving
+ * vehicle are often tens of metres out, and now and then one lands kilometres
+ * away; those are dropped before the track is simplified and measured. Has no
+ * map dependencies so the collect pages can import the recording interval.
+ */
+
+export interface TrackFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recorded_at: string;
+}
+
+// Why a fix is left out of the cleaned, simplified track
+export type TrackQc = 'accuracy' | 'speed' | 'simplified';
+
+export type SpeedFlag = 'slow' | 'fast';
+
+export interface StationaryPeriod {
+  start: string;
+  end: string;
+  seconds: number;
+  latitude: number;
+  longitude: number;
+}
+
+export interface TrackStats {
+  rawPoints: number;
+  droppedForAccuracy: number;
+  droppedForSpeed: number;
+  simplifiedPoints: number;
+  lengthM: number;
+  durationS: number | null; // null when the track has no recorded times
+  avgSpeedKmh: number | null; // over the whole duration
+  movingSpeedKmh: number | null; // excluding stationary periods
+  stationaryS: number | null;
+  stationaryPeriods: StationaryPeriod[];
+}
+
+// How often the collect pages keep a fix while recording
+export const TRACK_FIX_INTERVAL_MS = 5000;
+
+// Fixes reporting a worse accuracy than this (metres) are dropped
+export const MAX_FIX_ACCURACY_M = 50;
+
+// A fix that is further than this speed from its neighbours is a jump, not travel
+export const MAX_FIX_SPEED_KMH = 150;
+
+// Douglas-Peucker tolerance for the simplified line
+export const SIMPLIFY_TOLERANCE_M = 10;
+
+// Slower than this between fixes is standing still; shorter stops are not reported
+export const STATIONARY_SPEED_KMH = 2;
+export const MIN_STATIONARY_S = 60;
+
+// Moving speeds outside this range are flagged: the sampler's intake is set
+// for driving at these speeds
+export const SAMPLER_SPEED_RANGE_KMH = { min: 20, max: 80 };
+
+export const SPEED_FLAG_LABELS: Record<SpeedFlag, string> = {
+  slow: 'Too slow for the sampler',
+  fast: 'Too fast for the sampler',
+};
+
+export const SPEED_FLAG_COLORS: Record<SpeedFlag, string> = {
+  slow: 'bg-amber-100 text-amber-800',
+  fast: 'bg-red-100 text-red-800',
+};
+
+const EARTH_RADIUS_M = 6371008.8;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function distanceM(a: TrackFix, b: TrackFix): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+const seconds = (a: TrackFix, b: TrackFix) =>
+  (Date.parse(b.recorded_at) - Date.parse(a.recorded_at)) / 1000;
+
+// Fixes closer together in time than a second count as a second apart
+const speedKmh = (a: TrackFix, b: TrackFix) =>
+  (distanceM(a, b) / Math.max(Math.abs(seconds(a, b)), 1)) * 3.6;
+
+/**
+ * Whether the fixes carry real times. Tracks imported without times are
+ * stamped a millisecond apart to keep their order, which would make every
+ * step look like a jump.
+ */
+export function hasRecordedTimes(points: TrackFix[]): boolean {
+  return points.some((point, i) => i > 0 && seconds(points[i - 1], point) >= 1);
+}
+
+/**
+ * Indices of the points kept by Douglas-Peucker simplification, measured on a
+ * local flat projection (fine at transect scale)
+ */
+export function simplifyIndices(points: TrackFix[], toleranceM = SIMPLIFY_TOLERANCE_M): number[] {
+  if (points.length <= 2) return points.map((_, i) => i);
+
+  const metresPerDegreeLng = 111320 * Math.cos(toRadians(points[0].latitude));
+  const xy = points.map(point => [point.longitude * metresPerDegreeLng, point.latitude * 110540]);
+
+  const offset = (i: number, from: number, to: number) => {
+    const [x, y] = xy[i];
+    const [x1, y1] = xy[from];
+    const [x2, y2] = xy[to];
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) return Math.hypot(x - x1, y - y1);
+    const t = Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared));
+    return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+  };
+
+  const keep = new Set([0, points.length - 1]);
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [from, to] = stack.pop()!;
+    let furthest = -1;
+    let furthestOffset = toleranceM;
+    for (let i = from + 1; i < to; i++) {
+      const d = offset(i, from, to);
+      if (d > furthestOffset) {
+        furthest = i;
+        furthestOffset = d;
+      }
+    }
+    if (furthest >= 0) {
+      keep.add(furthest);
+      stack.push([from, furthest], [furthest, to]);
+    }
+  }
+
+  return [...keep].sort((a, b) => a - b);
+}
+
+/**
+ * Clean, simplify and measure a track given in recording order. Returns why
+ * each point was left out (null for points on the simplified line) and the
+ * stats of the cleaned track.
+ */
+export function qualityControl(points: TrackFix[]): { qc: Array<TrackQc | null>; stats: TrackStats } {
+  const qc: Array<TrackQc | null> = points.map(point =>
+    point.accuracy !== null && point.accuracy > MAX_FIX_ACCURACY_M ? 'accuracy' : null
+  );
+  const timed = hasRecordedTimes(points);
+
+  // A jump is a fix too fast to reach from both of its neighbours; at the ends
+  // of the track the second neighbour is the next fix along
+  if (timed) {
+    const candidates = points.map((_, i) => i).filter(i => qc[i] === null);
+    const kept: number[] = [];
+    candidates.forEach((index, position) => {
+      const neighbours = [
+        kept[kept.length - 1] ?? candidates[position + 2],
+        candidates[position + 1] ?? kept[kept.length - 2],
+      ].filter(i => i !== undefined);
+
+      if (neighbours.length === 2 && neighbours.every(i => speedKmh(points[i], points[index]) > MAX_FIX_SPEED_KMH)) {
+        qc[index] = 'speed';
+      } else {
+        kept.push(index);
+      }
+    });
+  }
+
+  const clean = points.filter((_, i) => qc[i] === null);
+  const cleanIndices = points.map((_, i) => i).filter(i => qc[i] === null);
+  const simplified = new Set(simplifyIndices(clean).map(i => cleanIndices[i]));
+  cleanIndices.forEach(i => {
+    if (!simplified.has(i)) qc[i] = 'simplified';
+  });
+
+  const line = points.filter((_, i) => qc[i] === null);
+  const lengthM = line.reduce((sum, point, i) => (i > 0 ? sum + distanceM(line[i - 1], point) : sum), 0);
+
+  // Stops are found on the cleaned fixes, since simplification removes them
+  const stationaryPeriods: StationaryPeriod[] = [];
+  if (timed) {
+    let stopStart: number | null = null;
+    for (let i = 1; i <= clean.length; i++) {
+      const still = i < clean.length && speedKmh(clean[i - 1], clean[i]) < STATIONARY_SPEED_KMH;
+      if (still && stopStart === null) stopStart = i - 1;
+      if (!still && stopStart !== null) {
+        const stopSeconds = seconds(clean[stopStart], clean[i - 1]);
+        if (stopSeconds >= MIN_STATIONARY_S) {
+          stationaryPeriods.push({
+            start: clean[stopStart].recorded_at,
+            end: clean[i - 1].recorded_at,
+            seconds: Math.round(stopSeconds),
+            latitude: clean[stopStart].latitude,
+            longitude: clean[stopStart].longitude,
+          });
+        }
+        stopStart = null;
+      }
+    }
+  }
+
+  const durationS = timed && clean.length >= 2 ? Math.round(seconds(clean[0], clean[clean.length - 1])) : null;
+  const stationaryS = timed ? stationaryPeriods.reduce((sum, period) => sum + period.seconds, 0) : null;
+  const kmh = (metres: number, time: number | null) =>
+    time !== null && time > 0 ? Math.round((metres / time) * 36) / 10 : null;
+
+  return {
+    qc,
+    stats: {
+      rawPoints: points.length,
+      droppedForAccuracy: qc.filter(reason => reason === 'accuracy').length,
+      droppedForSpeed: qc.filter(reason => reason === 'speed').length,
+      simplifiedPoints: line.length,
+      lengthM: Math.round(lengthM),
+      durationS,
+      avgSpeedKmh: kmh(lengthM, durationS),
+      movingSpeedKmh: kmh(lengthM, durationS !== null && stationaryS !== null ? durationS - stationaryS : null),
+      stationaryS,
+      stationaryPeriods,
+    },
+  };
+}
+
+export function speedFlag(stats: TrackStats | null): SpeedFlag | null {
+  if (!stats || stats.movingSpeedKmh === null) return null;
+  if (stats.movingSpeedKmh < SAMPLER_SPEED_RANGE_KMH.min) return 'slow';
+  if (stats.movingSpeedKmh > SAMPLER_SPEED_RANGE_KMH.max) return 'fast';
+  return null;
+}
+
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (hours > 0) return `${hours} h ${String(minutes).padStart(2, '0')} min`;
+  if (minutes > 0) return `${minutes} min`;
+  return `${Math.round(totalSeconds)} s`;
+}
@@ -0,0 +1,85 @@
+/**
+ * GPS breadcrumb trails recorded while a sample was collected. Routes without
+ * a recorded trail (imported, or entered by hand) fall back to the straight
+ * line from start to end.
+ */
+
+import * as turf from '@turf/turf';
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  recorded_at: string;
+}
+
+interface RouteEnds {
+  start_latitude: number;
+  start_longitude: number;
+  end_latitude: number;
+  end_longitude: number;
+}
+
+export const MAX_TRACKS_PER_REQUEST = 100;
+
+// Half-width of the corridor drawn around a track on the pathogen map
+export const TRACK_CORRIDOR_KM = 1;
+
+// Corridors are drawn from a simplified track; ~50 m is invisible at map scale
+const CORRIDOR_SIMPLIFY_DEGREES = 0.0005;
+
+/**
+ * Tracks for the given routes, keyed by route ID. Routes with no recorded
+ * points are present with an empty list.
+ */
+export async function fetchTracks(routeIds: string[]): Promise<Record<string, TrackPoint[]>> {
+  const tracks: Record<string, TrackPoint[]> = {};
+
+  for (let i = 0; i < routeIds.length; i += MAX_TRACKS_PER_REQUEST) {
+    const params = new URLSearchParams();
+    routeIds.slice(i, i + MAX_TRACKS_PER_REQUEST).forEach(id => params.append('routeId', id));
+
+    const response = await fetch(`/api/samples/track?${params}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load tracks');
+    }
+    Object.assign(tracks, data.tracks);
+  }
+
+  return tracks;
+}
+
+/**
+ * Track as [lat, lng] pairs for Leaflet, or the start-end line without one
+ */
+export function trackLine(route: RouteEnds, points: TrackPoint[] | undefined): [number, number][] {
+  if (points && points.length >= 2) {
+    return points.map(point => [point.latitude, point.longitude]);
+  }
+  return [
+    [route.start_latitude, route.start_longitude],
+    [route.end_latitude, route.end_longitude],
+  ];
+}
+
+/**
+ * Buffered corridor around a track as Leaflet polygon rings ([lat, lng]).
+ * A track that never moved gives a circle.
+ */
+export function trackCorridor(line: [number, number][], radiusKm = TRACK_CORRIDOR_KM): [number, number][][][] {
+  const coordinates = line.map(([lat, lng]) => [lng, lat]);
+  const moved = coordinates.some(([lng, lat]) => lng !== coordinates[0][0] || lat !== coordinates[0][1]);
+
+  const geometry = moved
+    ? turf.simplify(turf.lineString(coordinates), { tolerance: CORRIDOR_SIMPLIFY_DEGREES })
+    : turf.point(coordinates[0]);
+  const corridor = turf.buffer(geometry, radiusKm, { units: 'kilometers' });
+  if (!corridor) return [];
+
+  const polygons = corridor.geometry.type === 'Polygon'
+    ? [corridor.geometry.coordinates]
+    : corridor.geometry.coordinates;
+
+  return polygons.map(rings => rings.map(ring => ring.map(([lng, lat]) => [lat, lng] as [number, number])));
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole, requireAuth } from '@/lib/apiAuth';
+
+// Pages checked against the session cookie before they render; the pages'
+// own RoleGuard only decides what the browser shows
+const PROTECTED_PAGES: { prefix: string; role: UserRole }[] = [
+  { prefix: '/users', role: 'admin' },
+  { prefix: '/pathogens', role: 'admin' },
+  { prefix: '/data', role: 'admin' },
+  { prefix: '/uploads', role: 'admin' },
+  { prefix: '/sample', role: 'viewer' },
+  { prefix: '/sessions', role: 'viewer' },
+  { prefix: '/change-password', role: 'viewer' },
+];
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const page = PROTECTED_PAGES.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  if (!page) return NextResponse.next();
+
+  const auth = await requireAuth(request, page.role);
+  if (!(auth instanceof NextResponse)) return NextResponse.next();
+
+  // Signed in but without the role: back to the map rather than the login form
+  if (auth.status === 403) {
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', pathname + search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/users/:path*', '/pathogens/:path*', '/data/:path*', '/uploads/:path*', '/sample/:path*', '/sessions/:path*', '/change-password/:path*'],
+};
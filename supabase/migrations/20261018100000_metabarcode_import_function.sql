@@ -0,0 +1,91 @@
+-- Transactional metabarcode import
+-- Called by POST /api/uploads/metabarcode with the service role. The whole
+-- upload runs inside one function call, so it commits or rolls back as a unit.
+
+-- p_samples is a JSON array of:
+-- {
+--   "sample_id", "start_name", "end_name",
+--   "start_latitude", "start_longitude", "end_latitude", "end_longitude",
+--   "collection_date",
+--   "detections": [{ "pathogen_species_id", "read_count" }]
+-- }
+CREATE OR REPLACE FUNCTION import_metabarcode_upload(
+    p_uploaded_by UUID,
+    p_filename TEXT,
+    p_file_size INTEGER,
+    p_samples JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_sample JSONB;
+    v_detection JSONB;
+    v_route_id UUID;
+    v_routes_created INTEGER := 0;
+    v_detections_written INTEGER := 0;
+BEGIN
+    FOR v_sample IN SELECT * FROM jsonb_array_elements(p_samples)
+    LOOP
+        SELECT id INTO v_route_id
+        FROM sampling_routes
+        WHERE sample_id = v_sample->>'sample_id';
+
+        IF v_route_id IS NULL THEN
+            INSERT INTO sampling_routes (
+                sample_id, start_name, end_name,
+                start_latitude, start_longitude, end_latitude, end_longitude,
+                collection_date, created_by
+            ) VALUES (
+                v_sample->>'sample_id',
+                v_sample->>'start_name',
+                v_sample->>'end_name',
+                (v_sample->>'start_latitude')::DECIMAL,
+                (v_sample->>'start_longitude')::DECIMAL,
+                (v_sample->>'end_latitude')::DECIMAL,
+                (v_sample->>'end_longitude')::DECIMAL,
+                (v_sample->>'collection_date')::DATE,
+                p_uploaded_by
+            )
+            RETURNING id INTO v_route_id;
+
+            v_routes_created := v_routes_created + 1;
+        END IF;
+
+        INSERT INTO sample_uploads (route_id, uploaded_by, filename, file_size, row_count, notes)
+        VALUES (
+            v_route_id,
+            p_uploaded_by,
+            p_filename,
+            p_file_size,
+            jsonb_array_length(v_sample->'detections'),
+            'Uploaded via metabarcode CSV upload'
+        );
+
+        FOR v_detection IN SELECT * FROM jsonb_array_elements(v_sample->'detections')
+        LOOP
+            INSERT INTO pathogen_detections (route_id, pathogen_species_id, read_count)
+            VALUES (
+                v_route_id,
+                (v_detection->>'pathogen_species_id')::UUID,
+                (v_detection->>'read_count')::INTEGER
+            )
+            ON CONFLICT (route_id, pathogen_species_id)
+            DO UPDATE SET read_count = EXCLUDED.read_count;
+
+            v_detections_written := v_detections_written + 1;
+        END LOOP;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'routes_created', v_routes_created,
+        'detections_written', v_detections_written
+    );
+END;
+$$;
+
+-- Only the service role may run imports; PostgREST would otherwise expose it to anon
+REVOKE ALL ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB) TO service_role;
+
+COMMENT ON FUNCTION import_metabarcode_upload IS 'Atomically import validated metabarcode samples and record sample_uploads rows';
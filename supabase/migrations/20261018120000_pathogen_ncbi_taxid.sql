@@ -0,0 +1,16 @@
+-- NCBI taxonomy IDs for pathogen species
+-- Lets Kraken2/Bracken report imports resolve taxa by taxid as well as by name
+
+ALTER TABLE pathogen_species ADD COLUMN ncbi_taxid INTEGER UNIQUE;
+
+COMMENT ON COLUMN pathogen_species.ncbi_taxid IS 'NCBI Taxonomy ID, matched against the taxid column of Kraken2/Bracken reports';
+
+-- Backfill the species seeded by the initial schema
+UPDATE pathogen_species SET ncbi_taxid = 168172 WHERE species_name = 'Puccinia striiformis';
+UPDATE pathogen_species SET ncbi_taxid = 5297 WHERE species_name = 'Puccinia graminis';
+UPDATE pathogen_species SET ncbi_taxid = 208348 WHERE species_name = 'Puccinia triticina';
+UPDATE pathogen_species SET ncbi_taxid = 5518 WHERE species_name = 'Fusarium graminearum';
+UPDATE pathogen_species SET ncbi_taxid = 101028 WHERE species_name = 'Fusarium pseudograminearum';
+UPDATE pathogen_species SET ncbi_taxid = 1047171 WHERE species_name = 'Septoria tritici'; -- Zymoseptoria tritici in NCBI
+UPDATE pathogen_species SET ncbi_taxid = 45151 WHERE species_name = 'Pyrenophora tritici-repentis';
+UPDATE pathogen_species SET ncbi_taxid = 38038 WHERE species_name = 'Rhynchosporium secalis';
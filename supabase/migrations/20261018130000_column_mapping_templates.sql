@@ -0,0 +1,20 @@
+-- Column mapping templates: saved spreadsheet layouts for metabarcode uploads.
+-- Each collaborating lab can keep several named templates; mapping holds the
+-- source column for each canonical field plus the date and coordinate formats
+-- (see src/lib/columnMapping.ts).
+
+CREATE TABLE column_mapping_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lab_name VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    mapping JSONB NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unique_template_per_lab UNIQUE (lab_name, name)
+);
+
+CREATE INDEX idx_column_mapping_templates_lab ON column_mapping_templates(lab_name);
+
+-- Only the service role reads or writes templates (via /api/uploads/templates)
+ALTER TABLE column_mapping_templates ENABLE ROW LEVEL SECURITY;
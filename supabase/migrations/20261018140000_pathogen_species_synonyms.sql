@@ -0,0 +1,32 @@
+-- Species synonyms: alternative names that resolve to a pathogen_species row
+-- during every import (current names, teleomorphs, formae speciales, lab spellings).
+-- Matching is case-insensitive.
+
+CREATE TABLE pathogen_species_synonyms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    pathogen_species_id UUID NOT NULL REFERENCES pathogen_species(id) ON DELETE CASCADE,
+    synonym VARCHAR(255) NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_pathogen_species_synonyms_name ON pathogen_species_synonyms(LOWER(synonym));
+CREATE INDEX idx_pathogen_species_synonyms_species ON pathogen_species_synonyms(pathogen_species_id);
+
+ALTER TABLE pathogen_species_synonyms ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read access" ON pathogen_species_synonyms FOR SELECT USING (true);
+
+-- Well-known alternative names for the seeded species
+INSERT INTO pathogen_species_synonyms (pathogen_species_id, synonym)
+SELECT ps.id, s.synonym
+FROM (VALUES
+    ('Septoria tritici', 'Zymoseptoria tritici'),
+    ('Septoria tritici', 'Mycosphaerella graminicola'),
+    ('Puccinia striiformis', 'Puccinia striiformis f. sp. tritici'),
+    ('Puccinia graminis', 'Puccinia graminis f. sp. tritici'),
+    ('Puccinia triticina', 'Puccinia recondita f. sp. tritici'),
+    ('Fusarium graminearum', 'Gibberella zeae'),
+    ('Pyrenophora tritici-repentis', 'Drechslera tritici-repentis'),
+    ('Rhynchosporium secalis', 'Rhynchosporium commune')
+) AS s(species_name, synonym)
+JOIN pathogen_species ps ON ps.species_name = s.species_name;
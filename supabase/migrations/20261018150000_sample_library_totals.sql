@@ -0,0 +1,242 @@
+-- Library size per sample: total reads in the sequencing library and, where the
+-- pipeline reports it, reads classified as fungal. Relative abundance of each
+-- detection is computed against these instead of a fixed read count.
+
+ALTER TABLE sampling_routes ADD COLUMN total_reads INTEGER CHECK (total_reads >= 0);
+ALTER TABLE sampling_routes ADD COLUMN fungal_reads INTEGER CHECK (fungal_reads >= 0);
+
+COMMENT ON COLUMN sampling_routes.total_reads IS 'Total reads in the sample library, set at import';
+COMMENT ON COLUMN sampling_routes.fungal_reads IS 'Reads classified as fungal, set at import when the pipeline reports it';
+
+-- Import stores the totals on new routes and updates them on existing ones,
+-- recording the overwritten values so the batch can still be rolled back
+CREATE OR REPLACE FUNCTION import_metabarcode_upload(
+    p_uploaded_by UUID,
+    p_filename TEXT,
+    p_file_size INTEGER,
+    p_samples JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_batch_id UUID;
+    v_sample JSONB;
+    v_detection JSONB;
+    v_route_id UUID;
+    v_route RECORD;
+    v_existing RECORD;
+    v_detection_id UUID;
+    v_row_count INTEGER := 0;
+    v_routes_created INTEGER := 0;
+    v_detections_written INTEGER := 0;
+BEGIN
+    SELECT COALESCE(SUM(jsonb_array_length(s->'detections')), 0) INTO v_row_count
+    FROM jsonb_array_elements(p_samples) s;
+
+    INSERT INTO upload_batches (uploaded_by, filename, file_size, row_count)
+    VALUES (p_uploaded_by, p_filename, p_file_size, v_row_count)
+    RETURNING id INTO v_batch_id;
+
+    FOR v_sample IN SELECT * FROM jsonb_array_elements(p_samples)
+    LOOP
+        SELECT id, total_reads, fungal_reads, upload_batch_id INTO v_route
+        FROM sampling_routes
+        WHERE sample_id = v_sample->>'sample_id';
+        v_route_id := v_route.id;
+
+        IF v_route_id IS NULL THEN
+            INSERT INTO sampling_routes (
+                sample_id, start_name, end_name,
+                start_latitude, start_longitude, end_latitude, end_longitude,
+                collection_date, total_reads, fungal_reads, created_by, upload_batch_id
+            ) VALUES (
+                v_sample->>'sample_id',
+                v_sample->>'start_name',
+                v_sample->>'end_name',
+                (v_sample->>'start_latitude')::DECIMAL,
+                (v_sample->>'start_longitude')::DECIMAL,
+                (v_sample->>'end_latitude')::DECIMAL,
+                (v_sample->>'end_longitude')::DECIMAL,
+                (v_sample->>'collection_date')::DATE,
+                (v_sample->>'total_reads')::INTEGER,
+                (v_sample->>'fungal_reads')::INTEGER,
+                p_uploaded_by,
+                v_batch_id
+            )
+            RETURNING id INTO v_route_id;
+
+            INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action)
+            VALUES (v_batch_id, 'sampling_routes', v_route_id, v_route_id, 'insert');
+
+            v_routes_created := v_routes_created + 1;
+        ELSIF (v_sample->>'total_reads') IS NOT NULL OR (v_sample->>'fungal_reads') IS NOT NULL THEN
+            -- Library totals from a re-run replace the stored ones; totals the file
+            -- does not carry are left as they were
+            INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action, previous)
+            VALUES (
+                v_batch_id, 'sampling_routes', v_route_id, v_route_id, 'update',
+                jsonb_build_object(
+                    'total_reads', v_route.total_reads,
+                    'fungal_reads', v_route.fungal_reads,
+                    'upload_batch_id', v_route.upload_batch_id
+                )
+            );
+
+            UPDATE sampling_routes
+            SET total_reads = COALESCE((v_sample->>'total_reads')::INTEGER, total_reads),
+                fungal_reads = COALESCE((v_sample->>'fungal_reads')::INTEGER, fungal_reads),
+                upload_batch_id = v_batch_id
+            WHERE id = v_route_id;
+        END IF;
+
+        INSERT INTO sample_uploads (route_id, uploaded_by, filename, file_size, row_count, notes, batch_id)
+        VALUES (
+            v_route_id,
+            p_uploaded_by,
+            p_filename,
+            p_file_size,
+            jsonb_array_length(v_sample->'detections'),
+            'Uploaded via metabarcode CSV upload',
+            v_batch_id
+        );
+
+        FOR v_detection IN SELECT * FROM jsonb_array_elements(v_sample->'detections')
+        LOOP
+            SELECT id, read_count, upload_batch_id INTO v_existing
+            FROM pathogen_detections
+            WHERE route_id = v_route_id
+              AND pathogen_species_id = (v_detection->>'pathogen_species_id')::UUID;
+
+            IF FOUND THEN
+                INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action, previous)
+                VALUES (
+                    v_batch_id, 'pathogen_detections', v_existing.id, v_route_id, 'update',
+                    jsonb_build_object(
+                        'read_count', v_existing.read_count,
+                        'upload_batch_id', v_existing.upload_batch_id
+                    )
+                );
+
+                UPDATE pathogen_detections
+                SET read_count = (v_detection->>'read_count')::INTEGER,
+                    upload_batch_id = v_batch_id
+                WHERE id = v_existing.id;
+            ELSE
+                INSERT INTO pathogen_detections (route_id, pathogen_species_id, read_count, upload_batch_id)
+                VALUES (
+                    v_route_id,
+                    (v_detection->>'pathogen_species_id')::UUID,
+                    (v_detection->>'read_count')::INTEGER,
+                    v_batch_id
+                )
+                RETURNING id INTO v_detection_id;
+
+                INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action)
+                VALUES (v_batch_id, 'pathogen_detections', v_detection_id, v_route_id, 'insert');
+            END IF;
+
+            v_detections_written := v_detections_written + 1;
+        END LOOP;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'batch_id', v_batch_id,
+        'routes_created', v_routes_created,
+        'detections_written', v_detections_written
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB) TO service_role;
+
+-- Rollback also restores library totals a batch overwrote
+CREATE OR REPLACE FUNCTION rollback_upload_batch(
+    p_batch_id UUID,
+    p_rolled_back_by UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_batch upload_batches%ROWTYPE;
+    v_change upload_batch_changes%ROWTYPE;
+    v_routes_deleted INTEGER := 0;
+    v_detections_deleted INTEGER := 0;
+    v_detections_restored INTEGER := 0;
+    v_routes_restored INTEGER := 0;
+BEGIN
+    SELECT * INTO v_batch FROM upload_batches WHERE id = p_batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Upload batch % not found', p_batch_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_batch.rolled_back_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Upload batch has already been rolled back' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM upload_batch_changes later
+        JOIN upload_batches b ON b.id = later.batch_id
+        WHERE b.id <> p_batch_id
+          AND b.created_at > v_batch.created_at
+          AND b.rolled_back_at IS NULL
+          AND (
+              later.record_id IN (SELECT record_id FROM upload_batch_changes WHERE batch_id = p_batch_id)
+              OR later.route_id IN (
+                  SELECT record_id FROM upload_batch_changes
+                  WHERE batch_id = p_batch_id AND table_name = 'sampling_routes'
+              )
+          )
+    ) THEN
+        RAISE EXCEPTION 'A later upload changed the same samples; roll that upload back first' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Undo detections first, newest change first, then drop routes the batch created
+    FOR v_change IN
+        SELECT * FROM upload_batch_changes
+        WHERE batch_id = p_batch_id
+        ORDER BY (table_name = 'sampling_routes'), id DESC
+    LOOP
+        IF v_change.table_name = 'pathogen_detections' AND v_change.action = 'insert' THEN
+            DELETE FROM pathogen_detections WHERE id = v_change.record_id;
+            v_detections_deleted := v_detections_deleted + 1;
+        ELSIF v_change.table_name = 'pathogen_detections' AND v_change.action = 'update' THEN
+            UPDATE pathogen_detections
+            SET read_count = (v_change.previous->>'read_count')::INTEGER,
+                upload_batch_id = (v_change.previous->>'upload_batch_id')::UUID
+            WHERE id = v_change.record_id;
+            v_detections_restored := v_detections_restored + 1;
+        ELSIF v_change.table_name = 'sampling_routes' AND v_change.action = 'insert' THEN
+            DELETE FROM sampling_routes WHERE id = v_change.record_id;
+            v_routes_deleted := v_routes_deleted + 1;
+        ELSIF v_change.table_name = 'sampling_routes' AND v_change.action = 'update' THEN
+            UPDATE sampling_routes
+            SET total_reads = (v_change.previous->>'total_reads')::INTEGER,
+                fungal_reads = (v_change.previous->>'fungal_reads')::INTEGER,
+                upload_batch_id = (v_change.previous->>'upload_batch_id')::UUID
+            WHERE id = v_change.record_id;
+            v_routes_restored := v_routes_restored + 1;
+        END IF;
+    END LOOP;
+
+    UPDATE sample_uploads SET processing_status = 'rolled_back' WHERE batch_id = p_batch_id;
+
+    UPDATE upload_batches
+    SET rolled_back_at = NOW(), rolled_back_by = p_rolled_back_by
+    WHERE id = p_batch_id;
+
+    RETURN jsonb_build_object(
+        'routes_deleted', v_routes_deleted,
+        'detections_deleted', v_detections_deleted,
+        'detections_restored', v_detections_restored,
+        'routes_restored', v_routes_restored
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION rollback_upload_batch(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rollback_upload_batch(UUID, UUID) TO service_role;
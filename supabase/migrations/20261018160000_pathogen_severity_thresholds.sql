@@ -0,0 +1,18 @@
+-- Per-species severity thresholds. A detection is medium at or above
+-- medium_threshold and high at or above high_threshold, measured in reads or
+-- in relative abundance (percent of the sample's library) depending on
+-- severity_metric. Defaults reproduce the previous global read-count rule.
+
+ALTER TABLE pathogen_species
+    ADD COLUMN severity_metric VARCHAR(20) NOT NULL DEFAULT 'reads'
+        CHECK (severity_metric IN ('reads', 'abundance')),
+    ADD COLUMN medium_threshold NUMERIC NOT NULL DEFAULT 1000 CHECK (medium_threshold >= 0),
+    ADD COLUMN high_threshold NUMERIC NOT NULL DEFAULT 3000,
+    ADD CONSTRAINT pathogen_species_severity_order CHECK (high_threshold >= medium_threshold),
+    ADD CONSTRAINT pathogen_species_abundance_range CHECK (
+        severity_metric <> 'abundance' OR high_threshold <= 100
+    );
+
+COMMENT ON COLUMN pathogen_species.severity_metric IS 'What the thresholds measure: reads, or abundance as percent of library reads';
+COMMENT ON COLUMN pathogen_species.medium_threshold IS 'Detections at or above this are medium severity';
+COMMENT ON COLUMN pathogen_species.high_threshold IS 'Detections at or above this are high severity';
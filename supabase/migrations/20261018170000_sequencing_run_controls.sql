@@ -0,0 +1,523 @@
+-- Sequencing runs and their control samples. Extraction blanks and negative
+-- controls give a per-species contamination level for the run; positive
+-- controls (mock communities) are kept for QC. Field detections keep their raw
+-- read_count and get a blank-corrected count alongside it.
+
+CREATE TABLE sequencing_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    -- 'subtract': corrected = raw - blank; 'flag': corrected = raw, detections at or under the blank are flagged
+    decontamination_mode VARCHAR(20) NOT NULL DEFAULT 'subtract'
+        CHECK (decontamination_mode IN ('subtract', 'flag')),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE run_controls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES sequencing_runs(id) ON DELETE CASCADE,
+    control_id VARCHAR(50) NOT NULL,
+    control_type VARCHAR(30) NOT NULL
+        CHECK (control_type IN ('extraction_blank', 'negative_control', 'positive_control')),
+    upload_batch_id UUID REFERENCES upload_batches(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unique_control_per_run UNIQUE (run_id, control_id)
+);
+
+CREATE TABLE control_detections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    control_id UUID NOT NULL REFERENCES run_controls(id) ON DELETE CASCADE,
+    pathogen_species_id UUID NOT NULL REFERENCES pathogen_species(id),
+    read_count INTEGER NOT NULL CHECK (read_count >= 0),
+    CONSTRAINT unique_pathogen_per_control UNIQUE (control_id, pathogen_species_id)
+);
+
+ALTER TABLE sampling_routes ADD COLUMN sequencing_run_id UUID REFERENCES sequencing_runs(id) ON DELETE SET NULL;
+
+-- corrected_read_count is NULL until the route is linked to a run
+ALTER TABLE pathogen_detections ADD COLUMN corrected_read_count INTEGER;
+ALTER TABLE pathogen_detections ADD COLUMN blank_read_count INTEGER;
+ALTER TABLE pathogen_detections ADD COLUMN below_blank BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_sampling_routes_run ON sampling_routes(sequencing_run_id);
+CREATE INDEX idx_run_controls_run ON run_controls(run_id);
+CREATE INDEX idx_control_detections_control ON control_detections(control_id);
+
+ALTER TABLE sequencing_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE run_controls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE control_detections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON sequencing_runs FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON run_controls FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON control_detections FOR SELECT USING (true);
+
+-- Control changes have no route
+ALTER TABLE upload_batch_changes ALTER COLUMN route_id DROP NOT NULL;
+ALTER TABLE upload_batch_changes DROP CONSTRAINT upload_batch_changes_table_name_check;
+ALTER TABLE upload_batch_changes ADD CONSTRAINT upload_batch_changes_table_name_check
+    CHECK (table_name IN ('sampling_routes', 'pathogen_detections', 'run_controls'));
+
+-- Highest read count of each species across the run's blanks and negative controls
+CREATE OR REPLACE FUNCTION run_blank_read_count(p_run_id UUID, p_pathogen_species_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT MAX(cd.read_count)
+    FROM control_detections cd
+    JOIN run_controls rc ON rc.id = cd.control_id
+    WHERE rc.run_id = p_run_id
+      AND rc.control_type IN ('extraction_blank', 'negative_control')
+      AND cd.pathogen_species_id = p_pathogen_species_id;
+$$;
+
+-- Recompute corrected counts for every field detection in a run, after its
+-- controls, mode or sample membership changed
+CREATE OR REPLACE FUNCTION decontaminate_sequencing_run(p_run_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_mode VARCHAR(20);
+    v_updated INTEGER;
+BEGIN
+    SELECT decontamination_mode INTO v_mode FROM sequencing_runs WHERE id = p_run_id;
+
+    UPDATE pathogen_detections d
+    SET blank_read_count = sub.blank_reads,
+        below_blank = COALESCE(d.read_count <= sub.blank_reads, false),
+        corrected_read_count = CASE
+            WHEN sub.blank_reads IS NULL OR v_mode = 'flag' THEN d.read_count
+            ELSE GREATEST(d.read_count - sub.blank_reads, 0)
+        END
+    FROM (
+        SELECT pd.id, run_blank_read_count(p_run_id, pd.pathogen_species_id) AS blank_reads
+        FROM pathogen_detections pd
+        JOIN sampling_routes r ON r.id = pd.route_id
+        WHERE r.sequencing_run_id = p_run_id
+    ) sub
+    WHERE d.id = sub.id;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$;
+
+-- Keep a detection's corrected count in step when its raw count is edited directly
+CREATE OR REPLACE FUNCTION decontaminate_detection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_run_id UUID;
+    v_mode VARCHAR(20);
+BEGIN
+    SELECT r.sequencing_run_id, sr.decontamination_mode INTO v_run_id, v_mode
+    FROM sampling_routes r
+    LEFT JOIN sequencing_runs sr ON sr.id = r.sequencing_run_id
+    WHERE r.id = NEW.route_id;
+
+    IF v_run_id IS NULL THEN
+        NEW.corrected_read_count := NULL;
+        NEW.blank_read_count := NULL;
+        NEW.below_blank := false;
+        RETURN NEW;
+    END IF;
+
+    NEW.blank_read_count := run_blank_read_count(v_run_id, NEW.pathogen_species_id);
+    NEW.below_blank := COALESCE(NEW.read_count <= NEW.blank_read_count, false);
+    NEW.corrected_read_count := CASE
+        WHEN NEW.blank_read_count IS NULL OR v_mode = 'flag' THEN NEW.read_count
+        ELSE GREATEST(NEW.read_count - NEW.blank_read_count, 0)
+    END;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER decontaminate_detection
+    BEFORE INSERT OR UPDATE OF read_count, pathogen_species_id ON pathogen_detections
+    FOR EACH ROW EXECUTE FUNCTION decontaminate_detection();
+
+-- Import takes control samples separately from field samples. Controls are
+-- written first, then every run the upload touched is decontaminated.
+DROP FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB);
+
+CREATE OR REPLACE FUNCTION import_metabarcode_upload(
+    p_uploaded_by UUID,
+    p_filename TEXT,
+    p_file_size INTEGER,
+    p_samples JSONB,
+    p_controls JSONB DEFAULT '[]'::JSONB,
+    p_decontamination_mode TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_batch_id UUID;
+    v_sample JSONB;
+    v_control JSONB;
+    v_detection JSONB;
+    v_route_id UUID;
+    v_route RECORD;
+    v_existing RECORD;
+    v_existing_control RECORD;
+    v_detection_id UUID;
+    v_control_id UUID;
+    v_run_id UUID;
+    v_runs UUID[] := '{}';
+    v_row_count INTEGER := 0;
+    v_routes_created INTEGER := 0;
+    v_detections_written INTEGER := 0;
+    v_controls_written INTEGER := 0;
+BEGIN
+    SELECT COALESCE(SUM(jsonb_array_length(s->'detections')), 0) INTO v_row_count
+    FROM (
+        SELECT * FROM jsonb_array_elements(p_samples)
+        UNION ALL
+        SELECT * FROM jsonb_array_elements(p_controls)
+    ) AS all_samples(s);
+
+    INSERT INTO upload_batches (uploaded_by, filename, file_size, row_count)
+    VALUES (p_uploaded_by, p_filename, p_file_size, v_row_count)
+    RETURNING id INTO v_batch_id;
+
+    -- Runs are created on first use; the upload's mode applies to every run it names
+    INSERT INTO sequencing_runs (name, decontamination_mode, created_by)
+    SELECT DISTINCT s->>'sequencing_run', COALESCE(p_decontamination_mode, 'subtract'), p_uploaded_by
+    FROM (
+        SELECT * FROM jsonb_array_elements(p_samples)
+        UNION ALL
+        SELECT * FROM jsonb_array_elements(p_controls)
+    ) AS all_samples(s)
+    WHERE s->>'sequencing_run' IS NOT NULL
+    ON CONFLICT (name) DO UPDATE
+    SET decontamination_mode = COALESCE(p_decontamination_mode, sequencing_runs.decontamination_mode);
+
+    FOR v_control IN SELECT * FROM jsonb_array_elements(p_controls)
+    LOOP
+        SELECT id INTO v_run_id FROM sequencing_runs WHERE name = v_control->>'sequencing_run';
+        v_runs := array_append(v_runs, v_run_id);
+
+        SELECT rc.id, rc.control_type, rc.upload_batch_id,
+               COALESCE(
+                   (SELECT jsonb_agg(jsonb_build_object(
+                        'pathogen_species_id', cd.pathogen_species_id,
+                        'read_count', cd.read_count
+                    ))
+                    FROM control_detections cd WHERE cd.control_id = rc.id),
+                   '[]'::JSONB
+               ) AS detections
+        INTO v_existing_control
+        FROM run_controls rc
+        WHERE rc.run_id = v_run_id AND rc.control_id = v_control->>'control_id';
+
+        IF FOUND THEN
+            -- A re-uploaded control replaces its previous read counts wholesale
+            INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action, previous)
+            VALUES (
+                v_batch_id, 'run_controls', v_existing_control.id, NULL, 'update',
+                jsonb_build_object(
+                    'control_type', v_existing_control.control_type,
+                    'upload_batch_id', v_existing_control.upload_batch_id,
+                    'detections', v_existing_control.detections
+                )
+            );
+
+            UPDATE run_controls
+            SET control_type = v_control->>'control_type',
+                upload_batch_id = v_batch_id
+            WHERE id = v_existing_control.id;
+
+            DELETE FROM control_detections WHERE control_id = v_existing_control.id;
+            v_control_id := v_existing_control.id;
+        ELSE
+            INSERT INTO run_controls (run_id, control_id, control_type, upload_batch_id)
+            VALUES (v_run_id, v_control->>'control_id', v_control->>'control_type', v_batch_id)
+            RETURNING id INTO v_control_id;
+
+            INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action)
+            VALUES (v_batch_id, 'run_controls', v_control_id, NULL, 'insert');
+        END IF;
+
+        INSERT INTO control_detections (control_id, pathogen_species_id, read_count)
+        SELECT v_control_id, (d->>'pathogen_species_id')::UUID, (d->>'read_count')::INTEGER
+        FROM jsonb_array_elements(v_control->'detections') d;
+
+        v_controls_written := v_controls_written + 1;
+    END LOOP;
+
+    FOR v_sample IN SELECT * FROM jsonb_array_elements(p_samples)
+    LOOP
+        v_run_id := NULL;
+        IF v_sample->>'sequencing_run' IS NOT NULL THEN
+            SELECT id INTO v_run_id FROM sequencing_runs WHERE name = v_sample->>'sequencing_run';
+            v_runs := array_append(v_runs, v_run_id);
+        END IF;
+
+        SELECT id, total_reads, fungal_reads, sequencing_run_id, upload_batch_id INTO v_route
+        FROM sampling_routes
+        WHERE sample_id = v_sample->>'sample_id';
+        v_route_id := v_route.id;
+
+        IF v_route_id IS NULL THEN
+            INSERT INTO sampling_routes (
+                sample_id, start_name, end_name,
+                start_latitude, start_longitude, end_latitude, end_longitude,
+                collection_date, total_reads, fungal_reads, sequencing_run_id,
+                created_by, upload_batch_id
+            ) VALUES (
+                v_sample->>'sample_id',
+                v_sample->>'start_name',
+                v_sample->>'end_name',
+                (v_sample->>'start_latitude')::DECIMAL,
+                (v_sample->>'start_longitude')::DECIMAL,
+                (v_sample->>'end_latitude')::DECIMAL,
+                (v_sample->>'end_longitude')::DECIMAL,
+                (v_sample->>'collection_date')::DATE,
+                (v_sample->>'total_reads')::INTEGER,
+                (v_sample->>'fungal_reads')::INTEGER,
+                v_run_id,
+                p_uploaded_by,
+                v_batch_id
+            )
+            RETURNING id INTO v_route_id;
+
+            INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action)
+            VALUES (v_batch_id, 'sampling_routes', v_route_id, v_route_id, 'insert');
+
+            v_routes_created := v_routes_created + 1;
+        ELSIF (v_sample->>'total_reads') IS NOT NULL
+           OR (v_sample->>'fungal_reads') IS NOT NULL
+           OR (v_run_id IS NOT NULL AND v_run_id IS DISTINCT FROM v_route.sequencing_run_id)
+        THEN
+            -- Library totals and run from a re-run replace the stored ones; values the
+            -- file does not carry are left as they were
+            IF v_route.sequencing_run_id IS NOT NULL THEN
+                v_runs := array_append(v_runs, v_route.sequencing_run_id);
+            END IF;
+
+            INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action, previous)
+            VALUES (
+                v_batch_id, 'sampling_routes', v_route_id, v_route_id, 'update',
+                jsonb_build_object(
+                    'total_reads', v_route.total_reads,
+                    'fungal_reads', v_route.fungal_reads,
+                    'sequencing_run_id', v_route.sequencing_run_id,
+                    'upload_batch_id', v_route.upload_batch_id
+                )
+            );
+
+            UPDATE sampling_routes
+            SET total_reads = COALESCE((v_sample->>'total_reads')::INTEGER, total_reads),
+                fungal_reads = COALESCE((v_sample->>'fungal_reads')::INTEGER, fungal_reads),
+                sequencing_run_id = COALESCE(v_run_id, sequencing_run_id),
+                upload_batch_id = v_batch_id
+            WHERE id = v_route_id;
+        END IF;
+
+        INSERT INTO sample_uploads (route_id, uploaded_by, filename, file_size, row_count, notes, batch_id)
+        VALUES (
+            v_route_id,
+            p_uploaded_by,
+            p_filename,
+            p_file_size,
+            jsonb_array_length(v_sample->'detections'),
+            'Uploaded via metabarcode CSV upload',
+            v_batch_id
+        );
+
+        FOR v_detection IN SELECT * FROM jsonb_array_elements(v_sample->'detections')
+        LOOP
+            SELECT id, read_count, upload_batch_id INTO v_existing
+            FROM pathogen_detections
+            WHERE route_id = v_route_id
+              AND pathogen_species_id = (v_detection->>'pathogen_species_id')::UUID;
+
+            IF FOUND THEN
+                INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action, previous)
+                VALUES (
+                    v_batch_id, 'pathogen_detections', v_existing.id, v_route_id, 'update',
+                    jsonb_build_object(
+                        'read_count', v_existing.read_count,
+                        'upload_batch_id', v_existing.upload_batch_id
+                    )
+                );
+
+                UPDATE pathogen_detections
+                SET read_count = (v_detection->>'read_count')::INTEGER,
+                    upload_batch_id = v_batch_id
+                WHERE id = v_existing.id;
+            ELSE
+                INSERT INTO pathogen_detections (route_id, pathogen_species_id, read_count, upload_batch_id)
+                VALUES (
+                    v_route_id,
+                    (v_detection->>'pathogen_species_id')::UUID,
+                    (v_detection->>'read_count')::INTEGER,
+                    v_batch_id
+                )
+                RETURNING id INTO v_detection_id;
+
+                INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action)
+                VALUES (v_batch_id, 'pathogen_detections', v_detection_id, v_route_id, 'insert');
+            END IF;
+
+            v_detections_written := v_detections_written + 1;
+        END LOOP;
+    END LOOP;
+
+    PERFORM decontaminate_sequencing_run(run_id)
+    FROM (SELECT DISTINCT unnest(v_runs) AS run_id) runs
+    WHERE run_id IS NOT NULL;
+
+    RETURN jsonb_build_object(
+        'batch_id', v_batch_id,
+        'routes_created', v_routes_created,
+        'detections_written', v_detections_written,
+        'controls_written', v_controls_written
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB, JSONB, TEXT) TO service_role;
+REVOKE ALL ON FUNCTION decontaminate_sequencing_run(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION decontaminate_sequencing_run(UUID) TO service_role;
+
+-- Rollback also restores controls and run links, then re-decontaminates the affected runs
+CREATE OR REPLACE FUNCTION rollback_upload_batch(
+    p_batch_id UUID,
+    p_rolled_back_by UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_batch upload_batches%ROWTYPE;
+    v_change upload_batch_changes%ROWTYPE;
+    v_runs UUID[];
+    v_routes_deleted INTEGER := 0;
+    v_detections_deleted INTEGER := 0;
+    v_detections_restored INTEGER := 0;
+    v_routes_restored INTEGER := 0;
+    v_controls_deleted INTEGER := 0;
+    v_controls_restored INTEGER := 0;
+BEGIN
+    SELECT * INTO v_batch FROM upload_batches WHERE id = p_batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Upload batch % not found', p_batch_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_batch.rolled_back_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Upload batch has already been rolled back' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM upload_batch_changes later
+        JOIN upload_batches b ON b.id = later.batch_id
+        WHERE b.id <> p_batch_id
+          AND b.created_at > v_batch.created_at
+          AND b.rolled_back_at IS NULL
+          AND (
+              later.record_id IN (SELECT record_id FROM upload_batch_changes WHERE batch_id = p_batch_id)
+              OR later.route_id IN (
+                  SELECT record_id FROM upload_batch_changes
+                  WHERE batch_id = p_batch_id AND table_name = 'sampling_routes'
+              )
+          )
+    ) THEN
+        RAISE EXCEPTION 'A later upload changed the same samples; roll that upload back first' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Runs whose decontamination depends on what the batch touched, before routes are deleted
+    SELECT array_agg(DISTINCT run_id) INTO v_runs
+    FROM (
+        SELECT r.sequencing_run_id AS run_id
+        FROM upload_batch_changes c
+        JOIN sampling_routes r ON r.id = c.route_id
+        WHERE c.batch_id = p_batch_id
+        UNION
+        SELECT (c.previous->>'sequencing_run_id')::UUID
+        FROM upload_batch_changes c
+        WHERE c.batch_id = p_batch_id AND c.table_name = 'sampling_routes'
+        UNION
+        SELECT rc.run_id
+        FROM upload_batch_changes c
+        JOIN run_controls rc ON rc.id = c.record_id
+        WHERE c.batch_id = p_batch_id AND c.table_name = 'run_controls'
+    ) touched
+    WHERE run_id IS NOT NULL;
+
+    -- Undo detections and controls first, newest change first, then drop routes the batch created
+    FOR v_change IN
+        SELECT * FROM upload_batch_changes
+        WHERE batch_id = p_batch_id
+        ORDER BY (table_name = 'sampling_routes'), id DESC
+    LOOP
+        IF v_change.table_name = 'pathogen_detections' AND v_change.action = 'insert' THEN
+            DELETE FROM pathogen_detections WHERE id = v_change.record_id;
+            v_detections_deleted := v_detections_deleted + 1;
+        ELSIF v_change.table_name = 'pathogen_detections' AND v_change.action = 'update' THEN
+            UPDATE pathogen_detections
+            SET read_count = (v_change.previous->>'read_count')::INTEGER,
+                upload_batch_id = (v_change.previous->>'upload_batch_id')::UUID
+            WHERE id = v_change.record_id;
+            v_detections_restored := v_detections_restored + 1;
+        ELSIF v_change.table_name = 'run_controls' AND v_change.action = 'insert' THEN
+            DELETE FROM run_controls WHERE id = v_change.record_id;
+            v_controls_deleted := v_controls_deleted + 1;
+        ELSIF v_change.table_name = 'run_controls' AND v_change.action = 'update' THEN
+            UPDATE run_controls
+            SET control_type = v_change.previous->>'control_type',
+                upload_batch_id = (v_change.previous->>'upload_batch_id')::UUID
+            WHERE id = v_change.record_id;
+
+            DELETE FROM control_detections WHERE control_id = v_change.record_id;
+            INSERT INTO control_detections (control_id, pathogen_species_id, read_count)
+            SELECT v_change.record_id, (d->>'pathogen_species_id')::UUID, (d->>'read_count')::INTEGER
+            FROM jsonb_array_elements(v_change.previous->'detections') d;
+            v_controls_restored := v_controls_restored + 1;
+        ELSIF v_change.table_name = 'sampling_routes' AND v_change.action = 'insert' THEN
+            DELETE FROM sampling_routes WHERE id = v_change.record_id;
+            v_routes_deleted := v_routes_deleted + 1;
+        ELSIF v_change.table_name = 'sampling_routes' AND v_change.action = 'update' THEN
+            UPDATE sampling_routes
+            SET total_reads = (v_change.previous->>'total_reads')::INTEGER,
+                fungal_reads = (v_change.previous->>'fungal_reads')::INTEGER,
+                sequencing_run_id = (v_change.previous->>'sequencing_run_id')::UUID,
+                upload_batch_id = (v_change.previous->>'upload_batch_id')::UUID
+            WHERE id = v_change.record_id;
+            v_routes_restored := v_routes_restored + 1;
+        END IF;
+    END LOOP;
+
+    PERFORM decontaminate_sequencing_run(run_id)
+    FROM unnest(COALESCE(v_runs, '{}')) AS run_id;
+
+    UPDATE sample_uploads SET processing_status = 'rolled_back' WHERE batch_id = p_batch_id;
+
+    UPDATE upload_batches
+    SET rolled_back_at = NOW(), rolled_back_by = p_rolled_back_by
+    WHERE id = p_batch_id;
+
+    RETURN jsonb_build_object(
+        'routes_deleted', v_routes_deleted,
+        'detections_deleted', v_detections_deleted,
+        'detections_restored', v_detections_restored,
+        'routes_restored', v_routes_restored,
+        'controls_deleted', v_controls_deleted,
+        'controls_restored', v_controls_restored
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION rollback_upload_batch(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rollback_upload_batch(UUID, UUID) TO service_role;
+
+COMMENT ON TABLE sequencing_runs IS 'Sequencing runs; blanks in a run are used to decontaminate its field samples';
+COMMENT ON TABLE run_controls IS 'Extraction blanks, negative controls and positive (mock community) controls per run';
+COMMENT ON COLUMN pathogen_detections.read_count IS 'Raw read count as imported';
+COMMENT ON COLUMN pathogen_detections.corrected_read_count IS 'Read count after blank correction; NULL when the route has no sequencing run';
+COMMENT ON COLUMN pathogen_detections.below_blank IS 'Raw count is at or under the highest blank count for the species in the run';
@@ -0,0 +1,88 @@
+-- What produced a sequencing run: primer set, platform and bioinformatics
+-- pipeline. Uploads and detections reference their run so results from a bad
+-- run, primer set or pipeline version can be found and re-analysed or discounted.
+
+ALTER TABLE sequencing_runs ADD COLUMN primer_set VARCHAR(50);
+ALTER TABLE sequencing_runs ADD COLUMN platform VARCHAR(100);
+ALTER TABLE sequencing_runs ADD COLUMN pipeline_version VARCHAR(100);
+ALTER TABLE sequencing_runs ADD COLUMN run_date DATE;
+ALTER TABLE sequencing_runs ADD COLUMN notes TEXT;
+ALTER TABLE sequencing_runs ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE;
+
+-- The run an upload was made for; NULL when rows named their own runs
+ALTER TABLE upload_batches ADD COLUMN sequencing_run_id UUID REFERENCES sequencing_runs(id) ON DELETE SET NULL;
+
+-- Follows the route's run; kept in step by the triggers below
+ALTER TABLE pathogen_detections ADD COLUMN sequencing_run_id UUID REFERENCES sequencing_runs(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_pathogen_detections_run ON pathogen_detections(sequencing_run_id);
+CREATE INDEX idx_upload_batches_run ON upload_batches(sequencing_run_id);
+
+UPDATE pathogen_detections d
+SET sequencing_run_id = r.sequencing_run_id
+FROM sampling_routes r
+WHERE r.id = d.route_id AND r.sequencing_run_id IS NOT NULL;
+
+-- The detection trigger now also records the run, and fires when the run changes
+CREATE OR REPLACE FUNCTION decontaminate_detection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_run_id UUID;
+    v_mode VARCHAR(20);
+BEGIN
+    SELECT r.sequencing_run_id, sr.decontamination_mode INTO v_run_id, v_mode
+    FROM sampling_routes r
+    LEFT JOIN sequencing_runs sr ON sr.id = r.sequencing_run_id
+    WHERE r.id = NEW.route_id;
+
+    NEW.sequencing_run_id := v_run_id;
+
+    IF v_run_id IS NULL THEN
+        NEW.corrected_read_count := NULL;
+        NEW.blank_read_count := NULL;
+        NEW.below_blank := false;
+        RETURN NEW;
+    END IF;
+
+    NEW.blank_read_count := run_blank_read_count(v_run_id, NEW.pathogen_species_id);
+    NEW.below_blank := COALESCE(NEW.read_count <= NEW.blank_read_count, false);
+    NEW.corrected_read_count := CASE
+        WHEN NEW.blank_read_count IS NULL OR v_mode = 'flag' THEN NEW.read_count
+        ELSE GREATEST(NEW.read_count - NEW.blank_read_count, 0)
+    END;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER decontaminate_detection ON pathogen_detections;
+
+CREATE TRIGGER decontaminate_detection
+    BEFORE INSERT OR UPDATE OF read_count, pathogen_species_id, sequencing_run_id ON pathogen_detections
+    FOR EACH ROW EXECUTE FUNCTION decontaminate_detection();
+
+-- Moving a route to another run (import or rollback) moves its detections with it
+CREATE OR REPLACE FUNCTION sync_route_detections_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE pathogen_detections
+    SET sequencing_run_id = NEW.sequencing_run_id
+    WHERE route_id = NEW.id;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_route_detections_run
+    AFTER UPDATE OF sequencing_run_id ON sampling_routes
+    FOR EACH ROW
+    WHEN (OLD.sequencing_run_id IS DISTINCT FROM NEW.sequencing_run_id)
+    EXECUTE FUNCTION sync_route_detections_run();
+
+COMMENT ON COLUMN sequencing_runs.primer_set IS 'Amplicon primer set, e.g. ITS1, ITS2';
+COMMENT ON COLUMN sequencing_runs.platform IS 'Sequencing platform, e.g. Illumina MiSeq';
+COMMENT ON COLUMN sequencing_runs.pipeline_version IS 'Bioinformatics pipeline and version that produced the read counts';
+COMMENT ON COLUMN upload_batches.sequencing_run_id IS 'Run selected for the upload; rows without a run of their own were imported against it';
+COMMENT ON COLUMN pathogen_detections.sequencing_run_id IS 'Run that produced the detection; follows sampling_routes.sequencing_run_id';
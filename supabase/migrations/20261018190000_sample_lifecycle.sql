@@ -0,0 +1,133 @@
+-- Chain of custody: where each sample is between collection in the field and
+-- results in the database, with a timestamped log of who moved it and when.
+-- Stages: collected -> dispatched -> received -> extracted -> sequenced -> results_loaded
+
+ALTER TABLE sampling_routes ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'collected'
+    CHECK (status IN ('collected', 'dispatched', 'received', 'extracted', 'sequenced', 'results_loaded'));
+ALTER TABLE sampling_routes ADD COLUMN status_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+CREATE TABLE sample_status_transitions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    route_id UUID NOT NULL REFERENCES sampling_routes(id) ON DELETE CASCADE,
+    from_status VARCHAR(20), -- NULL for the entry recorded when the route is created
+    to_status VARCHAR(20) NOT NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    notes TEXT
+);
+
+CREATE INDEX idx_sampling_routes_status ON sampling_routes(status);
+CREATE INDEX idx_sample_status_transitions_route ON sample_status_transitions(route_id, changed_at);
+
+ALTER TABLE sample_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON sample_status_transitions FOR SELECT USING (true);
+
+-- Samples that already have results are done
+UPDATE sampling_routes r
+SET status = 'results_loaded'
+WHERE EXISTS (SELECT 1 FROM pathogen_detections d WHERE d.route_id = r.id);
+
+INSERT INTO sample_status_transitions (route_id, from_status, to_status, changed_by, changed_at, notes)
+SELECT id, NULL, status, created_by, COALESCE(created_at, NOW()), 'Status at lifecycle tracking start'
+FROM sampling_routes;
+
+-- Every route starts its log with the status it was created in
+CREATE OR REPLACE FUNCTION record_initial_sample_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO sample_status_transitions (route_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, NEW.created_by);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_initial_sample_status
+    AFTER INSERT ON sampling_routes
+    FOR EACH ROW EXECUTE FUNCTION record_initial_sample_status();
+
+-- Move a sample one stage forward, or one stage back to correct a mistake
+CREATE OR REPLACE FUNCTION transition_sample_status(
+    p_route_id UUID,
+    p_to_status TEXT,
+    p_changed_by UUID,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_stages TEXT[] := ARRAY['collected', 'dispatched', 'received', 'extracted', 'sequenced', 'results_loaded'];
+    v_from TEXT;
+    v_from_index INTEGER;
+    v_to_index INTEGER;
+    v_changed_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+    SELECT status INTO v_from FROM sampling_routes WHERE id = p_route_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sample % not found', p_route_id USING ERRCODE = 'P0002';
+    END IF;
+
+    v_from_index := array_position(v_stages, v_from);
+    v_to_index := array_position(v_stages, p_to_status);
+
+    IF v_to_index IS NULL THEN
+        RAISE EXCEPTION 'Unknown sample status %', p_to_status USING ERRCODE = 'P0001';
+    END IF;
+
+    IF abs(v_to_index - v_from_index) <> 1 THEN
+        RAISE EXCEPTION 'A sample can only move from % to the next or previous stage', v_from USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE sampling_routes
+    SET status = p_to_status, status_updated_at = v_changed_at
+    WHERE id = p_route_id;
+
+    INSERT INTO sample_status_transitions (route_id, from_status, to_status, changed_by, changed_at, notes)
+    VALUES (p_route_id, v_from, p_to_status, p_changed_by, v_changed_at, p_notes);
+
+    RETURN jsonb_build_object('from_status', v_from, 'to_status', p_to_status, 'changed_at', v_changed_at);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_sample_status(UUID, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION transition_sample_status(UUID, TEXT, UUID, TEXT) TO service_role;
+
+-- Loading results closes the lifecycle, whatever stage the lab last recorded;
+-- the change is attributed to whoever made the upload
+CREATE OR REPLACE FUNCTION mark_sample_results_loaded()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_from TEXT;
+    v_changed_by UUID;
+BEGIN
+    SELECT status INTO v_from FROM sampling_routes WHERE id = NEW.route_id;
+
+    IF v_from = 'results_loaded' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT uploaded_by INTO v_changed_by FROM upload_batches WHERE id = NEW.upload_batch_id;
+
+    UPDATE sampling_routes
+    SET status = 'results_loaded', status_updated_at = NOW()
+    WHERE id = NEW.route_id;
+
+    INSERT INTO sample_status_transitions (route_id, from_status, to_status, changed_by, notes)
+    VALUES (NEW.route_id, v_from, 'results_loaded', v_changed_by, 'Detections loaded');
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_sample_results_loaded
+    AFTER INSERT ON pathogen_detections
+    FOR EACH ROW EXECUTE FUNCTION mark_sample_results_loaded();
+
+COMMENT ON COLUMN sampling_routes.status IS 'Chain-of-custody stage; changed through transition_sample_status';
+COMMENT ON TABLE sample_status_transitions IS 'Log of chain-of-custody stage changes per sample';
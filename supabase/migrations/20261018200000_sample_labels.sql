@@ -0,0 +1,97 @@
+-- Pre-printed sample labels. IDs are issued in batches as <prefix>_<seq>, with
+-- the sequence zero-padded to two digits, so field teams scan a label instead
+-- of typing an ID. A label is used once a route is recorded under its ID.
+
+CREATE TABLE label_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    prefix VARCHAR(20) NOT NULL,
+    label_count INTEGER NOT NULL CHECK (label_count > 0),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE sample_labels (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sample_id VARCHAR(50) NOT NULL UNIQUE,
+    batch_id UUID NOT NULL REFERENCES label_batches(id) ON DELETE CASCADE,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    used_at TIMESTAMP WITH TIME ZONE,
+    route_id UUID REFERENCES sampling_routes(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_sample_labels_batch ON sample_labels(batch_id);
+
+ALTER TABLE label_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sample_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON label_batches FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON sample_labels FOR SELECT USING (true);
+
+-- Issue the next p_count IDs for a prefix, continuing after the highest
+-- sequence already issued or recorded as a route
+CREATE OR REPLACE FUNCTION issue_sample_labels(
+    p_prefix TEXT,
+    p_count INTEGER,
+    p_issued_by UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_batch_id UUID;
+    v_pattern TEXT := '^' || p_prefix || '_([0-9]+)$';
+    v_last INTEGER;
+    v_sample_ids TEXT[];
+BEGIN
+    IF p_prefix !~ '^[A-Za-z0-9-]{1,20}$' THEN
+        RAISE EXCEPTION 'Invalid label prefix %', p_prefix USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Serialise issuing per prefix so two batches never get the same IDs
+    PERFORM pg_advisory_xact_lock(hashtext('issue_sample_labels:' || p_prefix));
+
+    SELECT COALESCE(MAX((substring(sample_id FROM v_pattern))::INTEGER), 0) INTO v_last
+    FROM (
+        SELECT sample_id FROM sample_labels
+        UNION ALL
+        SELECT sample_id FROM sampling_routes
+    ) ids
+    WHERE sample_id ~ v_pattern;
+
+    INSERT INTO label_batches (prefix, label_count, created_by)
+    VALUES (p_prefix, p_count, p_issued_by)
+    RETURNING id INTO v_batch_id;
+
+    WITH issued AS (
+        INSERT INTO sample_labels (sample_id, batch_id)
+        SELECT p_prefix || '_' || CASE WHEN seq < 10 THEN '0' || seq ELSE seq::TEXT END, v_batch_id
+        FROM generate_series(v_last + 1, v_last + p_count) AS seq
+        RETURNING sample_id
+    )
+    SELECT array_agg(sample_id ORDER BY length(sample_id), sample_id) INTO v_sample_ids FROM issued;
+
+    RETURN jsonb_build_object('batch_id', v_batch_id, 'sample_ids', to_jsonb(v_sample_ids));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION issue_sample_labels(TEXT, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_sample_labels(TEXT, INTEGER, UUID) TO service_role;
+
+-- Recording a route under a label's ID uses the label up
+CREATE OR REPLACE FUNCTION mark_sample_label_used()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE sample_labels
+    SET used_at = NOW(), route_id = NEW.id
+    WHERE sample_id = NEW.sample_id AND used_at IS NULL;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_sample_label_used
+    AFTER INSERT ON sampling_routes
+    FOR EACH ROW EXECUTE FUNCTION mark_sample_label_used();
+
+COMMENT ON TABLE sample_labels IS 'Issued sample IDs printed on labels; used_at is set when a route is recorded under the ID';
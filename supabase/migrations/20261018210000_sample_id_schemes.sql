@@ -0,0 +1,150 @@
+-- Sample ID schemes per season. A scheme's pattern builds IDs from tokens:
+--   {YYYY}, {YY}   year the season starts in
+--   {season}       the season name
+--   {seq}, {seq:N} running number, zero-padded to N digits
+-- e.g. '{YY}_{seq:02}' gives 26_01, 26_02, ... IDs are handed out by the
+-- server, either printed as labels or reserved by a sampler ahead of going
+-- offline, and are never handed out twice.
+
+CREATE TABLE sample_id_schemes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    season VARCHAR(20) NOT NULL UNIQUE,
+    pattern VARCHAR(100) NOT NULL,
+    starts_on DATE NOT NULL,
+    ends_on DATE NOT NULL,
+    next_seq INTEGER NOT NULL DEFAULT 1 CHECK (next_seq > 0),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT season_dates_ordered CHECK (ends_on >= starts_on)
+);
+
+ALTER TABLE sample_id_schemes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON sample_id_schemes FOR SELECT USING (true);
+
+-- The current season keeps the existing YY_NN convention
+INSERT INTO sample_id_schemes (season, pattern, starts_on, ends_on)
+VALUES (
+    EXTRACT(YEAR FROM CURRENT_DATE)::TEXT,
+    '{YY}_{seq:02}',
+    date_trunc('year', CURRENT_DATE)::DATE,
+    (date_trunc('year', CURRENT_DATE) + INTERVAL '1 year - 1 day')::DATE
+);
+
+-- sample_labels now holds every issued ID: printed labels belong to a batch,
+-- reservations to the sampler who reserved them
+ALTER TABLE sample_labels ALTER COLUMN batch_id DROP NOT NULL;
+ALTER TABLE sample_labels ADD COLUMN scheme_id UUID REFERENCES sample_id_schemes(id) ON DELETE SET NULL;
+ALTER TABLE sample_labels ADD COLUMN reserved_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE sample_labels ADD CONSTRAINT label_or_reservation
+    CHECK (batch_id IS NOT NULL OR reserved_by IS NOT NULL);
+
+CREATE INDEX idx_sample_labels_reserved_by ON sample_labels(reserved_by) WHERE used_at IS NULL;
+
+ALTER TABLE label_batches ALTER COLUMN prefix DROP NOT NULL;
+ALTER TABLE label_batches ADD COLUMN scheme_id UUID REFERENCES sample_id_schemes(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION format_sample_id(p_pattern TEXT, p_season TEXT, p_year INTEGER, p_seq INTEGER)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_width INTEGER := COALESCE((regexp_match(p_pattern, '\{seq:(\d+)\}'))[1]::INTEGER, 1);
+    v_seq TEXT := p_seq::TEXT;
+BEGIN
+    IF length(v_seq) < v_width THEN
+        v_seq := lpad(v_seq, v_width, '0');
+    END IF;
+
+    RETURN regexp_replace(
+        replace(replace(replace(p_pattern, '{YYYY}', p_year::TEXT), '{YY}', lpad((p_year % 100)::TEXT, 2, '0')), '{season}', p_season),
+        '\{seq(:\d+)?\}',
+        v_seq
+    );
+END;
+$$;
+
+-- Hand out the next p_count IDs of a scheme, skipping any already issued or
+-- recorded as a route. Labels pass their batch; reservations pass no batch
+-- and are held for p_allocated_by.
+CREATE OR REPLACE FUNCTION allocate_sample_ids(
+    p_scheme_id UUID,
+    p_count INTEGER,
+    p_allocated_by UUID,
+    p_batch_id UUID DEFAULT NULL
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_scheme sample_id_schemes%ROWTYPE;
+    v_seq INTEGER;
+    v_sample_id TEXT;
+    v_sample_ids TEXT[] := '{}';
+BEGIN
+    -- Row lock serialises allocation per scheme
+    SELECT * INTO v_scheme FROM sample_id_schemes WHERE id = p_scheme_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sample ID scheme % not found', p_scheme_id USING ERRCODE = 'P0002';
+    END IF;
+
+    v_seq := v_scheme.next_seq;
+
+    WHILE COALESCE(array_length(v_sample_ids, 1), 0) < p_count LOOP
+        v_sample_id := format_sample_id(v_scheme.pattern, v_scheme.season, EXTRACT(YEAR FROM v_scheme.starts_on)::INTEGER, v_seq);
+        v_seq := v_seq + 1;
+
+        CONTINUE WHEN EXISTS (SELECT 1 FROM sample_labels WHERE sample_id = v_sample_id)
+                   OR EXISTS (SELECT 1 FROM sampling_routes WHERE sample_id = v_sample_id);
+
+        INSERT INTO sample_labels (sample_id, batch_id, scheme_id, reserved_by)
+        VALUES (
+            v_sample_id,
+            p_batch_id,
+            p_scheme_id,
+            CASE WHEN p_batch_id IS NULL THEN p_allocated_by END
+        );
+
+        v_sample_ids := array_append(v_sample_ids, v_sample_id);
+    END LOOP;
+
+    UPDATE sample_id_schemes SET next_seq = v_seq WHERE id = p_scheme_id;
+
+    RETURN v_sample_ids;
+END;
+$$;
+
+-- Label batches now draw from a scheme instead of a free-form prefix
+DROP FUNCTION issue_sample_labels(TEXT, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION issue_sample_labels(
+    p_scheme_id UUID,
+    p_count INTEGER,
+    p_issued_by UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_batch_id UUID;
+    v_sample_ids TEXT[];
+BEGIN
+    INSERT INTO label_batches (scheme_id, label_count, created_by)
+    VALUES (p_scheme_id, p_count, p_issued_by)
+    RETURNING id INTO v_batch_id;
+
+    v_sample_ids := allocate_sample_ids(p_scheme_id, p_count, p_issued_by, v_batch_id);
+
+    RETURN jsonb_build_object('batch_id', v_batch_id, 'sample_ids', to_jsonb(v_sample_ids));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION allocate_sample_ids(UUID, INTEGER, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION allocate_sample_ids(UUID, INTEGER, UUID, UUID) TO service_role;
+REVOKE ALL ON FUNCTION issue_sample_labels(UUID, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_sample_labels(UUID, INTEGER, UUID) TO service_role;
+
+COMMENT ON TABLE sample_id_schemes IS 'Sample ID pattern per season; next_seq is the next running number to try';
+COMMENT ON TABLE sample_labels IS 'Issued sample IDs, printed as labels (batch_id) or reserved by a sampler (reserved_by); used_at is set when a route is recorded under the ID';
@@ -0,0 +1,31 @@
+-- Field trips: a day's run of consecutive transects, with the metadata that
+-- is the same for every sample on it. Trip IDs are generated on the device so
+-- samples collected offline can reference their trip before it reaches the server.
+
+CREATE TABLE field_trips (
+    id UUID PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    trip_date DATE NOT NULL,
+    vehicle VARCHAR(100),
+    sampler_name VARCHAR(100),
+    weather VARCHAR(200),
+    notes TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE field_trips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON field_trips FOR SELECT USING (true);
+
+CREATE INDEX idx_field_trips_trip_date ON field_trips(trip_date DESC);
+
+-- Position of a sample within its trip (1 = first transect of the day)
+ALTER TABLE sampling_routes ADD COLUMN trip_id UUID REFERENCES field_trips(id) ON DELETE SET NULL;
+ALTER TABLE sampling_routes ADD COLUMN trip_sequence INTEGER CHECK (trip_sequence > 0);
+
+CREATE INDEX idx_sampling_routes_trip ON sampling_routes(trip_id, trip_sequence);
+
+COMMENT ON TABLE field_trips IS 'Sampling trips grouping consecutive routes; vehicle, sampler and weather apply to every route on the trip';
+COMMENT ON COLUMN sampling_routes.trip_sequence IS 'Order of the route within its trip';
@@ -0,0 +1,21 @@
+-- Track quality control: raw GPS fixes are kept, but fixes with poor accuracy
+-- or impossible jumps, and fixes that add nothing to the line's shape, are
+-- marked so maps draw the cleaned, simplified track. Length, duration, speed
+-- and stationary periods are computed from the cleaned track and stored on
+-- the route.
+
+-- NULL = part of the cleaned, simplified track
+ALTER TABLE gps_tracking_points ADD COLUMN qc VARCHAR(20)
+    CHECK (qc IN ('accuracy', 'speed', 'simplified'));
+
+ALTER TABLE sampling_routes ADD COLUMN track_stats JSONB;
+ALTER TABLE sampling_routes ADD COLUMN track_speed_flag VARCHAR(10)
+    CHECK (track_speed_flag IN ('slow', 'fast'));
+ALTER TABLE sampling_routes ADD COLUMN track_processed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_sampling_routes_track_speed_flag ON sampling_routes(track_speed_flag)
+    WHERE track_speed_flag IS NOT NULL;
+
+COMMENT ON COLUMN gps_tracking_points.qc IS 'Why the fix is left out of the cleaned track (accuracy, speed or simplified); NULL if it is part of it';
+COMMENT ON COLUMN sampling_routes.track_stats IS 'Transect length, duration, speeds and stationary periods from the cleaned track';
+COMMENT ON COLUMN sampling_routes.track_speed_flag IS 'Set when the moving speed is outside the range the air sampler is run at';
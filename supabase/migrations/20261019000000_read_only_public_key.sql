@@ -0,0 +1,40 @@
+-- Read-only public key: every write now goes through an API route that checks
+-- the session and role and uses the service role (which bypasses RLS), so the
+-- anon and authenticated roles lose all write access. Write policies added to
+-- let the browser write directly are dropped, and the grants are revoked as
+-- well so a policy added later cannot reopen a table.
+
+DO $$
+DECLARE
+    policy RECORD;
+BEGIN
+    FOR policy IN
+        SELECT schemaname, tablename, policyname
+        FROM pg_policies
+        WHERE schemaname = 'public' AND cmd IN ('INSERT', 'UPDATE', 'DELETE')
+    LOOP
+        EXECUTE format('DROP POLICY %I ON %I.%I', policy.policyname, policy.schemaname, policy.tablename);
+    END LOOP;
+END $$;
+
+-- Tables created without RLS would otherwise ignore the policies entirely
+DO $$
+DECLARE
+    t RECORD;
+BEGIN
+    FOR t IN SELECT tablename FROM pg_tables WHERE schemaname = 'public' LOOP
+        EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t.tablename);
+    END LOOP;
+END $$;
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, REFERENCES, TRIGGER ON ALL TABLES IN SCHEMA public FROM anon, authenticated;
+REVOKE USAGE, UPDATE ON ALL SEQUENCES IN SCHEMA public FROM anon, authenticated;
+
+ALTER DEFAULT PRIVILEGES IN SCHEMA public
+    REVOKE INSERT, UPDATE, DELETE, TRUNCATE, REFERENCES, TRIGGER ON TABLES FROM anon, authenticated;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public
+    REVOKE USAGE, UPDATE ON SEQUENCES FROM anon, authenticated;
+
+-- Password hashes are not public; the user admin page reads through /api/users
+DROP POLICY IF EXISTS "Public read user info" ON users;
+REVOKE SELECT ON users FROM anon, authenticated;
@@ -0,0 +1,31 @@
+-- Session management: sessions get an id that can be shown to the browser
+-- (the token never is), the device and address they were opened from, and a
+-- last-seen time. Expiry slides forward while a session is used, and expired
+-- rows are purged on a schedule instead of only when their token is next sent.
+
+ALTER TABLE sessions ADD COLUMN id UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE;
+ALTER TABLE sessions ADD COLUMN user_agent TEXT;
+ALTER TABLE sessions ADD COLUMN ip_address TEXT;
+ALTER TABLE sessions ADD COLUMN last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions(user_id);
+
+COMMENT ON COLUMN sessions.id IS 'Public handle used to list and revoke a session without exposing its token';
+COMMENT ON COLUMN sessions.last_seen_at IS 'Last request made with the session, updated at most every few minutes';
+
+CREATE OR REPLACE FUNCTION purge_expired_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+    purged INTEGER;
+BEGIN
+    DELETE FROM sessions WHERE expires_at < now();
+    GET DIAGNOSTICS purged = ROW_COUNT;
+    RETURN purged;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_sessions() FROM PUBLIC, anon, authenticated;
+
+-- Hourly purge
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+SELECT cron.schedule('purge-expired-sessions', '0 * * * *', 'SELECT purge_expired_sessions()');
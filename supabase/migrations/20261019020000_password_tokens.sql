@@ -0,0 +1,40 @@
+-- Invitations and password resets: admins invite users by email instead of
+-- choosing their passwords, and anyone can reset a forgotten password. Both
+-- send a one-time link whose token is stored only as a SHA-256 hash.
+
+-- Invited users have no password until they follow their link
+ALTER TABLE users ALTER COLUMN password_hash DROP NOT NULL;
+ALTER TABLE users ADD COLUMN password_set_at TIMESTAMPTZ;
+UPDATE users SET password_set_at = created_at WHERE password_hash IS NOT NULL;
+
+COMMENT ON COLUMN users.password_set_at IS 'When the user last set their password; NULL while an invitation is pending';
+
+CREATE TABLE password_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    token_hash TEXT NOT NULL UNIQUE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    purpose VARCHAR(10) NOT NULL CHECK (purpose IN ('invite', 'reset')),
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_password_tokens_user_id ON password_tokens(user_id);
+
+-- Only the service role reads or writes tokens
+ALTER TABLE password_tokens ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON password_tokens FROM anon, authenticated;
+
+-- Tokens are purged with the hourly session purge, a week after they expire
+CREATE OR REPLACE FUNCTION purge_expired_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+    purged INTEGER;
+BEGIN
+    DELETE FROM sessions WHERE expires_at < now();
+    GET DIAGNOSTICS purged = ROW_COUNT;
+    DELETE FROM password_tokens WHERE expires_at < now() - INTERVAL '7 days';
+    RETURN purged;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,61 @@
+-- The run selected for an upload, its metadata and the upload's link to it are
+-- written in the import transaction, so a failed import leaves the run as it
+-- was. The existing import becomes an inner step of the new function.
+
+ALTER FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB, JSONB, TEXT)
+    RENAME TO import_metabarcode_rows;
+
+-- p_run_metadata holds only the fields to set (see lib/sequencingRuns
+-- parseRunMetadata); fields it does not name are left alone
+CREATE OR REPLACE FUNCTION import_metabarcode_upload(
+    p_uploaded_by UUID,
+    p_filename TEXT,
+    p_file_size INTEGER,
+    p_samples JSONB,
+    p_controls JSONB DEFAULT '[]'::JSONB,
+    p_decontamination_mode TEXT DEFAULT NULL,
+    p_sequencing_run TEXT DEFAULT NULL,
+    p_run_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_run_id UUID;
+    v_result JSONB;
+BEGIN
+    IF p_sequencing_run IS NOT NULL THEN
+        INSERT INTO sequencing_runs (name, created_by)
+        VALUES (p_sequencing_run, p_uploaded_by)
+        ON CONFLICT (name) DO NOTHING;
+
+        SELECT id INTO v_run_id FROM sequencing_runs WHERE name = p_sequencing_run;
+
+        IF p_run_metadata <> '{}'::JSONB THEN
+            UPDATE sequencing_runs
+            SET primer_set = CASE WHEN p_run_metadata ? 'primer_set' THEN p_run_metadata->>'primer_set' ELSE primer_set END,
+                platform = CASE WHEN p_run_metadata ? 'platform' THEN p_run_metadata->>'platform' ELSE platform END,
+                pipeline_version = CASE WHEN p_run_metadata ? 'pipeline_version' THEN p_run_metadata->>'pipeline_version' ELSE pipeline_version END,
+                run_date = CASE WHEN p_run_metadata ? 'run_date' THEN (p_run_metadata->>'run_date')::DATE ELSE run_date END,
+                notes = CASE WHEN p_run_metadata ? 'notes' THEN p_run_metadata->>'notes' ELSE notes END,
+                updated_at = NOW()
+            WHERE id = v_run_id;
+        END IF;
+    END IF;
+
+    v_result := import_metabarcode_rows(
+        p_uploaded_by, p_filename, p_file_size, p_samples, p_controls, p_decontamination_mode
+    );
+
+    IF v_run_id IS NOT NULL THEN
+        UPDATE upload_batches
+        SET sequencing_run_id = v_run_id
+        WHERE id = (v_result->>'batch_id')::UUID;
+    END IF;
+
+    RETURN v_result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB, JSONB, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB, JSONB, TEXT, TEXT, JSONB) TO service_role;
@@ -0,0 +1,7 @@
+-- Uploads from the field outbox send their entry id as an idempotency key. A
+-- retry after the response was lost finds the route the first attempt created
+-- instead of failing on its now-used sample ID.
+
+ALTER TABLE sampling_routes ADD COLUMN upload_key VARCHAR(100) UNIQUE;
+
+COMMENT ON COLUMN sampling_routes.upload_key IS 'Idempotency key of the outbox upload that created the route';
@@ -0,0 +1,47 @@
+-- Replacing a route's track from an uploaded file updates the route, removes
+-- its old fixes and inserts the new ones in one transaction, so a failure part
+-- way through leaves the previous track in place.
+
+-- p_route holds the route fields to set (start/end coordinates always; names
+-- and collection times only when the file or form supplied them). p_points is
+-- an array of { latitude, longitude, recorded_at } in track order.
+CREATE OR REPLACE FUNCTION replace_route_track(
+    p_route_id UUID,
+    p_route JSONB,
+    p_points JSONB,
+    p_recorded_by UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_route sampling_routes;
+BEGIN
+    UPDATE sampling_routes
+    SET start_latitude = (p_route->>'start_latitude')::DECIMAL,
+        start_longitude = (p_route->>'start_longitude')::DECIMAL,
+        end_latitude = (p_route->>'end_latitude')::DECIMAL,
+        end_longitude = (p_route->>'end_longitude')::DECIMAL,
+        start_name = CASE WHEN p_route ? 'start_name' THEN p_route->>'start_name' ELSE start_name END,
+        end_name = CASE WHEN p_route ? 'end_name' THEN p_route->>'end_name' ELSE end_name END,
+        collection_start_time = CASE WHEN p_route ? 'collection_start_time' THEN (p_route->>'collection_start_time')::TIMESTAMPTZ ELSE collection_start_time END,
+        collection_end_time = CASE WHEN p_route ? 'collection_end_time' THEN (p_route->>'collection_end_time')::TIMESTAMPTZ ELSE collection_end_time END
+    WHERE id = p_route_id
+    RETURNING * INTO v_route;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Route % not found', p_route_id;
+    END IF;
+
+    DELETE FROM gps_tracking_points WHERE route_id = p_route_id;
+
+    INSERT INTO gps_tracking_points (route_id, latitude, longitude, recorded_at, recorded_by)
+    SELECT p_route_id, p.latitude, p.longitude, p.recorded_at, p_recorded_by
+    FROM jsonb_to_recordset(p_points) AS p(latitude DECIMAL, longitude DECIMAL, recorded_at TIMESTAMPTZ);
+
+    RETURN to_jsonb(v_route);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION replace_route_track(UUID, JSONB, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_route_track(UUID, JSONB, JSONB, UUID) TO service_role;
@@ -0,0 +1,35 @@
+-- Track quality control results are written in one transaction: the route's
+-- fixes are cleared, the left-out ones marked and the stats stored together,
+-- so a failure part way through leaves the previous result in place.
+
+-- p_excluded is an array of { id, qc } for the fixes left out of the cleaned
+-- track; every other fix of the route is part of it
+CREATE OR REPLACE FUNCTION apply_track_qc(
+    p_route_id UUID,
+    p_excluded JSONB,
+    p_stats JSONB,
+    p_speed_flag TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE gps_tracking_points
+    SET qc = NULL
+    WHERE route_id = p_route_id AND qc IS NOT NULL;
+
+    UPDATE gps_tracking_points g
+    SET qc = e.qc
+    FROM jsonb_to_recordset(p_excluded) AS e(id UUID, qc VARCHAR)
+    WHERE g.id = e.id AND g.route_id = p_route_id;
+
+    UPDATE sampling_routes
+    SET track_stats = p_stats,
+        track_speed_flag = p_speed_flag,
+        track_processed_at = NOW()
+    WHERE id = p_route_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_track_qc(UUID, JSONB, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_track_qc(UUID, JSONB, JSONB, TEXT) TO service_role;
@@ -0,0 +1,252 @@
+-- Rolling back an upload also undoes what it did to sequencing runs: runs it
+-- created are deleted and runs whose metadata or decontamination mode it
+-- changed get their previous values back. The import records both in
+-- upload_batch_changes, comparing the runs it names before and after.
+
+ALTER TABLE upload_batch_changes DROP CONSTRAINT upload_batch_changes_table_name_check;
+ALTER TABLE upload_batch_changes ADD CONSTRAINT upload_batch_changes_table_name_check
+    CHECK (table_name IN ('sampling_routes', 'pathogen_detections', 'run_controls', 'sequencing_runs'));
+
+CREATE OR REPLACE FUNCTION import_metabarcode_upload(
+    p_uploaded_by UUID,
+    p_filename TEXT,
+    p_file_size INTEGER,
+    p_samples JSONB,
+    p_controls JSONB DEFAULT '[]'::JSONB,
+    p_decontamination_mode TEXT DEFAULT NULL,
+    p_sequencing_run TEXT DEFAULT NULL,
+    p_run_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_run_id UUID;
+    v_result JSONB;
+    v_run_names TEXT[];
+    v_runs_before JSONB;
+BEGIN
+    -- Runs the upload names, as they were before it; compared afterwards to
+    -- record which it created or changed
+    SELECT array_agg(DISTINCT name) INTO v_run_names
+    FROM (
+        SELECT s->>'sequencing_run' AS name FROM jsonb_array_elements(p_samples) s
+        UNION
+        SELECT s->>'sequencing_run' FROM jsonb_array_elements(p_controls) s
+        UNION
+        SELECT p_sequencing_run
+    ) named
+    WHERE name IS NOT NULL;
+
+    SELECT COALESCE(jsonb_object_agg(id, to_jsonb(r)), '{}'::JSONB) INTO v_runs_before
+    FROM sequencing_runs r
+    WHERE name = ANY(COALESCE(v_run_names, '{}'));
+
+    IF p_sequencing_run IS NOT NULL THEN
+        INSERT INTO sequencing_runs (name, created_by)
+        VALUES (p_sequencing_run, p_uploaded_by)
+        ON CONFLICT (name) DO NOTHING;
+
+        SELECT id INTO v_run_id FROM sequencing_runs WHERE name = p_sequencing_run;
+
+        IF p_run_metadata <> '{}'::JSONB THEN
+            UPDATE sequencing_runs
+            SET primer_set = CASE WHEN p_run_metadata ? 'primer_set' THEN p_run_metadata->>'primer_set' ELSE primer_set END,
+                platform = CASE WHEN p_run_metadata ? 'platform' THEN p_run_metadata->>'platform' ELSE platform END,
+                pipeline_version = CASE WHEN p_run_metadata ? 'pipeline_version' THEN p_run_metadata->>'pipeline_version' ELSE pipeline_version END,
+                run_date = CASE WHEN p_run_metadata ? 'run_date' THEN (p_run_metadata->>'run_date')::DATE ELSE run_date END,
+                notes = CASE WHEN p_run_metadata ? 'notes' THEN p_run_metadata->>'notes' ELSE notes END,
+                updated_at = NOW()
+            WHERE id = v_run_id;
+        END IF;
+    END IF;
+
+    v_result := import_metabarcode_rows(
+        p_uploaded_by, p_filename, p_file_size, p_samples, p_controls, p_decontamination_mode
+    );
+
+    IF v_run_id IS NOT NULL THEN
+        UPDATE upload_batches
+        SET sequencing_run_id = v_run_id
+        WHERE id = (v_result->>'batch_id')::UUID;
+    END IF;
+
+    INSERT INTO upload_batch_changes (batch_id, table_name, record_id, route_id, action, previous)
+    SELECT (v_result->>'batch_id')::UUID, 'sequencing_runs', r.id, NULL,
+           CASE WHEN v_runs_before ? r.id::TEXT THEN 'update' ELSE 'insert' END,
+           v_runs_before->(r.id::TEXT)
+    FROM sequencing_runs r
+    WHERE r.name = ANY(COALESCE(v_run_names, '{}'))
+      AND (NOT v_runs_before ? r.id::TEXT OR to_jsonb(r) IS DISTINCT FROM v_runs_before->(r.id::TEXT));
+
+    RETURN v_result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB, JSONB, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_metabarcode_upload(UUID, TEXT, INTEGER, JSONB, JSONB, TEXT, TEXT, JSONB) TO service_role;
+
+-- Run changes are undone last, after the routes and controls that refer to the runs
+CREATE OR REPLACE FUNCTION rollback_upload_batch(
+    p_batch_id UUID,
+    p_rolled_back_by UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_batch upload_batches%ROWTYPE;
+    v_change upload_batch_changes%ROWTYPE;
+    v_runs UUID[];
+    v_routes_deleted INTEGER := 0;
+    v_detections_deleted INTEGER := 0;
+    v_detections_restored INTEGER := 0;
+    v_routes_restored INTEGER := 0;
+    v_controls_deleted INTEGER := 0;
+    v_controls_restored INTEGER := 0;
+    v_runs_deleted INTEGER := 0;
+    v_runs_restored INTEGER := 0;
+BEGIN
+    SELECT * INTO v_batch FROM upload_batches WHERE id = p_batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Upload batch % not found', p_batch_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_batch.rolled_back_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Upload batch has already been rolled back' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM upload_batch_changes later
+        JOIN upload_batches b ON b.id = later.batch_id
+        WHERE b.id <> p_batch_id
+          AND b.created_at > v_batch.created_at
+          AND b.rolled_back_at IS NULL
+          AND (
+              later.record_id IN (SELECT record_id FROM upload_batch_changes WHERE batch_id = p_batch_id)
+              OR later.route_id IN (
+                  SELECT record_id FROM upload_batch_changes
+                  WHERE batch_id = p_batch_id AND table_name = 'sampling_routes'
+              )
+          )
+    ) THEN
+        RAISE EXCEPTION 'A later upload changed the same samples; roll that upload back first' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Runs whose decontamination depends on what the batch touched, before routes are deleted
+    SELECT array_agg(DISTINCT run_id) INTO v_runs
+    FROM (
+        SELECT r.sequencing_run_id AS run_id
+        FROM upload_batch_changes c
+        JOIN sampling_routes r ON r.id = c.route_id
+        WHERE c.batch_id = p_batch_id
+        UNION
+        SELECT (c.previous->>'sequencing_run_id')::UUID
+        FROM upload_batch_changes c
+        WHERE c.batch_id = p_batch_id AND c.table_name = 'sampling_routes'
+        UNION
+        SELECT rc.run_id
+        FROM upload_batch_changes c
+        JOIN run_controls rc ON rc.id = c.record_id
+        WHERE c.batch_id = p_batch_id AND c.table_name = 'run_controls'
+        UNION
+        SELECT c.record_id
+        FROM upload_batch_changes c
+        WHERE c.batch_id = p_batch_id AND c.table_name = 'sequencing_runs' AND c.action = 'update'
+    ) touched
+    WHERE run_id IS NOT NULL;
+
+    -- Undo detections and controls first, newest change first, then routes, then
+    -- the runs, once nothing the batch wrote refers to them
+    FOR v_change IN
+        SELECT * FROM upload_batch_changes
+        WHERE batch_id = p_batch_id
+        ORDER BY CASE table_name WHEN 'sequencing_runs' THEN 2 WHEN 'sampling_routes' THEN 1 ELSE 0 END, id DESC
+    LOOP
+        IF v_change.table_name = 'pathogen_detections' AND v_change.action = 'insert' THEN
+            DELETE FROM pathogen_detections WHERE id = v_change.record_id;
+            v_detections_deleted := v_detections_deleted + 1;
+        ELSIF v_change.table_name = 'pathogen_detections' AND v_change.action = 'update' THEN
+            UPDATE pathogen_detections
+            SET read_count = (v_change.previous->>'read_count')::INTEGER,
+                upload_batch_id = (v_change.previous->>'upload_batch_id')::UUID
+            WHERE id = v_change.record_id;
+            v_detections_restored := v_detections_restored + 1;
+        ELSIF v_change.table_name = 'run_controls' AND v_change.action = 'insert' THEN
+            DELETE FROM run_controls WHERE id = v_change.record_id;
+            v_controls_deleted := v_controls_deleted + 1;
+        ELSIF v_change.table_name = 'run_controls' AND v_change.action = 'update' THEN
+            UPDATE run_controls
+            SET control_type = v_change.previous->>'control_type',
+                upload_batch_id = (v_change.previous->>'upload_batch_id')::UUID
+            WHERE id = v_change.record_id;
+
+            DELETE FROM control_detections WHERE control_id = v_change.record_id;
+            INSERT INTO control_detections (control_id, pathogen_species_id, read_count)
+            SELECT v_change.record_id, (d->>'pathogen_species_id')::UUID, (d->>'read_count')::INTEGER
+            FROM jsonb_array_elements(v_change.previous->'detections') d;
+            v_controls_restored := v_controls_restored + 1;
+        ELSIF v_change.table_name = 'sampling_routes' AND v_change.action = 'insert' THEN
+            DELETE FROM sampling_routes WHERE id = v_change.record_id;
+            v_routes_deleted := v_routes_deleted + 1;
+        ELSIF v_change.table_name = 'sampling_routes' AND v_change.action = 'update' THEN
+            UPDATE sampling_routes
+            SET total_reads = (v_change.previous->>'total_reads')::INTEGER,
+                fungal_reads = (v_change.previous->>'fungal_reads')::INTEGER,
+                sequencing_run_id = (v_change.previous->>'sequencing_run_id')::UUID,
+                upload_batch_id = (v_change.previous->>'upload_batch_id')::UUID
+            WHERE id = v_change.record_id;
+            v_routes_restored := v_routes_restored + 1;
+        ELSIF v_change.table_name = 'sequencing_runs' AND v_change.action = 'insert' THEN
+            -- Kept if samples or controls from other uploads have since been linked to it
+            IF NOT EXISTS (SELECT 1 FROM sampling_routes WHERE sequencing_run_id = v_change.record_id)
+               AND NOT EXISTS (SELECT 1 FROM run_controls WHERE run_id = v_change.record_id)
+               AND NOT EXISTS (
+                   SELECT 1 FROM upload_batches
+                   WHERE sequencing_run_id = v_change.record_id AND id <> p_batch_id
+               )
+            THEN
+                DELETE FROM sequencing_runs WHERE id = v_change.record_id;
+                v_runs_deleted := v_runs_deleted + 1;
+            END IF;
+        ELSIF v_change.table_name = 'sequencing_runs' AND v_change.action = 'update' THEN
+            UPDATE sequencing_runs
+            SET decontamination_mode = v_change.previous->>'decontamination_mode',
+                primer_set = v_change.previous->>'primer_set',
+                platform = v_change.previous->>'platform',
+                pipeline_version = v_change.previous->>'pipeline_version',
+                run_date = (v_change.previous->>'run_date')::DATE,
+                notes = v_change.previous->>'notes',
+                updated_at = (v_change.previous->>'updated_at')::TIMESTAMPTZ
+            WHERE id = v_change.record_id;
+            v_runs_restored := v_runs_restored + 1;
+        END IF;
+    END LOOP;
+
+    PERFORM decontaminate_sequencing_run(run_id)
+    FROM unnest(COALESCE(v_runs, '{}')) AS run_id
+    WHERE EXISTS (SELECT 1 FROM sequencing_runs WHERE id = run_id);
+
+    UPDATE sample_uploads SET processing_status = 'rolled_back' WHERE batch_id = p_batch_id;
+
+    UPDATE upload_batches
+    SET rolled_back_at = NOW(), rolled_back_by = p_rolled_back_by
+    WHERE id = p_batch_id;
+
+    RETURN jsonb_build_object(
+        'routes_deleted', v_routes_deleted,
+        'detections_deleted', v_detections_deleted,
+        'detections_restored', v_detections_restored,
+        'routes_restored', v_routes_restored,
+        'controls_deleted', v_controls_deleted,
+        'controls_restored', v_controls_restored,
+        'runs_deleted', v_runs_deleted,
+        'runs_restored', v_runs_restored
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION rollback_upload_batch(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rollback_upload_batch(UUID, UUID) TO service_role;
@@ -0,0 +1,6 @@
+-- Severity is classified strictly above the thresholds (lib/severity
+-- classifySeverity), as the global read-count rule they replaced was: a
+-- detection exactly at medium_threshold is low.
+
+COMMENT ON COLUMN pathogen_species.medium_threshold IS 'Detections above this are medium severity';
+COMMENT ON COLUMN pathogen_species.high_threshold IS 'Detections above this are high severity';